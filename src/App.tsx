@@ -6,6 +6,9 @@ import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { useEffect, useRef, useState } from "react";
 import Index from "./pages/Index";
 import Comparison from "./pages/Comparison";
+import Worksheet from "./pages/Worksheet";
+import Lessons from "./pages/Lessons";
+import Practice from "./pages/Practice";
 import NotFound from "./pages/NotFound";
 import SEO from "@/components/SEO";
 import {
@@ -236,6 +239,48 @@ const AppShell = () => {
             </>
           }
         />
+        <Route
+          path="/lessons"
+          element={
+            <>
+              <SEO
+                title="Guided Algorithm Lessons | Algovx"
+                description="Step-by-step lessons on sorting, searching and graph algorithms, with narration and checkpoints that check your understanding as you go."
+                canonicalPath="/lessons"
+                ogImage="/og.png"
+              />
+              <Lessons />
+            </>
+          }
+        />
+        <Route
+          path="/practice"
+          element={
+            <>
+              <SEO
+                title="Algorithm Complexity Practice | Algovx"
+                description="Flashcards on time and space complexity, stability and algorithm traces, scheduled with spaced repetition so you review each one just before you forget it."
+                canonicalPath="/practice"
+                ogImage="/og.png"
+              />
+              <Practice />
+            </>
+          }
+        />
+        <Route
+          path="/worksheet"
+          element={
+            <>
+              <SEO
+                title="Printable Worksheet | Algovx"
+                noindex
+                canonicalPath="/worksheet"
+                ogImage="/og.png"
+              />
+              <Worksheet />
+            </>
+          }
+        />
         <Route
           path="*"
           element={
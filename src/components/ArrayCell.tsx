@@ -12,6 +12,9 @@ interface ArrayCellProps {
   isSmall?: boolean;
   dimmed?: boolean;
   cellRef?: React.Ref<HTMLDivElement>;
+  // Manual mode: the cell can be clicked, and is ringed while picked.
+  selected?: boolean;
+  onSelect?: () => void;
 }
 
 // Get animation type based on highlight state
@@ -193,6 +196,8 @@ export const ArrayCell: React.FC<ArrayCellProps> = ({
   isSmall = false,
   dimmed = false,
   cellRef,
+  selected = false,
+  onSelect,
 }) => {
   const cellClass = getCellClass(index, highlights);
   const activePointers = Object.entries(pointers)
@@ -203,7 +208,14 @@ export const ArrayCell: React.FC<ArrayCellProps> = ({
   const slowMotion = !enableLayout;
 
   return (
-    <div ref={cellRef} className="relative" data-cell-index={index}>
+    <div
+      ref={cellRef}
+      className={`relative ${onSelect ? 'cursor-pointer' : ''}`}
+      data-cell-index={index}
+      onClick={onSelect}
+      role={onSelect ? 'button' : undefined}
+      aria-pressed={onSelect ? selected : undefined}
+    >
       {/* Pointer labels - fixed positioning for mobile stability */}
       {activePointers.length > 0 && !isSmall && (
         <div 
@@ -225,7 +237,7 @@ export const ArrayCell: React.FC<ArrayCellProps> = ({
       <motion.div 
         layout={enableLayout}
         layoutId={layoutId} 
-        className={`array-cell ${cellClass} ${isSmall ? 'w-8 h-8 text-sm' : ''} relative overflow-visible`} 
+        className={`array-cell ${cellClass} ${isSmall ? 'w-8 h-8 text-sm' : ''} ${selected ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''} relative overflow-visible`} 
         style={dimmed ? { opacity: 0.25, filter: 'saturate(0.8)' } : undefined}
         animate={getAnimation(animType, isHighlighted)}
         transition={{ 
@@ -0,0 +1,47 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AuxiliaryArray } from '@/lib/stepTypes';
+
+interface AuxiliaryArraysProps {
+  arrays: AuxiliaryArray[];
+}
+
+// Count arrays, buckets and merge buffers drawn under the main StepRow.
+export const AuxiliaryArrays: React.FC<AuxiliaryArraysProps> = ({ arrays }) => {
+  // Many short arrays (radix/bucket buckets) wrap as a grid of cards; one or two long ones get a row each.
+  const compact = arrays.length > 2;
+
+  return (
+    <div className={compact ? 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2' : 'space-y-2'}>
+      {arrays.map((aux) => (
+        <div key={aux.label} className="rounded-lg border border-border bg-card/50 p-2 min-w-0">
+          <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-1.5 truncate">{aux.label}</div>
+          <div className="flex flex-wrap gap-1 min-h-[32px]">
+            {aux.values.length === 0 ? (
+              <span className="text-xs text-muted-foreground italic self-center">empty</span>
+            ) : (
+              aux.values.map((value, i) => {
+                const highlighted = aux.highlight.includes(i);
+                return (
+                  <span key={i} className="flex flex-col items-center">
+                    <motion.span
+                      key={`${i}-${value}`}
+                      initial={highlighted ? { scale: 0.7 } : false}
+                      animate={{ scale: 1 }}
+                      className={`min-w-[28px] px-1.5 py-1 rounded-md font-mono text-xs text-center border transition-colors ${
+                        highlighted ? 'bg-key/25 border-key text-foreground' : value === null ? 'border-dashed border-border text-muted-foreground' : 'bg-secondary border-border text-foreground'
+                      }`}
+                    >
+                      {value ?? '·'}
+                    </motion.span>
+                    <span className="text-[9px] text-muted-foreground font-mono">{aux.indexLabels?.[i] ?? i}</span>
+                  </span>
+                );
+              })
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
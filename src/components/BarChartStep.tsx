@@ -13,6 +13,10 @@ interface BarChartStepProps {
   axisAreaPx?: number;
   density?: 'normal' | 'dense';
   allowHorizontalScroll?: boolean;
+  // Manual mode: bars can be clicked to pick them, or dragged onto another bar.
+  selectedIndices?: number[];
+  onBarClick?: (index: number) => void;
+  onBarDrop?: (from: number, to: number) => void;
 }
 
 const ease: [number, number, number, number] = [0.22, 1, 0.36, 1];
@@ -85,6 +89,9 @@ export const BarChartStep: React.FC<BarChartStepProps> = ({
   axisAreaPx = AXIS_AREA_PX,
   density = 'normal',
   allowHorizontalScroll = true,
+  selectedIndices = [],
+  onBarClick,
+  onBarDrop,
 }) => {
   const [phase, setPhase] = useState<Phase>('before');
   const [animationsEnabled, setAnimationsEnabled] = useState(false);
@@ -312,8 +319,21 @@ export const BarChartStep: React.FC<BarChartStepProps> = ({
                 <div
                   key={`slot-${stepIndex}-${index}`}
                   data-bar-index={index}
-                  className={`relative flex-1 ${minW}`}
+                  className={`relative flex-1 ${minW} ${onBarClick || onBarDrop ? 'cursor-pointer' : ''}`}
                   style={{ height: barAreaPx }}
+                  onClick={onBarClick ? () => onBarClick(index) : undefined}
+                  draggable={!!onBarDrop}
+                  onDragStart={onBarDrop ? (e) => e.dataTransfer.setData('text/plain', String(index)) : undefined}
+                  onDragOver={onBarDrop ? (e) => e.preventDefault() : undefined}
+                  onDrop={
+                    onBarDrop
+                      ? (e) => {
+                          e.preventDefault();
+                          const from = Number(e.dataTransfer.getData('text/plain'));
+                          if (Number.isInteger(from) && from !== index) onBarDrop(from, index);
+                        }
+                      : undefined
+                  }
                 >
                   {/* Pointer chips */}
                   {pointers.length > 0 && (
@@ -349,7 +369,7 @@ export const BarChartStep: React.FC<BarChartStepProps> = ({
 
                   {/* Bar anchored to baseline */}
                   <motion.div
-                    className={`absolute bottom-0 left-0 right-0 rounded-md shadow-sm ${indicator.fill ?? 'bg-sky-300/80'} ${indicator.ring ?? ''}`}
+                    className={`absolute bottom-0 left-0 right-0 rounded-md shadow-sm ${indicator.fill ?? 'bg-sky-300/80'} ${selectedIndices.includes(index) ? 'ring-2 ring-primary' : indicator.ring ?? ''}`}
                     style={{
                       opacity: indicator.dim ? 0.28 : isSwapIndex ? 0 : dimBecauseSwapGhost ? 0.35 : 1,
                     }}
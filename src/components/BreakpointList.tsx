@@ -0,0 +1,86 @@
+import React from 'react';
+import { CircleDot, HelpCircle, X } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { getSourceListing } from '@/lib/algorithms/codeLanguages';
+import { Breakpoint, breakpointLabel } from '@/lib/breakpoints';
+import { compileExpression } from '@/lib/stepExpression';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface BreakpointListProps {
+  definition: AlgorithmDefinition;
+  // The sandbox's traced code, whose lines its breakpoints point at.
+  sandboxCode: string;
+}
+
+// The code on a breakpoint's line, for a reminder of where it sits.
+function lineText(definition: AlgorithmDefinition, sandboxCode: string, bp: Breakpoint): string {
+  if (definition.requirements.inputKind === 'code') return sandboxCode.split('\n')[bp.line] ?? '';
+  if (bp.language === 'pseudocode') return definition.pseudocode.find((l) => l.line === bp.line)?.code ?? '';
+  return getSourceListing(definition, bp.language)?.code.split('\n')[bp.line] ?? '';
+}
+
+export const BreakpointList: React.FC<BreakpointListProps> = ({ definition, sandboxCode }) => {
+  const { breakpoints, breakpointHitId, updateBreakpoint, removeBreakpoint, clearBreakpoints } = useDebuggerStore();
+  const own = breakpoints.filter((bp) => bp.algorithm === definition.info.id);
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 bg-muted/30 flex items-center gap-2">
+        <CircleDot className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Breakpoints</span>
+        <Tooltip>
+          <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+          <TooltipContent className="tooltip-content">
+            <p>Conditions can use arr, after, n, comparisons, swaps, passes and every name in the Watch list, e.g. swaps &gt; 5, pointers.j == 3 or arr[i] &gt; pivot. Pointers hold indices.</p>
+          </TooltipContent>
+        </Tooltip>
+        {own.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={clearBreakpoints} className="ml-auto h-6 px-2 text-[10px] text-muted-foreground">
+            Clear all
+          </Button>
+        )}
+      </div>
+      <div className="p-3 space-y-2">
+        {own.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Click a line number in the code to pause autoplay there.</p>
+        ) : (
+          own.map((bp) => {
+            const error = bp.condition.trim() === '' ? null : compileExpression(bp.condition).error;
+            return (
+              <div
+                key={bp.id}
+                className={`p-2 rounded-lg border space-y-1.5 ${bp.id === breakpointHitId ? 'border-swap bg-swap/10' : 'border-border bg-secondary/50'}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <Checkbox
+                    checked={bp.enabled}
+                    onCheckedChange={(checked) => updateBreakpoint(bp.id, { enabled: checked === true })}
+                    aria-label="Enabled"
+                  />
+                  <span className="text-[10px] font-semibold text-foreground shrink-0">{breakpointLabel(bp)}</span>
+                  <span className="text-[10px] font-mono text-muted-foreground truncate">{lineText(definition, sandboxCode, bp).trim()}</span>
+                  <Button variant="ghost" size="icon" onClick={() => removeBreakpoint(bp.id)} className="ml-auto h-5 w-5 shrink-0" aria-label="Remove breakpoint">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+                <Input
+                  value={bp.condition}
+                  onChange={(e) => updateBreakpoint(bp.id, { condition: e.target.value })}
+                  placeholder="Condition (optional), e.g. swaps > 5"
+                  spellCheck={false}
+                  aria-invalid={error !== null}
+                  className={`h-7 font-mono text-[10px] md:text-xs bg-background/60 ${error ? 'border-swap' : ''}`}
+                />
+                {error && <p className="text-[10px] text-swap">{error}</p>}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
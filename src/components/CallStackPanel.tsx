@@ -0,0 +1,50 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { StackFrame } from '@/lib/stepTypes';
+
+const formatCall = (frame: StackFrame) =>
+  `${frame.name}(${Object.entries(frame.args).map(([name, value]) => `${name}=${value}`).join(', ')})`;
+
+const formatReturn = (value: StackFrame['returnValue']) => (Array.isArray(value) ? `[${value.join(', ')}]` : String(value));
+
+// Recursive algorithms only: the pending calls at this step, innermost on top like a debugger's stack.
+export const CallStackPanel: React.FC = () => {
+  const { steps, currentStepIndex, goToStep } = useDebuggerStore();
+  const callStack = steps[currentStepIndex]?.callStack;
+  if (!callStack) return null;
+
+  const frames = [...callStack].reverse();
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 bg-muted/30 flex items-center gap-2">
+        <Layers className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Call Stack</span>
+        <span className="ml-auto text-[10px] font-mono text-muted-foreground">depth {callStack.length}</span>
+      </div>
+      <div className="p-3 space-y-1">
+        {frames.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No calls in progress.</p>
+        ) : (
+          frames.map((frame, index) => (
+            <button
+              key={`${frame.enteredAt}-${frame.name}`}
+              onClick={() => goToStep(frame.enteredAt)}
+              title={`Jump to step ${frame.enteredAt + 1}, where this call was entered`}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded-md border text-left font-mono text-[10px] md:text-xs transition-colors ${
+                index === 0 ? 'bg-primary/10 border-primary/60 text-foreground' : 'bg-secondary/50 border-border text-muted-foreground hover:bg-secondary'
+              }`}
+            >
+              <span className="truncate">{formatCall(frame)}</span>
+              {frame.returnValue !== undefined && (
+                <span className="shrink-0 text-sorted">→ {formatReturn(frame.returnValue)}</span>
+              )}
+              <span className="ml-auto shrink-0 text-[9px] text-muted-foreground/70">#{frame.enteredAt + 1}</span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
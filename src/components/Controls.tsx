@@ -1,15 +1,34 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Play, Pause, SkipForward, SkipBack, RotateCcw, Shuffle, Zap, HelpCircle, Layers, Target } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, RotateCcw, Shuffle, Zap, HelpCircle, Layers, Target, Share2, ListRestart, SlidersHorizontal, FileCode2, AlertTriangle, Loader2, Eraser, Undo2, Redo2, CornerUpLeft, CornerUpRight, ArrowLeftToLine, ArrowRightToLine, GraduationCap, Hand, ShieldAlert } from 'lucide-react';
 import { useDebuggerStore } from '@/store/useDebuggerStore';
-import { SORTING_ALGORITHMS, SEARCHING_ALGORITHMS } from '@/lib/stepTypes';
+import { getAlgorithmsByCategory } from '@/lib/algorithms';
+import { SANDBOX_MAX_STEPS, SANDBOX_TIMEOUT_MS } from '@/lib/sandbox/sandboxTypes';
+import { ARRAY_PRESETS, MAX_ARRAY_SIZE } from '@/lib/algorithms/arrayInput';
+import { stepLine } from '@/lib/breakpoints';
+import { StepDirection, lineTarget, stepOutTarget, stepOverTarget } from '@/lib/stepNavigation';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { TraceFileControls } from '@/components/TraceFileControls';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 
 export const Controls: React.FC = () => {
   const {
@@ -22,6 +41,24 @@ export const Controls: React.FC = () => {
     setTargetInput,
     arraySize,
     setArraySize,
+    graphInput,
+    setGraphInput,
+    startNodeInput,
+    setStartNodeInput,
+    loadSampleGraph,
+    operationsInput,
+    setOperationsInput,
+    loadSampleOperations,
+    paramsInput,
+    setParamsInput,
+    loadSampleParams,
+    sandboxCode,
+    setSandboxCode,
+    resetSandboxCode,
+    sandboxRunning,
+    sandboxError,
+    pendingSandboxStep,
+    inputError,
     generateRandomArray,
     generateSteps,
     isPlaying,
@@ -29,6 +66,10 @@ export const Controls: React.FC = () => {
     pause,
     nextStep,
     prevStep,
+    stepOver,
+    stepOut,
+    runToCursor,
+    cursorLine,
     reset,
     playbackSpeed,
     setPlaybackSpeed,
@@ -36,14 +77,56 @@ export const Controls: React.FC = () => {
     currentStepIndex,
     viewMode,
     setViewMode,
+    resetToDefaults,
+    quizMode,
+    setQuizMode,
+    manualMode,
+    setManualMode,
   } = useDebuggerStore();
 
-  const algorithms = category === 'sorting' ? SORTING_ALGORITHMS : SEARCHING_ALGORITHMS;
-  const currentAlgorithm = algorithms.find(a => a.id === algorithm);
+  const definitions = getAlgorithmsByCategory(category);
+  const algorithms = definitions.map(d => d.info);
+  const currentDefinition = definitions.find(d => d.info.id === algorithm);
+  const currentAlgorithm = currentDefinition?.info;
   const hasSteps = steps.length > 0;
   const isAtStart = currentStepIndex === 0;
   const isAtEnd = currentStepIndex === steps.length - 1;
-  const isSearching = category === 'searching';
+  const needsTarget = currentDefinition?.requirements.needsTarget ?? false;
+  const needsSortedInput = currentDefinition?.requirements.needsSortedInput ?? false;
+  const needsStartNode = currentDefinition?.requirements.needsStartNode ?? false;
+  const inputKind = currentDefinition?.requirements.inputKind ?? 'array';
+
+  // Backward jumps on the left, forward on the right; each is disabled when it has nowhere to go.
+  const cursorTarget = (direction: StepDirection) =>
+    cursorLine && currentDefinition
+      ? lineTarget(steps, currentStepIndex, direction, cursorLine.line, (step) => stepLine(currentDefinition, cursorLine.language, step))
+      : null;
+  const debuggerJumps = [
+    { label: 'Run back to cursor', icon: ArrowLeftToLine, target: cursorTarget('backward'), run: () => runToCursor('backward') },
+    { label: 'Step back out', icon: CornerUpLeft, target: stepOutTarget(steps, currentStepIndex, 'backward'), run: () => stepOut('backward') },
+    { label: 'Step back over', icon: Undo2, target: stepOverTarget(steps, currentStepIndex, 'backward'), run: () => stepOver('backward') },
+    { label: 'Step over', icon: Redo2, target: stepOverTarget(steps, currentStepIndex, 'forward'), run: () => stepOver('forward') },
+    { label: 'Step out', icon: CornerUpRight, target: stepOutTarget(steps, currentStepIndex, 'forward'), run: () => stepOut('forward') },
+    { label: 'Run to cursor', icon: ArrowRightToLine, target: cursorTarget('forward'), run: () => runToCursor('forward') },
+  ];
+
+  // Tab indents instead of leaving the editor.
+  const handleCodeKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey) return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setSandboxCode(sandboxCode.slice(0, selectionStart) + '  ' + sandboxCode.slice(selectionEnd));
+    const editor = e.currentTarget;
+    requestAnimationFrame(() => editor.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  // Shown under whichever input the current algorithm reads.
+  const inputErrorNote = inputError && (
+    <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-swap">
+      <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+      <span>{inputError}</span>
+    </p>
+  );
 
   return (
     <div className="panel h-full flex flex-col">
@@ -72,7 +155,7 @@ export const Controls: React.FC = () => {
               {algorithms.map(algo => (
                 <SelectItem key={algo.id} value={algo.id}>
                   <span className="flex items-center gap-2">
-                    <span className={`w-2 h-2 rounded-full ${category === 'sorting' ? 'bg-primary' : 'bg-sorted'}`} />
+                    <span className={`w-2 h-2 rounded-full ${category === 'sorting' ? 'bg-primary' : category === 'graph' ? 'bg-key' : category === 'tree' ? 'bg-shift' : category === 'linear-structures' ? 'bg-pivot' : category === 'dynamic-programming' ? 'bg-compare' : category === 'sandbox' ? 'bg-swap' : 'bg-sorted'}`} />
                     {algo.name}
                   </span>
                 </SelectItem>
@@ -84,46 +167,232 @@ export const Controls: React.FC = () => {
           )}
         </div>
 
-        {/* Array Size Slider */}
-        <div className="space-y-2">
-          <div className="flex justify-between items-center">
-            <Label className="text-xs text-muted-foreground uppercase tracking-wider">Array Size</Label>
-            <span className="text-xs md:text-sm font-mono text-primary font-bold">{arraySize}</span>
-          </div>
-          <Slider value={[arraySize]} onValueChange={([v]) => setArraySize(v)} min={3} max={10} step={1} className="py-2" />
-        </div>
+        {inputKind === 'graph' ? (
+          <>
+            {/* Graph Input (edge list) */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Edges</Label>
+                <Tooltip>
+                  <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+                  <TooltipContent className="tooltip-content">
+                    <p>A-B undirected, A&gt;B directed, :4 sets a weight. Separate edges with commas or new lines.</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <div className="flex gap-2">
+                <Textarea
+                  value={graphInput}
+                  onChange={(e) => setGraphInput(e.target.value)}
+                  placeholder="A-B:4, A-C:2, B>D"
+                  rows={3}
+                  aria-invalid={inputError !== null}
+                  className={`font-mono text-xs md:text-sm bg-secondary border-border resize-none ${inputError ? 'border-swap' : ''}`}
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={loadSampleGraph} className="shrink-0 h-10 w-10 md:h-11 md:w-11">
+                      <Share2 className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent><p>Load sample graph</p></TooltipContent>
+                </Tooltip>
+              </div>
+              {inputErrorNote}
+            </div>
 
-        {/* Array Input */}
-        <div className="space-y-2">
-          <Label className="text-xs text-muted-foreground uppercase tracking-wider">Array (comma-separated)</Label>
-          <div className="flex gap-2">
-            <Input value={arrayInput} onChange={(e) => setArrayInput(e.target.value)} placeholder="23,1,10,5,2" className="font-mono text-xs md:text-sm bg-secondary border-border h-10 md:h-11" />
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button variant="outline" size="icon" onClick={generateRandomArray} className="shrink-0 h-10 w-10 md:h-11 md:w-11">
-                  <Shuffle className="w-4 h-4" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent><p>Generate random array</p></TooltipContent>
-            </Tooltip>
+            {/* Start Node Input (for traversals and single-source algorithms) */}
+            {needsStartNode && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Start Node</Label>
+                <Input value={startNodeInput} onChange={(e) => setStartNodeInput(e.target.value)} placeholder="A" className="font-mono text-xs md:text-sm bg-secondary border-border h-10 md:h-11" />
+              </div>
+            )}
+          </>
+        ) : inputKind === 'operations' ? (
+          /* Operations Input (trees and linear structures) */
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wider">Operations</Label>
+              <Tooltip>
+                <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>Comma-separated operations such as insert 5, delete 5, push 5 or pop, applied left to right to an empty structure. A bare number inserts; use insert 5 at 2 for a list position. Load the sample to see what this structure supports.</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <div className="flex gap-2">
+              <Textarea value={operationsInput} onChange={(e) => setOperationsInput(e.target.value)} placeholder="50, 30, 70, delete 30" rows={3} className="font-mono text-xs md:text-sm bg-secondary border-border resize-none" />
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon" onClick={loadSampleOperations} className="shrink-0 h-10 w-10 md:h-11 md:w-11">
+                    <ListRestart className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent><p>Load sample operations</p></TooltipContent>
+              </Tooltip>
+            </div>
           </div>
-        </div>
-
-        {/* Target Input (for searching) */}
-        {isSearching && (
+        ) : inputKind === 'params' ? (
+          /* Parameters Input (dynamic programming) */
           <div className="space-y-2">
-            <Label className="text-xs text-muted-foreground uppercase tracking-wider">Search Target</Label>
-            <Input value={targetInput} onChange={(e) => setTargetInput(e.target.value)} placeholder="10" className="font-mono text-xs md:text-sm bg-secondary border-border h-10 md:h-11" />
-            {algorithm !== 'linear-search' && (
-              <p className="text-[10px] md:text-xs text-muted-foreground">⚡ Array will be sorted automatically</p>
-            )}
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wider">Parameters</Label>
+              <Tooltip>
+                <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+                <TooltipContent className="tooltip-content">
+                  <p>One key = value per line, e.g. a = ABCBDAB or coins = 1, 3, 4. Load the sample to see the keys this algorithm reads. Strings can be up to 10 letters and lists up to 6 numbers, to keep the table readable.</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <div className="flex gap-2">
+              <Textarea
+                value={paramsInput}
+                onChange={(e) => setParamsInput(e.target.value)}
+                placeholder={'a = ABCBDAB\nb = BDCABA'}
+                rows={3}
+                aria-invalid={inputError !== null}
+                className={`font-mono text-xs md:text-sm bg-secondary border-border resize-none ${inputError ? 'border-swap' : ''}`}
+              />
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon" onClick={loadSampleParams} className="shrink-0 h-10 w-10 md:h-11 md:w-11">
+                    <SlidersHorizontal className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent><p>Load sample parameters</p></TooltipContent>
+              </Tooltip>
+            </div>
+            {inputErrorNote}
           </div>
+        ) : (
+          <>
+            {/* Array Size Slider */}
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Array Size</Label>
+                <span className="text-xs md:text-sm font-mono text-primary font-bold">{arraySize}</span>
+              </div>
+              <Slider value={[arraySize]} onValueChange={([v]) => setArraySize(v)} min={3} max={10} step={1} className="py-2" />
+            </div>
+
+            {/* Array Input */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Array</Label>
+                <Tooltip>
+                  <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+                  <TooltipContent className="tooltip-content">
+                    <p>Up to {MAX_ARRAY_SIZE} numbers separated by commas, spaces or new lines. Negatives, decimals, JSON arrays like [5, 3, 1] and ranges like 1..8 all work.</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <div className="flex gap-2">
+                <Textarea
+                  value={arrayInput}
+                  onChange={(e) => setArrayInput(e.target.value)}
+                  placeholder="23,1,10,5,2"
+                  rows={2}
+                  spellCheck={false}
+                  aria-invalid={inputError !== null}
+                  className={`min-h-0 font-mono text-xs md:text-sm bg-secondary border-border resize-y ${inputError ? 'border-swap' : ''}`}
+                />
+                <div className="flex flex-col gap-1 shrink-0">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="outline" size="icon" onClick={() => generateRandomArray()} className="h-10 w-10 md:h-11 md:w-11">
+                        <Shuffle className="w-4 h-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent><p>Generate random array</p></TooltipContent>
+                  </Tooltip>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 w-10 md:w-11 px-0 text-[10px] text-muted-foreground">
+                        Preset
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="text-xs">Generate {arraySize} values</DropdownMenuLabel>
+                      {ARRAY_PRESETS.map((preset) => (
+                        <DropdownMenuItem key={preset.id} onClick={() => generateRandomArray(preset.id)}>
+                          {preset.label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </div>
+              {inputErrorNote}
+            </div>
+
+            {/* Target Input (for algorithms that need one) */}
+            {needsTarget && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Search Target</Label>
+                <Input value={targetInput} onChange={(e) => setTargetInput(e.target.value)} placeholder="10" className="font-mono text-xs md:text-sm bg-secondary border-border h-10 md:h-11" />
+                {needsSortedInput && (
+                  <p className="text-[10px] md:text-xs text-muted-foreground">⚡ Array will be sorted automatically</p>
+                )}
+              </div>
+            )}
+
+            {/* Code Editor (sandbox) */}
+            {inputKind === 'code' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground uppercase tracking-wider">Code</Label>
+                  <Tooltip>
+                    <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+                    <TooltipContent className="tooltip-content">
+                      <p>JavaScript that declares solve(arr, target). It runs in a background worker with a {SANDBOX_TIMEOUT_MS / 1000} s time limit and a {SANDBOX_MAX_STEPS}-step limit.</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" onClick={resetSandboxCode} className="ml-auto h-7 w-7">
+                        <FileCode2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent><p>Restore the starter code</p></TooltipContent>
+                  </Tooltip>
+                </div>
+                <Textarea
+                  value={sandboxCode}
+                  onChange={(e) => setSandboxCode(e.target.value)}
+                  onKeyDown={handleCodeKeyDown}
+                  spellCheck={false}
+                  rows={12}
+                  className="font-mono text-[11px] md:text-xs leading-relaxed bg-secondary border-border resize-y whitespace-pre"
+                />
+                {pendingSandboxStep !== null && (
+                  <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+                    <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px text-primary" />
+                    <span>
+                      This code came from a shared link and has not run. Read it first; Run Code runs it and opens step {pendingSandboxStep + 1}.
+                    </span>
+                  </p>
+                )}
+                {sandboxError && (
+                  <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-swap">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                    <span>{sandboxError}</span>
+                  </p>
+                )}
+              </div>
+            )}
+          </>
         )}
 
         {/* Generate & Reset Buttons */}
         <div className="flex gap-2">
-          <Button onClick={generateSteps} className="flex-1 h-10 md:h-12 text-sm md:text-base font-semibold bg-primary text-primary-foreground hover:bg-primary/90 glow-primary">
-            Generate Steps
+          <Button onClick={() => generateSteps()} disabled={sandboxRunning} className="flex-1 h-10 md:h-12 text-sm md:text-base font-semibold bg-primary text-primary-foreground hover:bg-primary/90 glow-primary">
+            {sandboxRunning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                Running…
+              </>
+            ) : inputKind === 'code' ? 'Run Code' : 'Generate Steps'}
           </Button>
           <Button onClick={reset} variant="outline" className="h-10 md:h-12 px-4 text-sm md:text-base font-semibold">
             <RotateCcw className="w-4 h-4 mr-1" />
@@ -131,6 +400,8 @@ export const Controls: React.FC = () => {
           </Button>
         </div>
 
+        <TraceFileControls />
+
         {/* Playback Controls */}
         {hasSteps && (
           <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-3 md:space-y-4">
@@ -154,6 +425,14 @@ export const Controls: React.FC = () => {
               </TooltipTrigger><TooltipContent><p>Next step</p></TooltipContent></Tooltip>
             </div>
 
+            <div className="flex items-center justify-center gap-1.5">
+              {debuggerJumps.map(({ label, icon: Icon, target, run }) => (
+                <Tooltip key={label}><TooltipTrigger asChild>
+                  <button onClick={run} disabled={target === null} className="control-btn p-2 md:p-2" aria-label={label}><Icon className="w-3.5 h-3.5" /></button>
+                </TooltipTrigger><TooltipContent><p>{label}{target !== null && ` → step ${target + 1}`}</p></TooltipContent></Tooltip>
+              ))}
+            </div>
+
             {/* Progress */}
             <div className="space-y-2">
               <div className="flex justify-between text-[10px] md:text-xs text-muted-foreground">
@@ -175,6 +454,24 @@ export const Controls: React.FC = () => {
               </div>
               <Slider value={[2000 - playbackSpeed]} onValueChange={([v]) => setPlaybackSpeed(2000 - v)} min={0} max={1800} step={100} className="py-2" />
             </div>
+
+            {/* Quiz Mode */}
+            <label className="flex items-center justify-between gap-2 cursor-pointer">
+              <span className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider">
+                <GraduationCap className="w-3.5 h-3.5" />
+                Quiz mode
+              </span>
+              <Switch checked={quizMode} onCheckedChange={(v) => setQuizMode(!!v)} />
+            </label>
+
+            {/* Manual Mode */}
+            <label className="flex items-center justify-between gap-2 cursor-pointer">
+              <span className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider">
+                <Hand className="w-3.5 h-3.5" />
+                Manual mode
+              </span>
+              <Switch checked={manualMode} onCheckedChange={(v) => setManualMode(!!v)} />
+            </label>
           </motion.div>
         )}
 
@@ -204,6 +501,28 @@ export const Controls: React.FC = () => {
             </TabsList>
           </Tabs>
         </div>
+
+        {/* Session: inputs and preferences are saved in this browser */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="w-full text-xs text-muted-foreground">
+              <Eraser className="w-3.5 h-3.5 mr-1" />
+              Reset to defaults
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reset to defaults?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your inputs, sandbox code, last-used algorithms, speed and view settings saved in this browser will be replaced with the defaults.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={resetToDefaults}>Reset</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </div>
   );
@@ -1,49 +1,108 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Code2, BarChart3, Clock, ChevronDown, ChevronUp, Eye, EyeOff } from 'lucide-react';
 import { useDebuggerStore } from '@/store/useDebuggerStore';
-import { ALGORITHMS } from '@/lib/stepTypes';
-import { PSEUDOCODE, CODE_LINE_MAPPING } from '@/lib/pseudocode';
-import { ALGORITHM_CODE } from '@/lib/algorithmCode';
+import { getAlgorithm } from '@/lib/algorithms';
+import { CODE_LANGUAGES, CodeLanguage, getAvailableLanguages, getSourceListing } from '@/lib/algorithms/codeLanguages';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BreakpointList } from '@/components/BreakpointList';
+import { WatchPanel } from '@/components/WatchPanel';
+import { CallStackPanel } from '@/components/CallStackPanel';
 
 export const DebuggerPanel: React.FC = () => {
-  const { algorithm, steps, currentStepIndex, viewMode } = useDebuggerStore();
-  const [isCodeVisible, setIsCodeVisible] = useState(true);
+  const {
+    algorithm,
+    steps,
+    currentStepIndex,
+    viewMode,
+    sandboxCode,
+    sandboxRunCode,
+    codeLanguage,
+    setCodeLanguage,
+    isCodeVisible,
+    setCodeVisible,
+    breakpoints,
+    breakpointHitId,
+    toggleBreakpoint,
+    cursorLine,
+    setCursorLine,
+  } = useDebuggerStore();
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Focus mode requirement: code must be visible immediately (no expand, no scroll hunting).
   useEffect(() => {
     if (viewMode !== 'focus') return;
-    setIsCodeVisible(true);
+    setCodeVisible(true);
     // Ensure the code section (top) is in view.
     requestAnimationFrame(() => {
       scrollRef.current?.scrollTo({ top: 0, behavior: 'auto' });
     });
-  }, [viewMode]);
+  }, [viewMode, setCodeVisible]);
 
   const currentStep = steps[currentStepIndex];
-  const algorithmInfo = ALGORITHMS.find(a => a.id === algorithm);
+  const definition = getAlgorithm(algorithm);
+  const algorithmInfo = definition?.info;
 
-  const isQuickSort = algorithm === 'quick-sort';
-  const pseudocodeLines = PSEUDOCODE[algorithm];
+  // The sandbox has no language choice: it shows the user's own code, the version that produced the trace once there is one.
+  const isSandbox = definition?.requirements.inputKind === 'code';
+  const languages = definition && !isSandbox ? getAvailableLanguages(definition) : [];
+  // A language the algorithm lacks falls back to its first listing without changing the preference.
+  const language: CodeLanguage = languages.includes(codeLanguage) ? codeLanguage : languages[0] ?? 'pseudocode';
+  const listing = definition && !isSandbox ? getSourceListing(definition, language) : undefined;
 
-  // For Quick Sort we must show the exact Python implementation (verbatim).
-  const quickSortCodeLines = isQuickSort
-    ? (ALGORITHM_CODE['quick-sort'] ?? '').split('\n')
-    : [];
+  // Source mode shows real code (Quick Sort's Python, translations, the sandbox) verbatim.
+  const isSourceMode = isSandbox || listing !== undefined;
+  const pseudocodeLines = definition?.pseudocode ?? [];
 
-  const mappedLine = !isQuickSort && currentStep
-    ? (CODE_LINE_MAPPING[algorithm]?.[currentStep.codeLine] ?? null)
+  const sourceCode = isSandbox ? (sandboxRunCode ?? sandboxCode) : listing?.code ?? '';
+  const sourceCodeLines = isSourceMode ? sourceCode.split('\n') : [];
+
+  const mappedLine = !isSourceMode && currentStep
+    ? (definition?.codeLineMapping[currentStep.codeLine] ?? null)
     : null;
 
   const activeIndex = (() => {
     if (!currentStep) return -1;
-    if (isQuickSort) return currentStep.codeLine >= 0 ? currentStep.codeLine : -1;
+    if (isSourceMode) {
+      // Sandbox steps point at their own line; listings map each step to a line of their language.
+      const line = listing ? listing.lineMapping[currentStep.codeLine] : currentStep.codeLine;
+      return line !== undefined && line >= 0 ? line : -1;
+    }
     if (mappedLine === null) return -1;
     return pseudocodeLines.findIndex((l) => l.line === mappedLine);
   })();
-  const maxLines = isQuickSort ? Math.max(12, quickSortCodeLines.length) : 12; // stable for others; full visibility for quick sort
+  // Breakpoints belong to the listing they were set in; the sandbox's own code counts as JavaScript.
+  const breakpointLanguage: CodeLanguage = isSandbox ? 'javascript' : language;
+  const lineBreakpoints = new Map(
+    breakpoints.filter((bp) => bp.algorithm === algorithm && bp.language === breakpointLanguage).map((bp) => [bp.line, bp]),
+  );
+  const isPausedAtBreakpoint = breakpoints.some((bp) => bp.id === breakpointHitId && bp.algorithm === algorithm);
+
+  const renderGutter = (line: number) => {
+    const bp = lineBreakpoints.get(line);
+    return (
+      <button
+        onClick={() => toggleBreakpoint(breakpointLanguage, line)}
+        className="relative w-7 shrink-0 text-muted-foreground/70 text-right pr-2 select-none hover:text-swap transition-colors"
+        aria-label={bp ? `Remove breakpoint on line ${line}` : `Add breakpoint on line ${line}`}
+      >
+        {bp && (
+          <span
+            className={`absolute left-0.5 top-1/2 -translate-y-1/2 w-2 h-2 rounded-full border border-swap ${bp.enabled ? 'bg-swap' : ''} ${bp.condition.trim() ? 'ring-2 ring-swap/30' : ''}`}
+          />
+        )}
+        {line}
+      </button>
+    );
+  };
+
+  // Clicking a line's code picks it for run-to-cursor; the gutter keeps toggling breakpoints.
+  const isCursorLine = (line: number) => cursorLine?.language === breakpointLanguage && cursorLine.line === line;
+  const lineClassName = (line: number, isActive: boolean) =>
+    `flex-1 text-left rounded-sm hover:bg-accent/10 ${isCursorLine(line) ? 'bg-accent/15 ring-1 ring-inset ring-accent/50' : ''} ${isActive ? 'text-foreground' : 'text-foreground/85'}`;
+
+  const maxLines = isSourceMode ? Math.max(12, sourceCodeLines.length) : 12; // stable for pseudocode; full visibility for source
   const lineHeight = 22; // px; matches the fixed row height below
 
   return (
@@ -55,7 +114,7 @@ export const DebuggerPanel: React.FC = () => {
 
       <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-thin">
         {/* Algorithm Code (Collapsible) */}
-        <Collapsible open={isCodeVisible} onOpenChange={setIsCodeVisible}>
+        <Collapsible open={isCodeVisible} onOpenChange={setCodeVisible}>
           <CollapsibleTrigger className="collapsible-trigger">
             <div className="flex items-center gap-2">
               <Code2 className="w-4 h-4 text-muted-foreground" />
@@ -79,6 +138,21 @@ export const DebuggerPanel: React.FC = () => {
           </CollapsibleTrigger>
           <CollapsibleContent>
             <div className="bg-muted/30 border-b border-border">
+              {languages.length > 1 && (
+                <Tabs value={language} onValueChange={(v) => setCodeLanguage(v as CodeLanguage)} className="px-3 pt-3">
+                  <TabsList className="w-full h-8 rounded-lg bg-secondary/50 p-0.5 overflow-x-auto scrollbar-thin justify-start">
+                    {CODE_LANGUAGES.filter((l) => languages.includes(l.id)).map((l) => (
+                      <TabsTrigger
+                        key={l.id}
+                        value={l.id}
+                        className="flex-1 h-7 rounded-md px-2 text-[10px] md:text-xs data-[state=active]:bg-background/70 data-[state=active]:shadow"
+                      >
+                        {l.label}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
               {/* Stable step-code view: fixed height, only the indicator moves */}
               <div
                 className="relative p-3 font-mono text-[10px] md:text-xs text-foreground/90"
@@ -105,8 +179,8 @@ export const DebuggerPanel: React.FC = () => {
                 )}
 
                 <div className="relative">
-                    {isQuickSort
-                      ? quickSortCodeLines.map((code, idx) => {
+                    {isSourceMode
+                      ? sourceCodeLines.map((code, idx) => {
                           const isActive = idx === activeIndex;
                           return (
                             <div
@@ -114,14 +188,14 @@ export const DebuggerPanel: React.FC = () => {
                               className="flex items-center"
                               style={{ height: lineHeight }}
                             >
-                              <div className="w-7 shrink-0 text-muted-foreground/70 text-right pr-2 select-none">
-                                {idx}
-                              </div>
-                              <div
-                                className={(isActive ? 'text-foreground' : 'text-foreground/85') + ' whitespace-pre'}
+                              {renderGutter(idx)}
+                              <button
+                                onClick={() => setCursorLine(breakpointLanguage, idx)}
+                                className={lineClassName(idx, isActive) + ' whitespace-pre'}
+                                aria-pressed={isCursorLine(idx)}
                               >
                                 {code.length === 0 ? '\u00A0' : code}
-                              </div>
+                              </button>
                             </div>
                           );
                         })
@@ -133,15 +207,15 @@ export const DebuggerPanel: React.FC = () => {
                               className="flex items-center"
                               style={{ height: lineHeight }}
                             >
-                              <div className="w-7 shrink-0 text-muted-foreground/70 text-right pr-2 select-none">
-                                {line.line}
-                              </div>
-                              <div
-                                className={isActive ? 'text-foreground' : 'text-foreground/85'}
+                              {renderGutter(line.line)}
+                              <button
+                                onClick={() => setCursorLine(breakpointLanguage, line.line)}
+                                className={lineClassName(line.line, isActive)}
                                 style={{ paddingLeft: line.indent * 14 }}
+                                aria-pressed={isCursorLine(line.line)}
                               >
                                 {line.code}
-                              </div>
+                              </button>
                             </div>
                           );
                         })}
@@ -157,6 +231,9 @@ export const DebuggerPanel: React.FC = () => {
             <span className="text-xs font-semibold text-primary uppercase tracking-wider">
               💡 Current Step
             </span>
+            {isPausedAtBreakpoint && (
+              <span className="px-1.5 py-0.5 rounded bg-swap/15 text-[10px] font-semibold text-swap">Breakpoint</span>
+            )}
             {currentStep && (
               <span className="ml-auto text-[10px] font-mono text-muted-foreground">
                 {currentStepIndex + 1} / {steps.length}
@@ -187,33 +264,11 @@ export const DebuggerPanel: React.FC = () => {
           </div>
         </div>
 
-        {/* Variables */}
-        {currentStep && Object.keys(currentStep.pointers).length > 0 && (
-          <div className="border-b border-border">
-            <div className="px-4 py-2 bg-muted/30 flex items-center gap-2">
-              <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Variables</span>
-            </div>
-            <div className="p-3 grid grid-cols-2 md:grid-cols-3 gap-2">
-              <AnimatePresence mode="popLayout">
-                {Object.entries(currentStep.pointers).map(([name, value]) => (
-                  <motion.div
-                    key={name}
-                    layout
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    exit={{ opacity: 0, scale: 0.9 }}
-                    className="p-2 rounded-lg bg-secondary/50 border border-border"
-                  >
-                    <span className="text-[10px] text-muted-foreground font-mono">{name}</span>
-                    <p className="text-base md:text-lg font-mono font-bold text-primary">
-                      {value !== null ? value : '—'}
-                    </p>
-                  </motion.div>
-                ))}
-              </AnimatePresence>
-            </div>
-          </div>
-        )}
+        {/* Watch */}
+        <WatchPanel />
+
+        {/* Call Stack */}
+        <CallStackPanel />
 
         {/* Metrics */}
         {currentStep && (
@@ -266,6 +321,9 @@ export const DebuggerPanel: React.FC = () => {
           </div>
         )}
 
+        {/* Breakpoints */}
+        {definition && <BreakpointList definition={definition} sandboxCode={sourceCode} />}
+
         {/* Complexity */}
         {algorithmInfo && (
           <div>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { DpCellState, DpStep, dpCellKey } from '@/lib/dpTypes';
+
+interface DpTableVisualizerProps {
+  step: DpStep;
+}
+
+const cellClasses: Record<DpCellState, string> = {
+  default: 'bg-secondary/60 border-border text-foreground',
+  current: 'bg-compare/30 border-compare text-foreground',
+  dependency: 'bg-key/20 border-key text-foreground',
+  traceback: 'bg-shift/20 border-shift/70 text-foreground',
+  chosen: 'bg-found/30 border-found text-foreground',
+};
+
+export const DpTableVisualizer: React.FC<DpTableVisualizerProps> = ({ step }) => {
+  const { dp } = step;
+
+  return (
+    <div className="w-full space-y-3 md:space-y-4">
+      <div className="rounded-xl border border-border bg-card/50 p-2 md:p-3">
+        <div className="text-[10px] md:text-xs text-muted-foreground mb-2">
+          Rows: <span className="font-mono text-primary">{dp.rowTitle}</span> • Columns: <span className="font-mono text-primary">{dp.colTitle}</span>
+        </div>
+        <div className="overflow-x-auto scrollbar-thin">
+          <table className="mx-auto border-separate border-spacing-1 font-mono text-xs md:text-sm">
+            <thead>
+              <tr>
+                <th />
+                {dp.colLabels.map((label, c) => (
+                  <th key={c} className="px-1 text-center font-semibold text-muted-foreground">
+                    <div className="text-[9px] font-normal">{c}</div>
+                    <div>{label}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dp.cells.map((row, r) => (
+                <tr key={r}>
+                  <th className="pr-2 text-right font-semibold text-muted-foreground whitespace-nowrap">
+                    <span className="text-[9px] font-normal mr-1">{r}</span>
+                    {dp.rowLabels[r]}
+                  </th>
+                  {row.map((value, c) => {
+                    const state = dp.cellStates[dpCellKey(r, c)] ?? 'default';
+                    return (
+                      <td key={c} className="p-0">
+                        <motion.div
+                          // Re-keyed on fill so a newly written value pops in.
+                          key={value === '' ? 'empty' : 'filled'}
+                          initial={value === '' ? false : { scale: 0.6, opacity: 0 }}
+                          animate={{ scale: 1, opacity: 1 }}
+                          transition={{ duration: 0.2 }}
+                          className={`w-8 h-8 md:w-9 md:h-9 rounded-md border flex items-center justify-center font-semibold transition-colors ${cellClasses[state]}`}
+                        >
+                          {value}
+                        </motion.div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card/50 p-3">
+        <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-2">{dp.resultLabel}</div>
+        <div className="min-h-[28px] flex items-center">
+          {dp.result ? (
+            <span className="px-2 py-1 rounded-md font-mono text-xs bg-found/15 border border-found/40 text-foreground">{dp.result}</span>
+          ) : (
+            <span className="text-xs text-muted-foreground italic">filled in by the traceback</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React from 'react';
+import { AlertTriangle, Film, ImageDown } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { getAlgorithm } from '@/lib/algorithms';
+import { isDpStep } from '@/lib/dpTypes';
+import { isGraphStep } from '@/lib/graphTypes';
+import { isLinearStep } from '@/lib/linearTypes';
+import { isTreeStep } from '@/lib/treeTypes';
+import { FrameFormat, MAX_EXPORT_FRAMES, exportStepFrames } from '@/lib/export/exportFrames';
+import { ArrayFrameStyle, FRAME_HEIGHT, FRAME_WIDTH } from '@/lib/export/renderStepFrame';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const tabClass = 'h-7 rounded-md text-xs data-[state=active]:bg-background/70 data-[state=active]:shadow';
+
+// Renders a range of steps to an animated GIF or PNG frames, drawn from the step data in the page's theme.
+export const ExportFramesDialog: React.FC = () => {
+  const { steps, currentStepIndex, algorithm, viewMode, playbackSpeed } = useDebuggerStore();
+  const [open, setOpen] = React.useState(false);
+  const [from, setFrom] = React.useState(1);
+  const [to, setTo] = React.useState(1);
+  const [format, setFormat] = React.useState<FrameFormat>('gif');
+  const [arrayStyle, setArrayStyle] = React.useState<ArrayFrameStyle>('cells');
+  const [captions, setCaptions] = React.useState(true);
+  const [delayMs, setDelayMs] = React.useState(1000);
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const isArrayTrace = steps.length > 0 && ![isGraphStep, isTreeStep, isLinearStep, isDpStep].some((is) => is(steps[0]));
+  const count = to - from + 1;
+  const inputError =
+    !(Number.isInteger(from) && Number.isInteger(to) && from >= 1 && to <= steps.length && count >= 1)
+      ? `Pick whole step numbers between 1 and ${steps.length}, first before last.`
+      : count > MAX_EXPORT_FRAMES
+        ? `At most ${MAX_EXPORT_FRAMES} frames per export; this range has ${count}.`
+        : format === 'gif' && !(delayMs >= 100 && delayMs <= 5000)
+          ? 'Show each step for 100 to 5000 milliseconds.'
+          : null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      // Every opening starts from the whole trace and the current view settings.
+      setFrom(1);
+      setTo(Math.min(steps.length, MAX_EXPORT_FRAMES));
+      setArrayStyle(viewMode === 'bars' ? 'bars' : 'cells');
+      setDelayMs(playbackSpeed);
+      setError(null);
+    } else {
+      abortRef.current?.abort();
+      setProgress(null);
+    }
+    setOpen(next);
+  };
+
+  const runExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: count });
+    try {
+      const result = await exportStepFrames(
+        steps,
+        {
+          from: from - 1,
+          to: to - 1,
+          format,
+          arrayStyle,
+          captions,
+          delayMs,
+          title: getAlgorithm(algorithm)?.info.name ?? algorithm,
+          fileStem: algorithm,
+        },
+        (done, total) => setProgress({ done, total }),
+        controller.signal,
+      );
+      if (result) downloadBlob(result.blob, result.fileName);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The export failed.');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const numberField = (label: string, value: number, onChange: (n: number) => void, min: number, max: number, step = 1) => (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wider">{label}</Label>
+      <Input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => onChange(Number(e.target.value))}
+        disabled={progress !== null}
+        className="h-8 font-mono text-xs bg-secondary border-border"
+      />
+    </div>
+  );
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="outline" size="sm" onClick={() => handleOpenChange(true)} className="h-8 gap-1.5 text-xs">
+            <Film className="w-3.5 h-3.5" />
+            Export frames
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent><p>Save steps as an animated GIF or PNG frames</p></TooltipContent>
+      </Tooltip>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Film className="w-5 h-5 text-primary" />
+              Export Frames
+            </DialogTitle>
+            <DialogDescription>
+              Each step is drawn at {FRAME_WIDTH}×{FRAME_HEIGHT} in the current theme. Step {currentStepIndex + 1} is on screen now.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {numberField('First step', from, setFrom, 1, steps.length)}
+              {numberField('Last step', to, setTo, 1, steps.length)}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wider">Format</Label>
+              <Tabs value={format} onValueChange={(v) => setFormat(v as FrameFormat)}>
+                <TabsList className="w-full grid grid-cols-2 h-9 rounded-lg bg-secondary/50 p-1">
+                  <TabsTrigger value="gif" disabled={progress !== null} className={tabClass}>Animated GIF</TabsTrigger>
+                  <TabsTrigger value="png" disabled={progress !== null} className={tabClass}>PNG frames</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            {isArrayTrace && (
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wider">Array drawing</Label>
+                <Tabs value={arrayStyle} onValueChange={(v) => setArrayStyle(v as ArrayFrameStyle)}>
+                  <TabsList className="w-full grid grid-cols-2 h-9 rounded-lg bg-secondary/50 p-1">
+                    <TabsTrigger value="cells" disabled={progress !== null} className={tabClass}>Cells</TabsTrigger>
+                    <TabsTrigger value="bars" disabled={progress !== null} className={tabClass}>Bars</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+            )}
+
+            {format === 'gif' && numberField('Milliseconds per step', delayMs, setDelayMs, 100, 5000, 100)}
+
+            <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <Checkbox checked={captions} onCheckedChange={(checked) => setCaptions(checked === true)} disabled={progress !== null} />
+              Caption each frame with the step's explanation
+            </label>
+
+            {progress && (
+              <div className="space-y-1.5">
+                <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+                <p className="text-[10px] md:text-xs text-muted-foreground">
+                  Rendering frame {progress.done} of {progress.total}…
+                </p>
+              </div>
+            )}
+
+            {(inputError || error) && (
+              <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-swap">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                <span className="break-words min-w-0">{inputError ?? error}</span>
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2 border-t border-border">
+            <Button variant="ghost" size="sm" onClick={() => handleOpenChange(false)}>
+              {progress ? 'Cancel' : 'Close'}
+            </Button>
+            <Button size="sm" onClick={runExport} disabled={inputError !== null || progress !== null} className="gap-2">
+              <ImageDown className="w-4 h-4" />
+              Export {count === 1 ? '1 frame' : `${Math.max(0, count) || 0} frames`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
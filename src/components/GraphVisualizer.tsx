@@ -0,0 +1,200 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { GraphEdge, GraphEdgeState, GraphNodeState, GraphStep } from '@/lib/graphTypes';
+import { GRAPH_VIEWBOX } from '@/lib/algorithms/graph/graphInput';
+
+interface GraphVisualizerProps {
+  step: GraphStep;
+}
+
+const NODE_RADIUS = 18;
+
+const nodeColors: Record<GraphNodeState, { fill: string; stroke: string }> = {
+  unvisited: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  frontier: { fill: 'hsl(var(--compare) / 0.25)', stroke: 'hsl(var(--compare))' },
+  current: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  visited: { fill: 'hsl(var(--sorted) / 0.25)', stroke: 'hsl(var(--sorted))' },
+};
+
+const edgeColors: Record<GraphEdgeState, string> = {
+  default: 'hsl(var(--muted-foreground) / 0.45)',
+  considered: 'hsl(var(--compare))',
+  tree: 'hsl(var(--sorted))',
+  rejected: 'hsl(var(--swap) / 0.6)',
+};
+
+const formatDistance = (value: number | null) => (value === null ? '∞' : String(value));
+
+// Shortens a segment so arrow heads stop at the node border instead of the center.
+function edgeEndpoints(edge: GraphEdge, from: { x: number; y: number }, to: { x: number; y: number }) {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.hypot(dx, dy) || 1;
+  const ux = dx / len;
+  const uy = dy / len;
+  const endPad = edge.directed ? NODE_RADIUS + 4 : NODE_RADIUS;
+  return {
+    x1: from.x + ux * NODE_RADIUS,
+    y1: from.y + uy * NODE_RADIUS,
+    x2: to.x - ux * endPad,
+    y2: to.y - uy * endPad,
+  };
+}
+
+export const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ step }) => {
+  const { graph, graphState } = step;
+  const positions = new Map(graph.nodes.map((n) => [n.id, n]));
+
+  return (
+    <div className="w-full space-y-3 md:space-y-4">
+      <div className="rounded-xl border border-border bg-card/50 p-2 md:p-3">
+        <svg
+          viewBox={`0 0 ${GRAPH_VIEWBOX.width} ${GRAPH_VIEWBOX.height}`}
+          className="w-full h-auto max-h-[420px]"
+          role="img"
+          aria-label={step.label}
+        >
+          <defs>
+            {(Object.keys(edgeColors) as GraphEdgeState[]).map((state) => (
+              <marker
+                key={state}
+                id={`graph-arrow-${state}`}
+                viewBox="0 0 10 10"
+                refX="8"
+                refY="5"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeColors[state]} />
+              </marker>
+            ))}
+          </defs>
+
+          {graph.edges.map((edge) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+            const state = graphState.edgeStates[edge.id] ?? 'default';
+            const { x1, y1, x2, y2 } = edgeEndpoints(edge, from, to);
+            const isActive = state === 'considered' || state === 'tree';
+
+            return (
+              <g key={edge.id}>
+                <motion.line
+                  x1={x1}
+                  y1={y1}
+                  x2={x2}
+                  y2={y2}
+                  initial={false}
+                  animate={{ stroke: edgeColors[state], strokeWidth: isActive ? 3.5 : 2 }}
+                  transition={{ duration: 0.25 }}
+                  strokeDasharray={state === 'rejected' ? '5 4' : undefined}
+                  markerEnd={edge.directed ? `url(#graph-arrow-${state})` : undefined}
+                />
+                {graph.weighted && (
+                  <text
+                    x={(from.x + to.x) / 2}
+                    y={(from.y + to.y) / 2 - 6}
+                    textAnchor="middle"
+                    className="font-mono text-[11px] font-semibold"
+                    fill={state === 'default' ? 'hsl(var(--muted-foreground))' : edgeColors[state]}
+                    stroke="hsl(var(--background))"
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {edge.weight}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {graph.nodes.map((node) => {
+            const state = graphState.nodeStates[node.id] ?? 'unvisited';
+            const colors = nodeColors[state];
+            const distance = graphState.distances[node.id];
+
+            return (
+              <g key={node.id}>
+                <motion.circle
+                  cx={node.x}
+                  cy={node.y}
+                  r={NODE_RADIUS}
+                  initial={false}
+                  animate={{
+                    fill: colors.fill,
+                    stroke: colors.stroke,
+                    scale: state === 'current' ? 1.12 : 1,
+                  }}
+                  transition={{ duration: 0.25 }}
+                  strokeWidth={2.5}
+                  style={{ transformOrigin: `${node.x}px ${node.y}px` }}
+                />
+                <text
+                  x={node.x}
+                  y={node.y + 4}
+                  textAnchor="middle"
+                  className="font-mono text-[12px] font-bold"
+                  fill="hsl(var(--foreground))"
+                >
+                  {node.id}
+                </text>
+                <text
+                  x={node.x}
+                  y={node.y + NODE_RADIUS + 13}
+                  textAnchor="middle"
+                  className="font-mono text-[10px]"
+                  fill={distance === null ? 'hsl(var(--muted-foreground))' : 'hsl(var(--primary))'}
+                >
+                  {formatDistance(distance)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+        <p className="text-center text-[10px] md:text-xs text-muted-foreground">
+          Number under each node: <span className="font-mono text-primary">{graphState.distanceLabel}</span>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="rounded-lg border border-border bg-card/50 p-3">
+          <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-2">{graphState.frontierLabel}</div>
+          <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+            {graphState.frontier.length === 0 ? (
+              <span className="text-xs text-muted-foreground italic">empty</span>
+            ) : (
+              graphState.frontier.map((item, i) => (
+                <span
+                  key={`${item.node}-${i}`}
+                  className="px-2 py-1 rounded-md font-mono text-xs bg-compare/15 text-compare border border-compare/30"
+                >
+                  {item.priority !== undefined ? `${item.node} (${item.priority})` : item.node}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-border bg-card/50 p-3">
+          <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-2">{graphState.orderLabel}</div>
+          <div className="flex flex-wrap items-center gap-1.5 min-h-[28px]">
+            {graphState.order.length === 0 ? (
+              <span className="text-xs text-muted-foreground italic">none yet</span>
+            ) : (
+              graphState.order.map((item, i) => (
+                <span
+                  key={`${item}-${i}`}
+                  className="px-2 py-1 rounded-md font-mono text-xs bg-sorted/15 text-sorted border border-sorted/30"
+                >
+                  {item}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
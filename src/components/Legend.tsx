@@ -17,9 +17,58 @@ const searchingLegend = [
   { label: 'Eliminated', color: 'bg-gray-500', textColor: 'text-gray-400' },
 ];
 
+const graphLegend = [
+  { label: 'Frontier', color: 'bg-yellow-500', textColor: 'text-yellow-500' },
+  { label: 'Current', color: 'bg-blue-500', textColor: 'text-blue-500' },
+  { label: 'Visited / Tree', color: 'bg-green-500', textColor: 'text-green-500' },
+  { label: 'Rejected', color: 'bg-red-500', textColor: 'text-red-500' },
+];
+
+const treeLegend = [
+  { label: 'Path', color: 'bg-yellow-500', textColor: 'text-yellow-500' },
+  { label: 'Inserted', color: 'bg-blue-500', textColor: 'text-blue-500' },
+  { label: 'Found', color: 'bg-green-500', textColor: 'text-green-500' },
+  { label: 'Removed', color: 'bg-red-500', textColor: 'text-red-500' },
+  { label: 'Rotate / Swap', color: 'bg-purple-500', textColor: 'text-purple-500' },
+  { label: 'Unbalanced', color: 'bg-orange-500', textColor: 'text-orange-500' },
+];
+
+const linearLegend = [
+  { label: 'Current', color: 'bg-yellow-500', textColor: 'text-yellow-500' },
+  { label: 'Inserted', color: 'bg-blue-500', textColor: 'text-blue-500' },
+  { label: 'Found / Peek', color: 'bg-green-500', textColor: 'text-green-500' },
+  { label: 'Removed', color: 'bg-red-500', textColor: 'text-red-500' },
+  { label: 'Relinked', color: 'bg-purple-500', textColor: 'text-purple-500' },
+];
+
+const dpLegend = [
+  { label: 'Computing', color: 'bg-yellow-500', textColor: 'text-yellow-500' },
+  { label: 'Depends On', color: 'bg-blue-500', textColor: 'text-blue-500' },
+  { label: 'Traceback', color: 'bg-purple-500', textColor: 'text-purple-500' },
+  { label: 'Chosen', color: 'bg-green-500', textColor: 'text-green-500' },
+];
+
+const sandboxLegend = [
+  { label: 'Read / Compare', color: 'bg-yellow-500', textColor: 'text-yellow-500' },
+  { label: 'Swap', color: 'bg-red-500', textColor: 'text-red-500' },
+  { label: 'Write', color: 'bg-purple-500', textColor: 'text-purple-500' },
+  { label: 'Source', color: 'bg-blue-500', textColor: 'text-blue-500' },
+  { label: 'Result', color: 'bg-green-500', textColor: 'text-green-500' },
+];
+
+const legendByCategory = {
+  sorting: sortingLegend,
+  searching: searchingLegend,
+  graph: graphLegend,
+  tree: treeLegend,
+  'linear-structures': linearLegend,
+  'dynamic-programming': dpLegend,
+  sandbox: sandboxLegend,
+};
+
 export const Legend: React.FC = () => {
   const { category } = useDebuggerStore();
-  const legendItems = category === 'sorting' ? sortingLegend : searchingLegend;
+  const legendItems = legendByCategory[category];
 
   return (
     <motion.div 
@@ -0,0 +1,114 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookOpen, CheckCircle2, ChevronRight, X, XCircle } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { lessonCardAt, lessonStop, markLessonCompleted } from '@/lib/lessons';
+import { getLesson } from '@/lib/lessonCatalog';
+import { Button } from '@/components/ui/button';
+
+// Narration card for a running lesson: shows the card pinned to the current step and holds stepping until it is cleared.
+export const LessonPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const { steps, currentStepIndex, activeLesson, clearLessonCard, exitLesson, nextStep } = useDebuggerStore();
+  const [wrongChoice, setWrongChoice] = React.useState<number | null>(null);
+
+  const lesson = activeLesson ? getLesson(activeLesson.id) : undefined;
+  const card = lesson ? lessonCardAt(lesson, currentStepIndex) : undefined;
+  const cleared = !!card && activeLesson.cleared.includes(card.step);
+  const isAtEnd = currentStepIndex === steps.length - 1;
+  const finished = !!lesson && isAtEnd && lessonStop(lesson, activeLesson.cleared) === null;
+
+  React.useEffect(() => setWrongChoice(null), [currentStepIndex]);
+  React.useEffect(() => {
+    if (finished) markLessonCompleted(lesson.id);
+  }, [finished, lesson]);
+
+  if (!lesson || steps.length === 0) return null;
+
+  const choose = (choice: number) => {
+    if (choice === card.checkpoint.answer) clearLessonCard();
+    else setWrongChoice(choice);
+  };
+  const advance = () => {
+    clearLessonCard();
+    nextStep();
+  };
+
+  return (
+    <div className="shrink-0 px-3 md:px-4 py-3 border-b border-border bg-primary/5 space-y-2">
+      <div className="flex items-center gap-2">
+        <BookOpen className="w-4 h-4 text-primary shrink-0" />
+        <span className="text-xs md:text-sm font-semibold text-foreground truncate">{lesson.title}</span>
+        <span className="text-[10px] md:text-xs font-mono text-muted-foreground shrink-0">
+          {activeLesson.cleared.length} / {lesson.cards.length}
+        </span>
+        <Button variant="ghost" size="icon" onClick={exitLesson} className="ml-auto h-6 w-6 shrink-0" aria-label="Leave lesson">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {card ? (
+        <div className="space-y-2">
+          <p className="text-xs md:text-sm font-medium text-foreground">{card.title}</p>
+          <p className="text-[11px] md:text-xs text-muted-foreground leading-relaxed">{card.body}</p>
+
+          {card.checkpoint && (
+            <>
+              <p className="text-xs md:text-sm text-foreground">{card.checkpoint.question}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {card.checkpoint.choices.map((choice, i) => (
+                  <button
+                    key={choice}
+                    onClick={() => choose(i)}
+                    disabled={cleared}
+                    className={`px-3 py-1.5 rounded-md border text-xs transition-colors ${
+                      cleared && i === card.checkpoint.answer
+                        ? 'border-found bg-found/15 text-foreground'
+                        : !cleared && i === wrongChoice
+                          ? 'border-swap bg-swap/15 text-foreground'
+                          : cleared
+                            ? 'border-border bg-secondary/50 text-muted-foreground'
+                            : 'border-border bg-secondary hover:bg-secondary/70 hover:border-primary text-foreground'
+                    }`}
+                  >
+                    {choice}
+                  </button>
+                ))}
+              </div>
+              {cleared ? (
+                <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+                  <CheckCircle2 className="w-3.5 h-3.5 shrink-0 mt-px text-found" />
+                  {card.checkpoint.explanation}
+                </p>
+              ) : wrongChoice !== null ? (
+                <p className="flex items-center gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+                  <XCircle className="w-3.5 h-3.5 text-swap" /> Not quite. Try another answer.
+                </p>
+              ) : null}
+            </>
+          )}
+
+          {(!card.checkpoint || cleared) && !(isAtEnd && cleared) && (
+            <Button size="sm" onClick={isAtEnd ? clearLessonCard : advance} className="h-7 gap-1 text-xs">
+              {isAtEnd ? 'Finish' : 'Next'}
+              <ChevronRight className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      ) : null}
+
+      {finished ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="flex items-center gap-1.5 text-xs md:text-sm text-foreground">
+            <CheckCircle2 className="w-4 h-4 text-found" /> Lesson complete.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => navigate('/lessons')} className="h-7 text-xs">
+            More lessons
+          </Button>
+        </div>
+      ) : (
+        !card && <p className="text-[10px] md:text-xs text-muted-foreground">Play or step forward; the lesson stops at its next card.</p>
+      )}
+    </div>
+  );
+};
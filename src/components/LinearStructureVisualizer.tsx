@@ -0,0 +1,242 @@
+import React, { useId } from 'react';
+import { motion } from 'framer-motion';
+import { LinearNodeState, LinearSnapshot, LinearStep } from '@/lib/linearTypes';
+
+interface LinearStructureVisualizerProps {
+  step: LinearStep;
+}
+
+const VALUE_WIDTH = 40;
+const LINK_CELL = 18;
+const BOX_HEIGHT = 34;
+const NODE_GAP = 40;
+const MARGIN = 12;
+const TOP = 48;
+const LABEL_LINE = 13;
+
+const nodeColors: Record<LinearNodeState, { fill: string; stroke: string }> = {
+  default: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  current: { fill: 'hsl(var(--compare) / 0.3)', stroke: 'hsl(var(--compare))' },
+  visited: { fill: 'hsl(var(--compare) / 0.1)', stroke: 'hsl(var(--compare) / 0.5)' },
+  found: { fill: 'hsl(var(--found) / 0.3)', stroke: 'hsl(var(--found))' },
+  inserted: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  removed: { fill: 'hsl(var(--swap) / 0.25)', stroke: 'hsl(var(--swap))' },
+};
+
+const LINK_COLOR = 'hsl(var(--muted-foreground) / 0.7)';
+const CHANGED_COLOR = 'hsl(var(--shift))';
+
+// Groups pointer names by the slot they reference; null pointers are listed separately.
+function groupPointers(pointers: Record<string, number | null>) {
+  const bySlot = new Map<number, string[]>();
+  const nulls: string[] = [];
+  for (const [name, slot] of Object.entries(pointers)) {
+    if (slot === null) nulls.push(name);
+    else bySlot.set(slot, [...(bySlot.get(slot) ?? []), name]);
+  }
+  return { bySlot, nulls };
+}
+
+const NullSlash: React.FC<{ x: number; y: number }> = ({ x, y }) => (
+  <line x1={x + 3} y1={y + BOX_HEIGHT - 3} x2={x + LINK_CELL - 3} y2={y + 3} stroke={LINK_COLOR} strokeWidth={1.5} />
+);
+
+/**
+ * Boxes-and-arrows drawing of a linked list. Slots are laid out left to right in display order;
+ * a link to the adjacent slot in its natural direction is a straight arrow, anything else
+ * (reversed or skipping links) curves above the row for next and below it for prev.
+ */
+const LinkedListScene: React.FC<{ linear: LinearSnapshot; pointers: Record<string, number | null>; label: string }> = ({ linear, pointers, label }) => {
+  const markerId = useId();
+  const doubly = linear.kind === 'doubly';
+  const boxWidth = VALUE_WIDTH + LINK_CELL * (doubly ? 2 : 1);
+  const spacing = boxWidth + NODE_GAP;
+  const slotX = (slot: number) => MARGIN + slot * spacing;
+  const valueX = (slot: number) => slotX(slot) + (doubly ? LINK_CELL : 0);
+  const nextCellX = (slot: number) => valueX(slot) + VALUE_WIDTH;
+
+  const { bySlot } = groupPointers(pointers);
+  const maxLabels = Math.max(0, ...Array.from(bySlot.values(), (names) => names.length));
+  const labelTop = TOP + BOX_HEIGHT + (doubly ? 36 : 16);
+  const width = MARGIN * 2 + Math.max(1, linear.nodes.length) * spacing - NODE_GAP;
+  const height = labelTop + maxLabels * LABEL_LINE + 4;
+
+  const curve = (from: number, to: number, above: boolean) => {
+    const lift = Math.min(40, 16 + 6 * Math.abs(to - from)) * (above ? -1 : 1);
+    const edge = above ? TOP : TOP + BOX_HEIGHT;
+    const sx = above ? nextCellX(from) + LINK_CELL / 2 : slotX(from) + LINK_CELL / 2;
+    const tx = slotX(to) + boxWidth / 2;
+    return `M ${sx} ${edge} C ${sx} ${edge + lift}, ${tx} ${edge + lift}, ${tx} ${edge}`;
+  };
+
+  const nextPath = (from: number, to: number) => {
+    if (to !== from + 1) return curve(from, to, true);
+    const y = TOP + BOX_HEIGHT / (doubly ? 3 : 2);
+    return `M ${nextCellX(from) + LINK_CELL / 2} ${y} L ${slotX(to)} ${y}`;
+  };
+
+  const prevPath = (from: number, to: number) => {
+    if (to !== from - 1) return curve(from, to, false);
+    const y = TOP + (BOX_HEIGHT * 2) / 3;
+    return `M ${slotX(from) + LINK_CELL / 2} ${y} L ${slotX(to) + boxWidth} ${y}`;
+  };
+
+  const links = [
+    ...linear.next.map((to, from) => (to === null ? null : { key: `n${from}`, from, d: nextPath(from, to) })),
+    ...linear.prev.map((to, from) => (to === null ? null : { key: `p${from}`, from, d: prevPath(from, to) })),
+  ].filter((link): link is { key: string; from: number; d: string } => link !== null);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-h-[300px]" role="img" aria-label={label}>
+      <defs>
+        {[['default', LINK_COLOR], ['changed', CHANGED_COLOR]].map(([name, color]) => (
+          <marker key={name} id={`${markerId}-${name}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+
+      {linear.nodes.map((node, slot) => {
+        const colors = nodeColors[linear.nodeStates[node.id] ?? 'default'];
+        return (
+          // Keyed by stable id so inserts and removals slide the other nodes along.
+          <motion.g key={node.id} initial={false} animate={{ x: slotX(slot) }} transition={{ type: 'spring', stiffness: 220, damping: 26 }}>
+            <motion.rect
+              width={boxWidth}
+              height={BOX_HEIGHT}
+              y={TOP}
+              rx={6}
+              initial={false}
+              animate={{ fill: colors.fill, stroke: colors.stroke }}
+              transition={{ duration: 0.25 }}
+              strokeWidth={2}
+            />
+            {doubly && <line x1={LINK_CELL} y1={TOP} x2={LINK_CELL} y2={TOP + BOX_HEIGHT} stroke={colors.stroke} strokeWidth={1} />}
+            <line x1={boxWidth - LINK_CELL} y1={TOP} x2={boxWidth - LINK_CELL} y2={TOP + BOX_HEIGHT} stroke={colors.stroke} strokeWidth={1} />
+            <text x={(doubly ? LINK_CELL : 0) + VALUE_WIDTH / 2} y={TOP + BOX_HEIGHT / 2 + 4} textAnchor="middle" className="font-mono text-[12px] font-bold" fill="hsl(var(--foreground))">
+              {node.value}
+            </text>
+            {linear.next[slot] === null && <NullSlash x={boxWidth - LINK_CELL} y={TOP} />}
+            {doubly && linear.prev[slot] === null && <NullSlash x={0} y={TOP} />}
+          </motion.g>
+        );
+      })}
+
+      {links.map(({ key, from, d }) => {
+        const changed = linear.changedLinks.includes(from);
+        return (
+          <path
+            key={key}
+            d={d}
+            fill="none"
+            stroke={changed ? CHANGED_COLOR : LINK_COLOR}
+            strokeWidth={changed ? 2.25 : 1.5}
+            markerEnd={`url(#${markerId}-${changed ? 'changed' : 'default'})`}
+          />
+        );
+      })}
+
+      {Array.from(bySlot, ([slot, names]) =>
+        names.map((name, i) => (
+          <text
+            key={name}
+            x={slotX(slot) + boxWidth / 2}
+            y={labelTop + i * LABEL_LINE}
+            textAnchor="middle"
+            className="font-mono text-[10px] font-semibold"
+            fill={name === 'head' || name === 'tail' ? 'hsl(var(--primary))' : 'hsl(var(--compare))'}
+          >
+            {name}
+          </text>
+        )),
+      )}
+    </svg>
+  );
+};
+
+/** Stack, queue and deque are array-backed: a column of plates for the stack, a row otherwise. */
+const SequenceScene: React.FC<{ linear: LinearSnapshot; pointers: Record<string, number | null> }> = ({ linear, pointers }) => {
+  const { bySlot } = groupPointers(pointers);
+  const isStack = linear.kind === 'stack';
+
+  return (
+    <div className={`flex ${isStack ? 'flex-col-reverse items-center' : 'flex-row flex-wrap justify-center'} gap-1.5 py-4`}>
+      {linear.nodes.map((node, slot) => {
+        const colors = nodeColors[linear.nodeStates[node.id] ?? 'default'];
+        const names = bySlot.get(slot) ?? [];
+        return (
+          <motion.div
+            key={node.id}
+            layout
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ type: 'spring', stiffness: 260, damping: 24 }}
+            className={`flex ${isStack ? 'flex-row' : 'flex-col'} items-center gap-1.5`}
+          >
+            <div
+              className={`${isStack ? 'w-28 h-9' : 'w-12 h-10'} rounded-md border-2 flex items-center justify-center font-mono text-sm font-bold text-foreground transition-colors`}
+              style={{ background: colors.fill, borderColor: colors.stroke }}
+            >
+              {node.value}
+            </div>
+            <span className={`font-mono text-[10px] font-semibold text-primary ${isStack ? 'w-8' : 'h-4'}`}>{names.join(' / ')}</span>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const LinearStructureVisualizer: React.FC<LinearStructureVisualizerProps> = ({ step }) => {
+  const { linear, pointers } = step;
+  const isList = linear.kind === 'singly' || linear.kind === 'doubly';
+  const { nulls } = groupPointers(pointers);
+
+  return (
+    <div className="w-full space-y-3 md:space-y-4">
+      <div className="rounded-xl border border-border bg-card/50 p-2 md:p-3">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <span className="text-[10px] md:text-xs text-muted-foreground">
+            {linear.operation ? (
+              <>Operation: <span className="font-mono text-primary">{linear.operation}</span></>
+            ) : (
+              'No operation in progress'
+            )}
+          </span>
+          <span className="text-[10px] md:text-xs text-muted-foreground font-mono">size {linear.nodes.length}</span>
+        </div>
+
+        {linear.nodes.length === 0 ? (
+          <div className="py-10 text-center text-xs text-muted-foreground italic">empty {isList ? 'list' : linear.kind}</div>
+        ) : isList ? (
+          <div className="overflow-x-auto scrollbar-thin">
+            <LinkedListScene linear={linear} pointers={pointers} label={step.label} />
+          </div>
+        ) : (
+          <SequenceScene linear={linear} pointers={pointers} />
+        )}
+
+        {isList && nulls.length > 0 && (
+          <p className="text-center text-[10px] md:text-xs text-muted-foreground font-mono">
+            {nulls.map((name) => `${name} = null`).join(' • ')}
+          </p>
+        )}
+      </div>
+
+      {!isList && (
+        <div className="rounded-lg border border-border bg-card/50 p-3">
+          <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-2">Returned values</div>
+          <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+            {linear.output.length === 0 ? (
+              <span className="text-xs text-muted-foreground italic">none yet</span>
+            ) : (
+              linear.output.map((value, i) => (
+                <span key={i} className="px-2 py-1 rounded-md font-mono text-xs bg-secondary border border-border">{value}</span>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
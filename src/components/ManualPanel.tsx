@@ -0,0 +1,162 @@
+import React from 'react';
+import { AlertTriangle, ArrowLeftRight, CheckCircle2, Hand, Scale, Undo2, Wand2, X } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { Highlights, Step, createEmptyHighlights } from '@/lib/stepTypes';
+import { ManualActionKind, checkManualAction, isManualTrace, manualAction, nextManualAction } from '@/lib/manualMode';
+import { ArrayCell } from '@/components/ArrayCell';
+import { BarChartStep } from '@/components/BarChartStep';
+import { Button } from '@/components/ui/button';
+
+interface Divergence {
+  // What the learner sees after their move; a wrong swap is shown until they snap back.
+  array: number[];
+  kind: ManualActionKind;
+  cells: [number, number];
+  message: string;
+  // The step the correct move would have reached.
+  stepIndex: number;
+}
+
+// "You are the algorithm": the learner compares and swaps cells (or drags bars) and each move is checked against the steps.
+export const ManualPanel: React.FC = () => {
+  const { steps, currentStepIndex, manualMode, setManualMode, goToStep, viewMode, playbackSpeed } = useDebuggerStore();
+  const [selected, setSelected] = React.useState<number[]>([]);
+  const [divergence, setDivergence] = React.useState<Divergence | null>(null);
+  const [score, setScore] = React.useState({ right: 0, wrong: 0 });
+
+  React.useEffect(() => {
+    setSelected([]);
+    setDivergence(null);
+  }, [currentStepIndex, steps]);
+  React.useEffect(() => setScore({ right: 0, wrong: 0 }), [steps]);
+
+  if (!manualMode || steps.length === 0) return null;
+
+  const supported = isManualTrace(steps);
+  const current = steps[currentStepIndex];
+  const array = divergence?.array ?? current.after;
+  const next = supported ? nextManualAction(steps, currentStepIndex) : null;
+
+  const act = (kind: ManualActionKind, a: number, b: number) => {
+    setSelected([]);
+    const result = checkManualAction(steps, currentStepIndex, manualAction(kind, a, b), array);
+    if (!result) return;
+    if (!result.mistake) {
+      setScore((s) => ({ ...s, right: s.right + 1 }));
+      goToStep(result.stepIndex);
+      return;
+    }
+    setScore((s) => ({ ...s, wrong: s.wrong + 1 }));
+    const moved = [...array];
+    if (kind === 'swap') [moved[a], moved[b]] = [moved[b], moved[a]];
+    setDivergence({ array: moved, kind, cells: [a, b], message: result.mistake, stepIndex: result.stepIndex });
+  };
+
+  const pick = (index: number) => {
+    if (divergence || !next) return;
+    setSelected((picked) => (picked.includes(index) ? picked.filter((i) => i !== index) : [...picked, index].slice(-2)));
+  };
+
+  // Only what the learner already knows: the sorted region, plus their own off-track move.
+  const highlights: Highlights = { ...createEmptyHighlights(), sorted: current.highlights.after.sorted };
+  if (divergence) highlights[divergence.kind] = divergence.cells;
+  const boardStep: Step = { ...current, before: array, after: array, moveArrows: [], highlights: { before: highlights, after: highlights } };
+  const canAct = !divergence && !!next;
+
+  return (
+    <div className="shrink-0 px-3 md:px-4 py-3 border-b border-border bg-primary/5 space-y-3">
+      <div className="flex items-center gap-2">
+        <Hand className="w-4 h-4 text-primary" />
+        <span className="text-xs md:text-sm font-semibold text-foreground">You are the algorithm</span>
+        {supported && (
+          <span className="text-[10px] md:text-xs font-mono text-muted-foreground">
+            {score.right} right · {score.wrong} off track
+          </span>
+        )}
+        <Button variant="ghost" size="icon" onClick={() => setManualMode(false)} className="ml-auto h-6 w-6" aria-label="Leave manual mode">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {!supported ? (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          Manual mode covers algorithms that sort by comparing and swapping pairs, such as bubble, selection, quick and heap sort. This
+          run shifts or writes values, or changes no values at all.
+        </p>
+      ) : (
+        <>
+          {viewMode === 'bars' ? (
+            <BarChartStep
+              step={boardStep}
+              stepIndex={currentStepIndex}
+              playbackSpeedMs={playbackSpeed}
+              showExplanation={false}
+              barAreaPx={160}
+              density="dense"
+              selectedIndices={selected}
+              onBarClick={canAct ? pick : undefined}
+              onBarDrop={canAct ? (from, to) => act('swap', from, to) : undefined}
+            />
+          ) : (
+            <div className="flex flex-wrap justify-center gap-1.5 md:gap-2 pt-7 pb-5">
+              {array.map((value, i) => (
+                <ArrayCell
+                  key={i}
+                  value={value}
+                  index={i}
+                  highlights={highlights}
+                  pointers={current.pointers}
+                  enableLayout={false}
+                  selected={selected.includes(i)}
+                  onSelect={canAct ? () => pick(i) : undefined}
+                />
+              ))}
+            </div>
+          )}
+
+          {divergence ? (
+            <div className="space-y-2">
+              <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-swap">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                <span className="min-w-0 break-words">{divergence.message}</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDivergence(null)} className="h-7 gap-1.5 text-xs">
+                  <Undo2 className="w-3.5 h-3.5" />
+                  Snap back
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => goToStep(divergence.stepIndex)} className="h-7 gap-1.5 text-xs">
+                  <Wand2 className="w-3.5 h-3.5" />
+                  Show the right move
+                </Button>
+              </div>
+            </div>
+          ) : next ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={() => act('compare', selected[0], selected[1])} disabled={selected.length !== 2} className="h-7 gap-1.5 text-xs">
+                <Scale className="w-3.5 h-3.5" />
+                Compare
+              </Button>
+              <Button size="sm" onClick={() => act('swap', selected[0], selected[1])} disabled={selected.length !== 2} className="h-7 gap-1.5 text-xs">
+                <ArrowLeftRight className="w-3.5 h-3.5" />
+                Swap
+              </Button>
+              <span className="text-[10px] md:text-xs text-muted-foreground">
+                {viewMode === 'bars' ? 'Pick two bars, or drag one bar onto another to swap them.' : 'Pick two cells, then compare or swap them.'}
+              </span>
+            </div>
+          ) : (
+            <p className="flex items-center gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+              <CheckCircle2 className="w-3.5 h-3.5 text-found" />
+              {score.right + score.wrong === 0
+                ? 'No moves left in this run.'
+                : score.wrong === 0
+                  ? 'No moves left, and every move matched the algorithm.'
+                  : `No moves left: ${score.right} matched the algorithm, ${score.wrong} went off track.`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -3,13 +3,31 @@ import { motion } from 'framer-motion';
 import { useDebuggerStore } from '@/store/useDebuggerStore';
 import { StepRow } from './StepRow';
 import { Legend } from './Legend';
-import { BarChart3, Eye, Layers, Play, Pause, SkipForward, SkipBack } from 'lucide-react';
+import { BarChart3, Eye, Layers, Play, Pause, Printer, SkipForward, SkipBack } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { BarChartStep } from './BarChartStep';
 import { Button } from '@/components/ui/button';
 import { buildMergeTree } from '@/lib/algorithms/sorting/buildMergeTree';
 import { MergeSortTreeDiagram } from '@/components/MergeSortTreeDiagram';
 import { buildQuickSortTree } from '@/lib/algorithms/sorting/buildQuickSortTree';
 import { QuickSortTreeDiagram } from '@/components/QuickSortTreeDiagram';
+import { GraphVisualizer } from '@/components/GraphVisualizer';
+import { isGraphStep } from '@/lib/graphTypes';
+import { TreeVisualizer } from '@/components/TreeVisualizer';
+import { isTreeStep } from '@/lib/treeTypes';
+import { LinearStructureVisualizer } from '@/components/LinearStructureVisualizer';
+import { isLinearStep } from '@/lib/linearTypes';
+import { DpTableVisualizer } from '@/components/DpTableVisualizer';
+import { isDpStep } from '@/lib/dpTypes';
+import { AuxiliaryArrays } from '@/components/AuxiliaryArrays';
+import { ExportFramesDialog } from '@/components/ExportFramesDialog';
+import { isWorksheetTrace } from '@/lib/worksheet';
+import { QuizPanel } from '@/components/QuizPanel';
+import { findQuizAnswer, quizQuestionAt } from '@/lib/quiz';
+import { LessonPanel } from '@/components/LessonPanel';
+import { lessonCardAt } from '@/lib/lessons';
+import { getLesson } from '@/lib/lessonCatalog';
+import { ManualPanel } from '@/components/ManualPanel';
 
 type ActiveIndicator = { y: number; height: number } | null;
 
@@ -21,12 +39,19 @@ export const PictorialVisualizer: React.FC = () => {
     isPlaying, 
     playbackSpeed, 
     algorithm,
+    category,
+    quizMode,
+    quizAnswers,
+    quizFrontier,
+    quizRun,
+    activeLesson,
     nextStep,
     prevStep,
     play,
     pause,
     reset
   } = useDebuggerStore();
+  const navigate = useNavigate();
   const containerRef = useRef<HTMLDivElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
   const treeSectionRef = useRef<HTMLDivElement>(null);
@@ -236,7 +261,15 @@ export const PictorialVisualizer: React.FC = () => {
           </div>
           <h3 className="text-lg md:text-xl font-semibold text-foreground mb-2">No Steps Generated</h3>
           <p className="text-sm text-muted-foreground max-w-sm">
-            Enter an array and click "Generate Steps" to visualize the algorithm step-by-step.
+            {category === 'graph'
+              ? 'Enter an edge list and click "Generate Steps" to visualize the algorithm step-by-step.'
+              : category === 'tree' || category === 'linear-structures'
+                ? 'Enter a list of operations and click "Generate Steps" to visualize them step-by-step.'
+                : category === 'dynamic-programming'
+                  ? 'Enter the parameters and click "Generate Steps" to watch the table fill cell by cell.'
+                : category === 'sandbox'
+                  ? 'Write a solve(arr, target) function and click "Run Code" to replay every array access it makes.'
+                : 'Enter an array and click "Generate Steps" to visualize the algorithm step-by-step.'}
           </p>
         </motion.div>
       </div>
@@ -246,10 +279,18 @@ export const PictorialVisualizer: React.FC = () => {
   const hasSteps = steps.length > 0;
   const isAtStart = currentStepIndex === 0;
 
+  // An open quiz question asks about the next step, so its row stays hidden until the question is answered.
+  const quizQuestion = quizMode ? quizQuestionAt(steps, currentStepIndex) : null;
+  const awaitingAnswer = !!quizQuestion && quizQuestion.stepIndex >= quizFrontier && !findQuizAnswer(quizAnswers, quizRun, quizQuestion);
+  // Likewise for a lesson checkpoint that has not been cleared yet.
+  const lesson = activeLesson ? getLesson(activeLesson.id) : undefined;
+  const lessonCard = lesson ? lessonCardAt(lesson, currentStepIndex) : undefined;
+  const awaitingCheckpoint = !!lessonCard?.checkpoint && !activeLesson.cleared.includes(lessonCard.step);
+
   // For pictorial mode, show progressive steps up to current
   const getVisibleSteps = () => {
     // Show all steps up to current + a few ahead for context
-    const endIndex = Math.min(steps.length, currentStepIndex + 2);
+    const endIndex = Math.min(steps.length, currentStepIndex + (awaitingAnswer || awaitingCheckpoint ? 1 : 2));
     return steps.slice(0, endIndex).map((step, i) => ({
       step,
       globalIndex: i,
@@ -309,8 +350,17 @@ export const PictorialVisualizer: React.FC = () => {
           </button>
         </div>
         
-        <div className="hidden sm:block">
-          <Legend />
+        <div className="flex items-center gap-3">
+          {isWorksheetTrace(steps) && (
+            <Button variant="outline" size="sm" onClick={() => navigate('/worksheet')} className="h-8 gap-1.5 text-xs">
+              <Printer className="w-3.5 h-3.5" />
+              Worksheet
+            </Button>
+          )}
+          <ExportFramesDialog />
+          <div className="hidden sm:block">
+            <Legend />
+          </div>
         </div>
       </div>
 
@@ -319,6 +369,10 @@ export const PictorialVisualizer: React.FC = () => {
         <Legend />
       </div>
 
+      <LessonPanel />
+      <QuizPanel />
+      <ManualPanel />
+
       {/* Step Progress Indicator */}
       <div className="shrink-0 px-3 md:px-4 py-2 bg-muted/30 border-b border-border">
         <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
@@ -340,7 +394,26 @@ export const PictorialVisualizer: React.FC = () => {
         ref={containerRef}
         className="flex-1 overflow-y-auto scrollbar-thin p-3 md:p-4"
       >
-        {viewMode === 'pictorial' ? (
+        {isGraphStep(currentStep) || isTreeStep(currentStep) || isLinearStep(currentStep) || isDpStep(currentStep) ? (
+          // Graph, tree, linear-structure and DP steps have no array rows; every view mode shows the current snapshot.
+          <div className="flex flex-col items-center justify-start min-h-full pt-2 md:pt-4">
+            <div className="w-full max-w-3xl">
+              <h3 className="text-center mb-3 md:mb-4 text-lg md:text-xl font-bold text-foreground">{currentStep.label}</h3>
+              {isGraphStep(currentStep) ? (
+                <GraphVisualizer step={currentStep} />
+              ) : isTreeStep(currentStep) ? (
+                <TreeVisualizer step={currentStep} />
+              ) : isLinearStep(currentStep) ? (
+                <LinearStructureVisualizer step={currentStep} />
+              ) : (
+                <DpTableVisualizer step={currentStep} />
+              )}
+              <div className="mt-4 p-4 rounded-lg bg-primary/5 border border-primary/20">
+                <p className="text-sm md:text-base text-foreground leading-relaxed">{currentStep.explanation}</p>
+              </div>
+            </div>
+          </div>
+        ) : viewMode === 'pictorial' ? (
           <div ref={listRef} className={`relative flex flex-col gap-2 md:gap-3 ${shouldShowMergeTreeSection ? 'pb-2' : ''}`}>
             {/* Match Focus-mode indicator behavior: absolute overlay that animates position only */}
             {activeIndicator && (
@@ -376,6 +449,11 @@ export const PictorialVisualizer: React.FC = () => {
                       indicatorMode="pictorial"
                       algorithm={algorithm}
                     />
+                    {isActiveRow && step.auxiliary && (
+                      <div className="mt-2 px-1">
+                        <AuxiliaryArrays arrays={step.auxiliary} />
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -460,6 +538,12 @@ export const PictorialVisualizer: React.FC = () => {
                 playbackSpeedMs={playbackSpeed}
               />
 
+              {currentStep.auxiliary && (
+                <div className="mt-3 md:mt-4">
+                  <AuxiliaryArrays arrays={currentStep.auxiliary} />
+                </div>
+              )}
+
               {shouldShowMergeTreeSection && (
                 <div ref={treeSectionRef} className="mt-3 md:mt-4 pt-3 border-t border-border scroll-mt-24">
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -536,6 +620,12 @@ export const PictorialVisualizer: React.FC = () => {
                 algorithm={algorithm}
               />
 
+              {currentStep.auxiliary && (
+                <div className="mt-3 md:mt-4">
+                  <AuxiliaryArrays arrays={currentStep.auxiliary} />
+                </div>
+              )}
+
               {/* Explanation */}
               <div className={`rounded-lg bg-primary/5 border border-primary/20 ${shouldShowMergeTreeSection ? 'mt-3 p-3' : 'mt-4 md:mt-6 p-4'}`}>
                 <p className="text-sm md:text-base text-foreground leading-relaxed">{currentStep.explanation}</p>
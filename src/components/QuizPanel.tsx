@@ -0,0 +1,112 @@
+import React from 'react';
+import { CheckCircle2, GraduationCap, RotateCcw, X, XCircle } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { findQuizAnswer, quizQuestionAt, quizScore } from '@/lib/quiz';
+import { Button } from '@/components/ui/button';
+
+// Question card for quiz mode: asks at key steps, shows how the answer went, and reviews misses at the end.
+export const QuizPanel: React.FC = () => {
+  const { steps, currentStepIndex, quizMode, quizAnswers, quizFrontier, quizRun, answerQuiz, resetQuiz, setQuizMode, goToStep } = useDebuggerStore();
+  if (!quizMode || steps.length === 0) return null;
+
+  const question = quizQuestionAt(steps, currentStepIndex);
+  const answered = question ? findQuizAnswer(quizAnswers, quizRun, question) : undefined;
+  // Back behind the furthest step seen: the answer has been on screen, so it would be a free point.
+  const alreadySeen = !!question && !answered && question.stepIndex < quizFrontier;
+  const { correct, total } = quizScore(quizAnswers);
+  const missed = quizAnswers.filter((a) => a.chosen !== a.answer);
+  const isAtEnd = currentStepIndex === steps.length - 1;
+
+  return (
+    <div className="shrink-0 px-3 md:px-4 py-3 border-b border-border bg-primary/5 space-y-2">
+      <div className="flex items-center gap-2">
+        <GraduationCap className="w-4 h-4 text-primary" />
+        <span className="text-xs md:text-sm font-semibold text-foreground">Quiz</span>
+        <span className="text-[10px] md:text-xs font-mono text-muted-foreground">
+          {correct} / {total} correct
+        </span>
+        <Button variant="ghost" size="icon" onClick={resetQuiz} disabled={total === 0} className="ml-auto h-6 w-6" aria-label="Reset score">
+          <RotateCcw className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setQuizMode(false)} className="h-6 w-6" aria-label="Leave quiz mode">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {alreadySeen ? (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          You have already seen what this step leads to, so it is not asked. Questions pick up again from step {quizFrontier + 1}.
+        </p>
+      ) : question ? (
+        <div className="space-y-2">
+          <p className="text-xs md:text-sm text-foreground">{question.prompt}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {question.choices.map((choice, i) => {
+              const state = !answered ? 'open' : i === question.answer ? 'right' : i === answered.chosen ? 'wrong' : 'other';
+              return (
+                <button
+                  key={choice}
+                  onClick={() => answerQuiz(i)}
+                  disabled={!!answered}
+                  className={`px-3 py-1.5 rounded-md border font-mono text-xs transition-colors ${
+                    state === 'right'
+                      ? 'border-found bg-found/15 text-foreground'
+                      : state === 'wrong'
+                        ? 'border-swap bg-swap/15 text-foreground'
+                        : state === 'open'
+                          ? 'border-border bg-secondary hover:bg-secondary/70 hover:border-primary text-foreground'
+                          : 'border-border bg-secondary/50 text-muted-foreground'
+                  }`}
+                >
+                  {choice}
+                </button>
+              );
+            })}
+          </div>
+          <p className="flex items-center gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+            {!answered ? (
+              'Predict the next step; stepping forward waits for your answer.'
+            ) : answered.chosen === answered.answer ? (
+              <>
+                <CheckCircle2 className="w-3.5 h-3.5 text-found" /> Correct. Step forward to see it happen.
+              </>
+            ) : (
+              <>
+                <XCircle className="w-3.5 h-3.5 text-swap" /> Not quite: it was {question.choices[question.answer]}. Step forward to see why.
+              </>
+            )}
+          </p>
+        </div>
+      ) : isAtEnd && total > 0 ? (
+        <div className="space-y-1.5">
+          <p className="text-xs md:text-sm text-foreground">
+            Finished with {correct} of {total} right{missed.length === 0 ? '. Nothing to review.' : '. Review what you missed:'}
+          </p>
+          {missed.map((a, i) => (
+            <div key={i} className="flex items-start gap-2 text-[10px] md:text-xs">
+              <XCircle className="w-3.5 h-3.5 shrink-0 mt-px text-swap" />
+              <div className="min-w-0 flex-1">
+                <p className="text-foreground">{a.prompt}</p>
+                <p className="text-muted-foreground">
+                  You said <span className="font-mono">{a.choices[a.chosen]}</span>; it was{' '}
+                  <span className="font-mono text-foreground">{a.choices[a.answer]}</span> ({a.label}).
+                </p>
+              </div>
+              {a.run === quizRun && (
+                <Button variant="outline" size="sm" onClick={() => goToStep(a.stepIndex)} className="h-6 px-2 text-[10px] shrink-0">
+                  Step {a.stepIndex + 1}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          {steps.some((_, i) => quizQuestionAt(steps, i))
+            ? 'Play or step forward; the quiz stops before each key step.'
+            : 'This run has no quiz questions; the quiz covers compares, swaps, pivots and mid points in array algorithms.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Keyboard, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { formatKey, isBindableKey, normalizeKey, ShortcutAction, SHORTCUTS } from '@/lib/shortcuts';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ open, onOpenChange }) => {
+  const { shortcutBindings, setShortcutBinding, resetShortcutBindings } = useDebuggerStore();
+  const [capturing, setCapturing] = React.useState<ShortcutAction | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setCapturing(null);
+    onOpenChange(next);
+  };
+
+  const handleCapture = (event: React.KeyboardEvent, action: ShortcutAction) => {
+    if (capturing !== action) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setCapturing(null);
+      return;
+    }
+    if (!isBindableKey(event.key)) return;
+    setShortcutBinding(action, normalizeKey(event.key));
+    setCapturing(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="sm:max-w-md"
+        // Escape cancels a capture instead of closing the dialog.
+        onEscapeKeyDown={(event) => capturing && event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-primary" />
+            Keyboard Shortcuts
+          </DialogTitle>
+          <DialogDescription>Click a key to rebind it. Shortcuts are ignored while typing in a field.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {SHORTCUTS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between py-1.5 text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <button
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                onKeyDown={(event) => handleCapture(event, action)}
+                onBlur={() => capturing === action && setCapturing(null)}
+                className={`min-w-[4.5rem] px-2 py-1 rounded-md border font-mono text-xs transition-colors ${
+                  capturing === action
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border bg-secondary hover:bg-secondary/80 text-foreground'
+                }`}
+              >
+                {capturing === action ? 'Press a key…' : formatKey(shortcutBindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-2 border-t border-border">
+          <Button variant="ghost" size="sm" onClick={resetShortcutBindings} className="gap-2 text-muted-foreground">
+            <RotateCcw className="w-4 h-4" />
+            Reset shortcuts
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
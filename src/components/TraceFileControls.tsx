@@ -0,0 +1,78 @@
+import React from 'react';
+import { AlertTriangle, Download, FileJson, Upload } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { MAX_TRACE_BYTES, createTraceFile, parseTraceFile, traceFileName } from '@/lib/traceFile';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+// Export the current steps to a JSON file, or load one back for playback without regenerating.
+export const TraceFileControls: React.FC = () => {
+  const state = useDebuggerStore();
+  const { steps, importedTrace, loadTrace } = state;
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const exportTrace = () => {
+    const trace = createTraceFile({
+      algorithm: state.algorithm,
+      // A sandbox trace belongs to the code that ran, not to later edits in the editor.
+      inputs: { ...state, sandboxCode: state.sandboxRunCode ?? state.sandboxCode },
+      steps,
+      currentStepIndex: state.currentStepIndex,
+    });
+    downloadBlob(new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' }), traceFileName(trace));
+  };
+
+  const importTrace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change.
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_TRACE_BYTES) {
+      setError(`${file.name} is too large to be a trace (${Math.round(file.size / 1024 / 1024)} MB).`);
+      return;
+    }
+    const { trace, error } = parseTraceFile(await file.text());
+    setError(error && `${file.name}: ${error}`);
+    if (trace) loadTrace(trace, file.name);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="outline" size="sm" onClick={exportTrace} disabled={steps.length === 0} className="flex-1 h-8 text-xs">
+              <Download className="w-3.5 h-3.5 mr-1" />
+              Export trace
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Save the algorithm, its input and every step as JSON</p></TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="flex-1 h-8 text-xs">
+              <Upload className="w-3.5 h-3.5 mr-1" />
+              Import trace
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent><p>Replay an exported trace without regenerating it</p></TooltipContent>
+        </Tooltip>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={importTrace} className="hidden" />
+      </div>
+      {importedTrace && steps.length > 0 && (
+        <p className="flex items-center gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+          <FileJson className="w-3.5 h-3.5 shrink-0 text-primary" />
+          <span className="truncate">Replaying {importedTrace}; generating steps replaces it.</span>
+        </p>
+      )}
+      {error && (
+        <p className="flex items-start gap-1.5 text-[10px] md:text-xs text-swap">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+          <span className="break-words min-w-0">{error}</span>
+        </p>
+      )}
+    </div>
+  );
+};
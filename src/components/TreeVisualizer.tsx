@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Maximize2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FullscreenTreeViewer } from '@/components/FullscreenTreeViewer';
+import { TreeNodeState, TreeSnapshot, TreeStep } from '@/lib/treeTypes';
+
+interface TreeVisualizerProps {
+  step: TreeStep;
+}
+
+const NODE_RADIUS = 18;
+const VIEW_PADDING = 8;
+
+const nodeColors: Record<TreeNodeState, { fill: string; stroke: string }> = {
+  default: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  path: { fill: 'hsl(var(--compare) / 0.15)', stroke: 'hsl(var(--compare) / 0.7)' },
+  current: { fill: 'hsl(var(--compare) / 0.3)', stroke: 'hsl(var(--compare))' },
+  found: { fill: 'hsl(var(--found) / 0.3)', stroke: 'hsl(var(--found))' },
+  inserted: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  removed: { fill: 'hsl(var(--swap) / 0.25)', stroke: 'hsl(var(--swap))' },
+  swap: { fill: 'hsl(var(--shift) / 0.3)', stroke: 'hsl(var(--shift))' },
+  unbalanced: { fill: 'hsl(var(--pivot) / 0.3)', stroke: 'hsl(var(--pivot))' },
+};
+
+// Rendered inside an <svg>; the inline view and the fullscreen viewer each supply their own viewBox.
+const TreeScene: React.FC<{ tree: TreeSnapshot }> = ({ tree }) => {
+  const positions = new Map(tree.nodes.map((n) => [n.id, n]));
+
+  return (
+    <g>
+      {tree.edges.map((edge) => {
+        const from = positions.get(edge.from);
+        const to = positions.get(edge.to);
+        if (!from || !to) return null;
+        return (
+          <motion.line
+            key={`${edge.from}-${edge.to}`}
+            initial={false}
+            animate={{ x1: from.x, y1: from.y, x2: to.x, y2: to.y }}
+            transition={{ type: 'spring', stiffness: 220, damping: 26 }}
+            stroke="hsl(var(--muted-foreground) / 0.5)"
+            strokeWidth={2}
+          />
+        );
+      })}
+
+      {tree.nodes.map((node) => {
+        const colors = nodeColors[tree.nodeStates[node.id] ?? 'default'];
+        return (
+          // Keyed by stable id so rotations and swaps animate as movement.
+          <motion.g
+            key={node.id}
+            initial={false}
+            animate={{ x: node.x, y: node.y }}
+            transition={{ type: 'spring', stiffness: 220, damping: 26 }}
+          >
+            <motion.circle
+              r={NODE_RADIUS}
+              initial={false}
+              animate={{ fill: colors.fill, stroke: colors.stroke }}
+              transition={{ duration: 0.25 }}
+              strokeWidth={2.5}
+            />
+            <text y={4} textAnchor="middle" className="font-mono text-[12px] font-bold" fill="hsl(var(--foreground))">
+              {node.value}
+            </text>
+            {node.badge !== null && (
+              <text
+                x={NODE_RADIUS + 2}
+                y={-NODE_RADIUS + 4}
+                className="font-mono text-[9px] font-semibold"
+                fill={Math.abs(node.badge) > 1 ? 'hsl(var(--pivot))' : 'hsl(var(--muted-foreground))'}
+              >
+                {node.badge > 0 ? `+${node.badge}` : node.badge}
+              </text>
+            )}
+          </motion.g>
+        );
+      })}
+    </g>
+  );
+};
+
+const sceneViewBox = ({ bounds }: TreeSnapshot) =>
+  `${bounds.minX - VIEW_PADDING} ${bounds.minY - VIEW_PADDING} ${bounds.maxX - bounds.minX + VIEW_PADDING * 2} ${bounds.maxY - bounds.minY + VIEW_PADDING * 2}`;
+
+export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({ step }) => {
+  const { tree } = step;
+  const [fullscreenOpen, setFullscreenOpen] = useState(false);
+
+  return (
+    <div className="w-full space-y-3 md:space-y-4">
+      <div className="rounded-xl border border-border bg-card/50 p-2 md:p-3">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <span className="text-[10px] md:text-xs text-muted-foreground">
+            {tree.operation ? (
+              <>Operation: <span className="font-mono text-primary">{tree.operation}</span></>
+            ) : (
+              'No operation in progress'
+            )}
+          </span>
+          <Button variant="ghost" size="sm" className="h-8 gap-1.5 text-xs" onClick={() => setFullscreenOpen(true)} disabled={tree.nodes.length === 0}>
+            <Maximize2 className="w-3.5 h-3.5" />
+            Fullscreen
+          </Button>
+        </div>
+
+        {tree.nodes.length === 0 ? (
+          <div className="py-10 text-center text-xs text-muted-foreground italic">empty tree</div>
+        ) : (
+          <svg viewBox={sceneViewBox(tree)} className="w-full h-auto max-h-[380px]" role="img" aria-label={step.label}>
+            <TreeScene tree={tree} />
+          </svg>
+        )}
+
+        {tree.badgeLabel && (
+          <p className="text-center text-[10px] md:text-xs text-muted-foreground">
+            Number beside each node: <span className="font-mono text-primary">{tree.badgeLabel}</span>
+          </p>
+        )}
+      </div>
+
+      {tree.array && (
+        <div className="rounded-lg border border-border bg-card/50 p-3">
+          <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider mb-2">Heap array</div>
+          <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+            {tree.array.length === 0 ? (
+              <span className="text-xs text-muted-foreground italic">empty</span>
+            ) : (
+              tree.array.map((value, i) => (
+                <span key={i} className="flex flex-col items-center">
+                  <span className="px-2 py-1 rounded-md font-mono text-xs bg-secondary border border-border">{value}</span>
+                  <span className="text-[9px] text-muted-foreground font-mono">{i}</span>
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <FullscreenTreeViewer
+        open={fullscreenOpen}
+        onOpenChange={setFullscreenOpen}
+        title={step.label}
+        subtitle={tree.operation ?? 'Pan/zoom to explore'}
+        bounds={tree.bounds}
+      >
+        <svg viewBox={sceneViewBox(tree)}>
+          <TreeScene tree={tree} />
+        </svg>
+      </FullscreenTreeViewer>
+    </div>
+  );
+};
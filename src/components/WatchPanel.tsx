@@ -0,0 +1,124 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Eye, HelpCircle, Plus, X } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { Step } from '@/lib/stepTypes';
+import { compileExpression, createStepScope, ExpressionValue, formatExpressionValue } from '@/lib/stepExpression';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface WatchEntry {
+  name: string;
+  value: ExpressionValue;
+  // Locals are the code's own variables; pointers are indices drawn on the array.
+  kind: 'pointer' | 'local';
+  changed: boolean;
+}
+
+const sameValue = (a: ExpressionValue, b: ExpressionValue) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Pointers and locals at `step`, flagged when they differ from (or did not exist at) the previous step.
+function watchEntries(step: Step, previous: Step | undefined): WatchEntry[] {
+  const entries = (kind: WatchEntry['kind'], now: Record<string, ExpressionValue> = {}, before?: Record<string, ExpressionValue>) =>
+    Object.entries(now).map(([name, value]) => ({
+      name,
+      value,
+      kind,
+      changed: before !== undefined && (!(name in before) || !sameValue(before[name], value)),
+    }));
+  return [
+    ...entries('pointer', step.pointers, previous?.pointers),
+    ...entries('local', step.variables, previous ? previous.variables ?? {} : undefined),
+  ];
+}
+
+export const WatchPanel: React.FC = () => {
+  const { steps, currentStepIndex, watchExpressions, addWatchExpression, removeWatchExpression } = useDebuggerStore();
+  const [draft, setDraft] = React.useState('');
+
+  const currentStep = steps[currentStepIndex] as Step | undefined;
+  const previousStep = currentStepIndex > 0 ? steps[currentStepIndex - 1] : undefined;
+  const entries = currentStep ? watchEntries(currentStep, previousStep) : [];
+  const scope = currentStep ? createStepScope(currentStep) : null;
+  const previousScope = previousStep ? createStepScope(previousStep) : null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addWatchExpression(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 bg-muted/30 flex items-center gap-2">
+        <Eye className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Watch</span>
+        <Tooltip>
+          <TooltipTrigger><HelpCircle className="w-3.5 h-3.5 text-muted-foreground" /></TooltipTrigger>
+          <TooltipContent className="tooltip-content">
+            <p>Pointers and the algorithm's locals at this step; highlighted ones changed since the previous step. Pin expressions such as arr[mid] or high - low to follow them too.</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="p-3 pb-0 grid grid-cols-2 md:grid-cols-3 gap-2">
+          <AnimatePresence mode="popLayout">
+            {entries.map((entry) => (
+              <motion.div
+                key={`${entry.kind}-${entry.name}`}
+                layout
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                className={`p-2 rounded-lg border ${entry.changed ? 'bg-primary/10 border-primary/60' : 'bg-secondary/50 border-border'}`}
+              >
+                <span className="flex items-center gap-1 text-[10px] text-muted-foreground font-mono">
+                  {entry.name}
+                  {entry.kind === 'local' && <span className="text-[8px] uppercase tracking-wider text-key">local</span>}
+                  {entry.changed && <span className="ml-auto w-1.5 h-1.5 rounded-full bg-primary" aria-label="changed" />}
+                </span>
+                <p className="text-base md:text-lg font-mono font-bold text-primary truncate">{formatExpressionValue(entry.value)}</p>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+
+      <div className="p-3 space-y-1.5">
+        {watchExpressions.map((expression, index) => {
+          const compiled = compileExpression(expression);
+          const value = compiled.evaluate && scope ? compiled.evaluate(scope) : undefined;
+          const changed = compiled.evaluate !== null && scope !== null && previousScope !== null && !sameValue(compiled.evaluate(previousScope), value);
+          return (
+            <div
+              key={expression}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md border font-mono text-[10px] md:text-xs ${changed ? 'bg-primary/10 border-primary/60' : 'bg-secondary/50 border-border'}`}
+            >
+              <span className="text-muted-foreground truncate">{expression}</span>
+              <span className={`ml-auto shrink-0 font-semibold ${compiled.error ? 'text-swap' : 'text-primary'}`}>
+                {compiled.error ?? (scope ? formatExpressionValue(value) : '—')}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => removeWatchExpression(index)} className="h-5 w-5 shrink-0" aria-label="Remove watch">
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+        <form onSubmit={submit} className="flex gap-1.5">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Pin an expression, e.g. arr[mid]"
+            spellCheck={false}
+            className="h-7 font-mono text-[10px] md:text-xs bg-background/60"
+          />
+          <Button type="submit" variant="outline" size="icon" disabled={draft.trim() === ''} className="h-7 w-7 shrink-0" aria-label="Add watch">
+            <Plus className="w-3.5 h-3.5" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
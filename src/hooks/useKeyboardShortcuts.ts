@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { getAlgorithm } from '@/lib/algorithms';
+import { findShortcut, isTypingTarget, ShortcutAction } from '@/lib/shortcuts';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+
+function runShortcut(action: ShortcutAction, onShowShortcuts: () => void): boolean {
+  const state = useDebuggerStore.getState();
+  const { steps, currentStepIndex, isPlaying } = state;
+
+  switch (action) {
+    case 'playPause':
+      if (isPlaying) state.pause();
+      else if (currentStepIndex < steps.length - 1) state.play();
+      return steps.length > 0;
+    case 'nextStep':
+      state.nextStep();
+      return true;
+    case 'prevStep':
+      state.prevStep();
+      return true;
+    case 'firstStep':
+      state.goToStep(0);
+      return true;
+    case 'lastStep':
+      state.goToStep(steps.length - 1);
+      return true;
+    case 'stepOver':
+    case 'stepBackOver':
+      state.stepOver(action === 'stepOver' ? 'forward' : 'backward');
+      return true;
+    case 'stepOut':
+    case 'stepBackOut':
+      state.stepOut(action === 'stepOut' ? 'forward' : 'backward');
+      return true;
+    case 'runToCursor':
+    case 'runBackToCursor':
+      state.runToCursor(action === 'runToCursor' ? 'forward' : 'backward');
+      return true;
+    case 'viewPictorial':
+      state.setViewMode('pictorial');
+      return true;
+    case 'viewFocus':
+      state.setViewMode('focus');
+      return true;
+    case 'viewBars':
+      state.setViewMode('bars');
+      return true;
+    case 'randomArray': {
+      // Only algorithms with an array input show the shuffle button.
+      const inputKind = getAlgorithm(state.algorithm)?.requirements.inputKind ?? 'array';
+      if (inputKind !== 'array' && inputKind !== 'code') return false;
+      state.generateRandomArray();
+      return true;
+    }
+    case 'showShortcuts':
+      onShowShortcuts();
+      return true;
+  }
+}
+
+// Global playback and navigation keys, read from the user's saved bindings.
+export function useKeyboardShortcuts(onShowShortcuts: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+      // Open dialogs own the keyboard (including the cheat sheet while it captures a new key).
+      if (document.querySelector('[role="dialog"], [role="alertdialog"]')) return;
+
+      const action = findShortcut(useDebuggerStore.getState().shortcutBindings, event.key);
+      if (action && runShortcut(action, onShowShortcuts)) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onShowShortcuts]);
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// Opens the page's link once on mount, then mirrors `query` into the URL without adding history entries.
+export function usePermalink(query: string, open: (params: URLSearchParams) => void) {
+  const navigate = useNavigate();
+  const syncedRef = useRef(false);
+
+  useEffect(() => {
+    open(new URLSearchParams(window.location.search));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    // The first run still sees the state from before the link was opened; leave the URL alone until it changes.
+    if (!syncedRef.current) {
+      syncedRef.current = true;
+      return;
+    }
+    if (window.location.search.slice(1) === query) return;
+    navigate({ search: query }, { replace: true });
+  }, [navigate, query]);
+}
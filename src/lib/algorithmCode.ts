@@ -1,200 +0,0 @@
-import { AlgorithmType } from './stepTypes';
-
-export const ALGORITHM_CODE: Record<AlgorithmType, string> = {
-  'bubble-sort': `def bubble_sort(arr):
-    n = len(arr)
-    
-    for i in range(n - 1):
-        # Flag to optimize if no swaps occur
-        swapped = False
-        
-        for j in range(n - i - 1):
-            # Compare adjacent elements
-            if arr[j] > arr[j + 1]:
-                # Swap if they are in wrong order
-                arr[j], arr[j + 1] = arr[j + 1], arr[j]
-                swapped = True
-        
-        # If no swaps, array is sorted
-        if not swapped:
-            break
-    
-    return arr`,
-
-  'selection-sort': `def selection_sort(arr):
-    n = len(arr)
-    
-    for i in range(n - 1):
-        # Find the minimum element
-        min_idx = i
-        
-        for j in range(i + 1, n):
-            if arr[j] < arr[min_idx]:
-                min_idx = j
-        
-        # Swap minimum with first unsorted
-        if min_idx != i:
-            arr[i], arr[min_idx] = arr[min_idx], arr[i]
-    
-    return arr`,
-
-  'insertion-sort': `def insertion_sort(arr):
-    n = len(arr)
-    
-    for i in range(1, n):
-        # Store the current element as key
-        key = arr[i]
-        j = i - 1
-        
-        # Shift elements greater than key
-        while j >= 0 and arr[j] > key:
-            arr[j + 1] = arr[j]
-            j -= 1
-        
-        # Insert key at correct position
-        arr[j + 1] = key
-    
-    return arr`,
-
-  'merge-sort': `def merge_sort(arr):
-    if len(arr) <= 1:
-        return arr
-    
-    mid = len(arr) // 2
-    left = merge_sort(arr[:mid])
-    right = merge_sort(arr[mid:])
-    
-    return merge(left, right)
-
-def merge(left, right):
-    result = []
-    i = j = 0
-    
-    while i < len(left) and j < len(right):
-        if left[i] <= right[j]:
-            result.append(left[i])
-            i += 1
-        else:
-            result.append(right[j])
-            j += 1
-    
-    result.extend(left[i:])
-    result.extend(right[j:])
-    return result`,
-
-  'quick-sort': `def partition(arr, low, high):
-    pivot = arr[high]
-    i = low - 1
-
-    for j in range(low, high):
-        if arr[j] <= pivot:
-            i += 1
-            arr[i], arr[j] = arr[j], arr[i]
-
-    arr[i + 1], arr[high] = arr[high], arr[i + 1]
-    return i + 1
-
-
-def quick_sort(arr, low, high):
-    if low < high:
-        pivot_index = partition(arr, low, high)
-        quick_sort(arr, low, pivot_index - 1)
-        quick_sort(arr, pivot_index + 1, high)`,
-
-  'heap-sort': `def heap_sort(arr):
-    n = len(arr)
-    
-    # Build max heap
-    for i in range(n // 2 - 1, -1, -1):
-        heapify(arr, n, i)
-    
-    # Extract elements from heap
-    for i in range(n - 1, 0, -1):
-        arr[0], arr[i] = arr[i], arr[0]
-        heapify(arr, i, 0)
-    
-    return arr
-
-def heapify(arr, n, i):
-    largest = i
-    left = 2 * i + 1
-    right = 2 * i + 2
-    
-    if left < n and arr[left] > arr[largest]:
-        largest = left
-    if right < n and arr[right] > arr[largest]:
-        largest = right
-    
-    if largest != i:
-        arr[i], arr[largest] = arr[largest], arr[i]
-        heapify(arr, n, largest)`,
-
-  'linear-search': `def linear_search(arr, target):
-    for i in range(len(arr)):
-        # Check each element sequentially
-        if arr[i] == target:
-            return i  # Found at index i
-    
-    return -1  # Not found`,
-
-  'binary-search': `def binary_search(arr, target):
-    low = 0
-    high = len(arr) - 1
-    
-    while low <= high:
-        mid = (low + high) // 2
-        
-        if arr[mid] == target:
-            return mid  # Found!
-        elif arr[mid] < target:
-            low = mid + 1  # Search right half
-        else:
-            high = mid - 1  # Search left half
-    
-    return -1  # Not found`,
-
-  'jump-search': `def jump_search(arr, target):
-    import math
-    n = len(arr)
-    step = int(math.sqrt(n))
-    
-    prev = 0
-    curr = step
-    
-    # Jump through blocks
-    while curr < n and arr[curr] < target:
-        prev = curr
-        curr += step
-    
-    # Linear search in block
-    for i in range(prev, min(curr + 1, n)):
-        if arr[i] == target:
-            return i
-    
-    return -1`,
-
-  'interpolation-search': `def interpolation_search(arr, target):
-    low = 0
-    high = len(arr) - 1
-    
-    while low <= high and target >= arr[low] and target <= arr[high]:
-        # Calculate probe position
-        if arr[high] == arr[low]:
-            if arr[low] == target:
-                return low
-            break
-        
-        pos = low + int(
-            ((target - arr[low]) * (high - low)) /
-            (arr[high] - arr[low])
-        )
-        
-        if arr[pos] == target:
-            return pos
-        elif arr[pos] < target:
-            low = pos + 1
-        else:
-            high = pos - 1
-    
-    return -1`,
-};
@@ -0,0 +1,154 @@
+// Larger arrays no longer fit the visualizer and produce thousands of steps.
+export const MAX_ARRAY_SIZE = 30;
+
+// Ranges such as "1..10" expand inline, so they are capped like the array itself.
+const RANGE_PATTERN = /^(-?\d+)\.\.(-?\d+)$/;
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d+)?|\.\d+)$/;
+
+export interface ArrayParseResult {
+  values: number[];
+  // Tokens that are not numbers, in input order.
+  invalidTokens: string[];
+  // First problem worth showing the user; null when the input is usable.
+  error: string | null;
+}
+
+export interface ArrayParseOptions {
+  // Counting and radix sort index arrays by value, so decimals are rejected for them.
+  integersOnly?: boolean;
+}
+
+export function parseNumberToken(token: string): number | null {
+  return NUMBER_PATTERN.test(token) ? Number(token) : null;
+}
+
+function listTokens(tokens: string[]): string {
+  const shown = tokens.slice(0, 3).map((t) => `"${t}"`).join(', ');
+  return tokens.length > 3 ? `${shown} and ${tokens.length - 3} more` : shown;
+}
+
+// JSON arrays are read as-is; anything else is split on commas, semicolons and whitespace.
+function tokenize(input: string): string[] {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+    } catch {
+      // Not valid JSON ("[3, 1, 2" or "[1..5]"): fall back to plain tokens without the brackets.
+    }
+    return tokenize(trimmed.replace(/^\[|\]$/g, ''));
+  }
+  return trimmed.split(/[\s,;]+/).filter(Boolean);
+}
+
+/**
+ * Parses "5, 3, -1.5", "5 3 1" (spaces or newlines), "[5, 3, 1]" or ranges like "1..5".
+ * Invalid tokens are collected rather than dropped, so the caller can refuse the input and say why.
+ */
+export function parseArrayInput(input: string, options: ArrayParseOptions = {}): ArrayParseResult {
+  const values: number[] = [];
+  const invalidTokens: string[] = [];
+  const decimals: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const range = token.match(RANGE_PATTERN);
+    if (range) {
+      const from = Number(range[1]);
+      const to = Number(range[2]);
+      const direction = from <= to ? 1 : -1;
+      const length = Math.abs(to - from) + 1;
+      for (let i = 0; i < Math.min(length, MAX_ARRAY_SIZE + 1); i++) values.push(from + i * direction);
+      continue;
+    }
+    const value = parseNumberToken(token);
+    if (value === null) {
+      invalidTokens.push(token);
+      continue;
+    }
+    if (options.integersOnly && !Number.isInteger(value)) decimals.push(token);
+    values.push(value);
+  }
+
+  let error: string | null = null;
+  if (invalidTokens.length > 0) {
+    error = `Not a number: ${listTokens(invalidTokens)}`;
+  } else if (decimals.length > 0) {
+    error = `Whole numbers only for this algorithm: ${listTokens(decimals)}`;
+  } else if (values.length === 0) {
+    error = 'Enter at least one number';
+  } else if (values.length > MAX_ARRAY_SIZE) {
+    error = `At most ${MAX_ARRAY_SIZE} values`;
+  }
+  return { values, invalidTokens, error };
+}
+
+export type ArrayPreset =
+  | 'random'
+  | 'sorted'
+  | 'reversed'
+  | 'nearly-sorted'
+  | 'few-unique'
+  | 'all-equal'
+  | 'sawtooth'
+  | 'gaussian';
+
+export const ARRAY_PRESETS: { id: ArrayPreset; label: string }[] = [
+  { id: 'random', label: 'Random' },
+  { id: 'sorted', label: 'Sorted' },
+  { id: 'reversed', label: 'Reverse sorted' },
+  { id: 'nearly-sorted', label: 'Nearly sorted' },
+  { id: 'few-unique', label: 'Few unique' },
+  { id: 'all-equal', label: 'All equal' },
+  { id: 'sawtooth', label: 'Sawtooth' },
+  { id: 'gaussian', label: 'Gaussian' },
+];
+
+// Presets stay within 1..99 so every value fits a cell and works with counting and radix sort.
+const MIN_VALUE = 1;
+const MAX_VALUE = 99;
+
+const randomValue = () => MIN_VALUE + Math.floor(Math.random() * (MAX_VALUE - MIN_VALUE + 1));
+const clampValue = (value: number) => Math.max(MIN_VALUE, Math.min(MAX_VALUE, Math.round(value)));
+
+// Box-Muller transform; 1 - random() keeps the logarithm away from 0.
+function gaussianValue(mean: number, deviation: number): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return mean + deviation * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function generatePresetArray(preset: ArrayPreset, size: number): number[] {
+  const random = Array.from({ length: size }, randomValue);
+  switch (preset) {
+    case 'sorted':
+      return random.sort((a, b) => a - b);
+    case 'reversed':
+      return random.sort((a, b) => b - a);
+    case 'nearly-sorted': {
+      // Sorted, then roughly one adjacent pair in ten swapped (at least one).
+      const arr = random.sort((a, b) => a - b);
+      const swaps = Math.max(1, Math.round(size / 10));
+      for (let s = 0; s < swaps && size > 1; s++) {
+        const i = Math.floor(Math.random() * (size - 1));
+        [arr[i], arr[i + 1]] = [arr[i + 1], arr[i]];
+      }
+      return arr;
+    }
+    case 'few-unique': {
+      const pool = Array.from({ length: Math.min(3, size) }, randomValue);
+      return random.map(() => pool[Math.floor(Math.random() * pool.length)]);
+    }
+    case 'all-equal':
+      return random.map(() => random[0]);
+    case 'sawtooth': {
+      // Three rising teeth, each climbing from low to high values.
+      const period = Math.max(2, Math.ceil(size / 3));
+      return random.map((_, i) => clampValue(10 + ((i % period) * 80) / (period - 1)));
+    }
+    case 'gaussian':
+      return random.map(() => clampValue(gaussianValue(50, 15)));
+    default:
+      return random;
+  }
+}
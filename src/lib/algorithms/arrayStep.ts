@@ -0,0 +1,55 @@
+import { AuxiliaryArray, Highlights, Metrics, MoveArrow, Step, StepVariableValue, createEmptyHighlights } from '@/lib/stepTypes';
+
+interface ArrayStepFields {
+  label: string;
+  codeLine: number;
+  explanation: string;
+  before: number[];
+  // Defaults to `before` for steps that only look at the array.
+  after?: number[];
+  highlights?: Partial<Highlights>;
+  // Defaults to `highlights`.
+  afterHighlights?: Partial<Highlights>;
+  pointers?: Record<string, number | null>;
+  moveArrows?: MoveArrow[];
+  metrics: Metrics;
+  auxiliary?: AuxiliaryArray[];
+  variables?: Record<string, StepVariableValue>;
+  loopDepth?: number;
+}
+
+/** Builds an array Step, copying every array so later mutation cannot leak into it. */
+export function createArrayStep(fields: ArrayStepFields): Step {
+  const highlights = fields.highlights ?? {};
+  const afterHighlights = fields.afterHighlights ?? highlights;
+  return {
+    label: fields.label,
+    before: [...fields.before],
+    after: [...(fields.after ?? fields.before)],
+    highlights: {
+      before: { ...createEmptyHighlights(), ...highlights },
+      after: { ...createEmptyHighlights(), ...afterHighlights },
+    },
+    pointers: { ...fields.pointers },
+    moveArrows: [...(fields.moveArrows ?? [])],
+    codeLine: fields.codeLine,
+    explanation: fields.explanation,
+    metrics: { ...fields.metrics },
+    ...(fields.auxiliary && {
+      auxiliary: fields.auxiliary.map((aux) => ({
+        ...aux,
+        values: [...aux.values],
+        highlight: [...aux.highlight],
+        ...(aux.indexLabels && { indexLabels: [...aux.indexLabels] }),
+      })),
+    }),
+    ...(fields.variables && { variables: { ...fields.variables } }),
+    ...(fields.loopDepth !== undefined && { loopDepth: fields.loopDepth }),
+  };
+}
+
+export const allIndices = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+/** Indices outside [low, high]: the part of the array a search has ruled out. */
+export const outsideRange = (n: number, low: number, high: number) =>
+  allIndices(n).filter((i) => i < low || i > high);
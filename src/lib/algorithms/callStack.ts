@@ -0,0 +1,28 @@
+import { StackFrame } from '@/lib/stepTypes';
+
+/**
+ * Tracks the calls a recursive generator is inside. `enter` takes the index the next step
+ * will get (steps.length), so a frame points at the first step recorded inside it.
+ */
+export function createCallStack() {
+  const frames: StackFrame[] = [];
+  return {
+    enter(name: string, args: Record<string, number>, enteredAt: number): void {
+      frames.push({ name, args: { ...args }, enteredAt });
+    },
+    // Records the innermost call's result; shows up on the steps taken before `exit`.
+    returns(value: number | number[]): void {
+      frames[frames.length - 1].returnValue = Array.isArray(value) ? [...value] : value;
+    },
+    exit(): void {
+      frames.pop();
+    },
+    snapshot(): StackFrame[] {
+      return frames.map((frame) => ({
+        ...frame,
+        args: { ...frame.args },
+        ...(Array.isArray(frame.returnValue) && { returnValue: [...frame.returnValue] }),
+      }));
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { AlgorithmDefinition, SourceListing } from '@/lib/algorithms/registry';
+
+export type CodeLanguage = 'pseudocode' | 'python' | 'javascript' | 'java' | 'cpp';
+
+export const CODE_LANGUAGES: { id: CodeLanguage; label: string }[] = [
+  { id: 'pseudocode', label: 'Pseudocode' },
+  { id: 'python', label: 'Python' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'java', label: 'Java' },
+  { id: 'cpp', label: 'C++' },
+];
+
+// The listing shown for a language, or undefined when the algorithm has none (pseudocode never has one).
+export function getSourceListing(definition: AlgorithmDefinition, language: CodeLanguage): SourceListing | undefined {
+  if (language === 'pseudocode') return undefined;
+  if (language === 'python') {
+    // Source mode steps already point at Python lines.
+    if (definition.highlightMode === 'source') {
+      const lineMapping: Record<number, number> = {};
+      definition.code.split('\n').forEach((_, i) => {
+        lineMapping[i] = i;
+      });
+      return { code: definition.code, lineMapping };
+    }
+    return definition.sourceLineMapping ? { code: definition.code, lineMapping: definition.sourceLineMapping } : undefined;
+  }
+  return definition.translations?.[language];
+}
+
+// Source mode steps don't follow the pseudocode, so those algorithms start at Python.
+export function getAvailableLanguages(definition: AlgorithmDefinition): CodeLanguage[] {
+  return CODE_LANGUAGES.map((l) => l.id).filter((id) =>
+    id === 'pseudocode' ? definition.highlightMode !== 'source' : getSourceListing(definition, id) !== undefined,
+  );
+}
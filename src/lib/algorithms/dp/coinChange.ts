@@ -0,0 +1,45 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateCoinChangeSteps } from '@/lib/algorithms/dp/coinChangeSteps';
+import { paramsError, readNumber, readNumbers } from '@/lib/algorithms/dp/dpInput';
+
+export const coinChange: AlgorithmDefinition = {
+  info: {
+    id: 'coin-change',
+    name: 'Coin Change',
+    category: 'dynamic-programming',
+    timeComplexity: { best: 'O(kA)', average: 'O(kA)', worst: 'O(kA)' },
+    spaceComplexity: 'O(kA)',
+    description: 'Finds the fewest coins that add up to an amount A, with an unlimited supply of each of the k coin values.',
+  },
+  requirements: { inputKind: 'params', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ params = {} }) => generateCoinChangeSteps(readNumbers(params, 'coins'), readNumber(params, 'amount')),
+  pseudocode: [
+    { line: 0, code: 'def coin_change(coins, amount):', indent: 0 },
+    { line: 1, code: 'dp[0][0] = 0; dp[0][a] = ∞ for a > 0', indent: 1 },
+    { line: 2, code: 'for i in 1..k:', indent: 1 },
+    { line: 3, code: 'for a in 0..amount:', indent: 2 },
+    { line: 4, code: 'dp[i][a] = dp[i-1][a]  # skip coin i', indent: 3 },
+    { line: 5, code: 'if coins[i-1] <= a:', indent: 3 },
+    { line: 6, code: 'dp[i][a] = min(dp[i][a], dp[i][a - coins[i-1]] + 1)', indent: 4 },
+    { line: 7, code: 'coin i was used if dp[i][a] != dp[i-1][a]', indent: 1 },
+    { line: 8, code: 'return dp[k][amount] if finite else -1', indent: 1 },
+  ],
+  codeLineMapping: {
+    1: 1, 4: 4, 6: 6, 7: 7, 8: 8,
+  },
+  code: `def coin_change(coins, amount):
+    INF = float("inf")
+    k = len(coins)
+    dp = [[INF] * (amount + 1) for _ in range(k + 1)]
+    dp[0][0] = 0
+    for i in range(1, k + 1):
+        for a in range(amount + 1):
+            dp[i][a] = dp[i - 1][a]  # Skip coin i
+            if coins[i - 1] <= a:
+                # Same row: coin i can be used again
+                dp[i][a] = min(dp[i][a], dp[i][a - coins[i - 1]] + 1)
+    best = dp[k][amount]
+    return best if best != INF else -1`,
+  sampleParams: 'coins = 1, 3, 4\namount = 6',
+  validateParams: (params) => paramsError(params, { coins: 'numbers', amount: 'number' }),
+};
@@ -0,0 +1,101 @@
+import { DpStep } from '@/lib/dpTypes';
+import { cell, createDpRecorder, formatDpValue } from '@/lib/algorithms/dp/dpInput';
+
+export function generateCoinChangeSteps(coins: number[], amount: number): DpStep[] {
+  const k = coins.length;
+  const { steps, table, metrics, push, setResult } = createDpRecorder({
+    rowTitle: 'coin',
+    colTitle: 'amount',
+    rowLabels: ['none', ...coins.map(String)],
+    colLabels: Array.from({ length: amount + 1 }, (_, a) => String(a)),
+    resultLabel: 'Coins',
+  });
+
+  table[0][0] = 0;
+  for (let a = 1; a <= amount; a++) table[0][a] = Infinity;
+  push('Initialize Table', 1, `dp[i][a] is the fewest coins that make amount a using only the first i coin types. With no coins only amount 0 is reachable (0 coins); the rest are ∞.`);
+
+  for (let i = 1; i <= k; i++) {
+    const coin = coins[i - 1];
+    for (let a = 0; a <= amount; a++) {
+      const without = cell(table, i - 1, a);
+      const pointers = { i, a };
+      metrics.comparisons++;
+      if (coin > a) {
+        table[i][a] = without;
+        metrics.swaps++;
+        push(`dp[${i}][${a}] = ${formatDpValue(without)}`, 4, `Coin ${coin} is bigger than ${a}, so it cannot help. Carry down ${formatDpValue(without)}.`, {
+          pointers,
+          current: [i, a],
+          dependencies: [[i - 1, a]],
+        });
+        continue;
+      }
+      // Same row: the coin may be used again (unbounded supply).
+      const withCoin = cell(table, i, a - coin) + 1;
+      metrics.comparisons++;
+      table[i][a] = Math.min(without, withCoin);
+      metrics.swaps++;
+      push(`dp[${i}][${a}] = ${formatDpValue(table[i][a])}`, 6, `Without coin ${coin}: ${formatDpValue(without)}. With one more ${coin}: dp[${i}][${a - coin}] + 1 = ${formatDpValue(withCoin)}. Keep the smaller: ${formatDpValue(table[i][a])}.`, {
+        pointers,
+        current: [i, a],
+        dependencies: [[i - 1, a], [i, a - coin]],
+      });
+    }
+    metrics.passes++;
+  }
+
+  const best = cell(table, k, amount);
+  if (best === Infinity) {
+    push('No Solution', 8, `dp[${k}][${amount}] is ∞: ${amount} cannot be made from coins ${coins.join(', ')}. Return -1.`, {
+      current: [k, amount],
+    });
+    return steps;
+  }
+
+  const path: [number, number][] = [];
+  const chosen: [number, number][] = [];
+  const used: number[] = [];
+  let i = k;
+  let a = amount;
+  push('Start Traceback', 7, `dp[${k}][${amount}] = ${best} coins. Walk back to see which coins they are.`, {
+    pointers: { i, a },
+    current: [i, a],
+  });
+  while (a > 0) {
+    path.push([i, a]);
+    if (cell(table, i, a) === cell(table, i - 1, a)) {
+      push(`Skip Coin ${coins[i - 1]}`, 7, `dp[${i}][${a}] equals the row above, so coin ${coins[i - 1]} is not needed here. Move up.`, {
+        pointers: { i, a },
+        current: [i, a],
+        dependencies: [[i - 1, a]],
+        traceback: path,
+        chosen,
+      });
+      i--;
+    } else {
+      const coin = coins[i - 1];
+      used.push(coin);
+      chosen.push([i, a]);
+      setResult(used.join(' + '));
+      push(`Use Coin ${coin}`, 7, `dp[${i}][${a}] came from dp[${i}][${a - coin}] + 1, so one ${coin} is used. ${a - coin} left to make.`, {
+        pointers: { i, a },
+        current: [i, a],
+        dependencies: [[i, a - coin]],
+        traceback: path,
+        chosen,
+      });
+      a -= coin;
+    }
+  }
+  path.push([i, 0]);
+
+  push('Fewest Coins Found!', 8, amount === 0
+    ? 'Amount 0 needs no coins.'
+    : `${amount} = ${used.join(' + ')}: ${best} coin${best === 1 ? '' : 's'}.`, {
+    traceback: path,
+    chosen,
+  });
+
+  return steps;
+}
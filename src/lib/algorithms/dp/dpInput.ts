@@ -0,0 +1,137 @@
+import { DpCellState, DpSnapshot, DpStep, createDpStep, dpCellKey } from '@/lib/dpTypes';
+import { Metrics } from '@/lib/stepTypes';
+
+// Tables beyond these sizes stop being readable and produce hundreds of steps.
+export const MAX_TEXT_LENGTH = 10;
+export const MAX_ITEMS = 6;
+export const MAX_TABLE_COLUMNS = 16;
+
+/**
+ * Parses "key = value" pairs separated by newlines or semicolons,
+ * e.g. "a = ABCBDAB; b = BDCABA". Keys are lower-cased; lines without "=" are ignored.
+ */
+export function parseParams(input: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const line of input.split(/[;\n]/)) {
+    const eq = line.indexOf('=');
+    if (eq === -1) continue;
+    const key = line.slice(0, eq).trim().toLowerCase();
+    if (key) params[key] = line.slice(eq + 1).trim();
+  }
+  return params;
+}
+
+export type ParamKind = 'text' | 'numbers' | 'number';
+
+function paramError(key: string, raw: string, kind: ParamKind): string | null {
+  if (kind === 'text') {
+    const length = raw.replace(/\s+/g, '').length;
+    return length > MAX_TEXT_LENGTH ? `${key} has ${length} letters; at most ${MAX_TEXT_LENGTH} fit the table` : null;
+  }
+  if (kind === 'numbers') {
+    const tokens = raw.split(/[,\s]+/).filter(Boolean);
+    const invalid = tokens.filter((t) => !/^\d+$/.test(t) || parseInt(t, 10) === 0);
+    if (invalid.length > 0) return `${key} takes positive whole numbers, got ${invalid.map((t) => `"${t}"`).join(', ')}`;
+    return tokens.length > MAX_ITEMS ? `${key} has ${tokens.length} numbers; at most ${MAX_ITEMS} fit the table` : null;
+  }
+  if (!/^\d+$/.test(raw)) return `${key} must be a whole number, got "${raw}"`;
+  const n = parseInt(raw, 10);
+  return n > MAX_TABLE_COLUMNS - 1 ? `${key} is ${n}; at most ${MAX_TABLE_COLUMNS - 1} fits the table` : null;
+}
+
+/**
+ * Checks the typed parameters against what the readers below would keep, so values are never
+ * truncated or clamped behind the user's back. Missing keys are fine: they read as empty.
+ */
+export function paramsError(params: Record<string, string>, kinds: Record<string, ParamKind>): string | null {
+  for (const [key, kind] of Object.entries(kinds)) {
+    const raw = params[key];
+    if (raw === undefined || raw === '') continue;
+    const error = paramError(key, raw, kind);
+    if (error) return error;
+  }
+  return null;
+}
+
+export function readText(params: Record<string, string>, key: string): string {
+  return (params[key] ?? '').replace(/\s+/g, '').slice(0, MAX_TEXT_LENGTH);
+}
+
+export function readNumbers(params: Record<string, string>, key: string): number[] {
+  return (params[key] ?? '')
+    .split(/[,\s]+/)
+    .map((s) => parseInt(s, 10))
+    .filter((n) => !isNaN(n) && n > 0)
+    .slice(0, MAX_ITEMS);
+}
+
+export function readNumber(params: Record<string, string>, key: string): number {
+  const n = parseInt(params[key] ?? '', 10);
+  return isNaN(n) ? 0 : Math.max(0, Math.min(n, MAX_TABLE_COLUMNS - 1));
+}
+
+export const formatDpValue = (value: number) => (value === Infinity ? '∞' : String(value));
+
+interface DpTableOptions {
+  rowTitle: string;
+  colTitle: string;
+  rowLabels: string[];
+  colLabels: string[];
+  resultLabel: string;
+}
+
+/**
+ * Shared bookkeeping for the DP generators: the numeric table (null = not filled yet),
+ * running metrics and a `push` that snapshots it all into a DpStep.
+ * Metrics: comparisons = dependency reads, swaps = cells filled, passes = rows completed.
+ */
+export function createDpRecorder(options: DpTableOptions) {
+  const steps: DpStep[] = [];
+  const table: (number | null)[][] = options.rowLabels.map(() => options.colLabels.map(() => null));
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  let result: string | null = null;
+
+  const push = (
+    label: string,
+    codeLine: number,
+    explanation: string,
+    extra: {
+      pointers?: Record<string, number | null>;
+      current?: [number, number] | null;
+      dependencies?: [number, number][];
+      traceback?: [number, number][];
+      chosen?: [number, number][];
+    } = {},
+  ) => {
+    const cellStates: Record<string, DpCellState> = {};
+    const mark = (cells: [number, number][] | undefined, state: DpCellState) =>
+      cells?.forEach(([r, c]) => { cellStates[dpCellKey(r, c)] = state; });
+    mark(extra.traceback, 'traceback');
+    mark(extra.chosen, 'chosen');
+    mark(extra.dependencies, 'dependency');
+    if (extra.current) mark([extra.current], 'current');
+
+    const dp: DpSnapshot = {
+      rowTitle: options.rowTitle,
+      colTitle: options.colTitle,
+      rowLabels: options.rowLabels,
+      colLabels: options.colLabels,
+      cells: table.map((row) => row.map((v) => (v === null ? '' : formatDpValue(v)))),
+      cellStates,
+      resultLabel: options.resultLabel,
+      result,
+    };
+    steps.push(createDpStep(dp, extra.pointers ?? {}, { label, codeLine, explanation, metrics: { ...metrics } }));
+  };
+
+  return {
+    steps,
+    table,
+    metrics,
+    push,
+    setResult: (value: string | null) => { result = value; },
+  };
+}
+
+/** Reads a filled cell; the generators only read cells they have already written. */
+export const cell = (table: (number | null)[][], row: number, col: number) => table[row][col] as number;
@@ -0,0 +1,52 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateEditDistanceSteps } from '@/lib/algorithms/dp/editDistanceSteps';
+import { paramsError, readText } from '@/lib/algorithms/dp/dpInput';
+
+export const editDistance: AlgorithmDefinition = {
+  info: {
+    id: 'edit-distance',
+    name: 'Edit Distance',
+    category: 'dynamic-programming',
+    timeComplexity: { best: 'O(nm)', average: 'O(nm)', worst: 'O(nm)' },
+    spaceComplexity: 'O(nm)',
+    description: 'Levenshtein distance: the fewest single-letter inserts, deletes and replacements that turn one string into another.',
+  },
+  requirements: { inputKind: 'params', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ params = {} }) => generateEditDistanceSteps(readText(params, 'a'), readText(params, 'b')),
+  pseudocode: [
+    { line: 0, code: 'def edit_distance(a, b):', indent: 0 },
+    { line: 1, code: 'dp[i][0] = i; dp[0][j] = j', indent: 1 },
+    { line: 2, code: 'for i in 1..n:', indent: 1 },
+    { line: 3, code: 'for j in 1..m:', indent: 2 },
+    { line: 4, code: 'if a[i-1] == b[j-1]:', indent: 3 },
+    { line: 5, code: 'dp[i][j] = dp[i-1][j-1]', indent: 4 },
+    { line: 6, code: 'else:', indent: 3 },
+    { line: 7, code: 'dp[i][j] = 1 + min(delete, insert, replace)', indent: 4 },
+    { line: 8, code: 'walk back from dp[n][m] recording each edit', indent: 1 },
+    { line: 9, code: 'return dp[n][m]', indent: 1 },
+  ],
+  codeLineMapping: {
+    1: 1, 5: 5, 7: 7, 8: 8, 9: 9,
+  },
+  code: `def edit_distance(a, b):
+    n, m = len(a), len(b)
+    dp = [[0] * (m + 1) for _ in range(n + 1)]
+    for i in range(n + 1):
+        dp[i][0] = i  # Delete every letter
+    for j in range(m + 1):
+        dp[0][j] = j  # Insert every letter
+
+    for i in range(1, n + 1):
+        for j in range(1, m + 1):
+            if a[i - 1] == b[j - 1]:
+                dp[i][j] = dp[i - 1][j - 1]
+            else:
+                dp[i][j] = 1 + min(
+                    dp[i - 1][j],      # delete a[i-1]
+                    dp[i][j - 1],      # insert b[j-1]
+                    dp[i - 1][j - 1],  # replace a[i-1] with b[j-1]
+                )
+    return dp[n][m]`,
+  sampleParams: 'a = kitten\nb = sitting',
+  validateParams: (params) => paramsError(params, { a: 'text', b: 'text' }),
+};
@@ -0,0 +1,93 @@
+import { DpStep } from '@/lib/dpTypes';
+import { cell, createDpRecorder } from '@/lib/algorithms/dp/dpInput';
+
+export function generateEditDistanceSteps(a: string, b: string): DpStep[] {
+  const n = a.length;
+  const m = b.length;
+  const { steps, table, metrics, push, setResult } = createDpRecorder({
+    rowTitle: 'a',
+    colTitle: 'b',
+    rowLabels: ['∅', ...a],
+    colLabels: ['∅', ...b],
+    resultLabel: 'Edits',
+  });
+
+  for (let i = 0; i <= n; i++) table[i][0] = i;
+  for (let j = 0; j <= m; j++) table[0][j] = j;
+  push('Initialize Table', 1, `dp[i][j] is the fewest edits that turn the first i letters of "${a}" into the first j letters of "${b}". Against an empty string it takes i deletions (column 0) or j insertions (row 0).`);
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      metrics.comparisons++;
+      const pointers = { i, j };
+      if (a[i - 1] === b[j - 1]) {
+        table[i][j] = cell(table, i - 1, j - 1);
+        metrics.swaps++;
+        push(`dp[${i}][${j}] = ${table[i][j]}`, 5, `'${a[i - 1]}' = '${b[j - 1]}', so no edit is needed. Copy the diagonal: dp[${i - 1}][${j - 1}] = ${table[i][j]}.`, {
+          pointers,
+          current: [i, j],
+          dependencies: [[i - 1, j - 1]],
+        });
+      } else {
+        const del = cell(table, i - 1, j);
+        const ins = cell(table, i, j - 1);
+        const rep = cell(table, i - 1, j - 1);
+        metrics.comparisons += 2;
+        table[i][j] = 1 + Math.min(del, ins, rep);
+        metrics.swaps++;
+        push(`dp[${i}][${j}] = ${table[i][j]}`, 7, `'${a[i - 1]}' ≠ '${b[j - 1]}'. Pay 1 plus the cheapest of delete (up ${del}), insert (left ${ins}) or replace (diagonal ${rep}) = ${table[i][j]}.`, {
+          pointers,
+          current: [i, j],
+          dependencies: [[i - 1, j], [i, j - 1], [i - 1, j - 1]],
+        });
+      }
+    }
+    metrics.passes++;
+  }
+
+  const path: [number, number][] = [[n, m]];
+  const chosen: [number, number][] = [];
+  const edits: string[] = [];
+  let i = n;
+  let j = m;
+  push('Start Traceback', 8, `dp[${n}][${m}] = ${cell(table, n, m)} edits. Walk back to see which edits they are.`, {
+    pointers: { i, j },
+    current: [i, j],
+  });
+  while (i > 0 || j > 0) {
+    let edit: string;
+    let next: [number, number];
+    if (i > 0 && j > 0 && a[i - 1] === b[j - 1] && cell(table, i, j) === cell(table, i - 1, j - 1)) {
+      edit = `keep ${a[i - 1]}`;
+      next = [i - 1, j - 1];
+    } else if (i > 0 && j > 0 && cell(table, i, j) === cell(table, i - 1, j - 1) + 1) {
+      edit = `replace ${a[i - 1]}→${b[j - 1]}`;
+      next = [i - 1, j - 1];
+    } else if (i > 0 && cell(table, i, j) === cell(table, i - 1, j) + 1) {
+      edit = `delete ${a[i - 1]}`;
+      next = [i - 1, j];
+    } else {
+      edit = `insert ${b[j - 1]}`;
+      next = [i, j - 1];
+    }
+    edits.unshift(edit);
+    if (!edit.startsWith('keep')) chosen.push([i, j]);
+    setResult(edits.join(', '));
+    push(edit.charAt(0).toUpperCase() + edit.slice(1), 8, `dp[${i}][${j}] came from dp[${next[0]}][${next[1]}]: ${edit}.`, {
+      pointers: { i, j },
+      current: [i, j],
+      dependencies: [next],
+      traceback: path,
+      chosen,
+    });
+    [i, j] = next;
+    path.push([i, j]);
+  }
+
+  push('Edit Distance Found!', 9, `Turning "${a}" into "${b}" takes ${cell(table, n, m)} edit${cell(table, n, m) === 1 ? '' : 's'}.`, {
+    traceback: path,
+    chosen,
+  });
+
+  return steps;
+}
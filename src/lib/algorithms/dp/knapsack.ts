@@ -0,0 +1,51 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateKnapsackSteps } from '@/lib/algorithms/dp/knapsackSteps';
+import { paramsError, readNumber, readNumbers } from '@/lib/algorithms/dp/dpInput';
+
+export const knapsack: AlgorithmDefinition = {
+  info: {
+    id: 'knapsack',
+    name: '0/1 Knapsack',
+    category: 'dynamic-programming',
+    timeComplexity: { best: 'O(nW)', average: 'O(nW)', worst: 'O(nW)' },
+    spaceComplexity: 'O(nW)',
+    description: 'Chooses which items to pack, each at most once, to get the highest total value without going over the weight capacity W.',
+  },
+  requirements: { inputKind: 'params', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ params = {} }) =>
+    generateKnapsackSteps(readNumbers(params, 'weights'), readNumbers(params, 'values'), readNumber(params, 'capacity')),
+  pseudocode: [
+    { line: 0, code: 'def knapsack(weights, values, W):', indent: 0 },
+    { line: 1, code: 'dp = (n+1) x (W+1) table of 0', indent: 1 },
+    { line: 2, code: 'for i in 1..n:', indent: 1 },
+    { line: 3, code: 'for w in 0..W:', indent: 2 },
+    { line: 4, code: 'dp[i][w] = dp[i-1][w]  # skip item i', indent: 3 },
+    { line: 5, code: 'if weights[i-1] <= w:', indent: 3 },
+    { line: 6, code: 'take = dp[i-1][w - weights[i-1]] + values[i-1]', indent: 4 },
+    { line: 7, code: 'dp[i][w] = max(dp[i][w], take)', indent: 4 },
+    { line: 8, code: 'item i was taken if dp[i][w] != dp[i-1][w]', indent: 1 },
+    { line: 9, code: 'return dp[n][W]', indent: 1 },
+  ],
+  codeLineMapping: {
+    1: 1, 4: 4, 7: 7, 8: 8, 9: 9,
+  },
+  code: `def knapsack(weights, values, W):
+    n = len(weights)
+    dp = [[0] * (W + 1) for _ in range(n + 1)]
+    for i in range(1, n + 1):
+        for w in range(W + 1):
+            dp[i][w] = dp[i - 1][w]  # Skip item i
+            if weights[i - 1] <= w:
+                take = dp[i - 1][w - weights[i - 1]] + values[i - 1]
+                dp[i][w] = max(dp[i][w], take)
+
+    # Traceback: walk up the rows
+    chosen, w = [], W
+    for i in range(n, 0, -1):
+        if dp[i][w] != dp[i - 1][w]:
+            chosen.append(i - 1)
+            w -= weights[i - 1]
+    return dp[n][W], chosen[::-1]`,
+  sampleParams: 'weights = 1, 3, 4, 5\nvalues = 1, 4, 5, 7\ncapacity = 7',
+  validateParams: (params) => paramsError(params, { weights: 'numbers', values: 'numbers', capacity: 'number' }),
+};
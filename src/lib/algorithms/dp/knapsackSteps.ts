@@ -0,0 +1,90 @@
+import { DpStep } from '@/lib/dpTypes';
+import { cell, createDpRecorder } from '@/lib/algorithms/dp/dpInput';
+
+export function generateKnapsackSteps(weights: number[], values: number[], capacity: number): DpStep[] {
+  const n = Math.min(weights.length, values.length);
+  const { steps, table, metrics, push, setResult } = createDpRecorder({
+    rowTitle: 'item (w, v)',
+    colTitle: 'capacity',
+    rowLabels: ['none', ...Array.from({ length: n }, (_, k) => `${weights[k]}, ${values[k]}`)],
+    colLabels: Array.from({ length: capacity + 1 }, (_, w) => String(w)),
+    resultLabel: 'Items',
+  });
+
+  for (let w = 0; w <= capacity; w++) table[0][w] = 0;
+  push('Initialize Table', 1, `dp[i][w] is the best value using only the first i items with capacity w. With no items (row 0) the value is 0 for every capacity.`);
+
+  for (let i = 1; i <= n; i++) {
+    const weight = weights[i - 1];
+    const value = values[i - 1];
+    for (let w = 0; w <= capacity; w++) {
+      const skip = cell(table, i - 1, w);
+      const pointers = { i, w };
+      metrics.comparisons++;
+      if (weight > w) {
+        table[i][w] = skip;
+        metrics.swaps++;
+        push(`dp[${i}][${w}] = ${skip}`, 4, `Item ${i} weighs ${weight} > ${w}, so it cannot fit. Carry down the value without it: ${skip}.`, {
+          pointers,
+          current: [i, w],
+          dependencies: [[i - 1, w]],
+        });
+        continue;
+      }
+      const take = cell(table, i - 1, w - weight) + value;
+      metrics.comparisons++;
+      table[i][w] = Math.max(skip, take);
+      metrics.swaps++;
+      push(`dp[${i}][${w}] = ${table[i][w]}`, 7, `Skip item ${i}: ${skip}. Take it: dp[${i - 1}][${w - weight}] + ${value} = ${take}. ${take > skip ? 'Taking it is better' : 'Skipping it is at least as good'}, so dp[${i}][${w}] = ${table[i][w]}.`, {
+        pointers,
+        current: [i, w],
+        dependencies: [[i - 1, w], [i - 1, w - weight]],
+      });
+    }
+    metrics.passes++;
+  }
+
+  const path: [number, number][] = [];
+  const chosen: [number, number][] = [];
+  const taken: number[] = [];
+  let w = capacity;
+  push('Start Traceback', 8, `dp[${n}][${capacity}] = ${cell(table, n, capacity)} is the best total value. Walk up the rows to find which items produced it.`, {
+    pointers: { i: n, w },
+    current: [n, w],
+  });
+  for (let i = n; i > 0; i--) {
+    path.push([i, w]);
+    if (cell(table, i, w) !== cell(table, i - 1, w)) {
+      taken.unshift(i);
+      chosen.push([i, w]);
+      setResult(taken.map((k) => `#${k}`).join(', '));
+      push(`Take Item ${i}`, 8, `dp[${i}][${w}] = ${cell(table, i, w)} differs from dp[${i - 1}][${w}] = ${cell(table, i - 1, w)}, so item ${i} (weight ${weights[i - 1]}, value ${values[i - 1]}) was taken. Capacity left: ${w - weights[i - 1]}.`, {
+        pointers: { i, w },
+        current: [i, w],
+        dependencies: [[i - 1, w - weights[i - 1]]],
+        traceback: path,
+        chosen,
+      });
+      w -= weights[i - 1];
+    } else {
+      push(`Skip Item ${i}`, 8, `dp[${i}][${w}] equals dp[${i - 1}][${w}], so item ${i} was not needed.`, {
+        pointers: { i, w },
+        current: [i, w],
+        dependencies: [[i - 1, w]],
+        traceback: path,
+        chosen,
+      });
+    }
+  }
+  path.push([0, w]);
+
+  const totalWeight = taken.reduce((sum, k) => sum + weights[k - 1], 0);
+  push('Best Value Found!', 9, taken.length
+    ? `Take items ${taken.map((k) => `#${k}`).join(', ')} for a total value of ${cell(table, n, capacity)} using ${totalWeight} of ${capacity} capacity.`
+    : `No item fits in capacity ${capacity}, so the best value is 0.`, {
+    traceback: path,
+    chosen,
+  });
+
+  return steps;
+}
@@ -0,0 +1,56 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateLcsSteps } from '@/lib/algorithms/dp/lcsSteps';
+import { paramsError, readText } from '@/lib/algorithms/dp/dpInput';
+
+export const lcs: AlgorithmDefinition = {
+  info: {
+    id: 'lcs',
+    name: 'Longest Common Subsequence',
+    category: 'dynamic-programming',
+    timeComplexity: { best: 'O(nm)', average: 'O(nm)', worst: 'O(nm)' },
+    spaceComplexity: 'O(nm)',
+    description: 'Finds the longest sequence of letters that appears in both strings in the same order, not necessarily next to each other.',
+  },
+  requirements: { inputKind: 'params', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ params = {} }) => generateLcsSteps(readText(params, 'a'), readText(params, 'b')),
+  pseudocode: [
+    { line: 0, code: 'def lcs(a, b):', indent: 0 },
+    { line: 1, code: 'dp = (n+1) x (m+1) table of 0', indent: 1 },
+    { line: 2, code: 'for i in 1..n:', indent: 1 },
+    { line: 3, code: 'for j in 1..m:', indent: 2 },
+    { line: 4, code: 'if a[i-1] == b[j-1]:', indent: 3 },
+    { line: 5, code: 'dp[i][j] = dp[i-1][j-1] + 1', indent: 4 },
+    { line: 6, code: 'else:', indent: 3 },
+    { line: 7, code: 'dp[i][j] = max(dp[i-1][j], dp[i][j-1])', indent: 4 },
+    { line: 8, code: 'i, j = n, m  # traceback', indent: 1 },
+    { line: 9, code: 'while i > 0 and j > 0: follow the source cell', indent: 1 },
+    { line: 10, code: 'return dp[n][m]', indent: 1 },
+  ],
+  codeLineMapping: {
+    1: 1, 5: 5, 7: 7, 8: 8, 9: 9, 10: 10,
+  },
+  code: `def lcs(a, b):
+    n, m = len(a), len(b)
+    dp = [[0] * (m + 1) for _ in range(n + 1)]
+    for i in range(1, n + 1):
+        for j in range(1, m + 1):
+            if a[i - 1] == b[j - 1]:
+                dp[i][j] = dp[i - 1][j - 1] + 1  # Extend the diagonal
+            else:
+                dp[i][j] = max(dp[i - 1][j], dp[i][j - 1])
+
+    # Traceback from the bottom-right corner
+    result = []
+    i, j = n, m
+    while i > 0 and j > 0:
+        if a[i - 1] == b[j - 1]:
+            result.append(a[i - 1])
+            i, j = i - 1, j - 1
+        elif dp[i - 1][j] >= dp[i][j - 1]:
+            i -= 1
+        else:
+            j -= 1
+    return "".join(reversed(result))`,
+  sampleParams: 'a = ABCBDAB\nb = BDCABA',
+  validateParams: (params) => paramsError(params, { a: 'text', b: 'text' }),
+};
@@ -0,0 +1,101 @@
+import { DpStep } from '@/lib/dpTypes';
+import { cell, createDpRecorder } from '@/lib/algorithms/dp/dpInput';
+
+export function generateLcsSteps(a: string, b: string): DpStep[] {
+  const n = a.length;
+  const m = b.length;
+  const { steps, table, metrics, push, setResult } = createDpRecorder({
+    rowTitle: 'a',
+    colTitle: 'b',
+    rowLabels: ['∅', ...a],
+    colLabels: ['∅', ...b],
+    resultLabel: 'LCS',
+  });
+
+  for (let i = 0; i <= n; i++) table[i][0] = 0;
+  for (let j = 0; j <= m; j++) table[0][j] = 0;
+  push('Initialize Table', 1, `dp[i][j] is the length of the longest common subsequence of the first i letters of "${a}" and the first j letters of "${b}". Row 0 and column 0 compare against an empty string, so they are all 0.`);
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      metrics.comparisons++;
+      const pointers = { i, j };
+      if (a[i - 1] === b[j - 1]) {
+        table[i][j] = cell(table, i - 1, j - 1) + 1;
+        metrics.swaps++;
+        push(`dp[${i}][${j}] = ${table[i][j]}`, 5, `a[${i - 1}] = '${a[i - 1]}' matches b[${j - 1}] = '${b[j - 1]}'. Extend the diagonal: dp[${i - 1}][${j - 1}] + 1 = ${table[i][j]}.`, {
+          pointers,
+          current: [i, j],
+          dependencies: [[i - 1, j - 1]],
+        });
+      } else {
+        const up = cell(table, i - 1, j);
+        const left = cell(table, i, j - 1);
+        metrics.comparisons++;
+        table[i][j] = Math.max(up, left);
+        metrics.swaps++;
+        push(`dp[${i}][${j}] = ${table[i][j]}`, 7, `'${a[i - 1]}' ≠ '${b[j - 1]}'. Drop a letter from one string and keep the better result: max(up ${up}, left ${left}) = ${table[i][j]}.`, {
+          pointers,
+          current: [i, j],
+          dependencies: [[i - 1, j], [i, j - 1]],
+        });
+      }
+    }
+    metrics.passes++;
+  }
+
+  // Traceback from the bottom-right corner.
+  const path: [number, number][] = [];
+  const chosen: [number, number][] = [];
+  let lcs = '';
+  let i = n;
+  let j = m;
+  push('Start Traceback', 8, `dp[${n}][${m}] = ${cell(table, n, m)} is the LCS length. Walk back from it to recover the letters.`, {
+    pointers: { i, j },
+    current: [i, j],
+  });
+  while (i > 0 && j > 0) {
+    path.push([i, j]);
+    if (a[i - 1] === b[j - 1]) {
+      lcs = a[i - 1] + lcs;
+      chosen.push([i, j]);
+      setResult(lcs);
+      push(`Take '${a[i - 1]}'`, 9, `The letters match, so '${a[i - 1]}' is part of the LCS. Move diagonally to dp[${i - 1}][${j - 1}].`, {
+        pointers: { i, j },
+        current: [i, j],
+        traceback: path,
+        chosen,
+      });
+      i--;
+      j--;
+    } else if (cell(table, i - 1, j) >= cell(table, i, j - 1)) {
+      push(`Move Up from dp[${i}][${j}]`, 9, `No match. dp[${i - 1}][${j}] = ${cell(table, i - 1, j)} produced this value, so drop '${a[i - 1]}' and move up.`, {
+        pointers: { i, j },
+        current: [i, j],
+        dependencies: [[i - 1, j]],
+        traceback: path,
+        chosen,
+      });
+      i--;
+    } else {
+      push(`Move Left from dp[${i}][${j}]`, 9, `No match. dp[${i}][${j - 1}] = ${cell(table, i, j - 1)} produced this value, so drop '${b[j - 1]}' and move left.`, {
+        pointers: { i, j },
+        current: [i, j],
+        dependencies: [[i, j - 1]],
+        traceback: path,
+        chosen,
+      });
+      j--;
+    }
+  }
+
+  setResult(lcs);
+  push('LCS Found!', 10, lcs
+    ? `The longest common subsequence of "${a}" and "${b}" is "${lcs}" with length ${lcs.length}.`
+    : `"${a}" and "${b}" share no letters, so the LCS is empty.`, {
+    traceback: path,
+    chosen,
+  });
+
+  return steps;
+}
@@ -0,0 +1,49 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBfsSteps } from '@/lib/algorithms/graph/bfsSteps';
+
+export const bfs: AlgorithmDefinition = {
+  info: {
+    id: 'bfs',
+    name: 'Breadth-First Search',
+    category: 'graph',
+    timeComplexity: { best: 'O(V + E)', average: 'O(V + E)', worst: 'O(V + E)' },
+    spaceComplexity: 'O(V)',
+    description: 'Explores the graph level by level from a start node using a queue. Finds shortest paths in unweighted graphs.',
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: true },
+  generateSteps: ({ graph, startNode }) => (graph ? generateBfsSteps(graph, startNode ?? '') : []),
+  pseudocode: [
+    { line: 0, code: 'def bfs(graph, start):', indent: 0 },
+    { line: 1, code: 'visited = {start}', indent: 1 },
+    { line: 2, code: 'queue = deque([start])', indent: 1 },
+    { line: 3, code: 'while queue:', indent: 1 },
+    { line: 4, code: 'node = queue.popleft()', indent: 2 },
+    { line: 5, code: 'for neighbor in graph[node]:', indent: 2 },
+    { line: 6, code: 'if neighbor not in visited:', indent: 3 },
+    { line: 7, code: 'visited.add(neighbor)', indent: 4 },
+    { line: 8, code: 'queue.append(neighbor)', indent: 4 },
+    { line: 9, code: 'return order', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 4: 4, 6: 6, 8: 8, 9: 9,
+  },
+  code: `from collections import deque
+
+def bfs(graph, start):
+    visited = {start}
+    queue = deque([start])
+    order = []
+
+    while queue:
+        node = queue.popleft()
+        order.append(node)
+
+        for neighbor in graph[node]:
+            # Mark on enqueue so each node is queued once
+            if neighbor not in visited:
+                visited.add(neighbor)
+                queue.append(neighbor)
+
+    return order`,
+  sampleGraph: 'A-B, A-C, B-D, C-D, C-E, D-F, E-F',
+};
@@ -0,0 +1,71 @@
+import { Graph, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { buildAdjacency, createInitialGraphState, resolveStartNode } from './graphInput';
+
+export function generateBfsSteps(graph: Graph, startNode: string): GraphStep[] {
+  const steps: GraphStep[] = [];
+  const start = resolveStartNode(graph, startNode);
+  if (!start) return steps;
+
+  const adj = buildAdjacency(graph);
+  const state = createInitialGraphState(graph, { distanceLabel: 'depth', frontierLabel: 'Queue', orderLabel: 'Visit order' });
+
+  let totalComparisons = 0;
+  let passCount = 0;
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  push('Initial Graph', 0, `Starting Breadth-First Search from ${start}. BFS explores the graph level by level using a queue.`);
+
+  const visited = new Set<string>([start]);
+  const queue: string[] = [start];
+  state.nodeStates[start] = 'frontier';
+  state.distances[start] = 0;
+  state.frontier = [{ node: start }];
+
+  push('Enqueue Start', 2, `Mark ${start} as visited and enqueue it. Its depth is 0.`);
+
+  while (queue.length > 0) {
+    const node = queue.shift() as string;
+    passCount++;
+    state.frontier = queue.map((q) => ({ node: q }));
+    state.nodeStates[node] = 'current';
+    state.current = node;
+    state.order.push(node);
+
+    push(`Dequeue ${node}`, 4, `Dequeue ${node} (depth ${state.distances[node]}). Visit order so far: ${state.order.join(' → ')}.`);
+
+    for (const { node: neighbor, edgeId } of adj.get(node) ?? []) {
+      totalComparisons++;
+      const prevEdgeState = state.edgeStates[edgeId];
+      state.edgeStates[edgeId] = 'considered';
+
+      if (!visited.has(neighbor)) {
+        visited.add(neighbor);
+        queue.push(neighbor);
+        state.nodeStates[neighbor] = 'frontier';
+        state.distances[neighbor] = (state.distances[node] ?? 0) + 1;
+        state.frontier = queue.map((q) => ({ node: q }));
+        state.edgeStates[edgeId] = 'tree';
+
+        push(`Discover ${neighbor}`, 8, `${neighbor} has not been visited. Mark it visited, set depth = ${state.distances[neighbor]}, and enqueue it.`);
+      } else {
+        push(`Check ${neighbor}`, 6, `${neighbor} is already visited (or queued). Skip it.`);
+        state.edgeStates[edgeId] = prevEdgeState === 'tree' ? 'tree' : 'default';
+      }
+    }
+
+    state.nodeStates[node] = 'visited';
+    state.current = null;
+  }
+
+  push('BFS Complete!', 9, `Queue is empty. BFS visited ${state.order.length} of ${graph.nodes.length} nodes: ${state.order.join(' → ')}.`);
+
+  return steps;
+}
@@ -0,0 +1,51 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateDfsSteps } from '@/lib/algorithms/graph/dfsSteps';
+
+export const dfs: AlgorithmDefinition = {
+  info: {
+    id: 'dfs',
+    name: 'Depth-First Search',
+    category: 'graph',
+    timeComplexity: { best: 'O(V + E)', average: 'O(V + E)', worst: 'O(V + E)' },
+    spaceComplexity: 'O(V)',
+    description: 'Follows one path as deep as possible using a stack, then backtracks. Basis for cycle detection and topological ordering.',
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: true },
+  generateSteps: ({ graph, startNode }) => (graph ? generateDfsSteps(graph, startNode ?? '') : []),
+  pseudocode: [
+    { line: 0, code: 'def dfs(graph, start):', indent: 0 },
+    { line: 1, code: 'visited = set()', indent: 1 },
+    { line: 2, code: 'stack = [start]', indent: 1 },
+    { line: 3, code: 'while stack:', indent: 1 },
+    { line: 4, code: 'node = stack.pop()', indent: 2 },
+    { line: 5, code: 'if node in visited: continue', indent: 2 },
+    { line: 6, code: 'visited.add(node)', indent: 2 },
+    { line: 7, code: 'for neighbor in reversed(graph[node]):', indent: 2 },
+    { line: 8, code: 'if neighbor not in visited:', indent: 3 },
+    { line: 9, code: 'stack.append(neighbor)', indent: 4 },
+    { line: 10, code: 'return order', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 5: 5, 6: 6, 8: 8, 9: 9, 10: 10,
+  },
+  code: `def dfs(graph, start):
+    visited = set()
+    stack = [start]
+    order = []
+
+    while stack:
+        node = stack.pop()
+        # A node can be pushed more than once; skip stale entries
+        if node in visited:
+            continue
+        visited.add(node)
+        order.append(node)
+
+        # Reverse so the first neighbor is popped first
+        for neighbor in reversed(graph[node]):
+            if neighbor not in visited:
+                stack.append(neighbor)
+
+    return order`,
+  sampleGraph: 'A-B, A-C, B-D, B-E, C-F, E-F, D-G',
+};
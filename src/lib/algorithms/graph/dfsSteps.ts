@@ -0,0 +1,90 @@
+import { Graph, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { buildAdjacency, createInitialGraphState, resolveStartNode } from './graphInput';
+
+interface StackEntry {
+  node: string;
+  viaEdge: string | null;
+  depth: number;
+}
+
+export function generateDfsSteps(graph: Graph, startNode: string): GraphStep[] {
+  const steps: GraphStep[] = [];
+  const start = resolveStartNode(graph, startNode);
+  if (!start) return steps;
+
+  const adj = buildAdjacency(graph);
+  const state = createInitialGraphState(graph, { distanceLabel: 'depth', frontierLabel: 'Stack (top first)', orderLabel: 'Visit order' });
+
+  let totalComparisons = 0;
+  let passCount = 0;
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  const visited = new Set<string>();
+  const stack: StackEntry[] = [{ node: start, viaEdge: null, depth: 0 }];
+  // Top of the stack is shown first.
+  const syncFrontier = () => {
+    state.frontier = [...stack].reverse().map((e) => ({ node: e.node }));
+  };
+
+  push('Initial Graph', 0, `Starting Depth-First Search from ${start}. DFS follows one path as deep as possible using a stack, then backtracks.`);
+
+  state.nodeStates[start] = 'frontier';
+  syncFrontier();
+  push('Push Start', 2, `Push ${start} onto the stack.`);
+
+  while (stack.length > 0) {
+    const entry = stack.pop() as StackEntry;
+    syncFrontier();
+
+    if (visited.has(entry.node)) {
+      push(`Pop ${entry.node} (skip)`, 5, `Pop ${entry.node}, but it was already visited through another path. Skip it.`);
+      continue;
+    }
+
+    passCount++;
+    visited.add(entry.node);
+    state.nodeStates[entry.node] = 'current';
+    state.current = entry.node;
+    state.distances[entry.node] = entry.depth;
+    state.order.push(entry.node);
+    if (entry.viaEdge) state.edgeStates[entry.viaEdge] = 'tree';
+
+    push(`Visit ${entry.node}`, 6, `Pop ${entry.node} and mark it visited (depth ${entry.depth}). Visit order so far: ${state.order.join(' → ')}.`);
+
+    // Push in reverse so the alphabetically first neighbor is explored first.
+    const neighbors = [...(adj.get(entry.node) ?? [])].reverse();
+    for (const { node: neighbor, edgeId } of neighbors) {
+      totalComparisons++;
+      if (visited.has(neighbor)) {
+        const prevEdgeState = state.edgeStates[edgeId];
+        state.edgeStates[edgeId] = 'considered';
+        push(`Check ${neighbor}`, 8, `${neighbor} is already visited. Do not push it.`);
+        state.edgeStates[edgeId] = prevEdgeState === 'tree' ? 'tree' : 'default';
+        continue;
+      }
+
+      stack.push({ node: neighbor, viaEdge: edgeId, depth: entry.depth + 1 });
+      state.nodeStates[neighbor] = 'frontier';
+      syncFrontier();
+      const prevEdgeState = state.edgeStates[edgeId];
+      state.edgeStates[edgeId] = 'considered';
+      push(`Push ${neighbor}`, 9, `${neighbor} is not visited yet. Push it onto the stack.`);
+      state.edgeStates[edgeId] = prevEdgeState;
+    }
+
+    state.nodeStates[entry.node] = 'visited';
+    state.current = null;
+  }
+
+  push('DFS Complete!', 10, `Stack is empty. DFS visited ${state.order.length} of ${graph.nodes.length} nodes: ${state.order.join(' → ')}.`);
+
+  return steps;
+}
@@ -0,0 +1,51 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateDijkstraSteps } from '@/lib/algorithms/graph/dijkstraSteps';
+
+export const dijkstra: AlgorithmDefinition = {
+  info: {
+    id: 'dijkstra',
+    name: "Dijkstra's Algorithm",
+    category: 'graph',
+    timeComplexity: { best: 'O((V + E) log V)', average: 'O((V + E) log V)', worst: 'O((V + E) log V)' },
+    spaceComplexity: 'O(V)',
+    description: 'Finds shortest paths from a source by always settling the closest unsettled node. Requires non-negative edge weights.',
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: true, nonNegativeWeights: true },
+  generateSteps: ({ graph, startNode }) => (graph ? generateDijkstraSteps(graph, startNode ?? '') : []),
+  pseudocode: [
+    { line: 0, code: 'def dijkstra(graph, source):', indent: 0 },
+    { line: 1, code: 'dist = {v: inf for v in graph}; dist[source] = 0', indent: 1 },
+    { line: 2, code: 'pq = [(0, source)]', indent: 1 },
+    { line: 3, code: 'while pq:', indent: 1 },
+    { line: 4, code: 'd, u = heappop(pq)', indent: 2 },
+    { line: 5, code: 'if d > dist[u]: continue', indent: 2 },
+    { line: 6, code: 'for v, w in graph[u]:', indent: 2 },
+    { line: 7, code: 'if dist[u] + w < dist[v]:', indent: 3 },
+    { line: 8, code: 'dist[v] = dist[u] + w', indent: 4 },
+    { line: 9, code: 'heappush(pq, (dist[v], v))', indent: 4 },
+    { line: 10, code: 'return dist', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 4: 4, 5: 5, 7: 7, 9: 9, 10: 10,
+  },
+  code: `import heapq
+
+def dijkstra(graph, source):
+    dist = {v: float('inf') for v in graph}
+    dist[source] = 0
+    pq = [(0, source)]
+
+    while pq:
+        d, u = heapq.heappop(pq)
+        # Skip entries made stale by a later, shorter push
+        if d > dist[u]:
+            continue
+
+        for v, w in graph[u]:
+            if dist[u] + w < dist[v]:
+                dist[v] = dist[u] + w
+                heapq.heappush(pq, (dist[v], v))
+
+    return dist`,
+  sampleGraph: 'A>B:4, A>C:2, C>B:1, B>D:5, C>D:8, C>E:10, D>E:2, D>F:6, E>F:3',
+};
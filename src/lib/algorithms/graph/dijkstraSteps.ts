@@ -0,0 +1,92 @@
+import { FrontierItem, Graph, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { buildAdjacency, createInitialGraphState, resolveStartNode } from './graphInput';
+
+export function generateDijkstraSteps(graph: Graph, startNode: string): GraphStep[] {
+  const steps: GraphStep[] = [];
+  const source = resolveStartNode(graph, startNode);
+  if (!source) return steps;
+
+  const adj = buildAdjacency(graph);
+  const state = createInitialGraphState(graph, { distanceLabel: 'dist', frontierLabel: 'Priority queue', orderLabel: 'Settled' }, null);
+  const dist = state.distances;
+  const parentEdge = new Map<string, string>();
+  const settled = new Set<string>();
+
+  let totalComparisons = 0;
+  let passCount = 0;
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  // Min-heap stand-in: kept ordered by (priority, node) so ties are deterministic.
+  const pq: FrontierItem[] = [];
+  const pqPush = (item: FrontierItem) => {
+    pq.push(item);
+    pq.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0) || a.node.localeCompare(b.node));
+    state.frontier = pq;
+  };
+
+  push('Initial Graph', 0, `Starting Dijkstra's algorithm from ${source}. Every distance starts at ∞.`);
+
+  dist[source] = 0;
+  push('Source Distance', 1, `Set dist[${source}] = 0. All other nodes stay at ∞.`);
+
+  state.nodeStates[source] = 'frontier';
+  pqPush({ node: source, priority: 0 });
+  push('Push Source', 2, `Push (0, ${source}) onto the priority queue.`);
+
+  while (pq.length > 0) {
+    const { node: u, priority } = pq.shift() as FrontierItem;
+    const d = priority ?? 0;
+    state.frontier = pq;
+
+    if (settled.has(u) || d > (dist[u] ?? Infinity)) {
+      push(`Pop ${u} (stale)`, 5, `Pop (${d}, ${u}), but dist[${u}] = ${dist[u]} is already smaller. This entry is stale; skip it.`);
+      continue;
+    }
+
+    passCount++;
+    settled.add(u);
+    state.nodeStates[u] = 'current';
+    state.current = u;
+    state.order.push(u);
+    push(`Settle ${u}`, 4, `Pop (${d}, ${u}). ${u} has the smallest tentative distance, so dist[${u}] = ${d} is final.`);
+
+    for (const { node: v, weight, edgeId } of adj.get(u) ?? []) {
+      if (settled.has(v)) continue;
+      totalComparisons++;
+      const candidate = d + weight;
+      const current = dist[v];
+      const prevEdgeState = state.edgeStates[edgeId];
+      state.edgeStates[edgeId] = 'considered';
+
+      if (current === null || candidate < current) {
+        const oldParent = parentEdge.get(v);
+        if (oldParent) state.edgeStates[oldParent] = 'rejected';
+        parentEdge.set(v, edgeId);
+        dist[v] = candidate;
+        state.nodeStates[v] = 'frontier';
+        pqPush({ node: v, priority: candidate });
+        state.edgeStates[edgeId] = 'tree';
+        push(`Relax ${u}→${v}`, 9, `dist[${u}] + ${weight} = ${candidate} < ${current === null ? '∞' : current}. Update dist[${v}] = ${candidate} and push (${candidate}, ${v}).`);
+      } else {
+        push(`Check ${u}→${v}`, 7, `dist[${u}] + ${weight} = ${candidate} is not better than dist[${v}] = ${current}. No update.`);
+        state.edgeStates[edgeId] = prevEdgeState === 'tree' ? 'tree' : 'default';
+      }
+    }
+
+    state.nodeStates[u] = 'visited';
+    state.current = null;
+  }
+
+  const reached = graph.nodes.filter((n) => dist[n.id] !== null).map((n) => `${n.id}=${dist[n.id]}`);
+  push('Shortest Paths Found!', 10, `Priority queue is empty. Final distances from ${source}: ${reached.join(', ')}.`);
+
+  return steps;
+}
@@ -0,0 +1,129 @@
+import { Graph, GraphEdge, GraphNode, GraphNodeState, GraphState } from '@/lib/graphTypes';
+
+export interface Neighbor {
+  node: string;
+  weight: number;
+  edgeId: string;
+}
+
+const VIEW_WIDTH = 400;
+const VIEW_HEIGHT = 300;
+
+export const GRAPH_VIEWBOX = { width: VIEW_WIDTH, height: VIEW_HEIGHT };
+
+/**
+ * Parses an edge list such as "A-B:4, A>C, D".
+ * `-` is an undirected edge, `>` a directed edge, `:w` an optional weight (default 1).
+ * A bare name adds an isolated node. Nodes are laid out on a circle in first-seen order.
+ */
+export function parseGraphInput(input: string): Graph {
+  const nodeIds: string[] = [];
+  const edges: GraphEdge[] = [];
+  let weighted = false;
+
+  const addNode = (id: string) => {
+    if (!nodeIds.includes(id)) nodeIds.push(id);
+  };
+
+  const tokens = input
+    .split(/[,;\n]/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    const match = token.match(/^(\w+)\s*([->])\s*(\w+)\s*(?::\s*(-?\d+(?:\.\d+)?))?$/);
+    if (match) {
+      const [, from, op, to, weightRaw] = match;
+      addNode(from);
+      addNode(to);
+      if (weightRaw !== undefined) weighted = true;
+      edges.push({
+        id: `${from}${op}${to}#${edges.length}`,
+        from,
+        to,
+        weight: weightRaw !== undefined ? Number(weightRaw) : 1,
+        directed: op === '>',
+      });
+      continue;
+    }
+    if (/^\w+$/.test(token)) addNode(token);
+  }
+
+  const cx = VIEW_WIDTH / 2;
+  const cy = VIEW_HEIGHT / 2;
+  const radius = Math.min(VIEW_WIDTH, VIEW_HEIGHT) / 2 - 36;
+  const nodes: GraphNode[] = nodeIds.map((id, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(1, nodeIds.length) - Math.PI / 2;
+    return {
+      id,
+      x: Math.round(cx + radius * Math.cos(angle)),
+      y: Math.round(cy + radius * Math.sin(angle)),
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    directed: edges.some((e) => e.directed),
+    weighted,
+  };
+}
+
+/**
+ * Adjacency lists sorted by neighbor id so traversal order is deterministic.
+ * `asUndirected` ignores edge direction (used by MST algorithms).
+ */
+export function buildAdjacency(graph: Graph, asUndirected = false): Map<string, Neighbor[]> {
+  const adj = new Map<string, Neighbor[]>();
+  for (const node of graph.nodes) adj.set(node.id, []);
+
+  for (const edge of graph.edges) {
+    adj.get(edge.from)?.push({ node: edge.to, weight: edge.weight, edgeId: edge.id });
+    if (!edge.directed || asUndirected) {
+      adj.get(edge.to)?.push({ node: edge.from, weight: edge.weight, edgeId: edge.id });
+    }
+  }
+
+  for (const list of adj.values()) {
+    list.sort((a, b) => a.node.localeCompare(b.node));
+  }
+  return adj;
+}
+
+export function resolveStartNode(graph: Graph, requested: string): string | null {
+  if (graph.nodes.length === 0) return null;
+  const trimmed = requested.trim();
+  return graph.nodes.find((n) => n.id === trimmed)?.id ?? graph.nodes[0].id;
+}
+
+export function createInitialGraphState(
+  graph: Graph,
+  labels: { distanceLabel: string; frontierLabel: string; orderLabel: string },
+  initialDistance: number | null = null,
+): GraphState {
+  const nodeStates: Record<string, GraphNodeState> = {};
+  const distances: Record<string, number | null> = {};
+  for (const node of graph.nodes) {
+    nodeStates[node.id] = 'unvisited';
+    distances[node.id] = initialDistance;
+  }
+
+  const edgeStates: GraphState['edgeStates'] = {};
+  for (const edge of graph.edges) edgeStates[edge.id] = 'default';
+
+  return {
+    nodeStates,
+    edgeStates,
+    distances,
+    frontier: [],
+    order: [],
+    current: null,
+    ...labels,
+  };
+}
+
+export function formatEdge(graph: Graph, edgeId: string): string {
+  const edge = graph.edges.find((e) => e.id === edgeId);
+  if (!edge) return edgeId;
+  return `${edge.from}${edge.directed ? '→' : '–'}${edge.to}`;
+}
@@ -0,0 +1,47 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateKruskalSteps } from '@/lib/algorithms/graph/kruskalSteps';
+
+export const kruskal: AlgorithmDefinition = {
+  info: {
+    id: 'kruskal',
+    name: "Kruskal's Algorithm",
+    category: 'graph',
+    timeComplexity: { best: 'O(E log E)', average: 'O(E log E)', worst: 'O(E log E)' },
+    spaceComplexity: 'O(V)',
+    description: 'Builds a minimum spanning tree by taking edges cheapest-first and using union-find to skip edges that would form a cycle.',
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ graph }) => (graph ? generateKruskalSteps(graph) : []),
+  pseudocode: [
+    { line: 0, code: 'def kruskal(nodes, edges):', indent: 0 },
+    { line: 1, code: 'edges.sort(key=weight)', indent: 1 },
+    { line: 2, code: 'uf = UnionFind(nodes)', indent: 1 },
+    { line: 3, code: 'for u, v, w in edges:', indent: 1 },
+    { line: 4, code: 'if uf.find(u) != uf.find(v):', indent: 2 },
+    { line: 5, code: 'uf.union(u, v); mst.append((u, v, w))', indent: 3 },
+    { line: 6, code: 'else: skip  # would form a cycle', indent: 2 },
+    { line: 7, code: 'return mst', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 4: 4, 5: 5, 6: 6, 7: 7,
+  },
+  code: `def kruskal(nodes, edges):
+    parent = {v: v for v in nodes}
+
+    def find(x):
+        while parent[x] != x:
+            parent[x] = parent[parent[x]]  # Path compression
+            x = parent[x]
+        return x
+
+    mst = []
+    for u, v, w in sorted(edges, key=lambda e: e[2]):
+        root_u, root_v = find(u), find(v)
+        # Different components: the edge cannot close a cycle
+        if root_u != root_v:
+            parent[root_u] = root_v
+            mst.append((u, v, w))
+
+    return mst`,
+  sampleGraph: 'A-B:4, A-C:3, B-C:1, B-D:2, C-D:4, C-E:6, D-E:5, D-F:7, E-F:2',
+};
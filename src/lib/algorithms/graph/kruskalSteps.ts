@@ -0,0 +1,102 @@
+import { Graph, GraphEdge, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { createInitialGraphState, formatEdge } from './graphInput';
+
+export function generateKruskalSteps(graph: Graph): GraphStep[] {
+  const steps: GraphStep[] = [];
+  if (graph.nodes.length === 0) return steps;
+
+  // MST is defined on undirected graphs: edge direction is ignored.
+  const state = createInitialGraphState(graph, { distanceLabel: 'set', frontierLabel: 'Sorted edges', orderLabel: 'MST edges' }, null);
+  const parent = new Map<string, string>();
+  graph.nodes.forEach((n) => parent.set(n.id, n.id));
+
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== root) root = parent.get(root) as string;
+    // Path compression
+    let cur = x;
+    while (parent.get(cur) !== root) {
+      const next = parent.get(cur) as string;
+      parent.set(cur, root);
+      cur = next;
+    }
+    return root;
+  };
+
+  // Component label per node: index of its root in node order.
+  const syncSets = () => {
+    for (const node of graph.nodes) {
+      const root = find(node.id);
+      state.distances[node.id] = graph.nodes.findIndex((n) => n.id === root);
+    }
+  };
+
+  let totalComparisons = 0;
+  let passCount = 0;
+  let totalWeight = 0;
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  push('Initial Graph', 0, `Starting Kruskal's algorithm. Edges are added cheapest-first unless they would form a cycle.`);
+
+  const sorted: GraphEdge[] = [...graph.edges].sort((a, b) => a.weight - b.weight || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+  const remaining = [...sorted];
+  const syncFrontier = () => {
+    state.frontier = remaining.map((e) => ({ node: `${e.from}–${e.to}`, priority: e.weight }));
+  };
+  syncFrontier();
+  push('Sort Edges', 1, `Sort all ${sorted.length} edges by weight: ${sorted.map((e) => `${e.from}–${e.to}(${e.weight})`).join(', ')}.`);
+
+  syncSets();
+  push('Make Sets', 2, 'Put every node in its own set. The number under each node is its set id.');
+
+  for (const edge of sorted) {
+    if (state.order.length === graph.nodes.length - 1) break;
+    remaining.shift();
+    syncFrontier();
+    totalComparisons++;
+
+    const rootFrom = find(edge.from);
+    const rootTo = find(edge.to);
+    state.edgeStates[edge.id] = 'considered';
+    state.nodeStates[edge.from] = state.nodeStates[edge.from] === 'visited' ? 'visited' : 'frontier';
+    state.nodeStates[edge.to] = state.nodeStates[edge.to] === 'visited' ? 'visited' : 'frontier';
+    push(`Check ${edge.from}–${edge.to}`, 4, `Next cheapest edge ${formatEdge(graph, edge.id)} (weight ${edge.weight}). find(${edge.from}) = ${rootFrom}, find(${edge.to}) = ${rootTo}.`);
+
+    if (rootFrom !== rootTo) {
+      parent.set(rootFrom, rootTo);
+      passCount++;
+      totalWeight += edge.weight;
+      state.edgeStates[edge.id] = 'tree';
+      state.nodeStates[edge.from] = 'visited';
+      state.nodeStates[edge.to] = 'visited';
+      state.order.push(`${edge.from}–${edge.to}`);
+      syncSets();
+      push(`Add ${edge.from}–${edge.to}`, 5, `Different sets, so adding ${edge.from}–${edge.to} cannot form a cycle. Union the sets and add the edge to the MST.`);
+    } else {
+      state.edgeStates[edge.id] = 'rejected';
+      for (const id of [edge.from, edge.to]) {
+        if (state.nodeStates[id] === 'frontier') state.nodeStates[id] = 'unvisited';
+      }
+      push(`Reject ${edge.from}–${edge.to}`, 6, `${edge.from} and ${edge.to} are already in the same set. Adding this edge would form a cycle, so skip it.`);
+    }
+  }
+
+  const spanning = state.order.length === graph.nodes.length - 1;
+  push(
+    'MST Complete!',
+    7,
+    spanning
+      ? `Minimum spanning tree found with ${state.order.length} edges and total weight ${totalWeight}.`
+      : `All edges processed. The graph is disconnected, so this is a minimum spanning forest (weight ${totalWeight}).`,
+  );
+
+  return steps;
+}
@@ -0,0 +1,51 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generatePrimSteps } from '@/lib/algorithms/graph/primSteps';
+
+export const prim: AlgorithmDefinition = {
+  info: {
+    id: 'prim',
+    name: "Prim's Algorithm",
+    category: 'graph',
+    timeComplexity: { best: 'O(E log V)', average: 'O(E log V)', worst: 'O(E log V)' },
+    spaceComplexity: 'O(V + E)',
+    description: 'Grows a minimum spanning tree from a start node by repeatedly adding the cheapest edge leaving the tree.',
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: true },
+  generateSteps: ({ graph, startNode }) => (graph ? generatePrimSteps(graph, startNode ?? '') : []),
+  pseudocode: [
+    { line: 0, code: 'def prim(graph, start):', indent: 0 },
+    { line: 1, code: 'in_mst = {start}; pq = edges from start', indent: 1 },
+    { line: 2, code: 'while pq and len(in_mst) < n:', indent: 1 },
+    { line: 3, code: 'w, u, v = heappop(pq)', indent: 2 },
+    { line: 4, code: 'if v in in_mst: continue', indent: 2 },
+    { line: 5, code: 'in_mst.add(v); mst.append((u, v, w))', indent: 2 },
+    { line: 6, code: 'for x, wx in graph[v]:', indent: 2 },
+    { line: 7, code: 'if x not in in_mst: heappush(pq, (wx, v, x))', indent: 3 },
+    { line: 8, code: 'return mst', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 4: 4, 5: 5, 8: 8,
+  },
+  code: `import heapq
+
+def prim(graph, start):
+    in_mst = {start}
+    mst = []
+    pq = [(w, start, v) for v, w in graph[start]]
+    heapq.heapify(pq)
+
+    while pq and len(in_mst) < len(graph):
+        w, u, v = heapq.heappop(pq)
+        # Both ends already in the tree: edge would close a cycle
+        if v in in_mst:
+            continue
+        in_mst.add(v)
+        mst.append((u, v, w))
+
+        for x, wx in graph[v]:
+            if x not in in_mst:
+                heapq.heappush(pq, (wx, v, x))
+
+    return mst`,
+  sampleGraph: 'A-B:2, A-D:6, B-C:3, B-D:8, B-E:5, C-E:7, D-E:9',
+};
@@ -0,0 +1,99 @@
+import { Graph, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { buildAdjacency, createInitialGraphState, formatEdge, resolveStartNode } from './graphInput';
+
+interface CandidateEdge {
+  weight: number;
+  from: string;
+  to: string;
+  edgeId: string;
+}
+
+export function generatePrimSteps(graph: Graph, startNode: string): GraphStep[] {
+  const steps: GraphStep[] = [];
+  const start = resolveStartNode(graph, startNode);
+  if (!start) return steps;
+
+  // MST is defined on undirected graphs: edge direction is ignored.
+  const adj = buildAdjacency(graph, true);
+  const state = createInitialGraphState(graph, { distanceLabel: 'key', frontierLabel: 'Candidate edges', orderLabel: 'MST edges' }, null);
+  const inMst = new Set<string>();
+  const candidates: CandidateEdge[] = [];
+
+  let totalComparisons = 0;
+  let passCount = 0;
+  let totalWeight = 0;
+
+  const syncFrontier = () => {
+    candidates.sort((a, b) => a.weight - b.weight || a.to.localeCompare(b.to));
+    state.frontier = candidates.map((c) => ({ node: `${c.from}–${c.to}`, priority: c.weight }));
+  };
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  const addToTree = (node: string) => {
+    inMst.add(node);
+    state.nodeStates[node] = 'current';
+    state.current = node;
+    for (const { node: next, weight, edgeId } of adj.get(node) ?? []) {
+      if (inMst.has(next)) continue;
+      candidates.push({ weight, from: node, to: next, edgeId });
+      if (state.nodeStates[next] === 'unvisited') state.nodeStates[next] = 'frontier';
+      const key = state.distances[next];
+      if (key === null || weight < key) state.distances[next] = weight;
+    }
+    syncFrontier();
+  };
+
+  push('Initial Graph', 0, `Starting Prim's algorithm from ${start}. The tree grows one cheapest crossing edge at a time.`);
+
+  state.distances[start] = 0;
+  addToTree(start);
+  passCount++;
+  push(`Start at ${start}`, 1, `Add ${start} to the tree and push all of its edges as candidates.`);
+  state.nodeStates[start] = 'visited';
+  state.current = null;
+
+  while (candidates.length > 0 && inMst.size < graph.nodes.length) {
+    const edge = candidates.shift() as CandidateEdge;
+    syncFrontier();
+    totalComparisons++;
+
+    const prevEdgeState = state.edgeStates[edge.edgeId];
+    state.edgeStates[edge.edgeId] = 'considered';
+    push(`Pop ${edge.from}–${edge.to}`, 3, `Take the cheapest candidate edge ${formatEdge(graph, edge.edgeId)} (weight ${edge.weight}).`);
+
+    if (inMst.has(edge.to)) {
+      state.edgeStates[edge.edgeId] = prevEdgeState === 'tree' ? 'tree' : 'rejected';
+      push(`Skip ${edge.from}–${edge.to}`, 4, `${edge.to} is already in the tree, so this edge would form a cycle. Skip it.`);
+      continue;
+    }
+
+    passCount++;
+    totalWeight += edge.weight;
+    state.edgeStates[edge.edgeId] = 'tree';
+    state.order.push(`${edge.from}–${edge.to}`);
+    state.distances[edge.to] = edge.weight;
+    addToTree(edge.to);
+    push(`Add ${edge.to}`, 5, `Add ${edge.to} to the tree via ${edge.from}–${edge.to} (weight ${edge.weight}). Push ${edge.to}'s edges to nodes outside the tree.`);
+    state.nodeStates[edge.to] = 'visited';
+    state.current = null;
+  }
+
+  const spanning = inMst.size === graph.nodes.length;
+  push(
+    'MST Complete!',
+    8,
+    spanning
+      ? `Minimum spanning tree found with ${state.order.length} edges and total weight ${totalWeight}.`
+      : `No more candidate edges. The graph is disconnected: the tree spans ${inMst.size} of ${graph.nodes.length} nodes (weight ${totalWeight}).`,
+  );
+
+  return steps;
+}
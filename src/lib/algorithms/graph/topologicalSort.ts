@@ -0,0 +1,55 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateTopologicalSortSteps } from '@/lib/algorithms/graph/topologicalSortSteps';
+
+export const topologicalSort: AlgorithmDefinition = {
+  info: {
+    id: 'topological-sort',
+    name: 'Topological Sort',
+    category: 'graph',
+    timeComplexity: { best: 'O(V + E)', average: 'O(V + E)', worst: 'O(V + E)' },
+    spaceComplexity: 'O(V)',
+    description: "Orders the nodes of a directed acyclic graph so every edge points forward (Kahn's algorithm). Detects cycles.",
+  },
+  requirements: { inputKind: 'graph', needsTarget: false, needsSortedInput: false, needsStartNode: false, directedEdges: true },
+  generateSteps: ({ graph }) => (graph ? generateTopologicalSortSteps(graph) : []),
+  pseudocode: [
+    { line: 0, code: 'def topological_sort(graph):', indent: 0 },
+    { line: 1, code: 'indegree = count incoming edges', indent: 1 },
+    { line: 2, code: 'queue = deque(v for v if indegree[v] == 0)', indent: 1 },
+    { line: 3, code: 'while queue:', indent: 1 },
+    { line: 4, code: 'u = queue.popleft(); order.append(u)', indent: 2 },
+    { line: 5, code: 'for v in graph[u]:', indent: 2 },
+    { line: 6, code: 'indegree[v] -= 1', indent: 3 },
+    { line: 7, code: 'if indegree[v] == 0: queue.append(v)', indent: 3 },
+    { line: 8, code: 'if len(order) < n: raise CycleError', indent: 1 },
+    { line: 9, code: 'return order', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 4: 4, 6: 6, 7: 7, 8: 8, 9: 9,
+  },
+  code: `from collections import deque
+
+def topological_sort(graph):
+    indegree = {v: 0 for v in graph}
+    for u in graph:
+        for v in graph[u]:
+            indegree[v] += 1
+
+    queue = deque(v for v in graph if indegree[v] == 0)
+    order = []
+
+    while queue:
+        u = queue.popleft()
+        order.append(u)
+        for v in graph[u]:
+            indegree[v] -= 1
+            if indegree[v] == 0:
+                queue.append(v)
+
+    # Nodes left over are part of a cycle
+    if len(order) < len(graph):
+        raise ValueError("graph has a cycle")
+
+    return order`,
+  sampleGraph: 'A>C, B>C, B>D, C>E, D>F, E>F, E>G',
+};
@@ -0,0 +1,88 @@
+import { Graph, GraphStep, createGraphStep } from '@/lib/graphTypes';
+import { createInitialGraphState, formatEdge } from './graphInput';
+
+export function generateTopologicalSortSteps(graph: Graph): GraphStep[] {
+  const steps: GraphStep[] = [];
+  if (graph.nodes.length === 0) return steps;
+
+  // Kahn's algorithm follows every edge from → to; the store only lets directed edges through.
+  const outgoing = new Map<string, { node: string; edgeId: string }[]>();
+  for (const node of graph.nodes) outgoing.set(node.id, []);
+  for (const edge of graph.edges) outgoing.get(edge.from)?.push({ node: edge.to, edgeId: edge.id });
+  for (const list of outgoing.values()) list.sort((a, b) => a.node.localeCompare(b.node));
+
+  const state = createInitialGraphState(graph, { distanceLabel: 'indeg', frontierLabel: 'Queue', orderLabel: 'Topological order' }, 0);
+  const indegree = state.distances as Record<string, number>;
+
+  let totalComparisons = 0;
+  let passCount = 0;
+
+  const push = (label: string, codeLine: number, explanation: string) => {
+    steps.push(createGraphStep(graph, state, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
+    }));
+  };
+
+  push('Initial Graph', 0, `Starting Kahn's topological sort. A node can be output once every edge into it has been processed.`);
+
+  for (const edge of graph.edges) indegree[edge.to]++;
+  push('Count In-degrees', 1, `Count incoming edges for every node: ${graph.nodes.map((n) => `${n.id}=${indegree[n.id]}`).join(', ')}.`);
+
+  const queue = graph.nodes.filter((n) => indegree[n.id] === 0).map((n) => n.id);
+  const syncFrontier = () => {
+    state.frontier = queue.map((q) => ({ node: q }));
+  };
+  queue.forEach((id) => { state.nodeStates[id] = 'frontier'; });
+  syncFrontier();
+  push(
+    'Queue Sources',
+    2,
+    queue.length > 0
+      ? `Enqueue every node with in-degree 0: ${queue.join(', ')}.`
+      : 'No node has in-degree 0, so the graph must contain a cycle.',
+  );
+
+  while (queue.length > 0) {
+    const node = queue.shift() as string;
+    passCount++;
+    syncFrontier();
+    state.nodeStates[node] = 'current';
+    state.current = node;
+    state.order.push(node);
+    push(`Output ${node}`, 4, `Dequeue ${node} and append it to the order: ${state.order.join(' → ')}.`);
+
+    for (const { node: next, edgeId } of outgoing.get(node) ?? []) {
+      totalComparisons++;
+      indegree[next]--;
+      state.edgeStates[edgeId] = 'tree';
+
+      if (indegree[next] === 0) {
+        queue.push(next);
+        state.nodeStates[next] = 'frontier';
+        syncFrontier();
+        push(`Enqueue ${next}`, 7, `Remove ${formatEdge(graph, edgeId)}. in-degree[${next}] drops to 0, so enqueue ${next}.`);
+      } else {
+        push(`Decrement ${next}`, 6, `Remove ${formatEdge(graph, edgeId)}. in-degree[${next}] is now ${indegree[next]}; it still has unprocessed predecessors.`);
+      }
+    }
+
+    state.nodeStates[node] = 'visited';
+    state.current = null;
+  }
+
+  if (state.order.length < graph.nodes.length) {
+    const stuck = graph.nodes.filter((n) => indegree[n.id] > 0).map((n) => n.id);
+    for (const edge of graph.edges) {
+      if (stuck.includes(edge.from) && stuck.includes(edge.to)) state.edgeStates[edge.id] = 'rejected';
+    }
+    push('Cycle Detected!', 8, `Queue is empty but ${stuck.join(', ')} still have unprocessed incoming edges, so the graph contains a cycle and no topological order exists.`);
+    return steps;
+  }
+
+  push('Topological Sort Complete!', 9, `Every node was output. Topological order: ${state.order.join(' → ')}.`);
+
+  return steps;
+}
@@ -0,0 +1,102 @@
+import { registerAlgorithm } from '@/lib/algorithms/registry';
+import { bubbleSort } from '@/lib/algorithms/sorting/bubbleSort';
+import { selectionSort } from '@/lib/algorithms/sorting/selectionSort';
+import { insertionSort } from '@/lib/algorithms/sorting/insertionSort';
+import { mergeSort } from '@/lib/algorithms/sorting/mergeSort';
+import { quickSort } from '@/lib/algorithms/sorting/quickSort';
+import { heapSort } from '@/lib/algorithms/sorting/heapSort';
+import { shellSort } from '@/lib/algorithms/sorting/shellSort';
+import { countingSort } from '@/lib/algorithms/sorting/countingSort';
+import { radixSort } from '@/lib/algorithms/sorting/radixSort';
+import { bucketSort } from '@/lib/algorithms/sorting/bucketSort';
+import { cocktailSort } from '@/lib/algorithms/sorting/cocktailSort';
+import { combSort } from '@/lib/algorithms/sorting/combSort';
+import { timSort } from '@/lib/algorithms/sorting/timSort';
+import { linearSearch } from '@/lib/algorithms/searching/linearSearch';
+import { binarySearch } from '@/lib/algorithms/searching/binarySearch';
+import { jumpSearch } from '@/lib/algorithms/searching/jumpSearch';
+import { interpolationSearch } from '@/lib/algorithms/searching/interpolationSearch';
+import { exponentialSearch } from '@/lib/algorithms/searching/exponentialSearch';
+import { ternarySearch } from '@/lib/algorithms/searching/ternarySearch';
+import { fibonacciSearch } from '@/lib/algorithms/searching/fibonacciSearch';
+import { firstOccurrence } from '@/lib/algorithms/searching/firstOccurrence';
+import { lastOccurrence } from '@/lib/algorithms/searching/lastOccurrence';
+import { lowerBound } from '@/lib/algorithms/searching/lowerBound';
+import { upperBound } from '@/lib/algorithms/searching/upperBound';
+import { rotatedSearch } from '@/lib/algorithms/searching/rotatedSearch';
+import { bfs } from '@/lib/algorithms/graph/bfs';
+import { dfs } from '@/lib/algorithms/graph/dfs';
+import { dijkstra } from '@/lib/algorithms/graph/dijkstra';
+import { prim } from '@/lib/algorithms/graph/prim';
+import { kruskal } from '@/lib/algorithms/graph/kruskal';
+import { topologicalSort } from '@/lib/algorithms/graph/topologicalSort';
+import { bst } from '@/lib/algorithms/tree/bst';
+import { avlTree } from '@/lib/algorithms/tree/avlTree';
+import { binaryHeap } from '@/lib/algorithms/tree/binaryHeap';
+import { singlyLinkedList } from '@/lib/algorithms/linear/singlyLinkedList';
+import { doublyLinkedList } from '@/lib/algorithms/linear/doublyLinkedList';
+import { stack } from '@/lib/algorithms/linear/stack';
+import { queue } from '@/lib/algorithms/linear/queue';
+import { deque } from '@/lib/algorithms/linear/deque';
+import { lcs } from '@/lib/algorithms/dp/lcs';
+import { knapsack } from '@/lib/algorithms/dp/knapsack';
+import { editDistance } from '@/lib/algorithms/dp/editDistance';
+import { coinChange } from '@/lib/algorithms/dp/coinChange';
+import { customCode } from '@/lib/algorithms/sandbox/customCode';
+
+// Registration order is display order within each category.
+[
+  bubbleSort,
+  selectionSort,
+  insertionSort,
+  mergeSort,
+  quickSort,
+  heapSort,
+  shellSort,
+  countingSort,
+  radixSort,
+  bucketSort,
+  cocktailSort,
+  combSort,
+  timSort,
+  linearSearch,
+  binarySearch,
+  jumpSearch,
+  interpolationSearch,
+  exponentialSearch,
+  ternarySearch,
+  fibonacciSearch,
+  firstOccurrence,
+  lastOccurrence,
+  lowerBound,
+  upperBound,
+  rotatedSearch,
+  bfs,
+  dfs,
+  dijkstra,
+  prim,
+  kruskal,
+  topologicalSort,
+  bst,
+  avlTree,
+  binaryHeap,
+  singlyLinkedList,
+  doublyLinkedList,
+  stack,
+  queue,
+  deque,
+  lcs,
+  knapsack,
+  editDistance,
+  coinChange,
+  customCode,
+].forEach(registerAlgorithm);
+
+export {
+  getAlgorithm,
+  getAlgorithmInfo,
+  getAlgorithmsByCategory,
+  listAlgorithms,
+  generateAlgorithmSteps,
+} from '@/lib/algorithms/registry';
+export type { AlgorithmDefinition, AlgorithmInput, AlgorithmRequirements, SourceListing, TranslatedLanguage } from '@/lib/algorithms/registry';
@@ -0,0 +1,37 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateDequeSteps } from '@/lib/algorithms/linear/stackQueueSteps';
+
+export const deque: AlgorithmDefinition = {
+  info: {
+    id: 'deque',
+    name: 'Deque',
+    category: 'linear-structures',
+    timeComplexity: { best: 'O(1)', average: 'O(1)', worst: 'O(1)' },
+    spaceComplexity: 'O(n)',
+    description: 'A double-ended queue: push and pop at both the front and the rear. Can act as either a stack or a queue.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateDequeSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def push_front(d, value):', indent: 0 },
+    { line: 1, code: 'd.appendleft(value)', indent: 1 },
+    { line: 2, code: 'def push_back(d, value):', indent: 0 },
+    { line: 3, code: 'd.append(value)', indent: 1 },
+    { line: 4, code: 'def pop_front(d):', indent: 0 },
+    { line: 5, code: 'return d.popleft()', indent: 1 },
+    { line: 6, code: 'def pop_back(d):', indent: 0 },
+    { line: 7, code: 'return d.pop()', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 5: 5, 7: 7,
+  },
+  code: `from collections import deque
+
+d = deque()
+d.appendleft(10)   # push_front
+d.append(20)       # push_back
+d.popleft()        # pop_front -> 10
+d.pop()            # pop_back  -> 20
+# Every operation is O(1) at either end`,
+  sampleOperations: 'push_back 10, push_back 20, push_front 5, push_front 1, pop_back, pop_front, push_back 30',
+};
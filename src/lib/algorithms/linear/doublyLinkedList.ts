@@ -0,0 +1,78 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateDoublyLinkedListSteps } from '@/lib/algorithms/linear/linkedListSteps';
+
+export const doublyLinkedList: AlgorithmDefinition = {
+  info: {
+    id: 'doubly-linked-list',
+    name: 'Doubly Linked List',
+    category: 'linear-structures',
+    timeComplexity: { best: 'O(1)', average: 'O(n)', worst: 'O(n)' },
+    spaceComplexity: 'O(n)',
+    description: 'Each node links to both its next and previous node, so a found node can be unlinked without tracking the node before it.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateDoublyLinkedListSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def insert(value, index):', indent: 0 },
+    { line: 1, code: 'if index == 0: node.next = head; head.prev = node; head = node', indent: 1 },
+    { line: 2, code: 'curr = head; repeat index - 1 times: curr = curr.next', indent: 1 },
+    { line: 3, code: 'node.prev, node.next = curr, curr.next; fix neighbours', indent: 1 },
+    { line: 4, code: 'def delete(value):', indent: 0 },
+    { line: 5, code: 'while curr.value != value: curr = curr.next', indent: 1 },
+    { line: 6, code: 'curr.prev.next = curr.next; curr.next.prev = curr.prev', indent: 1 },
+    { line: 7, code: 'def reverse():', indent: 0 },
+    { line: 8, code: 'curr = head', indent: 1 },
+    { line: 9, code: 'while curr: curr.prev, curr.next = curr.next, curr.prev', indent: 1 },
+    { line: 10, code: 'curr = curr.prev  # the old next', indent: 2 },
+    { line: 11, code: 'head, tail = tail, head', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 5: 5, 6: 6, 8: 8, 9: 9, 10: 10, 11: 11,
+  },
+  code: `class Node:
+    def __init__(self, value):
+        self.value, self.prev, self.next = value, None, None
+
+class DoublyLinkedList:
+    def __init__(self):
+        self.head = self.tail = None
+
+    def insert(self, value, index):
+        node = Node(value)
+        if index == 0:
+            node.next = self.head
+            if self.head:
+                self.head.prev = node
+            self.head = node
+            self.tail = self.tail or node
+            return
+        curr = self.head
+        for _ in range(index - 1):
+            curr = curr.next
+        node.prev, node.next = curr, curr.next
+        if curr.next:
+            curr.next.prev = node
+        else:
+            self.tail = node
+        curr.next = node
+
+    def delete(self, value):
+        curr = self.head
+        while curr and curr.value != value:
+            curr = curr.next
+        if curr is None:
+            return
+        # No prev pointer to track: the node knows both neighbours
+        if curr.prev: curr.prev.next = curr.next
+        else: self.head = curr.next
+        if curr.next: curr.next.prev = curr.prev
+        else: self.tail = curr.prev
+
+    def reverse(self):
+        curr = self.head
+        while curr:
+            curr.prev, curr.next = curr.next, curr.prev
+            curr = curr.prev
+        self.head, self.tail = self.tail, self.head`,
+  sampleOperations: 'append 10, append 20, append 30, prepend 5, insert 15 at 2, delete 20, reverse',
+};
@@ -0,0 +1,260 @@
+import { LinearNodeState, LinearSnapshot, LinearStep, createLinearStep } from '@/lib/linearTypes';
+import { Operation, formatOperation } from '@/lib/algorithms/operationsInput';
+
+interface ListNode {
+  id: string;
+  value: number;
+  next: string | null;
+  prev: string | null;
+}
+
+type NamedPointers = Record<string, string | null>;
+
+export function generateSinglyLinkedListSteps(operations: Operation[]): LinearStep[] {
+  return generateLinkedListSteps(operations, false);
+}
+
+export function generateDoublyLinkedListSteps(operations: Operation[]): LinearStep[] {
+  return generateLinkedListSteps(operations, true);
+}
+
+/**
+ * Shared singly/doubly linked list generator. The display order is frozen while links are
+ * rewired (so a half-reversed list shows backward arrows) and re-read from `head` afterwards.
+ */
+function generateLinkedListSteps(operations: Operation[], doubly: boolean): LinearStep[] {
+  const steps: LinearStep[] = [];
+  const nodes = new Map<string, ListNode>();
+  let head: string | null = null;
+  let tail: string | null = null;
+  let order: string[] = [];
+  let nextId = 0;
+  let currentOp: string | null = null;
+  const output: number[] = [];
+
+  let totalComparisons = 0;
+  let totalRelinks = 0;
+  let opsDone = 0;
+
+  const node = (id: string) => nodes.get(id) as ListNode;
+
+  const readOrder = () => {
+    order = [];
+    for (let id = head; id !== null; id = node(id).next) order.push(id);
+  };
+
+  const slot = (id: string | null) => {
+    if (id === null) return null;
+    const index = order.indexOf(id);
+    return index === -1 ? null : index;
+  };
+
+  const snapshot = (nodeStates: Record<string, LinearNodeState>, changed: (string | null)[]): LinearSnapshot => ({
+    kind: doubly ? 'doubly' : 'singly',
+    nodes: order.map((id) => ({ id, value: node(id).value })),
+    next: order.map((id) => slot(node(id).next)),
+    prev: doubly ? order.map((id) => slot(node(id).prev)) : [],
+    changedLinks: changed.map(slot).filter((s): s is number => s !== null),
+    nodeStates,
+    operation: currentOp,
+    output,
+  });
+
+  const push = (
+    label: string,
+    codeLine: number,
+    explanation: string,
+    extra: { pointers?: NamedPointers; states?: Record<string, LinearNodeState>; changed?: (string | null)[] } = {},
+  ) => {
+    const named: NamedPointers = { head, tail, ...extra.pointers };
+    const pointers: Record<string, number | null> = {};
+    for (const [name, id] of Object.entries(named)) pointers[name] = slot(id);
+    steps.push(createLinearStep(snapshot(extra.states ?? {}, extra.changed ?? []), pointers, {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: totalRelinks, passes: opsDone },
+    }));
+  };
+
+  const insertAt = (value: number, requested: number) => {
+    const index = Math.max(0, Math.min(requested, order.length));
+    const created: ListNode = { id: `l${nextId++}`, value, next: null, prev: null };
+    nodes.set(created.id, created);
+
+    if (index === 0) {
+      created.next = head;
+      if (doubly && head) node(head).prev = created.id;
+      const oldHead = head;
+      head = created.id;
+      if (!tail) tail = created.id;
+      totalRelinks++;
+      readOrder();
+      push(`Insert ${value} at Head`, 1, oldHead
+        ? `Create a node for ${value}, point its next at the old head ${node(oldHead).value}${doubly ? ` (and ${node(oldHead).value}.prev back at it)` : ''}, then move head to the new node.`
+        : `The list is empty. The new node ${value} becomes both head and tail.`, {
+        states: { [created.id]: 'inserted' },
+        changed: [created.id, doubly ? oldHead : null],
+      });
+      return;
+    }
+
+    let curr = head as string;
+    push('Start at Head', 2, `To insert at position ${index}, walk curr to position ${index - 1}. Start with curr = head.`, {
+      pointers: { curr },
+      states: { [curr]: 'current' },
+    });
+    for (let k = 1; k < index; k++) {
+      const visited = curr;
+      curr = node(curr).next as string;
+      totalComparisons++;
+      push(`Move curr to ${node(curr).value}`, 2, `curr = curr.next. curr is now at position ${k}.`, {
+        pointers: { curr },
+        states: { [visited]: 'visited', [curr]: 'current' },
+      });
+    }
+
+    const after = node(curr).next;
+    created.next = after;
+    node(curr).next = created.id;
+    if (doubly) {
+      created.prev = curr;
+      if (after) node(after).prev = created.id;
+    }
+    if (after === null) tail = created.id;
+    totalRelinks += doubly ? 2 : 1;
+    readOrder();
+    push(`Insert ${value}`, 3, after
+      ? `Point the new node at ${node(after).value}, then point ${node(curr).value}.next at the new node${doubly ? '. Fix both prev links too' : ''}.`
+      : `${node(curr).value} was the tail. Link the new node after it; ${value} is the new tail.`, {
+      pointers: { curr },
+      states: { [curr]: 'current', [created.id]: 'inserted' },
+      changed: [curr, created.id, doubly ? after : null],
+    });
+  };
+
+  const remove = (value: number) => {
+    let prev: string | null = null;
+    let curr = head;
+    const walkPointers = () => (doubly ? { curr } : { prev, curr });
+
+    push('Start at Head', 5, `Search for ${value} starting from head.`, {
+      pointers: walkPointers(),
+      states: curr ? { [curr]: 'current' } : {},
+    });
+    while (curr && node(curr).value !== value) {
+      totalComparisons++;
+      const visited: string = curr;
+      prev = curr;
+      curr = node(curr).next;
+      push(curr ? `Move to ${node(curr).value}` : 'Reached null', 5, `${node(visited).value} ≠ ${value}, so advance: ${doubly ? 'curr = curr.next' : 'prev, curr = curr, curr.next'}.`, {
+        pointers: walkPointers(),
+        states: curr ? { [visited]: 'visited', [curr]: 'current' } : { [visited]: 'visited' },
+      });
+    }
+
+    if (!curr) {
+      push(`${value} Not Found`, 5, `Walked off the end of the list. ${value} is not in it, so nothing is deleted.`, { pointers: walkPointers() });
+      return;
+    }
+    totalComparisons++;
+    const target = node(curr);
+    push(`Found ${value}`, 5, `${value} matches. Unlink this node.`, {
+      pointers: walkPointers(),
+      states: { [curr]: 'found' },
+    });
+
+    if (doubly) prev = target.prev;
+    if (prev) node(prev).next = target.next;
+    else head = target.next;
+    if (doubly && target.next) node(target.next).prev = prev;
+    if (tail === curr) tail = prev;
+    totalRelinks += doubly ? 2 : 1;
+
+    push(`Unlink ${value}`, 6, prev
+      ? `${node(prev).value}.next now skips over ${value}${doubly && target.next ? ` and ${node(target.next).value}.prev points back at ${node(prev).value}` : ''}.`
+      : `${value} was the head, so head moves to ${target.next ? node(target.next).value : 'null'}.`, {
+      pointers: walkPointers(),
+      states: { [curr]: 'removed' },
+      changed: [prev, doubly ? target.next : null],
+    });
+
+    nodes.delete(curr);
+    readOrder();
+    push(`Deleted ${value}`, 6, `${value} is no longer reachable from head. The list now has ${order.length} node${order.length === 1 ? '' : 's'}.`);
+  };
+
+  const reverse = () => {
+    if (doubly) {
+      let curr = head;
+      push('Start Reverse', 8, 'Start with curr = head. Each node swaps its prev and next links.', {
+        pointers: { curr },
+        states: curr ? { [curr]: 'current' } : {},
+      });
+      while (curr) {
+        const n = node(curr);
+        [n.prev, n.next] = [n.next, n.prev];
+        totalRelinks++;
+        push(`Swap Links of ${n.value}`, 9, `Swap ${n.value}.prev and ${n.value}.next.`, {
+          pointers: { curr },
+          states: { [curr]: 'current' },
+          changed: [curr],
+        });
+        const visited = curr;
+        curr = n.prev;
+        push(curr ? `Move to ${node(curr).value}` : 'Reached null', 10, 'curr = curr.prev, which is the old next.', {
+          pointers: { curr },
+          states: curr ? { [visited]: 'visited', [curr]: 'current' } : { [visited]: 'visited' },
+        });
+      }
+      [head, tail] = [tail, head];
+    } else {
+      let prev: string | null = null;
+      let curr = head;
+      push('Start Reverse', 8, 'prev = null, curr = head. Each step points curr.next back at prev.', {
+        pointers: { prev, curr },
+        states: curr ? { [curr]: 'current' } : {},
+      });
+      while (curr) {
+        const n = node(curr);
+        const next = n.next;
+        n.next = prev;
+        totalRelinks++;
+        push(`Reverse ${n.value}.next`, 9, `Save next = ${next ? node(next).value : 'null'}, then point ${n.value}.next back at ${prev ? node(prev).value : 'null'}.`, {
+          pointers: { prev, curr, next },
+          states: { [curr]: 'current' },
+          changed: [curr],
+        });
+        const visited: string = curr;
+        prev = curr;
+        curr = next;
+        push(curr ? `Advance to ${node(curr).value}` : 'Reached null', 10, 'prev, curr = curr, next.', {
+          pointers: { prev, curr },
+          states: curr ? { [visited]: 'visited', [curr]: 'current' } : { [visited]: 'visited' },
+        });
+      }
+      tail = head;
+      head = prev;
+    }
+    readOrder();
+    push('List Reversed', 11, `head now points at ${head ? node(head).value : 'null'}. The list reads ${order.map((id) => node(id).value).join(' → ') || 'empty'}.`);
+  };
+
+  push('Initial List', 0, `Starting with an empty ${doubly ? 'doubly' : 'singly'} linked list. ${operations.length} operation${operations.length === 1 ? '' : 's'} to apply.`);
+
+  for (const op of operations) {
+    currentOp = formatOperation(op);
+    if ((op.type === 'insert' || op.type === 'append') && op.value !== undefined) insertAt(op.value, op.index ?? order.length);
+    else if (op.type === 'prepend' && op.value !== undefined) insertAt(op.value, 0);
+    else if (op.type === 'delete' && op.value !== undefined) remove(op.value);
+    else if (op.type === 'reverse') reverse();
+    // Other operations are not supported by linked lists.
+    else continue;
+    opsDone++;
+  }
+
+  currentOp = null;
+  push('All Operations Done!', 0, `Applied ${opsDone} operation${opsDone === 1 ? '' : 's'}. Final list: ${order.map((id) => node(id).value).join(' → ') || 'empty'}.`);
+
+  return steps;
+}
@@ -0,0 +1,43 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateQueueSteps } from '@/lib/algorithms/linear/stackQueueSteps';
+
+export const queue: AlgorithmDefinition = {
+  info: {
+    id: 'queue',
+    name: 'Queue',
+    category: 'linear-structures',
+    timeComplexity: { best: 'O(1)', average: 'O(1)', worst: 'O(1)' },
+    spaceComplexity: 'O(n)',
+    description: 'First in, first out. Enqueue adds at the rear and dequeue removes from the front, like a line at a till.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateQueueSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def enqueue(q, value):', indent: 0 },
+    { line: 1, code: 'q.append(value)  # rear', indent: 1 },
+    { line: 2, code: 'def dequeue(q):', indent: 0 },
+    { line: 3, code: 'return q.popleft()  # front; IndexError if empty', indent: 1 },
+    { line: 4, code: 'def peek(q):', indent: 0 },
+    { line: 5, code: 'return q[0]', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 5: 5,
+  },
+  code: `from collections import deque
+
+class Queue:
+    def __init__(self):
+        self.items = deque()
+
+    def enqueue(self, value):
+        self.items.append(value)
+
+    def dequeue(self):
+        if not self.items:
+            raise IndexError("dequeue from empty queue")
+        return self.items.popleft()  # O(1), unlike list.pop(0)
+
+    def peek(self):
+        return self.items[0]`,
+  sampleOperations: 'enqueue 4, enqueue 8, enqueue 15, peek, dequeue, enqueue 16, dequeue',
+};
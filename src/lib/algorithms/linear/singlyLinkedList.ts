@@ -0,0 +1,64 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateSinglyLinkedListSteps } from '@/lib/algorithms/linear/linkedListSteps';
+
+export const singlyLinkedList: AlgorithmDefinition = {
+  info: {
+    id: 'singly-linked-list',
+    name: 'Singly Linked List',
+    category: 'linear-structures',
+    timeComplexity: { best: 'O(1)', average: 'O(n)', worst: 'O(n)' },
+    spaceComplexity: 'O(n)',
+    description: 'Nodes that each point to the next one. Inserting at the head is O(1); reaching position i means walking i links from head.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateSinglyLinkedListSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def insert(head, value, index):', indent: 0 },
+    { line: 1, code: 'if index == 0: node.next = head; head = node', indent: 1 },
+    { line: 2, code: 'curr = head; repeat index - 1 times: curr = curr.next', indent: 1 },
+    { line: 3, code: 'node.next = curr.next; curr.next = node', indent: 1 },
+    { line: 4, code: 'def delete(head, value):', indent: 0 },
+    { line: 5, code: 'while curr.value != value: prev, curr = curr, curr.next', indent: 1 },
+    { line: 6, code: 'prev.next = curr.next  # or head = curr.next', indent: 1 },
+    { line: 7, code: 'def reverse(head):', indent: 0 },
+    { line: 8, code: 'prev, curr = None, head', indent: 1 },
+    { line: 9, code: 'while curr: nxt = curr.next; curr.next = prev', indent: 1 },
+    { line: 10, code: 'prev, curr = curr, nxt', indent: 2 },
+    { line: 11, code: 'return prev  # new head', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 5: 5, 6: 6, 8: 8, 9: 9, 10: 10, 11: 11,
+  },
+  code: `class Node:
+    def __init__(self, value, next=None):
+        self.value, self.next = value, next
+
+def insert(head, value, index):
+    if index == 0:
+        return Node(value, head)
+    curr = head
+    for _ in range(index - 1):
+        curr = curr.next
+    curr.next = Node(value, curr.next)
+    return head
+
+def delete(head, value):
+    prev, curr = None, head
+    while curr and curr.value != value:
+        prev, curr = curr, curr.next
+    if curr is None:
+        return head  # Not found
+    if prev is None:
+        return curr.next  # Deleting the head
+    prev.next = curr.next
+    return head
+
+def reverse(head):
+    prev, curr = None, head
+    while curr:
+        nxt = curr.next
+        curr.next = prev  # Point backwards
+        prev, curr = curr, nxt
+    return prev`,
+  sampleOperations: 'append 10, append 20, append 30, prepend 5, insert 15 at 2, delete 20, reverse',
+};
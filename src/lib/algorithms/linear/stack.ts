@@ -0,0 +1,41 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateStackSteps } from '@/lib/algorithms/linear/stackQueueSteps';
+
+export const stack: AlgorithmDefinition = {
+  info: {
+    id: 'stack',
+    name: 'Stack',
+    category: 'linear-structures',
+    timeComplexity: { best: 'O(1)', average: 'O(1)', worst: 'O(1)' },
+    spaceComplexity: 'O(n)',
+    description: 'Last in, first out. Push and pop both work on the top, like a stack of plates.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateStackSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def push(stack, value):', indent: 0 },
+    { line: 1, code: 'stack.append(value)  # new top', indent: 1 },
+    { line: 2, code: 'def pop(stack):', indent: 0 },
+    { line: 3, code: 'return stack.pop()  # IndexError if empty', indent: 1 },
+    { line: 4, code: 'def peek(stack):', indent: 0 },
+    { line: 5, code: 'return stack[-1]', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 5: 5,
+  },
+  code: `class Stack:
+    def __init__(self):
+        self.items = []
+
+    def push(self, value):
+        self.items.append(value)
+
+    def pop(self):
+        if not self.items:
+            raise IndexError("pop from empty stack")
+        return self.items.pop()
+
+    def peek(self):
+        return self.items[-1]`,
+  sampleOperations: 'push 4, push 8, push 15, peek, pop, push 16, pop, pop',
+};
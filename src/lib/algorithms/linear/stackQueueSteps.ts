@@ -0,0 +1,118 @@
+import { LinearNode, LinearNodeState, LinearStep, LinearStructureKind, createLinearStep } from '@/lib/linearTypes';
+import { Operation, formatOperation } from '@/lib/algorithms/operationsInput';
+
+type End = 'front' | 'back';
+
+/**
+ * Array-backed stack, queue and deque share one generator: each operation adds or removes
+ * at one end. `lines` maps each kind of step to the definition's pseudocode line.
+ */
+function generateSequenceSteps(
+  kind: Exclude<LinearStructureKind, 'singly' | 'doubly'>,
+  operations: Operation[],
+  resolve: (op: Operation) => { action: 'add' | 'remove' | 'peek'; end: End; line: number } | null,
+): LinearStep[] {
+  const steps: LinearStep[] = [];
+  let items: LinearNode[] = [];
+  let nextId = 0;
+  let currentOp: string | null = null;
+  const output: number[] = [];
+
+  let totalComparisons = 0;
+  let totalMoves = 0;
+  let opsDone = 0;
+
+  const pointers = (): Record<string, number | null> => {
+    const last = items.length ? items.length - 1 : null;
+    const first = items.length ? 0 : null;
+    return kind === 'stack' ? { top: last } : { front: first, rear: last };
+  };
+
+  const push = (label: string, codeLine: number, explanation: string, nodeStates: Record<string, LinearNodeState> = {}) => {
+    steps.push(createLinearStep({
+      kind,
+      nodes: items,
+      next: [],
+      prev: [],
+      changedLinks: [],
+      nodeStates,
+      operation: currentOp,
+      output,
+    }, pointers(), {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: totalMoves, passes: opsDone },
+    }));
+  };
+
+  const endName = (end: End) => (kind === 'stack' ? 'top' : end === 'front' ? 'front' : 'rear');
+
+  push(`Initial ${kind === 'stack' ? 'Stack' : kind === 'queue' ? 'Queue' : 'Deque'}`, 0, `Starting with an empty ${kind}. ${operations.length} operation${operations.length === 1 ? '' : 's'} to apply.`);
+
+  for (const op of operations) {
+    const resolved = resolve(op);
+    if (!resolved) continue;
+    const { action, end, line } = resolved;
+    currentOp = formatOperation(op);
+
+    if (action === 'add') {
+      const value = op.value as number;
+      const created = { id: `s${nextId++}`, value };
+      items = end === 'back' ? [...items, created] : [created, ...items];
+      totalMoves++;
+      push(formatOperation(op), line, `Place ${value} at the ${endName(end)}. Size is now ${items.length}.`, { [created.id]: 'inserted' });
+    } else {
+      totalComparisons++;
+      if (items.length === 0) {
+        push(`${op.type} (empty)`, line, `The ${kind} is empty, so ${op.type} has nothing to return. A real implementation would raise an error here.`);
+      } else {
+        const target = end === 'back' ? items[items.length - 1] : items[0];
+        if (action === 'peek') {
+          output.push(target.value);
+          push(`Peek ${target.value}`, line, `The ${endName(end)} item is ${target.value}. Peek returns it without removing it.`, { [target.id]: 'found' });
+        } else {
+          push(`${op.type} ${target.value}`, line, `Take ${target.value} from the ${endName(end)}.`, { [target.id]: 'removed' });
+          items = items.filter((item) => item.id !== target.id);
+          output.push(target.value);
+          totalMoves++;
+          push(`Returned ${target.value}`, line, `${op.type} returned ${target.value}. Size is now ${items.length}.`);
+        }
+      }
+    }
+    opsDone++;
+  }
+
+  currentOp = null;
+  push('All Operations Done!', 0, `Applied ${opsDone} operation${opsDone === 1 ? '' : 's'}. Returned values: ${output.join(', ') || 'none'}. Remaining: [${items.map((i) => i.value).join(', ')}].`);
+
+  return steps;
+}
+
+export function generateStackSteps(operations: Operation[]): LinearStep[] {
+  return generateSequenceSteps('stack', operations, (op) => {
+    if ((op.type === 'push' || op.type === 'insert') && op.value !== undefined) return { action: 'add', end: 'back', line: 1 };
+    if (op.type === 'pop') return { action: 'remove', end: 'back', line: 3 };
+    if (op.type === 'peek') return { action: 'peek', end: 'back', line: 5 };
+    return null;
+  });
+}
+
+export function generateQueueSteps(operations: Operation[]): LinearStep[] {
+  return generateSequenceSteps('queue', operations, (op) => {
+    if ((op.type === 'enqueue' || op.type === 'insert') && op.value !== undefined) return { action: 'add', end: 'back', line: 1 };
+    if (op.type === 'dequeue') return { action: 'remove', end: 'front', line: 3 };
+    if (op.type === 'peek') return { action: 'peek', end: 'front', line: 5 };
+    return null;
+  });
+}
+
+export function generateDequeSteps(operations: Operation[]): LinearStep[] {
+  return generateSequenceSteps('deque', operations, (op) => {
+    if (op.type === 'push_front' && op.value !== undefined) return { action: 'add', end: 'front', line: 1 };
+    if ((op.type === 'push_back' || op.type === 'insert') && op.value !== undefined) return { action: 'add', end: 'back', line: 3 };
+    if (op.type === 'pop_front') return { action: 'remove', end: 'front', line: 5 };
+    if (op.type === 'pop_back') return { action: 'remove', end: 'back', line: 7 };
+    return null;
+  });
+}
@@ -0,0 +1,66 @@
+export type OperationType =
+  | 'insert'
+  | 'delete'
+  | 'search'
+  | 'push'
+  | 'pop'
+  | 'peek'
+  | 'append'
+  | 'prepend'
+  | 'reverse'
+  | 'enqueue'
+  | 'dequeue'
+  | 'push_front'
+  | 'push_back'
+  | 'pop_front'
+  | 'pop_back';
+
+const OPERATION_TYPES: OperationType[] = [
+  'insert', 'delete', 'search', 'push', 'pop', 'peek', 'append', 'prepend', 'reverse',
+  'enqueue', 'dequeue', 'push_front', 'push_back', 'pop_front', 'pop_back',
+];
+
+export interface Operation {
+  type: OperationType;
+  // Absent for value-less operations such as 'pop' or 'reverse'.
+  value?: number;
+  // Position for "insert 5 at 2".
+  index?: number;
+}
+
+/**
+ * Parses an operation list such as "insert 50, 30, delete 50, insert 7 at 1, pop".
+ * A bare number is an insert. Unrecognised tokens are ignored; each structure
+ * skips operation types it does not support.
+ */
+export function parseOperations(input: string): Operation[] {
+  const ops: Operation[] = [];
+  const tokens = input
+    .split(/[,;\n]/)
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    const bare = token.match(/^-?\d+$/);
+    if (bare) {
+      ops.push({ type: 'insert', value: Number(token) });
+      continue;
+    }
+    const match = token.match(/^([a-z_]+)(?:\s+(-?\d+))?(?:\s+at\s+(\d+))?$/);
+    if (!match || !OPERATION_TYPES.includes(match[1] as OperationType)) continue;
+    const [, type, valueRaw, indexRaw] = match;
+    ops.push({
+      type: type as OperationType,
+      ...(valueRaw !== undefined && { value: Number(valueRaw) }),
+      ...(indexRaw !== undefined && { index: Number(indexRaw) }),
+    });
+  }
+  return ops;
+}
+
+export function formatOperation(op: Operation): string {
+  let text: string = op.type;
+  if (op.value !== undefined) text += ` ${op.value}`;
+  if (op.index !== undefined) text += ` at ${op.index}`;
+  return text;
+}
@@ -0,0 +1,97 @@
+import { Graph } from '@/lib/graphTypes';
+import { Operation } from '@/lib/algorithms/operationsInput';
+import { AlgorithmCategory, AlgorithmInfo, AlgorithmType, PseudocodeLine, Step } from '@/lib/stepTypes';
+
+export interface AlgorithmInput {
+  array: number[];
+  target: number;
+  // Set for inputKind 'graph'.
+  graph?: Graph;
+  startNode?: string;
+  // Set for inputKind 'operations'.
+  operations?: Operation[];
+  // Set for inputKind 'params': "key = value" pairs, read by each definition.
+  params?: Record<string, string>;
+}
+
+export interface AlgorithmRequirements {
+  // 'array' reads the array/target fields, 'graph' the edge list, 'operations' the operation list,
+  // 'params' the key = value parameters, 'code' the array/target fields plus user code run by the sandbox.
+  inputKind: 'array' | 'graph' | 'operations' | 'params' | 'code';
+  // Shows the target field and passes the parsed target to the generator.
+  needsTarget: boolean;
+  // The generator sorts its own copy of the input before running.
+  needsSortedInput: boolean;
+  // Shows the start node field (graph traversals, Dijkstra, Prim).
+  needsStartNode: boolean;
+  // Rejects decimal array values (counting and radix sort index by value).
+  integersOnly?: boolean;
+  // Rejects negative edge weights (Dijkstra settles nodes for good and cannot correct them later).
+  nonNegativeWeights?: boolean;
+  // Rejects undirected edges (a topological order only means something when every edge has a direction).
+  directedEdges?: boolean;
+}
+
+// One implementation of the algorithm; lineMapping maps Step.codeLine to a 0-based line of `code`.
+export interface SourceListing {
+  code: string;
+  lineMapping: Record<number, number>;
+}
+
+export type TranslatedLanguage = 'javascript' | 'java' | 'cpp';
+
+export interface AlgorithmDefinition {
+  info: AlgorithmInfo;
+  requirements: AlgorithmRequirements;
+  generateSteps: (input: AlgorithmInput) => Step[];
+  pseudocode: PseudocodeLine[];
+  // Maps Step.codeLine to a PseudocodeLine.line.
+  codeLineMapping: Record<number, number>;
+  code: string;
+  // 'source' highlights `code` directly by 0-based line index (Step.codeLine), skipping the mapping.
+  highlightMode?: 'pseudocode' | 'source';
+  // Maps Step.codeLine to a 0-based line of `code` for the Python tab (source mode uses codeLine itself).
+  sourceLineMapping?: Record<number, number>;
+  // The same implementation in other languages, each with its own line mapping.
+  translations?: Partial<Record<TranslatedLanguage, SourceListing>>;
+  // Edge list loaded when the algorithm is selected with graph input.
+  sampleGraph?: string;
+  // Operation list loaded when the algorithm is selected with operations input.
+  sampleOperations?: string;
+  // Parameters loaded when the algorithm is selected with params input.
+  sampleParams?: string;
+  // Names the first parameter the table could not use as typed; null when all of them fit.
+  validateParams?: (params: Record<string, string>) => string | null;
+}
+
+const registry = new Map<AlgorithmType, AlgorithmDefinition>();
+
+export function registerAlgorithm(definition: AlgorithmDefinition): void {
+  const { id } = definition.info;
+  if (registry.has(id)) {
+    throw new Error(`Algorithm "${id}" is already registered.`);
+  }
+  registry.set(id, definition);
+}
+
+export function getAlgorithm(id: AlgorithmType): AlgorithmDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listAlgorithms(): AlgorithmDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getAlgorithmsByCategory(category: AlgorithmCategory): AlgorithmDefinition[] {
+  return listAlgorithms().filter((def) => def.info.category === category);
+}
+
+export function getAlgorithmInfo(id: AlgorithmType): AlgorithmInfo | undefined {
+  return registry.get(id)?.info;
+}
+
+export function generateAlgorithmSteps(id: AlgorithmType, input: AlgorithmInput): Step[] {
+  const definition = registry.get(id);
+  if (!definition) return [];
+  return definition.generateSteps(input);
+}
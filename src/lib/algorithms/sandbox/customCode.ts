@@ -0,0 +1,20 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { SANDBOX_TEMPLATE } from '@/lib/sandbox/sandboxTypes';
+
+export const customCode: AlgorithmDefinition = {
+  info: {
+    id: 'custom-code',
+    name: 'Your Code',
+    category: 'sandbox',
+    timeComplexity: { best: '—', average: '—', worst: '—' },
+    spaceComplexity: '—',
+    description: 'Write a JavaScript solve(arr, target) function. It runs in a background worker, and every read and write on arr is replayed as a step.',
+  },
+  requirements: { inputKind: 'code', needsTarget: true, needsSortedInput: false, needsStartNode: false },
+  // The trace comes from the sandbox worker asynchronously (see runSandbox), not from here.
+  generateSteps: () => [],
+  pseudocode: [],
+  codeLineMapping: {},
+  code: SANDBOX_TEMPLATE,
+  highlightMode: 'source',
+};
@@ -0,0 +1,119 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBinarySearchSteps } from '@/lib/algorithms/searching/binarySearchSteps';
+
+export const binarySearch: AlgorithmDefinition = {
+  info: {
+    id: 'binary-search',
+    name: 'Binary Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Efficiently finds target in sorted array by repeatedly dividing search space in half.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateBinarySearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'low = 0', indent: 0 },
+    { line: 1, code: 'high = len(arr) - 1', indent: 0 },
+    { line: 2, code: 'while low <= high:', indent: 0 },
+    { line: 3, code: 'mid = (low + high) // 2', indent: 1 },
+    { line: 4, code: 'if arr[mid] == target:', indent: 1 },
+    { line: 5, code: 'return mid', indent: 2 },
+    { line: 6, code: 'elif arr[mid] < target:', indent: 1 },
+    { line: 7, code: 'low = mid + 1', indent: 2 },
+    { line: 8, code: 'else:', indent: 1 },
+    { line: 9, code: 'high = mid - 1', indent: 2 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 2, 2: 4, 3: 5, 4: 6, 5: 7, 6: 8, 7: 9, 8: 4,
+  },
+  code: `def binary_search(arr, target):
+    low = 0
+    high = len(arr) - 1
+    
+    while low <= high:
+        mid = (low + high) // 2
+        
+        if arr[mid] == target:
+            return mid  # Found!
+        elif arr[mid] < target:
+            low = mid + 1  # Search right half
+        else:
+            high = mid - 1  # Search left half
+    
+    return -1  # Not found`,
+  sourceLineMapping: {
+    0: 1, 1: 5, 2: 8, 3: 9, 4: 10, 5: 11, 6: 12, 7: 14, 8: 8,
+  },
+  translations: {
+    javascript: {
+      code: `function binarySearch(arr, target) {
+  let low = 0;
+  let high = arr.length - 1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+
+    if (arr[mid] === target) {
+      return mid;  // Found!
+    } else if (arr[mid] < target) {
+      low = mid + 1;  // Search right half
+    } else {
+      high = mid - 1;  // Search left half
+    }
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 5, 2: 8, 3: 9, 4: 10, 5: 11, 6: 12, 7: 16, 8: 8,
+      },
+    },
+    java: {
+      code: `static int binarySearch(int[] arr, int target) {
+    int low = 0;
+    int high = arr.length - 1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+
+        if (arr[mid] == target) {
+            return mid;  // Found!
+        } else if (arr[mid] < target) {
+            low = mid + 1;  // Search right half
+        } else {
+            high = mid - 1;  // Search left half
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 5, 2: 8, 3: 9, 4: 10, 5: 11, 6: 12, 7: 16, 8: 8,
+      },
+    },
+    cpp: {
+      code: `int binarySearch(const vector<int>& arr, int target) {
+    int low = 0;
+    int high = (int) arr.size() - 1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+
+        if (arr[mid] == target) {
+            return mid;  // Found!
+        } else if (arr[mid] < target) {
+            low = mid + 1;  // Search right half
+        } else {
+            high = mid - 1;  // Search left half
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 5, 2: 8, 3: 9, 4: 10, 5: 11, 6: 12, 7: 16, 8: 8,
+      },
+    },
+  },
+};
@@ -0,0 +1,95 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep, outsideRange } from '@/lib/algorithms/arrayStep';
+
+type Push = (label: string, codeLine: number, explanation: string, highlights: Partial<Highlights>, pointers: Record<string, number | null>) => void;
+
+function setup(inputArray: number[]) {
+  const steps: Step[] = [];
+  const arr = [...inputArray].sort((a, b) => a - b);
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  const push: Push = (label, codeLine, explanation, highlights, pointers) =>
+    steps.push(createArrayStep({ label, codeLine, explanation, before: arr, highlights, pointers, metrics }));
+  return { steps, arr, n: arr.length, metrics, push };
+}
+
+/**
+ * lower_bound / upper_bound over the half-open range [low, high): the first index whose value is
+ * ≥ target (lower) or > target (upper). `high` may equal n, which no cell shows, so it appears only
+ * in the pointer panel. The answer is always an index in 0..n and never "not found".
+ */
+export function generateBoundSteps(inputArray: number[], target: number, mode: 'lower' | 'upper'): Step[] {
+  const { steps, arr, n, metrics, push } = setup(inputArray);
+  const goesRight = (value: number) => (mode === 'lower' ? value < target : value <= target);
+  const op = mode === 'lower' ? '<' : '≤';
+  const wanted = mode === 'lower' ? `≥ ${target}` : `> ${target}`;
+
+  let low = 0;
+  let high = n;
+  push('Initial (Sorted)', 0, `Looking for the first index whose value is ${wanted}. The range [low, high) starts as the whole array plus the slot past its end.`, {}, { low, mid: null, high });
+
+  while (low < high) {
+    metrics.passes++;
+    const mid = Math.floor((low + high) / 2);
+    metrics.comparisons++;
+    push(`Pass ${metrics.passes}: Calculate Mid`, 2, `mid = (${low} + ${high}) // 2 = ${mid}. arr[${mid}] = ${arr[mid]}.`, { compare: [mid], eliminated: outsideRange(n, low, high - 1) }, { low, mid, high });
+    if (goesRight(arr[mid])) {
+      low = mid + 1;
+      push(`Pass ${metrics.passes}: Narrow Right`, 4, `${arr[mid]} ${op} ${target}, so the answer is after index ${mid}. low = ${low}.`, { eliminated: outsideRange(n, low, high - 1) }, { low, mid: null, high });
+    } else {
+      high = mid;
+      push(`Pass ${metrics.passes}: Narrow Left`, 6, `arr[${mid}] = ${arr[mid]} is ${wanted}, so index ${mid} could be the answer. high = ${high}.`, { key: [mid], eliminated: outsideRange(n, low, high - 1) }, { low, mid: null, high });
+    }
+  }
+
+  const name = mode === 'lower' ? 'lower_bound' : 'upper_bound';
+  push('Complete!', 7, low < n
+    ? `${name}(${target}) = ${low}: arr[${low}] = ${arr[low]} is the first value ${wanted}. Inserting ${target} here keeps the array sorted. ${metrics.comparisons} comparisons.`
+    : `${name}(${target}) = ${n}: no value is ${wanted}, so the answer is the end of the array. ${metrics.comparisons} comparisons.`,
+  { found: low < n ? [low] : [], eliminated: low < n ? [] : allIndices(n) }, { result: low });
+  return steps;
+}
+
+/**
+ * Binary search that keeps going after a match: remember the index, then discard the half that
+ * cannot hold an earlier (first) or later (last) copy of the target.
+ */
+export function generateOccurrenceSteps(inputArray: number[], target: number, mode: 'first' | 'last'): Step[] {
+  const { steps, arr, n, metrics, push } = setup(inputArray);
+
+  let low = 0;
+  let high = n - 1;
+  let result = -1;
+  const candidate = () => (result === -1 ? null : result);
+  push('Initial (Sorted)', 0, `Searching for the ${mode} occurrence of ${target}. A match is recorded, and the search continues to the ${mode === 'first' ? 'left' : 'right'} in case of another copy.`, {}, { low, mid: null, high, result: null });
+
+  while (low <= high) {
+    metrics.passes++;
+    const mid = Math.floor((low + high) / 2);
+    const kept = result === -1 ? [] : [result];
+    metrics.comparisons++;
+    push(`Pass ${metrics.passes}: Calculate Mid`, 2, `mid = (${low} + ${high}) // 2 = ${mid}. arr[${mid}] = ${arr[mid]}.`, { compare: [mid], found: kept, eliminated: outsideRange(n, low, high).filter((i) => i !== result) }, { low, mid, high, result: candidate() });
+
+    if (arr[mid] === target) {
+      result = mid;
+      if (mode === 'first') high = mid - 1;
+      else low = mid + 1;
+      push(`Pass ${metrics.passes}: Record Match`, 5, `arr[${mid}] = ${target}: result = ${mid}. A ${mode === 'first' ? 'earlier' : 'later'} copy could still exist, so keep searching ${mode === 'first' ? `left (high = ${high})` : `right (low = ${low})`}.`, { found: [mid], eliminated: outsideRange(n, low, high).filter((i) => i !== result) }, { low, mid: null, high, result });
+    } else {
+      metrics.comparisons++;
+      if (arr[mid] < target) {
+        low = mid + 1;
+        push(`Pass ${metrics.passes}: Narrow Right`, 6, `${arr[mid]} < ${target}: eliminate the left half. low = ${low}.`, { found: kept, eliminated: outsideRange(n, low, high).filter((i) => i !== result) }, { low, mid: null, high, result: candidate() });
+      } else {
+        high = mid - 1;
+        push(`Pass ${metrics.passes}: Narrow Left`, 7, `${arr[mid]} > ${target}: eliminate the right half. high = ${high}.`, { found: kept, eliminated: outsideRange(n, low, high).filter((i) => i !== result) }, { low, mid: null, high, result: candidate() });
+      }
+    }
+  }
+
+  if (result === -1) {
+    push('Not Found', 8, `Search space exhausted. Target ${target} is not in the array. ${metrics.comparisons} comparisons.`, { eliminated: allIndices(n) }, { result: null });
+  } else {
+    push('Complete!', 8, `The ${mode} occurrence of ${target} is at index ${result}, found in ${metrics.comparisons} comparisons.`, { found: [result] }, { result });
+  }
+  return steps;
+}
@@ -0,0 +1,154 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateExponentialSearchSteps } from '@/lib/algorithms/searching/exponentialSearchSteps';
+
+export const exponentialSearch: AlgorithmDefinition = {
+  info: {
+    id: 'exponential-search',
+    name: 'Exponential Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log i)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Doubles a bound until it passes the target, then binary searches the last range. Cost depends on the target position i, not the array size.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateExponentialSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'if arr[0] == target: return 0', indent: 0 },
+    { line: 1, code: 'bound = 1', indent: 0 },
+    { line: 2, code: 'while bound < n and arr[bound] <= target:', indent: 0 },
+    { line: 3, code: 'bound *= 2', indent: 1 },
+    { line: 4, code: 'low, high = bound // 2, min(bound, n - 1)', indent: 0 },
+    { line: 5, code: 'while low <= high:', indent: 0 },
+    { line: 6, code: 'mid = (low + high) // 2', indent: 1 },
+    { line: 7, code: 'if arr[mid] == target: return mid', indent: 1 },
+    { line: 8, code: 'elif arr[mid] < target: low = mid + 1', indent: 1 },
+    { line: 9, code: 'else: high = mid - 1', indent: 1 },
+    { line: 10, code: 'return -1', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 4: 4, 6: 6, 7: 7, 8: 8, 9: 9, 10: 10,
+  },
+  code: `def exponential_search(arr, target):
+    n = len(arr)
+    if arr[0] == target:
+        return 0
+
+    # Double the bound until it passes the target
+    bound = 1
+    while bound < n and arr[bound] <= target:
+        bound *= 2
+
+    # Binary search between the last two bounds
+    low, high = bound // 2, min(bound, n - 1)
+    while low <= high:
+        mid = (low + high) // 2
+        if arr[mid] == target:
+            return mid
+        elif arr[mid] < target:
+            low = mid + 1
+        else:
+            high = mid - 1
+
+    return -1  # Not found`,
+  sourceLineMapping: {
+    0: 2, 1: 6, 3: 8, 4: 11, 6: 13, 7: 15, 8: 17, 9: 19, 10: 21,
+  },
+  translations: {
+    javascript: {
+      code: `function exponentialSearch(arr, target) {
+  const n = arr.length;
+  if (arr[0] === target) {
+    return 0;
+  }
+
+  // Double the bound until it passes the target
+  let bound = 1;
+  while (bound < n && arr[bound] <= target) {
+    bound *= 2;
+  }
+
+  // Binary search between the last two bounds
+  let low = Math.floor(bound / 2), high = Math.min(bound, n - 1);
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (arr[mid] === target) {
+      return mid;
+    } else if (arr[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 2, 1: 7, 3: 9, 4: 13, 6: 15, 7: 17, 8: 19, 9: 21, 10: 25,
+      },
+    },
+    java: {
+      code: `static int exponentialSearch(int[] arr, int target) {
+    int n = arr.length;
+    if (arr[0] == target) {
+        return 0;
+    }
+
+    // Double the bound until it passes the target
+    int bound = 1;
+    while (bound < n && arr[bound] <= target) {
+        bound *= 2;
+    }
+
+    // Binary search between the last two bounds
+    int low = bound / 2, high = Math.min(bound, n - 1);
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            return mid;
+        } else if (arr[mid] < target) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 2, 1: 7, 3: 9, 4: 13, 6: 15, 7: 17, 8: 19, 9: 21, 10: 25,
+      },
+    },
+    cpp: {
+      code: `int exponentialSearch(const vector<int>& arr, int target) {
+    int n = (int) arr.size();
+    if (arr[0] == target) {
+        return 0;
+    }
+
+    // Double the bound until it passes the target
+    int bound = 1;
+    while (bound < n && arr[bound] <= target) {
+        bound *= 2;
+    }
+
+    // Binary search between the last two bounds
+    int low = bound / 2, high = min(bound, n - 1);
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            return mid;
+        } else if (arr[mid] < target) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 2, 1: 7, 3: 9, 4: 13, 6: 15, 7: 17, 8: 19, 9: 21, 10: 25,
+      },
+    },
+  },
+};
@@ -0,0 +1,65 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep, outsideRange } from '@/lib/algorithms/arrayStep';
+
+export function generateExponentialSearchSteps(inputArray: number[], target: number): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray].sort((a, b) => a - b);
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  const push = (label: string, codeLine: number, explanation: string, highlights: Partial<Highlights>, pointers: Record<string, number | null>) =>
+    steps.push(createArrayStep({ label, codeLine, explanation, before: arr, highlights, pointers, metrics }));
+
+  const finish = (index: number) => {
+    if (index === -1) {
+      push('Not Found', 10, `Target ${target} is not in the array. ${metrics.comparisons} comparisons.`, { eliminated: allIndices(n) }, { low: null, mid: null, high: null });
+    } else {
+      push('Complete!', 7, `Exponential search complete! Found ${target} at index ${index} in ${metrics.comparisons} comparisons.`, { found: [index] }, { result: index });
+    }
+    return steps;
+  };
+
+  push('Initial (Sorted)', 0, `Searching for ${target}. First double a bound until it passes the target, then binary search the last doubling range.`, {}, { bound: null });
+
+  metrics.comparisons++;
+  if (arr[0] === target) {
+    push('Found at Index 0', 0, `arr[0] = ${arr[0]} equals the target.`, { compare: [0], found: [0] }, { bound: 0 });
+    return finish(0);
+  }
+
+  let bound = 1;
+  push('Start Bound at 1', 1, `arr[0] = ${arr[0]} ≠ ${target}. Start the bound at index 1.`, { compare: [0] }, { bound: Math.min(bound, n - 1) });
+  while (bound < n && arr[bound] <= target) {
+    metrics.comparisons++;
+    metrics.passes++;
+    push(`Pass ${metrics.passes}: Double Bound`, 3, `arr[${bound}] = ${arr[bound]} ≤ ${target}, so the target lies further right. Double the bound to ${bound * 2}.`, { compare: [bound], eliminated: allIndices(bound) }, { bound });
+    bound *= 2;
+  }
+  if (bound < n) metrics.comparisons++;
+
+  let low = Math.floor(bound / 2);
+  let high = Math.min(bound, n - 1);
+  push('Range Found', 4, bound < n
+    ? `arr[${bound}] = ${arr[bound]} > ${target}, so the target must be in indices ${low}..${high}. Binary search that range.`
+    : `The bound ran past the end of the array. Binary search indices ${low}..${high}.`, { compare: bound < n ? [bound] : [], eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+
+  while (low <= high) {
+    metrics.passes++;
+    const mid = Math.floor((low + high) / 2);
+    metrics.comparisons++;
+    push(`Pass ${metrics.passes}: Calculate Mid`, 6, `mid = (${low} + ${high}) // 2 = ${mid}. arr[${mid}] = ${arr[mid]}.`, { compare: [mid], eliminated: outsideRange(n, low, high) }, { low, mid, high });
+    if (arr[mid] === target) {
+      push(`Pass ${metrics.passes}: Found!`, 7, `arr[${mid}] = ${arr[mid]} equals target ${target}.`, { found: [mid], eliminated: outsideRange(n, low, high) }, { low, mid, high });
+      return finish(mid);
+    }
+    if (arr[mid] < target) {
+      low = mid + 1;
+      push(`Pass ${metrics.passes}: Narrow Right`, 8, `${arr[mid]} < ${target}: eliminate the left half. low = ${low}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+    } else {
+      high = mid - 1;
+      push(`Pass ${metrics.passes}: Narrow Left`, 9, `${arr[mid]} > ${target}: eliminate the right half. high = ${high}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+    }
+  }
+
+  return finish(-1);
+}
@@ -0,0 +1,183 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateFibonacciSearchSteps } from '@/lib/algorithms/searching/fibonacciSearchSteps';
+
+export const fibonacciSearch: AlgorithmDefinition = {
+  info: {
+    id: 'fibonacci-search',
+    name: 'Fibonacci Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Narrows the range by Fibonacci numbers instead of halves, so probe positions need only addition and subtraction.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateFibonacciSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'fib2, fib1, fib = 0, 1, 1', indent: 0 },
+    { line: 1, code: 'while fib < n: fib2, fib1, fib = fib1, fib, fib1 + fib', indent: 0 },
+    { line: 2, code: 'offset = -1', indent: 0 },
+    { line: 3, code: 'while fib > 1:', indent: 0 },
+    { line: 4, code: 'i = min(offset + fib2, n - 1)', indent: 1 },
+    { line: 5, code: 'if arr[i] < target: step down once, offset = i', indent: 1 },
+    { line: 6, code: 'elif arr[i] > target: step down twice', indent: 1 },
+    { line: 7, code: 'else: return i', indent: 1 },
+    { line: 8, code: 'if fib1 and arr[offset + 1] == target: return offset + 1', indent: 0 },
+    { line: 9, code: 'return -1', indent: 0 },
+  ],
+  codeLineMapping: {
+    1: 1, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8, 9: 9,
+  },
+  code: `def fibonacci_search(arr, target):
+    n = len(arr)
+    # Smallest Fibonacci number >= n
+    fib2, fib1 = 0, 1
+    fib = fib1 + fib2
+    while fib < n:
+        fib2, fib1 = fib1, fib
+        fib = fib1 + fib2
+
+    offset = -1  # Everything up to offset is < target
+    while fib > 1:
+        i = min(offset + fib2, n - 1)
+        if arr[i] < target:
+            # Step down one Fibonacci number
+            fib, fib1 = fib1, fib2
+            fib2 = fib - fib1
+            offset = i
+        elif arr[i] > target:
+            # Step down two Fibonacci numbers
+            fib, fib1 = fib2, fib1 - fib2
+            fib2 = fib - fib1
+        else:
+            return i
+
+    if fib1 and offset + 1 < n and arr[offset + 1] == target:
+        return offset + 1
+
+    return -1  # Not found`,
+  sourceLineMapping: {
+    1: 5, 4: 11, 5: 12, 6: 17, 7: 22, 8: 24, 9: 27,
+  },
+  translations: {
+    javascript: {
+      code: `function fibonacciSearch(arr, target) {
+  const n = arr.length;
+  // Smallest Fibonacci number >= n
+  let fib2 = 0, fib1 = 1;
+  let fib = fib1 + fib2;
+  while (fib < n) {
+    [fib2, fib1] = [fib1, fib];
+    fib = fib1 + fib2;
+  }
+
+  let offset = -1;  // Everything up to offset is < target
+  while (fib > 1) {
+    const i = Math.min(offset + fib2, n - 1);
+    if (arr[i] < target) {
+      // Step down one Fibonacci number
+      [fib, fib1] = [fib1, fib2];
+      fib2 = fib - fib1;
+      offset = i;
+    } else if (arr[i] > target) {
+      // Step down two Fibonacci numbers
+      [fib, fib1] = [fib2, fib1 - fib2];
+      fib2 = fib - fib1;
+    } else {
+      return i;
+    }
+  }
+
+  if (fib1 && offset + 1 < n && arr[offset + 1] === target) {
+    return offset + 1;
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        1: 5, 4: 12, 5: 13, 6: 18, 7: 23, 8: 27, 9: 31,
+      },
+    },
+    java: {
+      code: `static int fibonacciSearch(int[] arr, int target) {
+    int n = arr.length;
+    // Smallest Fibonacci number >= n
+    int fib2 = 0, fib1 = 1;
+    int fib = fib1 + fib2;
+    while (fib < n) {
+        fib2 = fib1;
+        fib1 = fib;
+        fib = fib1 + fib2;
+    }
+
+    int offset = -1;  // Everything up to offset is < target
+    while (fib > 1) {
+        int i = Math.min(offset + fib2, n - 1);
+        if (arr[i] < target) {
+            // Step down one Fibonacci number
+            fib = fib1;
+            fib1 = fib2;
+            fib2 = fib - fib1;
+            offset = i;
+        } else if (arr[i] > target) {
+            // Step down two Fibonacci numbers
+            fib = fib2;
+            fib1 = fib1 - fib2;
+            fib2 = fib - fib1;
+        } else {
+            return i;
+        }
+    }
+
+    if (fib1 == 1 && offset + 1 < n && arr[offset + 1] == target) {
+        return offset + 1;
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        1: 5, 4: 13, 5: 14, 6: 20, 7: 26, 8: 30, 9: 34,
+      },
+    },
+    cpp: {
+      code: `int fibonacciSearch(const vector<int>& arr, int target) {
+    int n = (int) arr.size();
+    // Smallest Fibonacci number >= n
+    int fib2 = 0, fib1 = 1;
+    int fib = fib1 + fib2;
+    while (fib < n) {
+        fib2 = fib1;
+        fib1 = fib;
+        fib = fib1 + fib2;
+    }
+
+    int offset = -1;  // Everything up to offset is < target
+    while (fib > 1) {
+        int i = min(offset + fib2, n - 1);
+        if (arr[i] < target) {
+            // Step down one Fibonacci number
+            fib = fib1;
+            fib1 = fib2;
+            fib2 = fib - fib1;
+            offset = i;
+        } else if (arr[i] > target) {
+            // Step down two Fibonacci numbers
+            fib = fib2;
+            fib1 = fib1 - fib2;
+            fib2 = fib - fib1;
+        } else {
+            return i;
+        }
+    }
+
+    if (fib1 == 1 && offset + 1 < n && arr[offset + 1] == target) {
+        return offset + 1;
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        1: 5, 4: 13, 5: 14, 6: 20, 7: 26, 8: 30, 9: 34,
+      },
+    },
+  },
+};
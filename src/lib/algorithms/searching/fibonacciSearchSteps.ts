@@ -0,0 +1,69 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep, outsideRange } from '@/lib/algorithms/arrayStep';
+
+export function generateFibonacciSearchSteps(inputArray: number[], target: number): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray].sort((a, b) => a - b);
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  const push = (label: string, codeLine: number, explanation: string, highlights: Partial<Highlights>, pointers: Record<string, number | null>) =>
+    steps.push(createArrayStep({ label, codeLine, explanation, before: arr, highlights, pointers, metrics }));
+
+  // fib = fib1 + fib2 are consecutive Fibonacci numbers; offset is the last index known to be < target.
+  let fib2 = 0;
+  let fib1 = 1;
+  let fib = 1;
+  while (fib < n) {
+    [fib2, fib1] = [fib1, fib];
+    fib = fib1 + fib2;
+  }
+  let offset = -1;
+  // Last index not yet known to be > target; only tracked for the eliminated highlight.
+  let upper = n - 1;
+  const low = () => offset + 1;
+  const high = () => upper;
+
+  push('Initial (Sorted)', 1, `Searching for ${target}. The smallest Fibonacci number ≥ n = ${n} is ${fib} (= ${fib1} + ${fib2}). Each pass probes ${fib2} past the offset and shrinks the range to a smaller Fibonacci number, using only addition and subtraction.`, {}, { low: low(), mid: null, high: high() });
+
+  while (fib > 1) {
+    metrics.passes++;
+    const i = Math.min(offset + fib2, n - 1);
+    metrics.comparisons++;
+    push(`Pass ${metrics.passes}: Probe`, 4, `i = min(offset + fib2, n - 1) = min(${offset} + ${fib2}, ${n - 1}) = ${i}. arr[${i}] = ${arr[i]}.`, { compare: [i], eliminated: outsideRange(n, low(), high()) }, { low: low(), mid: i, high: high() });
+
+    if (arr[i] === target) {
+      push(`Pass ${metrics.passes}: Found!`, 7, `arr[${i}] = ${arr[i]} equals target ${target}.`, { found: [i] }, { low: low(), mid: i, high: high() });
+      push('Complete!', 7, `Fibonacci search complete! Found ${target} at index ${i} in ${metrics.comparisons} comparisons.`, { found: [i] }, { result: i });
+      return steps;
+    }
+    if (arr[i] < target) {
+      fib = fib1;
+      fib1 = fib2;
+      fib2 = fib - fib1;
+      offset = i;
+      push(`Pass ${metrics.passes}: Move Right`, 5, `${arr[i]} < ${target}: drop everything up to index ${i}. Step the Fibonacci numbers down once: fib = ${fib}.`, { eliminated: outsideRange(n, low(), high()) }, { low: low(), mid: null, high: high() });
+    } else {
+      fib = fib2;
+      fib1 = fib1 - fib2;
+      fib2 = fib - fib1;
+      upper = i - 1;
+      push(`Pass ${metrics.passes}: Move Left`, 6, `${arr[i]} > ${target}: drop index ${i} and beyond. Step the Fibonacci numbers down twice: fib = ${fib}.`, { eliminated: outsideRange(n, low(), high()) }, { low: low(), mid: null, high: high() });
+    }
+  }
+
+  // One candidate can remain after the loop.
+  if (fib1 === 1 && offset + 1 < n) {
+    const last = offset + 1;
+    metrics.comparisons++;
+    if (arr[last] === target) {
+      push('Check Last Element', 8, `One element is left: arr[${last}] = ${arr[last]} equals target ${target}.`, { found: [last] }, { low: last, mid: last, high: last });
+      push('Complete!', 8, `Fibonacci search complete! Found ${target} at index ${last} in ${metrics.comparisons} comparisons.`, { found: [last] }, { result: last });
+      return steps;
+    }
+    push('Check Last Element', 8, `One element is left: arr[${last}] = ${arr[last]} ≠ ${target}.`, { compare: [last], eliminated: outsideRange(n, last, last) }, { low: last, mid: last, high: last });
+  }
+
+  push('Not Found', 9, `No candidates left. Target ${target} not found in ${metrics.comparisons} comparisons.`, { eliminated: allIndices(n) }, { low: null, mid: null, high: null });
+  return steps;
+}
@@ -0,0 +1,118 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateOccurrenceSteps } from '@/lib/algorithms/searching/binarySearchVariantsSteps';
+
+export const firstOccurrence: AlgorithmDefinition = {
+  info: {
+    id: 'first-occurrence',
+    name: 'First Occurrence',
+    category: 'searching',
+    timeComplexity: { best: 'O(log n)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Binary search that keeps going left after a match, returning the leftmost copy of the target in an array with duplicates.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateOccurrenceSteps(array, target, 'first'),
+  pseudocode: [
+    { line: 0, code: 'low, high, result = 0, len(arr) - 1, -1', indent: 0 },
+    { line: 1, code: 'while low <= high:', indent: 0 },
+    { line: 2, code: 'mid = (low + high) // 2', indent: 1 },
+    { line: 3, code: 'if arr[mid] == target:', indent: 1 },
+    { line: 4, code: 'result = mid', indent: 2 },
+    { line: 5, code: 'high = mid - 1', indent: 2 },
+    { line: 6, code: 'elif arr[mid] < target: low = mid + 1', indent: 1 },
+    { line: 7, code: 'else: high = mid - 1', indent: 1 },
+    { line: 8, code: 'return result', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 5: 5, 6: 6, 7: 7, 8: 8,
+  },
+  code: `def first_occurrence(arr, target):
+    low, high = 0, len(arr) - 1
+    result = -1
+
+    while low <= high:
+        mid = (low + high) // 2
+        if arr[mid] == target:
+            result = mid  # Remember the match...
+            high = mid - 1  # ...and keep looking left
+        elif arr[mid] < target:
+            low = mid + 1
+        else:
+            high = mid - 1
+
+    return result  # -1 if not found`,
+  sourceLineMapping: {
+    0: 1, 2: 5, 5: 8, 6: 10, 7: 12, 8: 14,
+  },
+  translations: {
+    javascript: {
+      code: `function firstOccurrence(arr, target) {
+  let low = 0, high = arr.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (arr[mid] === target) {
+      result = mid;  // Remember the match...
+      high = mid - 1;  // ...and keep looking left
+    } else if (arr[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;  // -1 if not found
+}`,
+      lineMapping: {
+        0: 1, 2: 5, 5: 8, 6: 10, 7: 12, 8: 16,
+      },
+    },
+    java: {
+      code: `static int firstOccurrence(int[] arr, int target) {
+    int low = 0, high = arr.length - 1;
+    int result = -1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            result = mid;  // Remember the match...
+            high = mid - 1;  // ...and keep looking left
+        } else if (arr[mid] < target) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return result;  // -1 if not found
+}`,
+      lineMapping: {
+        0: 1, 2: 5, 5: 8, 6: 10, 7: 12, 8: 16,
+      },
+    },
+    cpp: {
+      code: `int firstOccurrence(const vector<int>& arr, int target) {
+    int low = 0, high = (int) arr.size() - 1;
+    int result = -1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            result = mid;  // Remember the match...
+            high = mid - 1;  // ...and keep looking left
+        } else if (arr[mid] < target) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return result;  // -1 if not found
+}`,
+      lineMapping: {
+        0: 1, 2: 5, 5: 8, 6: 10, 7: 12, 8: 16,
+      },
+    },
+  },
+};
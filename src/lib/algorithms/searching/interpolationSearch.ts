@@ -0,0 +1,153 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateInterpolationSearchSteps } from '@/lib/algorithms/searching/interpolationSearchSteps';
+
+export const interpolationSearch: AlgorithmDefinition = {
+  info: {
+    id: 'interpolation-search',
+    name: 'Interpolation Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log log n)', worst: 'O(n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Uses value-based position estimation. Best for uniformly distributed sorted data.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateInterpolationSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'while low <= high and arr[low] <= target <= arr[high]:', indent: 0 },
+    { line: 1, code: 'pos = low + int(((target - arr[low]) * (high - low)) / (arr[high] - arr[low]))', indent: 1 },
+    { line: 2, code: 'if arr[pos] == target: return pos', indent: 1 },
+    { line: 3, code: 'if arr[pos] < target: low = pos + 1', indent: 1 },
+    { line: 4, code: 'else: high = pos - 1', indent: 1 },
+    { line: 5, code: '# probe again', indent: 1 },
+    { line: 6, code: 'return -1', indent: 0 },
+    { line: 7, code: '# not found', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7,
+  },
+  code: `def interpolation_search(arr, target):
+    low = 0
+    high = len(arr) - 1
+    
+    while low <= high and target >= arr[low] and target <= arr[high]:
+        # Calculate probe position
+        if arr[high] == arr[low]:
+            if arr[low] == target:
+                return low
+            break
+        
+        pos = low + int(
+            ((target - arr[low]) * (high - low)) /
+            (arr[high] - arr[low])
+        )
+        
+        if arr[pos] == target:
+            return pos
+        elif arr[pos] < target:
+            low = pos + 1
+        else:
+            high = pos - 1
+    
+    return -1`,
+  sourceLineMapping: {
+    0: 4, 1: 11, 2: 16, 3: 19, 4: 21, 5: 17, 6: 17, 7: 23,
+  },
+  translations: {
+    javascript: {
+      code: `function interpolationSearch(arr, target) {
+  let low = 0;
+  let high = arr.length - 1;
+
+  while (low <= high && target >= arr[low] && target <= arr[high]) {
+    // Calculate probe position
+    if (arr[high] === arr[low]) {
+      if (arr[low] === target) return low;
+      break;
+    }
+
+    const pos = low + Math.floor(
+      ((target - arr[low]) * (high - low)) /
+      (arr[high] - arr[low])
+    );
+
+    if (arr[pos] === target) {
+      return pos;
+    } else if (arr[pos] < target) {
+      low = pos + 1;
+    } else {
+      high = pos - 1;
+    }
+  }
+
+  return -1;
+}`,
+      lineMapping: {
+        0: 4, 1: 11, 2: 16, 3: 19, 4: 21, 5: 17, 6: 17, 7: 25,
+      },
+    },
+    java: {
+      code: `static int interpolationSearch(int[] arr, int target) {
+    int low = 0;
+    int high = arr.length - 1;
+
+    while (low <= high && target >= arr[low] && target <= arr[high]) {
+        // Calculate probe position
+        if (arr[high] == arr[low]) {
+            if (arr[low] == target) return low;
+            break;
+        }
+
+        int pos = low + (int) (
+            ((double) (target - arr[low]) * (high - low)) /
+            (arr[high] - arr[low])
+        );
+
+        if (arr[pos] == target) {
+            return pos;
+        } else if (arr[pos] < target) {
+            low = pos + 1;
+        } else {
+            high = pos - 1;
+        }
+    }
+
+    return -1;
+}`,
+      lineMapping: {
+        0: 4, 1: 11, 2: 16, 3: 19, 4: 21, 5: 17, 6: 17, 7: 25,
+      },
+    },
+    cpp: {
+      code: `int interpolationSearch(const vector<int>& arr, int target) {
+    int low = 0;
+    int high = (int) arr.size() - 1;
+
+    while (low <= high && target >= arr[low] && target <= arr[high]) {
+        // Calculate probe position
+        if (arr[high] == arr[low]) {
+            if (arr[low] == target) return low;
+            break;
+        }
+
+        int pos = low + (int) (
+            ((double) (target - arr[low]) * (high - low)) /
+            (arr[high] - arr[low])
+        );
+
+        if (arr[pos] == target) {
+            return pos;
+        } else if (arr[pos] < target) {
+            low = pos + 1;
+        } else {
+            high = pos - 1;
+        }
+    }
+
+    return -1;
+}`,
+      lineMapping: {
+        0: 4, 1: 11, 2: 16, 3: 19, 4: 21, 5: 17, 6: 17, 7: 25,
+      },
+    },
+  },
+};
@@ -23,6 +23,7 @@ export function generateInterpolationSearchSteps(inputArray: number[], target: n
       after: createEmptyHighlights(),
     },
     pointers: { low: 0, high: n - 1 },
+    variables: { target },
     moveArrows: [],
     codeLine: 0,
     explanation: `Searching for ${target} using Interpolation Search. Uses value-based position estimation. Array is sorted.`,
@@ -50,6 +51,7 @@ export function generateInterpolationSearchSteps(inputArray: number[], target: n
         after: { ...createEmptyHighlights(), key: [pos] },
       },
       pointers: { low, high, pos },
+      variables: { target, pos },
       moveArrows: [],
       codeLine: 1,
       explanation: `Estimated position = ${pos}. Formula: low + ((target - arr[low]) × (high - low)) / (arr[high] - arr[low])`,
@@ -67,6 +69,7 @@ export function generateInterpolationSearchSteps(inputArray: number[], target: n
         after: { ...createEmptyHighlights(), compare: [pos] },
       },
       pointers: { low, high, pos },
+      variables: { target, pos },
       moveArrows: [],
       codeLine: 2,
       explanation: `Compare arr[${pos}]=${arr[pos]} with target=${target}. ${arr[pos] === target ? 'Match!' : arr[pos] < target ? 'Less, search right.' : 'Greater, search left.'}`,
@@ -92,6 +95,7 @@ export function generateInterpolationSearchSteps(inputArray: number[], target: n
           after: { ...createEmptyHighlights(), eliminated },
         },
         pointers: { low, high },
+        variables: { target, pos },
         moveArrows: [],
         codeLine: 3,
         explanation: `arr[${pos}]=${arr[pos]} < ${target}. Update low = ${low}. Search in [${low}...${high}].`,
@@ -110,6 +114,7 @@ export function generateInterpolationSearchSteps(inputArray: number[], target: n
           after: { ...createEmptyHighlights(), eliminated },
         },
         pointers: { low, high },
+        variables: { target, pos },
         moveArrows: [],
         codeLine: 4,
         explanation: `arr[${pos}]=${arr[pos]} > ${target}. Update high = ${high}. Search in [${low}...${high}].`,
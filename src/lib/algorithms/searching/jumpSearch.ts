@@ -0,0 +1,132 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateJumpSearchSteps } from '@/lib/algorithms/searching/jumpSearchSteps';
+
+export const jumpSearch: AlgorithmDefinition = {
+  info: {
+    id: 'jump-search',
+    name: 'Jump Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(√n)', worst: 'O(√n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Jumps ahead by √n steps, then linear search backwards. Good for sorted arrays.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateJumpSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'import math', indent: 0 },
+    { line: 1, code: 'step = int(math.sqrt(n))', indent: 0 },
+    { line: 2, code: 'while prev < n and arr[min(step, n) - 1] < target:', indent: 0 },
+    { line: 3, code: 'prev = step', indent: 1 },
+    { line: 4, code: 'step += int(math.sqrt(n))', indent: 1 },
+    { line: 5, code: 'for i in range(prev, min(step, n)):', indent: 0 },
+    { line: 6, code: 'if arr[i] == target: return i', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 2, 2: 3, 3: 4, 4: 5, 5: 5, 6: 6,
+  },
+  code: `def jump_search(arr, target):
+    import math
+    n = len(arr)
+    step = int(math.sqrt(n))
+    
+    prev = 0
+    curr = step
+    
+    # Jump through blocks
+    while curr < n and arr[curr] < target:
+        prev = curr
+        curr += step
+    
+    # Linear search in block
+    for i in range(prev, min(curr + 1, n)):
+        if arr[i] == target:
+            return i
+    
+    return -1`,
+  sourceLineMapping: {
+    0: 3, 1: 9, 2: 14, 3: 15, 4: 16, 5: 16, 6: 18,
+  },
+  translations: {
+    javascript: {
+      code: `function jumpSearch(arr, target) {
+  const n = arr.length;
+  const step = Math.floor(Math.sqrt(n));
+
+  let prev = 0;
+  let curr = step;
+
+  // Jump through blocks
+  while (curr < n && arr[curr] < target) {
+    prev = curr;
+    curr += step;
+  }
+
+  // Linear search in block
+  for (let i = prev; i < Math.min(curr + 1, n); i++) {
+    if (arr[i] === target) {
+      return i;
+    }
+  }
+
+  return -1;
+}`,
+      lineMapping: {
+        0: 2, 1: 8, 2: 14, 3: 15, 4: 16, 5: 16, 6: 20,
+      },
+    },
+    java: {
+      code: `static int jumpSearch(int[] arr, int target) {
+    int n = arr.length;
+    int step = (int) Math.sqrt(n);
+
+    int prev = 0;
+    int curr = step;
+
+    // Jump through blocks
+    while (curr < n && arr[curr] < target) {
+        prev = curr;
+        curr += step;
+    }
+
+    // Linear search in block
+    for (int i = prev; i < Math.min(curr + 1, n); i++) {
+        if (arr[i] == target) {
+            return i;
+        }
+    }
+
+    return -1;
+}`,
+      lineMapping: {
+        0: 2, 1: 8, 2: 14, 3: 15, 4: 16, 5: 16, 6: 20,
+      },
+    },
+    cpp: {
+      code: `int jumpSearch(const vector<int>& arr, int target) {
+    int n = (int) arr.size();
+    int step = (int) sqrt(n);
+
+    int prev = 0;
+    int curr = step;
+
+    // Jump through blocks
+    while (curr < n && arr[curr] < target) {
+        prev = curr;
+        curr += step;
+    }
+
+    // Linear search in block
+    for (int i = prev; i < min(curr + 1, n); i++) {
+        if (arr[i] == target) {
+            return i;
+        }
+    }
+
+    return -1;
+}`,
+      lineMapping: {
+        0: 2, 1: 8, 2: 14, 3: 15, 4: 16, 5: 16, 6: 20,
+      },
+    },
+  },
+};
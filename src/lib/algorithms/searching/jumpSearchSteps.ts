@@ -63,8 +63,8 @@ export function generateJumpSearchSteps(inputArray: number[], target: number): S
       before: [...arr],
       after: [...arr],
       highlights: {
-        before: { ...createEmptyHighlights(), key: Array.from({ length: Math.min(curr, n) - prev }, (_, i) => prev + i), eliminated: Array.from({ length: prev }, (_, i) => i) },
-        after: { ...createEmptyHighlights(), key: Array.from({ length: Math.min(curr, n) - prev }, (_, i) => prev + i), eliminated: Array.from({ length: prev }, (_, i) => i) },
+        before: { ...createEmptyHighlights(), key: Array.from({ length: Math.min(curr, n - 1) - prev + 1 }, (_, i) => prev + i), eliminated: Array.from({ length: prev }, (_, i) => i) },
+        after: { ...createEmptyHighlights(), key: Array.from({ length: Math.min(curr, n - 1) - prev + 1 }, (_, i) => prev + i), eliminated: Array.from({ length: prev }, (_, i) => i) },
       },
       pointers: { start: prev, end: Math.min(curr, n - 1) },
       moveArrows: [],
@@ -73,7 +73,7 @@ export function generateJumpSearchSteps(inputArray: number[], target: number): S
       metrics: { comparisons: totalComparisons, swaps: 0, passes: passCount },
     });
 
-    for (let i = prev; i < Math.min(curr, n); i++) {
+    for (let i = prev; i <= Math.min(curr, n - 1); i++) {
       passCount++;
       totalComparisons++;
 
@@ -0,0 +1,82 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateLinearSearchSteps } from '@/lib/algorithms/searching/linearSearchSteps';
+
+export const linearSearch: AlgorithmDefinition = {
+  info: {
+    id: 'linear-search',
+    name: 'Linear Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(n)', worst: 'O(n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Checks each element sequentially. Works on unsorted arrays.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateLinearSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'def linear_search(arr, target):', indent: 0 },
+    { line: 1, code: 'for i in range(len(arr)):', indent: 1 },
+    { line: 2, code: 'if arr[i] == target:', indent: 2 },
+    { line: 3, code: 'return i', indent: 3 },
+    { line: 4, code: 'return -1  # not found', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4,
+  },
+  code: `def linear_search(arr, target):
+    for i in range(len(arr)):
+        # Check each element sequentially
+        if arr[i] == target:
+            return i  # Found at index i
+    
+    return -1  # Not found`,
+  sourceLineMapping: {
+    0: 1, 1: 3, 2: 4, 3: 6, 4: 4,
+  },
+  translations: {
+    javascript: {
+      code: `function linearSearch(arr, target) {
+  for (let i = 0; i < arr.length; i++) {
+    // Check each element sequentially
+    if (arr[i] === target) {
+      return i;  // Found at index i
+    }
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 3, 2: 4, 3: 8, 4: 4,
+      },
+    },
+    java: {
+      code: `static int linearSearch(int[] arr, int target) {
+    for (int i = 0; i < arr.length; i++) {
+        // Check each element sequentially
+        if (arr[i] == target) {
+            return i;  // Found at index i
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 3, 2: 4, 3: 8, 4: 4,
+      },
+    },
+    cpp: {
+      code: `int linearSearch(const vector<int>& arr, int target) {
+    for (int i = 0; i < (int) arr.size(); i++) {
+        // Check each element sequentially
+        if (arr[i] == target) {
+            return i;  // Found at index i
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 1: 3, 2: 4, 3: 8, 4: 4,
+      },
+    },
+  },
+};
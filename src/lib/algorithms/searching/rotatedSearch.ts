@@ -0,0 +1,157 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateRotatedSearchSteps } from '@/lib/algorithms/searching/rotatedSearchSteps';
+
+export const rotatedSearch: AlgorithmDefinition = {
+  info: {
+    id: 'rotated-search',
+    name: 'Rotated Array Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Binary search on a sorted array rotated at an unknown point. One half around mid is always in order, and a range check on that half decides where to go.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateRotatedSearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'low, high = 0, len(arr) - 1', indent: 0 },
+    { line: 1, code: 'while low <= high:', indent: 0 },
+    { line: 2, code: 'mid = (low + high) // 2', indent: 1 },
+    { line: 3, code: 'if arr[mid] == target: return mid', indent: 1 },
+    { line: 4, code: 'if arr[low] <= arr[mid]:  # left half sorted', indent: 1 },
+    { line: 5, code: 'if arr[low] <= target < arr[mid]: high = mid - 1', indent: 2 },
+    { line: 6, code: 'else: low = mid + 1', indent: 2 },
+    { line: 7, code: 'else:  # right half sorted', indent: 1 },
+    { line: 8, code: 'if arr[mid] < target <= arr[high]: low = mid + 1', indent: 2 },
+    { line: 9, code: 'else: high = mid - 1', indent: 2 },
+    { line: 10, code: 'return -1', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8, 9: 9, 10: 10,
+  },
+  code: `def rotated_search(arr, target):
+    low, high = 0, len(arr) - 1
+
+    while low <= high:
+        mid = (low + high) // 2
+        if arr[mid] == target:
+            return mid
+
+        if arr[low] <= arr[mid]:
+            # Left half is in order
+            if arr[low] <= target < arr[mid]:
+                high = mid - 1
+            else:
+                low = mid + 1
+        else:
+            # Right half is in order
+            if arr[mid] < target <= arr[high]:
+                low = mid + 1
+            else:
+                high = mid - 1
+
+    return -1  # Not found`,
+  sourceLineMapping: {
+    0: 1, 2: 4, 3: 5, 4: 8, 5: 10, 6: 13, 7: 14, 8: 16, 9: 19, 10: 21,
+  },
+  translations: {
+    javascript: {
+      code: `function rotatedSearch(arr, target) {
+  let low = 0, high = arr.length - 1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (arr[mid] === target) {
+      return mid;
+    }
+
+    if (arr[low] <= arr[mid]) {
+      // Left half is in order
+      if (arr[low] <= target && target < arr[mid]) {
+        high = mid - 1;
+      } else {
+        low = mid + 1;
+      }
+    } else {
+      // Right half is in order
+      if (arr[mid] < target && target <= arr[high]) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 3: 5, 4: 9, 5: 11, 6: 14, 7: 16, 8: 18, 9: 21, 10: 26,
+      },
+    },
+    java: {
+      code: `static int rotatedSearch(int[] arr, int target) {
+    int low = 0, high = arr.length - 1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            return mid;
+        }
+
+        if (arr[low] <= arr[mid]) {
+            // Left half is in order
+            if (arr[low] <= target && target < arr[mid]) {
+                high = mid - 1;
+            } else {
+                low = mid + 1;
+            }
+        } else {
+            // Right half is in order
+            if (arr[mid] < target && target <= arr[high]) {
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 3: 5, 4: 9, 5: 11, 6: 14, 7: 16, 8: 18, 9: 21, 10: 26,
+      },
+    },
+    cpp: {
+      code: `int rotatedSearch(const vector<int>& arr, int target) {
+    int low = 0, high = (int) arr.size() - 1;
+
+    while (low <= high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] == target) {
+            return mid;
+        }
+
+        if (arr[low] <= arr[mid]) {
+            // Left half is in order
+            if (arr[low] <= target && target < arr[mid]) {
+                high = mid - 1;
+            } else {
+                low = mid + 1;
+            }
+        } else {
+            // Right half is in order
+            if (arr[mid] < target && target <= arr[high]) {
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 3: 5, 4: 9, 5: 11, 6: 14, 7: 16, 8: 18, 9: 21, 10: 26,
+      },
+    },
+  },
+};
@@ -0,0 +1,82 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep, outsideRange } from '@/lib/algorithms/arrayStep';
+
+/**
+ * True when the values are strictly increasing apart from a single wrap-around point,
+ * i.e. a sorted array of distinct values rotated by at least one place.
+ */
+function isRotatedSorted(values: number[]): boolean {
+  let drops = 0;
+  for (let i = 0; i + 1 < values.length; i++) {
+    if (values[i] === values[i + 1]) return false;
+    if (values[i] > values[i + 1]) drops++;
+  }
+  return drops === 1 && values[values.length - 1] < values[0];
+}
+
+// Duplicates make "which half is sorted" undecidable, so the prepared array holds distinct values.
+function prepareRotated(inputArray: number[]): { arr: number[]; note: string } {
+  if (isRotatedSorted(inputArray)) return { arr: [...inputArray], note: 'The input is already a rotated sorted array.' };
+  const sorted = Array.from(new Set(inputArray)).sort((a, b) => a - b);
+  const shift = Math.ceil(sorted.length / 3);
+  return {
+    arr: [...sorted.slice(shift), ...sorted.slice(0, shift)],
+    note: `The input is not a rotated sorted array, so its distinct values were sorted and rotated left by ${shift}.`,
+  };
+}
+
+export function generateRotatedSearchSteps(inputArray: number[], target: number): Step[] {
+  const steps: Step[] = [];
+  const { arr, note } = prepareRotated(inputArray);
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  const push = (label: string, codeLine: number, explanation: string, highlights: Partial<Highlights>, pointers: Record<string, number | null>) =>
+    steps.push(createArrayStep({ label, codeLine, explanation, before: arr, highlights, pointers, metrics }));
+
+  let low = 0;
+  let high = n - 1;
+  push('Initial (Rotated)', 0, `${note} Searching for ${target}. At every mid, at least one half is in sorted order; check whether the target lies inside that half.`, {}, { low, mid: null, high });
+
+  while (low <= high) {
+    metrics.passes++;
+    const mid = Math.floor((low + high) / 2);
+    metrics.comparisons++;
+    push(`Pass ${metrics.passes}: Calculate Mid`, 2, `mid = (${low} + ${high}) // 2 = ${mid}. arr[${mid}] = ${arr[mid]}.`, { compare: [mid], eliminated: outsideRange(n, low, high) }, { low, mid, high });
+
+    if (arr[mid] === target) {
+      push(`Pass ${metrics.passes}: Found!`, 3, `arr[${mid}] = ${arr[mid]} equals target ${target}.`, { found: [mid], eliminated: outsideRange(n, low, high) }, { low, mid, high });
+      push('Complete!', 3, `Rotated search complete! Found ${target} at index ${mid} in ${metrics.comparisons} comparisons.`, { found: [mid] }, { result: mid });
+      return steps;
+    }
+
+    metrics.comparisons++;
+    const range = (from: number, to: number) => allIndices(n).filter((i) => i >= from && i <= to);
+    if (arr[low] <= arr[mid]) {
+      metrics.comparisons++;
+      const inLeft = arr[low] <= target && target < arr[mid];
+      push(`Pass ${metrics.passes}: Left Half Sorted`, 4, `arr[${low}] = ${arr[low]} ≤ arr[${mid}] = ${arr[mid]}, so indices ${low}..${mid} are in order. ${target} is ${inLeft ? '' : 'not '}within [${arr[low]}, ${arr[mid]}).`, { compare: [low, mid], key: range(low, mid), eliminated: outsideRange(n, low, high) }, { low, mid, high });
+      if (inLeft) {
+        high = mid - 1;
+        push(`Pass ${metrics.passes}: Narrow Left`, 5, `Keep the sorted left half. high = ${high}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+      } else {
+        low = mid + 1;
+        push(`Pass ${metrics.passes}: Narrow Right`, 6, `Discard the sorted left half. low = ${low}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+      }
+    } else {
+      metrics.comparisons++;
+      const inRight = arr[mid] < target && target <= arr[high];
+      push(`Pass ${metrics.passes}: Right Half Sorted`, 7, `arr[${low}] = ${arr[low]} > arr[${mid}] = ${arr[mid]}, so the rotation point is on the left and indices ${mid}..${high} are in order. ${target} is ${inRight ? '' : 'not '}within (${arr[mid]}, ${arr[high]}].`, { compare: [low, mid, high], key: range(mid, high), eliminated: outsideRange(n, low, high) }, { low, mid, high });
+      if (inRight) {
+        low = mid + 1;
+        push(`Pass ${metrics.passes}: Narrow Right`, 8, `Keep the sorted right half. low = ${low}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+      } else {
+        high = mid - 1;
+        push(`Pass ${metrics.passes}: Narrow Left`, 9, `Discard the sorted right half. high = ${high}.`, { eliminated: outsideRange(n, low, high) }, { low, mid: null, high });
+      }
+    }
+  }
+
+  push('Not Found', 10, `Search space exhausted (low > high). Target ${target} not found in ${metrics.comparisons} comparisons.`, { eliminated: allIndices(n) }, { low, mid: null, high });
+  return steps;
+}
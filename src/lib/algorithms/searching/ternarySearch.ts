@@ -0,0 +1,135 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateTernarySearchSteps } from '@/lib/algorithms/searching/ternarySearchSteps';
+
+export const ternarySearch: AlgorithmDefinition = {
+  info: {
+    id: 'ternary-search',
+    name: 'Ternary Search',
+    category: 'searching',
+    timeComplexity: { best: 'O(1)', average: 'O(log₃ n)', worst: 'O(log₃ n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Splits the range into thirds with two midpoints and keeps one third. Fewer passes than binary search, but more comparisons per pass.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateTernarySearchSteps(array, target),
+  pseudocode: [
+    { line: 0, code: 'low, high = 0, len(arr) - 1', indent: 0 },
+    { line: 1, code: 'while low <= high:', indent: 0 },
+    { line: 2, code: 'm1 = low + (high - low) // 3', indent: 1 },
+    { line: 3, code: 'm2 = high - (high - low) // 3', indent: 1 },
+    { line: 4, code: 'if arr[m1] == target: return m1', indent: 1 },
+    { line: 5, code: 'if arr[m2] == target: return m2', indent: 1 },
+    { line: 6, code: 'if target < arr[m1]: high = m1 - 1', indent: 1 },
+    { line: 7, code: 'elif target > arr[m2]: low = m2 + 1', indent: 1 },
+    { line: 8, code: 'else: low, high = m1 + 1, m2 - 1', indent: 1 },
+    { line: 9, code: 'return -1', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8, 9: 9,
+  },
+  code: `def ternary_search(arr, target):
+    low, high = 0, len(arr) - 1
+
+    while low <= high:
+        m1 = low + (high - low) // 3
+        m2 = high - (high - low) // 3
+
+        if arr[m1] == target:
+            return m1
+        if arr[m2] == target:
+            return m2
+
+        if target < arr[m1]:
+            high = m1 - 1  # Left third
+        elif target > arr[m2]:
+            low = m2 + 1  # Right third
+        else:
+            low, high = m1 + 1, m2 - 1  # Middle third
+
+    return -1  # Not found`,
+  sourceLineMapping: {
+    0: 1, 3: 5, 4: 8, 5: 10, 6: 13, 7: 15, 8: 17, 9: 19,
+  },
+  translations: {
+    javascript: {
+      code: `function ternarySearch(arr, target) {
+  let low = 0, high = arr.length - 1;
+
+  while (low <= high) {
+    const m1 = low + Math.floor((high - low) / 3);
+    const m2 = high - Math.floor((high - low) / 3);
+
+    if (arr[m1] === target) return m1;
+    if (arr[m2] === target) return m2;
+
+    if (target < arr[m1]) {
+      high = m1 - 1;  // Left third
+    } else if (target > arr[m2]) {
+      low = m2 + 1;  // Right third
+    } else {
+      [low, high] = [m1 + 1, m2 - 1];  // Middle third
+    }
+  }
+
+  return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 3: 5, 4: 7, 5: 8, 6: 11, 7: 13, 8: 15, 9: 19,
+      },
+    },
+    java: {
+      code: `static int ternarySearch(int[] arr, int target) {
+    int low = 0, high = arr.length - 1;
+
+    while (low <= high) {
+        int m1 = low + (high - low) / 3;
+        int m2 = high - (high - low) / 3;
+
+        if (arr[m1] == target) return m1;
+        if (arr[m2] == target) return m2;
+
+        if (target < arr[m1]) {
+            high = m1 - 1;  // Left third
+        } else if (target > arr[m2]) {
+            low = m2 + 1;  // Right third
+        } else {
+            low = m1 + 1;  // Middle third
+            high = m2 - 1;
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 3: 5, 4: 7, 5: 8, 6: 11, 7: 13, 8: 15, 9: 20,
+      },
+    },
+    cpp: {
+      code: `int ternarySearch(const vector<int>& arr, int target) {
+    int low = 0, high = (int) arr.size() - 1;
+
+    while (low <= high) {
+        int m1 = low + (high - low) / 3;
+        int m2 = high - (high - low) / 3;
+
+        if (arr[m1] == target) return m1;
+        if (arr[m2] == target) return m2;
+
+        if (target < arr[m1]) {
+            high = m1 - 1;  // Left third
+        } else if (target > arr[m2]) {
+            low = m2 + 1;  // Right third
+        } else {
+            low = m1 + 1;  // Middle third
+            high = m2 - 1;
+        }
+    }
+
+    return -1;  // Not found
+}`,
+      lineMapping: {
+        0: 1, 3: 5, 4: 7, 5: 8, 6: 11, 7: 13, 8: 15, 9: 20,
+      },
+    },
+  },
+};
@@ -0,0 +1,57 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep, outsideRange } from '@/lib/algorithms/arrayStep';
+
+export function generateTernarySearchSteps(inputArray: number[], target: number): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray].sort((a, b) => a - b);
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  const push = (label: string, codeLine: number, explanation: string, highlights: Partial<Highlights>, pointers: Record<string, number | null>) =>
+    steps.push(createArrayStep({ label, codeLine, explanation, before: arr, highlights, pointers, metrics }));
+
+  let low = 0;
+  let high = n - 1;
+  push('Initial (Sorted)', 0, `Searching for ${target}. Two midpoints split the range into thirds; each pass keeps one third.`, {}, { low, m1: null, m2: null, high });
+
+  while (low <= high) {
+    metrics.passes++;
+    const third = Math.floor((high - low) / 3);
+    const m1 = low + third;
+    const m2 = high - third;
+    const pointers = { low, m1, m2, high };
+    push(`Pass ${metrics.passes}: Split in Thirds`, 3, `m1 = ${low} + (${high} - ${low}) // 3 = ${m1}, m2 = ${high} - (${high} - ${low}) // 3 = ${m2}. arr[m1] = ${arr[m1]}, arr[m2] = ${arr[m2]}.`, { compare: [m1, m2], eliminated: outsideRange(n, low, high) }, pointers);
+
+    metrics.comparisons++;
+    if (arr[m1] === target) {
+      push(`Pass ${metrics.passes}: Found at m1!`, 4, `arr[${m1}] = ${arr[m1]} equals target ${target}.`, { found: [m1], eliminated: outsideRange(n, low, high) }, pointers);
+      push('Complete!', 4, `Ternary search complete! Found ${target} at index ${m1} in ${metrics.comparisons} comparisons.`, { found: [m1] }, { result: m1 });
+      return steps;
+    }
+    metrics.comparisons++;
+    if (arr[m2] === target) {
+      push(`Pass ${metrics.passes}: Found at m2!`, 5, `arr[${m2}] = ${arr[m2]} equals target ${target}.`, { found: [m2], eliminated: outsideRange(n, low, high) }, pointers);
+      push('Complete!', 5, `Ternary search complete! Found ${target} at index ${m2} in ${metrics.comparisons} comparisons.`, { found: [m2] }, { result: m2 });
+      return steps;
+    }
+
+    metrics.comparisons++;
+    if (target < arr[m1]) {
+      high = m1 - 1;
+      push(`Pass ${metrics.passes}: Keep Left Third`, 6, `${target} < arr[m1] = ${arr[m1]}: keep indices ${low}..${high}.`, { eliminated: outsideRange(n, low, high) }, { low, m1: null, m2: null, high });
+    } else {
+      metrics.comparisons++;
+      if (target > arr[m2]) {
+        low = m2 + 1;
+        push(`Pass ${metrics.passes}: Keep Right Third`, 7, `${target} > arr[m2] = ${arr[m2]}: keep indices ${low}..${high}.`, { eliminated: outsideRange(n, low, high) }, { low, m1: null, m2: null, high });
+      } else {
+        low = m1 + 1;
+        high = m2 - 1;
+        push(`Pass ${metrics.passes}: Keep Middle Third`, 8, `${arr[m1]} < ${target} < ${arr[m2]}: keep indices ${low}..${high}.`, { eliminated: outsideRange(n, low, high) }, { low, m1: null, m2: null, high });
+      }
+    }
+  }
+
+  push('Not Found', 9, `Search space exhausted (low > high). Target ${target} not found in ${metrics.comparisons} comparisons.`, { eliminated: allIndices(n) }, { low, m1: null, m2: null, high });
+  return steps;
+}
@@ -0,0 +1,101 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBoundSteps } from '@/lib/algorithms/searching/binarySearchVariantsSteps';
+
+export const upperBound: AlgorithmDefinition = {
+  info: {
+    id: 'upper-bound',
+    name: 'Upper Bound',
+    category: 'searching',
+    timeComplexity: { best: 'O(log n)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Binary search for the first index whose value is > target: where target would be inserted after any equal values. upper_bound − lower_bound counts the copies of target.',
+  },
+  requirements: { inputKind: 'array', needsTarget: true, needsSortedInput: true, needsStartNode: false },
+  generateSteps: ({ array, target }) => generateBoundSteps(array, target, 'upper'),
+  pseudocode: [
+    { line: 0, code: 'low, high = 0, len(arr)', indent: 0 },
+    { line: 1, code: 'while low < high:', indent: 0 },
+    { line: 2, code: 'mid = (low + high) // 2', indent: 1 },
+    { line: 3, code: 'if arr[mid] <= target:', indent: 1 },
+    { line: 4, code: 'low = mid + 1', indent: 2 },
+    { line: 5, code: 'else:', indent: 1 },
+    { line: 6, code: 'high = mid', indent: 2 },
+    { line: 7, code: 'return low', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 4: 4, 6: 6, 7: 7,
+  },
+  code: `def upper_bound(arr, target):
+    low, high = 0, len(arr)  # Half-open range [low, high)
+
+    while low < high:
+        mid = (low + high) // 2
+        if arr[mid] <= target:
+            low = mid + 1  # Answer is right of mid
+        else:
+            high = mid  # mid may be the answer
+
+    return low  # len(arr) if every value is too small`,
+  sourceLineMapping: {
+    0: 1, 2: 4, 4: 6, 6: 8, 7: 10,
+  },
+  translations: {
+    javascript: {
+      code: `function upperBound(arr, target) {
+  let low = 0, high = arr.length;  // Half-open range [low, high)
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (arr[mid] <= target) {
+      low = mid + 1;  // Answer is right of mid
+    } else {
+      high = mid;  // mid may be the answer
+    }
+  }
+
+  return low;  // arr.length if every value is too small
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 4: 6, 6: 8, 7: 12,
+      },
+    },
+    java: {
+      code: `static int upperBound(int[] arr, int target) {
+    int low = 0, high = arr.length;  // Half-open range [low, high)
+
+    while (low < high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] <= target) {
+            low = mid + 1;  // Answer is right of mid
+        } else {
+            high = mid;  // mid may be the answer
+        }
+    }
+
+    return low;  // size if every value is too small
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 4: 6, 6: 8, 7: 12,
+      },
+    },
+    cpp: {
+      code: `int upperBound(const vector<int>& arr, int target) {
+    int low = 0, high = (int) arr.size();  // Half-open range [low, high)
+
+    while (low < high) {
+        int mid = (low + high) / 2;
+        if (arr[mid] <= target) {
+            low = mid + 1;  // Answer is right of mid
+        } else {
+            high = mid;  // mid may be the answer
+        }
+    }
+
+    return low;  // size if every value is too small
+}`,
+      lineMapping: {
+        0: 1, 2: 4, 4: 6, 6: 8, 7: 12,
+      },
+    },
+  },
+};
@@ -0,0 +1,129 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBubbleSortSteps } from '@/lib/algorithms/sorting/bubbleSortSteps';
+
+export const bubbleSort: AlgorithmDefinition = {
+  info: {
+    id: 'bubble-sort',
+    name: 'Bubble Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n)', average: 'O(n²)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Repeatedly swaps adjacent elements if they are in wrong order. Simple but inefficient for large datasets.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateBubbleSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'for i in range(n - 1):', indent: 0 },
+    { line: 1, code: 'for j in range(n - i - 1):', indent: 1 },
+    { line: 2, code: 'if arr[j] > arr[j + 1]:', indent: 2 },
+    { line: 3, code: 'arr[j], arr[j + 1] = arr[j + 1], arr[j]', indent: 3 },
+    { line: 4, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 2, 2: 2, 3: 3, 4: 4,
+  },
+  code: `def bubble_sort(arr):
+    n = len(arr)
+    
+    for i in range(n - 1):
+        # Flag to optimize if no swaps occur
+        swapped = False
+        
+        for j in range(n - i - 1):
+            # Compare adjacent elements
+            if arr[j] > arr[j + 1]:
+                # Swap if they are in wrong order
+                arr[j], arr[j + 1] = arr[j + 1], arr[j]
+                swapped = True
+        
+        # If no swaps, array is sorted
+        if not swapped:
+            break
+    
+    return arr`,
+  sourceLineMapping: {
+    0: 3, 1: 9, 2: 9, 3: 11, 4: 18,
+  },
+  translations: {
+    javascript: {
+      code: `function bubbleSort(arr) {
+  const n = arr.length;
+
+  for (let i = 0; i < n - 1; i++) {
+    // Flag to stop early if no swaps occur
+    let swapped = false;
+
+    for (let j = 0; j < n - i - 1; j++) {
+      // Compare adjacent elements
+      if (arr[j] > arr[j + 1]) {
+        // Swap if they are in the wrong order
+        [arr[j], arr[j + 1]] = [arr[j + 1], arr[j]];
+        swapped = true;
+      }
+    }
+
+    // If no swaps, the array is sorted
+    if (!swapped) break;
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 3, 1: 9, 2: 9, 3: 11, 4: 20,
+      },
+    },
+    java: {
+      code: `static void bubbleSort(int[] arr) {
+    int n = arr.length;
+
+    for (int i = 0; i < n - 1; i++) {
+        // Flag to stop early if no swaps occur
+        boolean swapped = false;
+
+        for (int j = 0; j < n - i - 1; j++) {
+            // Compare adjacent elements
+            if (arr[j] > arr[j + 1]) {
+                // Swap if they are in the wrong order
+                int temp = arr[j];
+                arr[j] = arr[j + 1];
+                arr[j + 1] = temp;
+                swapped = true;
+            }
+        }
+
+        // If no swaps, the array is sorted
+        if (!swapped) break;
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 9, 2: 9, 3: 11, 4: 21,
+      },
+    },
+    cpp: {
+      code: `void bubbleSort(vector<int>& arr) {
+    int n = arr.size();
+
+    for (int i = 0; i < n - 1; i++) {
+        // Flag to stop early if no swaps occur
+        bool swapped = false;
+
+        for (int j = 0; j < n - i - 1; j++) {
+            // Compare adjacent elements
+            if (arr[j] > arr[j + 1]) {
+                // Swap if they are in the wrong order
+                swap(arr[j], arr[j + 1]);
+                swapped = true;
+            }
+        }
+
+        // If no swaps, the array is sorted
+        if (!swapped) break;
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 9, 2: 9, 3: 11, 4: 19,
+      },
+    },
+  },
+};
@@ -46,6 +46,7 @@ export function generateBubbleSortSteps(inputArray: number[]): Step[] {
         pointers: { i: n - i - 1, j },
         moveArrows: [{ fromIndex: j, toIndex: j + 1, type: 'compare' }],
         codeLine: 1,
+        loopDepth: 2,
         explanation: `Compare arr[${j}]=${arr[j]} with arr[${j + 1}]=${arr[j + 1]}. ${arr[j] > arr[j + 1] ? 'Swap needed!' : 'No swap needed.'}`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -69,6 +70,7 @@ export function generateBubbleSortSteps(inputArray: number[]): Step[] {
           pointers: { i: n - i - 1, j },
           moveArrows: [{ fromIndex: j, toIndex: j + 1, type: 'swap' }],
           codeLine: 2,
+          loopDepth: 2,
           explanation: `Swapped ${beforeState[j]} and ${beforeState[j + 1]} because ${beforeState[j]} > ${beforeState[j + 1]}.`,
           metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
         });
@@ -88,6 +90,7 @@ export function generateBubbleSortSteps(inputArray: number[]): Step[] {
       pointers: {},
       moveArrows: [],
       codeLine: 3,
+      loopDepth: 1,
       explanation: `Pass ${passCount} complete. Element ${arr[n - i - 1]} is now in its final position.`,
       metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
     });
@@ -0,0 +1,123 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBucketSortSteps } from '@/lib/algorithms/sorting/bucketSortSteps';
+
+export const bucketSort: AlgorithmDefinition = {
+  info: {
+    id: 'bucket-sort',
+    name: 'Bucket Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n + k)', average: 'O(n + k)', worst: 'O(n²)' },
+    spaceComplexity: 'O(n + k)',
+    description: 'Scatters values into k equal-width buckets, sorts each bucket with insertion sort and concatenates them. Fast when the input is evenly spread.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateBucketSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'k = ceil(sqrt(n)); width = (hi - lo + 1) / k', indent: 0 },
+    { line: 1, code: 'buckets = [[] for _ in range(k)]', indent: 0 },
+    { line: 2, code: 'for x in arr: buckets[(x - lo) // width].append(x)', indent: 0 },
+    { line: 3, code: 'for b in buckets: insertion_sort(b)', indent: 0 },
+    { line: 4, code: 'arr = concatenate(buckets)', indent: 0 },
+    { line: 5, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5,
+  },
+  code: `import math
+
+def bucket_sort(arr):
+    lo, hi = min(arr), max(arr)
+    k = math.ceil(math.sqrt(len(arr)))
+    width = (hi - lo + 1) / k
+
+    buckets = [[] for _ in range(k)]
+    for x in arr:
+        index = min(k - 1, int((x - lo) // width))
+        buckets[index].append(x)
+
+    for bucket in buckets:
+        bucket.sort()  # Insertion sort in the visualizer
+
+    return [x for bucket in buckets for x in bucket]`,
+  sourceLineMapping: {
+    0: 4, 1: 7, 2: 10, 3: 13, 4: 15, 5: 15,
+  },
+  translations: {
+    javascript: {
+      code: `function bucketSort(arr) {
+  const lo = Math.min(...arr), hi = Math.max(...arr);
+  const k = Math.ceil(Math.sqrt(arr.length));
+  const width = (hi - lo + 1) / k;
+
+  const buckets = Array.from({ length: k }, () => []);
+  for (const x of arr) {
+    const index = Math.min(k - 1, Math.floor((x - lo) / width));
+    buckets[index].push(x);
+  }
+
+  for (const bucket of buckets) {
+    bucket.sort((a, b) => a - b);  // Insertion sort in the visualizer
+  }
+
+  return buckets.flat();
+}`,
+      lineMapping: {
+        0: 2, 1: 5, 2: 8, 3: 12, 4: 15, 5: 15,
+      },
+    },
+    java: {
+      code: `static int[] bucketSort(int[] arr) {
+    int lo = Arrays.stream(arr).min().getAsInt();
+    int hi = Arrays.stream(arr).max().getAsInt();
+    int k = (int) Math.ceil(Math.sqrt(arr.length));
+    double width = (hi - lo + 1) / (double) k;
+
+    List<List<Integer>> buckets = new ArrayList<>();
+    for (int b = 0; b < k; b++) buckets.add(new ArrayList<>());
+    for (int x : arr) {
+        int index = Math.min(k - 1, (int) ((x - lo) / width));
+        buckets.get(index).add(x);
+    }
+
+    for (List<Integer> bucket : buckets) {
+        Collections.sort(bucket);  // Insertion sort in the visualizer
+    }
+
+    int i = 0;
+    for (List<Integer> bucket : buckets) {
+        for (int x : bucket) arr[i++] = x;
+    }
+    return arr;
+}`,
+      lineMapping: {
+        0: 3, 1: 6, 2: 10, 3: 14, 4: 19, 5: 21,
+      },
+    },
+    cpp: {
+      code: `vector<int> bucketSort(const vector<int>& arr) {
+    auto [loIt, hiIt] = minmax_element(arr.begin(), arr.end());
+    int lo = *loIt, hi = *hiIt;
+    int k = ceil(sqrt(arr.size()));
+    double width = (hi - lo + 1) / (double) k;
+
+    vector<vector<int>> buckets(k);
+    for (int x : arr) {
+        int index = min(k - 1, (int) ((x - lo) / width));
+        buckets[index].push_back(x);
+    }
+
+    for (auto& bucket : buckets) {
+        sort(bucket.begin(), bucket.end());  // Insertion sort in the visualizer
+    }
+
+    vector<int> result;
+    for (auto& bucket : buckets) result.insert(result.end(), bucket.begin(), bucket.end());
+    return result;
+}`,
+      lineMapping: {
+        0: 3, 1: 6, 2: 9, 3: 13, 4: 17, 5: 18,
+      },
+    },
+  },
+};
@@ -0,0 +1,114 @@
+import { AuxiliaryArray, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+export function generateBucketSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  let arr = [...inputArray];
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  const lo = Math.min(...arr);
+  const hi = Math.max(...arr);
+  const k = Math.max(1, Math.ceil(Math.sqrt(n)));
+  const width = (hi - lo + 1) / k;
+  const buckets: number[][] = Array.from({ length: k }, () => []);
+  const ranges = buckets.map((_, b) => `${Math.ceil(lo + b * width)}–${Math.ceil(lo + (b + 1) * width) - 1}`);
+
+  const indexOf = (value: number) => Math.min(k - 1, Math.floor((value - lo) / width));
+  const auxiliary = (highlight: [number, number[]] | null = null): AuxiliaryArray[] =>
+    buckets.map((bucket, b) => ({
+      label: `bucket ${b} (${ranges[b]})`,
+      values: bucket,
+      highlight: highlight && highlight[0] === b ? highlight[1] : [],
+    }));
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: `Split the range ${lo}..${hi} into k = ⌈√${n}⌉ = ${k} equal-width buckets. Evenly spread input lands about ${Math.round(n / k)} per bucket.`,
+    before: arr,
+    pointers: { i: null },
+    metrics,
+  }));
+
+  steps.push(createArrayStep({
+    label: 'Create Buckets',
+    codeLine: 1,
+    explanation: `${k} empty buckets, covering ${ranges.join(', ')}.`,
+    before: arr,
+    pointers: { i: null },
+    metrics,
+    auxiliary: auxiliary(),
+  }));
+
+  metrics.passes++;
+  for (let i = 0; i < n; i++) {
+    const b = indexOf(arr[i]);
+    buckets[b].push(arr[i]);
+    metrics.swaps++;
+    steps.push(createArrayStep({
+      label: `Bucket ${arr[i]} → ${b}`,
+      codeLine: 2,
+      explanation: `${arr[i]} falls in ${ranges[b]}, so it goes into bucket ${b}.`,
+      before: arr,
+      highlights: { key: [i] },
+      pointers: { i },
+      metrics,
+      auxiliary: auxiliary([b, [buckets[b].length - 1]]),
+    }));
+  }
+
+  metrics.passes++;
+  buckets.forEach((bucket, b) => {
+    // Insertion sort inside the bucket; buckets are small so this is cheap.
+    const before = [...bucket];
+    for (let i = 1; i < bucket.length; i++) {
+      const key = bucket[i];
+      let j = i - 1;
+      while (j >= 0) {
+        metrics.comparisons++;
+        if (bucket[j] <= key) break;
+        bucket[j + 1] = bucket[j];
+        metrics.swaps++;
+        j--;
+      }
+      bucket[j + 1] = key;
+    }
+    steps.push(createArrayStep({
+      label: `Sort Bucket ${b}`,
+      codeLine: 3,
+      explanation: bucket.length < 2
+        ? `Bucket ${b} has ${bucket.length === 0 ? 'no elements' : 'one element'}, so it is already sorted.`
+        : `Insertion sort bucket ${b}: [${before.join(', ')}] → [${bucket.join(', ')}].`,
+      before: arr,
+      pointers: { i: null },
+      metrics,
+      auxiliary: auxiliary([b, allIndices(bucket.length)]),
+    }));
+  });
+
+  const beforeGather = arr;
+  arr = buckets.flat();
+  steps.push(createArrayStep({
+    label: 'Concatenate Buckets',
+    codeLine: 4,
+    explanation: 'Every value in bucket b is smaller than every value in bucket b + 1, so joining the sorted buckets in order gives the sorted array.',
+    before: beforeGather,
+    after: arr,
+    highlights: {},
+    afterHighlights: { sorted: allIndices(n) },
+    pointers: { i: null },
+    metrics,
+    auxiliary: auxiliary(),
+  }));
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 5,
+    explanation: `Array is now fully sorted! ${metrics.comparisons} comparisons were needed inside the buckets.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
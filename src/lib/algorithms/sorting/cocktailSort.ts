@@ -0,0 +1,160 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateCocktailSortSteps } from '@/lib/algorithms/sorting/cocktailSortSteps';
+
+export const cocktailSort: AlgorithmDefinition = {
+  info: {
+    id: 'cocktail-sort',
+    name: 'Cocktail Shaker Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n)', average: 'O(n²)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Bubble sort in both directions: each round pushes the largest value right, then the smallest value left.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateCocktailSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'start, end = 0, n - 1', indent: 0 },
+    { line: 1, code: 'while start < end:', indent: 0 },
+    { line: 2, code: 'for i in range(start, end):', indent: 1 },
+    { line: 3, code: 'if arr[i] > arr[i + 1]:', indent: 2 },
+    { line: 4, code: 'swap(arr[i], arr[i + 1])', indent: 3 },
+    { line: 5, code: 'end -= 1', indent: 1 },
+    { line: 6, code: 'for i in range(end - 1, start - 1, -1):', indent: 1 },
+    { line: 7, code: 'if arr[i] > arr[i + 1]:', indent: 2 },
+    { line: 8, code: 'swap(arr[i], arr[i + 1])', indent: 3 },
+    { line: 9, code: 'start += 1', indent: 1 },
+    { line: 10, code: 'if no swaps: break', indent: 1 },
+    { line: 11, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 3: 3, 4: 4, 5: 5, 7: 7, 8: 8, 9: 9, 10: 10, 11: 11,
+  },
+  code: `def cocktail_sort(arr):
+    start, end = 0, len(arr) - 1
+    swapped = True
+
+    while swapped and start < end:
+        swapped = False
+        # Forward pass: bubble the largest value to the end
+        for i in range(start, end):
+            if arr[i] > arr[i + 1]:
+                arr[i], arr[i + 1] = arr[i + 1], arr[i]
+                swapped = True
+        end -= 1
+        if not swapped:
+            break
+
+        swapped = False
+        # Backward pass: bubble the smallest value to the front
+        for i in range(end - 1, start - 1, -1):
+            if arr[i] > arr[i + 1]:
+                arr[i], arr[i + 1] = arr[i + 1], arr[i]
+                swapped = True
+        start += 1
+
+    return arr`,
+  sourceLineMapping: {
+    0: 1, 3: 8, 4: 9, 5: 11, 7: 18, 8: 19, 9: 21, 10: 12, 11: 23,
+  },
+  translations: {
+    javascript: {
+      code: `function cocktailSort(arr) {
+  let start = 0, end = arr.length - 1;
+  let swapped = true;
+
+  while (swapped && start < end) {
+    swapped = false;
+    // Forward pass: bubble the largest value to the end
+    for (let i = start; i < end; i++) {
+      if (arr[i] > arr[i + 1]) {
+        [arr[i], arr[i + 1]] = [arr[i + 1], arr[i]];
+        swapped = true;
+      }
+    }
+    end--;
+    if (!swapped) break;
+
+    swapped = false;
+    // Backward pass: bubble the smallest value to the front
+    for (let i = end - 1; i >= start; i--) {
+      if (arr[i] > arr[i + 1]) {
+        [arr[i], arr[i + 1]] = [arr[i + 1], arr[i]];
+        swapped = true;
+      }
+    }
+    start++;
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 1, 3: 8, 4: 9, 5: 13, 7: 19, 8: 20, 9: 24, 10: 14, 11: 27,
+      },
+    },
+    java: {
+      code: `static void cocktailSort(int[] arr) {
+    int start = 0, end = arr.length - 1;
+    boolean swapped = true;
+
+    while (swapped && start < end) {
+        swapped = false;
+        // Forward pass: bubble the largest value to the end
+        for (int i = start; i < end; i++) {
+            if (arr[i] > arr[i + 1]) {
+                int temp = arr[i]; arr[i] = arr[i + 1]; arr[i + 1] = temp;
+                swapped = true;
+            }
+        }
+        end--;
+        if (!swapped) break;
+
+        swapped = false;
+        // Backward pass: bubble the smallest value to the front
+        for (int i = end - 1; i >= start; i--) {
+            if (arr[i] > arr[i + 1]) {
+                int temp = arr[i]; arr[i] = arr[i + 1]; arr[i + 1] = temp;
+                swapped = true;
+            }
+        }
+        start++;
+    }
+}`,
+      lineMapping: {
+        0: 1, 3: 8, 4: 9, 5: 13, 7: 19, 8: 20, 9: 24, 10: 14, 11: 26,
+      },
+    },
+    cpp: {
+      code: `void cocktailSort(vector<int>& arr) {
+    int start = 0, end = arr.size() - 1;
+    bool swapped = true;
+
+    while (swapped && start < end) {
+        swapped = false;
+        // Forward pass: bubble the largest value to the end
+        for (int i = start; i < end; i++) {
+            if (arr[i] > arr[i + 1]) {
+                swap(arr[i], arr[i + 1]);
+                swapped = true;
+            }
+        }
+        end--;
+        if (!swapped) break;
+
+        swapped = false;
+        // Backward pass: bubble the smallest value to the front
+        for (int i = end - 1; i >= start; i--) {
+            if (arr[i] > arr[i + 1]) {
+                swap(arr[i], arr[i + 1]);
+                swapped = true;
+            }
+        }
+        start++;
+    }
+}`,
+      lineMapping: {
+        0: 1, 3: 8, 4: 9, 5: 13, 7: 19, 8: 20, 9: 24, 10: 14, 11: 26,
+      },
+    },
+  },
+};
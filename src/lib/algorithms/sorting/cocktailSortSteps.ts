@@ -0,0 +1,124 @@
+import { Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+export function generateCocktailSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray];
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  const sorted = new Set<number>();
+  const sortedList = () => Array.from(sorted).sort((a, b) => a - b);
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: 'Starting with the original array. Cocktail shaker sort is a bubble sort that alternates direction: large values bubble right, then small values bubble left.',
+    before: arr,
+    pointers: { start: 0, end: n - 1, i: null },
+    metrics,
+  }));
+
+  // One direction of the shake; returns whether anything moved.
+  const sweep = (from: number, to: number, step: 1 | -1, start: number, end: number): boolean => {
+    let swapped = false;
+    const compareLine = step === 1 ? 3 : 7;
+    for (let i = from; step === 1 ? i < to : i >= to; i += step) {
+      metrics.comparisons++;
+      const needsSwap = arr[i] > arr[i + 1];
+      steps.push(createArrayStep({
+        label: `Pass ${metrics.passes} ${step === 1 ? '→' : '←'}: Compare`,
+        codeLine: compareLine,
+        loopDepth: 2,
+        explanation: `Compare arr[${i}]=${arr[i]} with arr[${i + 1}]=${arr[i + 1]}. ${needsSwap ? 'Swap needed!' : 'No swap needed.'}`,
+        before: arr,
+        highlights: { compare: [i, i + 1], sorted: sortedList() },
+        pointers: { start, end, i },
+        moveArrows: [{ fromIndex: i, toIndex: i + 1, type: 'compare' }],
+        metrics,
+      }));
+      if (!needsSwap) continue;
+
+      const beforeSwap = [...arr];
+      [arr[i], arr[i + 1]] = [arr[i + 1], arr[i]];
+      metrics.swaps++;
+      swapped = true;
+      steps.push(createArrayStep({
+        label: `Pass ${metrics.passes} ${step === 1 ? '→' : '←'}: Swap`,
+        codeLine: compareLine + 1,
+        loopDepth: 2,
+        explanation: `Swapped ${beforeSwap[i]} and ${beforeSwap[i + 1]}, carrying the ${step === 1 ? 'larger value right' : 'smaller value left'}.`,
+        before: beforeSwap,
+        after: arr,
+        highlights: { swap: [i, i + 1], sorted: sortedList() },
+        pointers: { start, end, i },
+        moveArrows: [{ fromIndex: i, toIndex: i + 1, type: 'swap' }],
+        metrics,
+      }));
+    }
+    return swapped;
+  };
+
+  let start = 0;
+  let end = n - 1;
+  const earlyExit = () => steps.push(createArrayStep({
+    label: 'No Swaps: Early Exit',
+    codeLine: 10,
+    loopDepth: 1,
+    explanation: 'The last sweep made no swaps, so everything between start and end is already in order.',
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    pointers: { start, end, i: null },
+    metrics,
+  }));
+
+  while (start < end) {
+    metrics.passes++;
+    const forward = sweep(start, end, 1, start, end);
+    sorted.add(end);
+    end--;
+    steps.push(createArrayStep({
+      label: `Pass ${metrics.passes}: ${arr[end + 1]} Settled`,
+      codeLine: 5,
+      loopDepth: 1,
+      explanation: `The forward sweep carried the largest remaining value, ${arr[end + 1]}, to index ${end + 1}.`,
+      before: arr,
+      highlights: { sorted: sortedList() },
+      pointers: { start, end, i: null },
+      metrics,
+    }));
+    if (!forward) {
+      earlyExit();
+      break;
+    }
+    if (start >= end) break;
+
+    const backward = sweep(end - 1, start, -1, start, end);
+    sorted.add(start);
+    start++;
+    steps.push(createArrayStep({
+      label: `Pass ${metrics.passes}: ${arr[start - 1]} Settled`,
+      codeLine: 9,
+      loopDepth: 1,
+      explanation: `The backward sweep carried the smallest remaining value, ${arr[start - 1]}, to index ${start - 1}.`,
+      before: arr,
+      highlights: { sorted: sortedList() },
+      pointers: { start, end, i: null },
+      metrics,
+    }));
+    if (!backward) {
+      earlyExit();
+      break;
+    }
+  }
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 11,
+    explanation: `Array is now fully sorted! Total: ${metrics.comparisons} comparisons, ${metrics.swaps} swaps in ${metrics.passes} round trips.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
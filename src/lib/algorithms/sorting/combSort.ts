@@ -0,0 +1,117 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateCombSortSteps } from '@/lib/algorithms/sorting/combSortSteps';
+
+export const combSort: AlgorithmDefinition = {
+  info: {
+    id: 'comb-sort',
+    name: 'Comb Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n log n)', average: 'O(n²/2^p)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Bubble sort with a gap that shrinks by 1.3 each pass, so small values near the end move forward in big jumps.',
+    stable: false,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateCombSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'gap, is_sorted = n, False', indent: 0 },
+    { line: 1, code: 'while not is_sorted:', indent: 0 },
+    { line: 2, code: 'gap = max(1, int(gap / 1.3))', indent: 1 },
+    { line: 3, code: 'is_sorted = gap == 1', indent: 1 },
+    { line: 4, code: 'for i in range(n - gap):', indent: 1 },
+    { line: 5, code: 'if arr[i] > arr[i + gap]:', indent: 2 },
+    { line: 6, code: 'swap(arr[i], arr[i + gap]); is_sorted = False', indent: 3 },
+    { line: 7, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 5: 5, 6: 6, 7: 7,
+  },
+  code: `def comb_sort(arr):
+    n = len(arr)
+    gap = n
+    is_sorted = False
+
+    while not is_sorted:
+        gap = max(1, int(gap / 1.3))  # Shrink the gap
+        is_sorted = gap == 1          # Only a swap-free gap-1 pass ends it
+
+        for i in range(n - gap):
+            if arr[i] > arr[i + gap]:
+                arr[i], arr[i + gap] = arr[i + gap], arr[i]
+                is_sorted = False
+
+    return arr`,
+  sourceLineMapping: {
+    0: 2, 2: 6, 5: 10, 6: 11, 7: 14,
+  },
+  translations: {
+    javascript: {
+      code: `function combSort(arr) {
+  const n = arr.length;
+  let gap = n;
+  let isSorted = false;
+
+  while (!isSorted) {
+    gap = Math.max(1, Math.floor(gap / 1.3));  // Shrink the gap
+    isSorted = gap === 1;                       // Only a swap-free gap-1 pass ends it
+
+    for (let i = 0; i + gap < n; i++) {
+      if (arr[i] > arr[i + gap]) {
+        [arr[i], arr[i + gap]] = [arr[i + gap], arr[i]];
+        isSorted = false;
+      }
+    }
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 2, 2: 6, 5: 10, 6: 11, 7: 17,
+      },
+    },
+    java: {
+      code: `static void combSort(int[] arr) {
+    int n = arr.length;
+    int gap = n;
+    boolean isSorted = false;
+
+    while (!isSorted) {
+        gap = Math.max(1, (int) (gap / 1.3));  // Shrink the gap
+        isSorted = gap == 1;                    // Only a swap-free gap-1 pass ends it
+
+        for (int i = 0; i + gap < n; i++) {
+            if (arr[i] > arr[i + gap]) {
+                int temp = arr[i]; arr[i] = arr[i + gap]; arr[i + gap] = temp;
+                isSorted = false;
+            }
+        }
+    }
+}`,
+      lineMapping: {
+        0: 2, 2: 6, 5: 10, 6: 11, 7: 16,
+      },
+    },
+    cpp: {
+      code: `void combSort(vector<int>& arr) {
+    int n = arr.size();
+    int gap = n;
+    bool isSorted = false;
+
+    while (!isSorted) {
+        gap = max(1, (int) (gap / 1.3));  // Shrink the gap
+        isSorted = gap == 1;               // Only a swap-free gap-1 pass ends it
+
+        for (int i = 0; i + gap < n; i++) {
+            if (arr[i] > arr[i + gap]) {
+                swap(arr[i], arr[i + gap]);
+                isSorted = false;
+            }
+        }
+    }
+}`,
+      lineMapping: {
+        0: 2, 2: 6, 5: 10, 6: 11, 7: 16,
+      },
+    },
+  },
+};
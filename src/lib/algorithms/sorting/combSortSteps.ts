@@ -0,0 +1,88 @@
+import { Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+const SHRINK = 1.3;
+
+export function generateCombSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray];
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: 'Starting with the original array. Comb sort is bubble sort with a shrinking gap: far-apart pairs are fixed first, clearing small values stuck near the end ("turtles").',
+    before: arr,
+    pointers: { i: null, j: null },
+    metrics,
+  }));
+
+  let gap = n;
+  let sorted = false;
+  while (!sorted) {
+    gap = Math.max(1, Math.floor(gap / SHRINK));
+    sorted = gap === 1;
+    metrics.passes++;
+    steps.push(createArrayStep({
+      label: `Gap ${gap}`,
+      codeLine: 2,
+      loopDepth: 1,
+      explanation: gap === 1
+        ? 'The gap has shrunk to 1: this is a bubble sort pass. If it makes no swaps, the array is sorted.'
+        : `Shrink the gap by ${SHRINK} to ${gap}. Compare every pair ${gap} apart.`,
+      before: arr,
+      pointers: { i: null, j: null },
+      variables: { gap, sorted },
+      metrics,
+    }));
+
+    for (let i = 0; i + gap < n; i++) {
+      const k = i + gap;
+      metrics.comparisons++;
+      const needsSwap = arr[i] > arr[k];
+      steps.push(createArrayStep({
+        label: `Gap ${gap}: Compare`,
+        codeLine: 5,
+        loopDepth: 2,
+        explanation: `Compare arr[${i}]=${arr[i]} with arr[${k}]=${arr[k]}. ${needsSwap ? 'Swap needed!' : 'No swap needed.'}`,
+        before: arr,
+        highlights: { compare: [i, k] },
+        pointers: { i, j: k },
+        variables: { gap, sorted },
+        moveArrows: [{ fromIndex: i, toIndex: k, type: 'compare' }],
+        metrics,
+      }));
+      if (!needsSwap) continue;
+
+      const beforeSwap = [...arr];
+      [arr[i], arr[k]] = [arr[k], arr[i]];
+      metrics.swaps++;
+      sorted = false;
+      steps.push(createArrayStep({
+        label: `Gap ${gap}: Swap`,
+        codeLine: 6,
+        loopDepth: 2,
+        explanation: `Swapped ${beforeSwap[i]} and ${beforeSwap[k]}, ${gap} positions apart.`,
+        before: beforeSwap,
+        after: arr,
+        highlights: { swap: [i, k] },
+        pointers: { i, j: k },
+        variables: { gap, sorted },
+        moveArrows: [{ fromIndex: i, toIndex: k, type: 'swap' }],
+        metrics,
+      }));
+    }
+  }
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 7,
+    explanation: `A gap-1 pass made no swaps, so the array is sorted! Total: ${metrics.comparisons} comparisons, ${metrics.swaps} swaps.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
@@ -0,0 +1,142 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateCountingSortSteps } from '@/lib/algorithms/sorting/countingSortSteps';
+
+export const countingSort: AlgorithmDefinition = {
+  info: {
+    id: 'counting-sort',
+    name: 'Counting Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n + k)', average: 'O(n + k)', worst: 'O(n + k)' },
+    spaceComplexity: 'O(n + k)',
+    description: 'Counts how often each value occurs, turns the counts into positions with prefix sums, then places each element directly. No comparisons; k is the value range.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false, integersOnly: true },
+  generateSteps: ({ array }) => generateCountingSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'lo, hi = min(arr), max(arr)', indent: 0 },
+    { line: 1, code: 'count = [0] * (hi - lo + 1)', indent: 0 },
+    { line: 2, code: 'for x in arr: count[x - lo] += 1', indent: 0 },
+    { line: 3, code: 'for v in 1..k-1: count[v] += count[v - 1]', indent: 0 },
+    { line: 4, code: 'for x in reversed(arr):', indent: 0 },
+    { line: 5, code: 'count[x - lo] -= 1', indent: 1 },
+    { line: 6, code: 'output[count[x - lo]] = x', indent: 1 },
+    { line: 7, code: 'return output', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 6: 6, 7: 7,
+  },
+  code: `def counting_sort(arr):
+    lo, hi = min(arr), max(arr)
+    count = [0] * (hi - lo + 1)
+
+    # Tally each value
+    for x in arr:
+        count[x - lo] += 1
+
+    # Prefix sums: count[v] = number of elements <= v + lo
+    for v in range(1, len(count)):
+        count[v] += count[v - 1]
+
+    # Place from the right so equal values keep their order
+    output = [0] * len(arr)
+    for x in reversed(arr):
+        count[x - lo] -= 1
+        output[count[x - lo]] = x
+
+    return output`,
+  sourceLineMapping: {
+    0: 1, 1: 2, 2: 6, 3: 10, 6: 16, 7: 18,
+  },
+  translations: {
+    javascript: {
+      code: `function countingSort(arr) {
+  const lo = Math.min(...arr), hi = Math.max(...arr);
+  const count = new Array(hi - lo + 1).fill(0);
+
+  // Tally each value
+  for (const x of arr) {
+    count[x - lo]++;
+  }
+
+  // Prefix sums: count[v] = number of elements <= v + lo
+  for (let v = 1; v < count.length; v++) {
+    count[v] += count[v - 1];
+  }
+
+  // Place from the right so equal values keep their order
+  const output = new Array(arr.length);
+  for (let i = arr.length - 1; i >= 0; i--) {
+    const x = arr[i];
+    count[x - lo]--;
+    output[count[x - lo]] = x;
+  }
+
+  return output;
+}`,
+      lineMapping: {
+        0: 1, 1: 2, 2: 6, 3: 11, 6: 19, 7: 22,
+      },
+    },
+    java: {
+      code: `static int[] countingSort(int[] arr) {
+    int lo = Arrays.stream(arr).min().getAsInt();
+    int hi = Arrays.stream(arr).max().getAsInt();
+    int[] count = new int[hi - lo + 1];
+
+    // Tally each value
+    for (int x : arr) {
+        count[x - lo]++;
+    }
+
+    // Prefix sums: count[v] = number of elements <= v + lo
+    for (int v = 1; v < count.length; v++) {
+        count[v] += count[v - 1];
+    }
+
+    // Place from the right so equal values keep their order
+    int[] output = new int[arr.length];
+    for (int i = arr.length - 1; i >= 0; i--) {
+        int x = arr[i];
+        count[x - lo]--;
+        output[count[x - lo]] = x;
+    }
+
+    return output;
+}`,
+      lineMapping: {
+        0: 1, 1: 3, 2: 7, 3: 12, 6: 20, 7: 23,
+      },
+    },
+    cpp: {
+      code: `vector<int> countingSort(const vector<int>& arr) {
+    auto [loIt, hiIt] = minmax_element(arr.begin(), arr.end());
+    int lo = *loIt, hi = *hiIt;
+    vector<int> count(hi - lo + 1, 0);
+
+    // Tally each value
+    for (int x : arr) {
+        count[x - lo]++;
+    }
+
+    // Prefix sums: count[v] = number of elements <= v + lo
+    for (size_t v = 1; v < count.size(); v++) {
+        count[v] += count[v - 1];
+    }
+
+    // Place from the right so equal values keep their order
+    vector<int> output(arr.size());
+    for (int i = arr.size() - 1; i >= 0; i--) {
+        int x = arr[i];
+        count[x - lo]--;
+        output[count[x - lo]] = x;
+    }
+
+    return output;
+}`,
+      lineMapping: {
+        0: 1, 1: 3, 2: 7, 3: 12, 6: 20, 7: 23,
+      },
+    },
+  },
+};
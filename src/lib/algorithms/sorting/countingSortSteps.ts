@@ -0,0 +1,104 @@
+import { Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+export function generateCountingSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray];
+  const n = arr.length;
+  // Comparisons stay 0: counting sort never compares two elements.
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  const lo = Math.min(...arr);
+  const hi = Math.max(...arr);
+  const count: number[] = new Array(hi - lo + 1).fill(0);
+  const output: (number | null)[] = new Array(n).fill(null);
+  const countLabels = count.map((_, v) => String(v + lo));
+
+  const auxiliary = (countHighlight: number[] = [], outputHighlight: number[] = []) => [
+    { label: 'count', values: count, indexLabels: countLabels, highlight: countHighlight },
+    { label: 'output', values: output, highlight: outputHighlight },
+  ];
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: `Values range from ${lo} to ${hi}. Counting sort tallies how often each value occurs instead of comparing elements.`,
+    before: arr,
+    pointers: { i: null },
+    metrics,
+  }));
+
+  steps.push(createArrayStep({
+    label: 'Create Count Array',
+    codeLine: 1,
+    explanation: `One counter per possible value: ${count.length} slots for ${lo}..${hi}. Slot v - ${lo} counts value v.`,
+    before: arr,
+    pointers: { i: null },
+    metrics,
+    auxiliary: auxiliary(),
+  }));
+
+  metrics.passes++;
+  for (let i = 0; i < n; i++) {
+    count[arr[i] - lo]++;
+    metrics.swaps++;
+    steps.push(createArrayStep({
+      label: `Count ${arr[i]}`,
+      codeLine: 2,
+      explanation: `arr[${i}] = ${arr[i]}, so count[${arr[i]} - ${lo}] goes up to ${count[arr[i] - lo]}.`,
+      before: arr,
+      highlights: { key: [i] },
+      pointers: { i },
+      metrics,
+      auxiliary: auxiliary([arr[i] - lo]),
+    }));
+  }
+
+  metrics.passes++;
+  for (let v = 1; v < count.length; v++) {
+    count[v] += count[v - 1];
+    metrics.swaps++;
+    steps.push(createArrayStep({
+      label: `Prefix Sum at ${v + lo}`,
+      codeLine: 3,
+      explanation: `count[${v}] += count[${v - 1}] → ${count[v]}. Now it says how many elements are ≤ ${v + lo}, i.e. where the last ${v + lo} goes.`,
+      before: arr,
+      pointers: { i: null },
+      metrics,
+      auxiliary: auxiliary([v - 1, v]),
+    }));
+  }
+
+  // Walk backwards so equal values keep their order (stability).
+  metrics.passes++;
+  for (let i = n - 1; i >= 0; i--) {
+    const slot = arr[i] - lo;
+    count[slot]--;
+    output[count[slot]] = arr[i];
+    metrics.swaps++;
+    steps.push(createArrayStep({
+      label: `Place ${arr[i]}`,
+      codeLine: 6,
+      explanation: `arr[${i}] = ${arr[i]}. Decrement count[${slot}] to ${count[slot]} and write ${arr[i]} to output[${count[slot]}].`,
+      before: arr,
+      highlights: { key: [i] },
+      pointers: { i },
+      metrics,
+      auxiliary: auxiliary([slot], [count[slot]]),
+    }));
+  }
+
+  const sorted = output as number[];
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 7,
+    explanation: `Copy the output back. Sorted in O(n + k) with n = ${n} elements and k = ${count.length} possible values, using ${metrics.swaps} writes and no comparisons.`,
+    before: arr,
+    after: sorted,
+    highlights: {},
+    afterHighlights: { sorted: allIndices(n) },
+    metrics,
+    auxiliary: auxiliary(),
+  }));
+
+  return steps;
+}
@@ -0,0 +1,161 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateHeapSortSteps } from '@/lib/algorithms/sorting/heapSortSteps';
+
+export const heapSort: AlgorithmDefinition = {
+  info: {
+    id: 'heap-sort',
+    name: 'Heap Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n log n)' },
+    spaceComplexity: 'O(1)',
+    description: 'Uses binary heap data structure to sort. In-place with guaranteed O(n log n).',
+    stable: false,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateHeapSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'def heap_sort(arr):', indent: 0 },
+    { line: 1, code: 'build_max_heap(arr)', indent: 1 },
+    { line: 2, code: 'for i in range(n - 1, 0, -1):', indent: 1 },
+    { line: 3, code: 'arr[0], arr[i] = arr[i], arr[0]', indent: 2 },
+    { line: 4, code: 'heapify(arr, i, 0)', indent: 2 },
+    { line: 5, code: 'return arr', indent: 1 },
+    { line: 6, code: '# helper: heapify()', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6,
+  },
+  code: `def heap_sort(arr):
+    n = len(arr)
+    
+    # Build max heap
+    for i in range(n // 2 - 1, -1, -1):
+        heapify(arr, n, i)
+    
+    # Extract elements from heap
+    for i in range(n - 1, 0, -1):
+        arr[0], arr[i] = arr[i], arr[0]
+        heapify(arr, i, 0)
+    
+    return arr
+
+def heapify(arr, n, i):
+    largest = i
+    left = 2 * i + 1
+    right = 2 * i + 2
+    
+    if left < n and arr[left] > arr[largest]:
+        largest = left
+    if right < n and arr[right] > arr[largest]:
+        largest = right
+    
+    if largest != i:
+        arr[i], arr[largest] = arr[largest], arr[i]
+        heapify(arr, n, largest)`,
+  sourceLineMapping: {
+    0: 0, 1: 5, 2: 8, 3: 9, 4: 10, 5: 12, 6: 14,
+  },
+  translations: {
+    javascript: {
+      code: `function heapSort(arr) {
+  const n = arr.length;
+
+  // Build max heap
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    heapify(arr, n, i);
+  }
+
+  // Extract elements from heap
+  for (let i = n - 1; i > 0; i--) {
+    [arr[0], arr[i]] = [arr[i], arr[0]];
+    heapify(arr, i, 0);
+  }
+
+  return arr;
+}
+
+function heapify(arr, n, i) {
+  let largest = i;
+  const left = 2 * i + 1;
+  const right = 2 * i + 2;
+
+  if (left < n && arr[left] > arr[largest]) largest = left;
+  if (right < n && arr[right] > arr[largest]) largest = right;
+
+  if (largest !== i) {
+    [arr[i], arr[largest]] = [arr[largest], arr[i]];
+    heapify(arr, n, largest);
+  }
+}`,
+      lineMapping: {
+        0: 0, 1: 5, 2: 9, 3: 10, 4: 11, 5: 14, 6: 17,
+      },
+    },
+    java: {
+      code: `static void heapSort(int[] arr) {
+    int n = arr.length;
+
+    // Build max heap
+    for (int i = n / 2 - 1; i >= 0; i--) {
+        heapify(arr, n, i);
+    }
+
+    // Extract elements from heap
+    for (int i = n - 1; i > 0; i--) {
+        int temp = arr[0]; arr[0] = arr[i]; arr[i] = temp;
+        heapify(arr, i, 0);
+    }
+}
+
+static void heapify(int[] arr, int n, int i) {
+    int largest = i;
+    int left = 2 * i + 1;
+    int right = 2 * i + 2;
+
+    if (left < n && arr[left] > arr[largest]) largest = left;
+    if (right < n && arr[right] > arr[largest]) largest = right;
+
+    if (largest != i) {
+        int temp = arr[i]; arr[i] = arr[largest]; arr[largest] = temp;
+        heapify(arr, n, largest);
+    }
+}`,
+      lineMapping: {
+        0: 0, 1: 5, 2: 9, 3: 10, 4: 11, 5: 13, 6: 15,
+      },
+    },
+    cpp: {
+      code: `void heapify(vector<int>& arr, int n, int i) {
+    int largest = i;
+    int left = 2 * i + 1;
+    int right = 2 * i + 2;
+
+    if (left < n && arr[left] > arr[largest]) largest = left;
+    if (right < n && arr[right] > arr[largest]) largest = right;
+
+    if (largest != i) {
+        swap(arr[i], arr[largest]);
+        heapify(arr, n, largest);
+    }
+}
+
+void heapSort(vector<int>& arr) {
+    int n = arr.size();
+
+    // Build max heap
+    for (int i = n / 2 - 1; i >= 0; i--) {
+        heapify(arr, n, i);
+    }
+
+    // Extract elements from heap
+    for (int i = n - 1; i > 0; i--) {
+        swap(arr[0], arr[i]);
+        heapify(arr, i, 0);
+    }
+}`,
+      lineMapping: {
+        0: 14, 1: 19, 2: 23, 3: 24, 4: 25, 5: 27, 6: 0,
+      },
+    },
+  },
+};
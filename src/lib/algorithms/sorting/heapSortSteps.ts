@@ -64,6 +64,7 @@ export function generateHeapSortSteps(inputArray: number[]): Step[] {
           after: { ...createEmptyHighlights(), swap: [i, largest], sorted: sortedIndices },
         },
         pointers: { parent: i, child: largest },
+        variables: { heapSize, largest, left, right },
         moveArrows: [{ fromIndex: i, toIndex: largest, type: 'swap' }],
         codeLine: 2,
         explanation: `Swap arr[${i}]=${beforeState[i]} with larger child arr[${largest}]=${beforeState[largest]} to maintain heap property.`,
@@ -104,6 +105,7 @@ export function generateHeapSortSteps(inputArray: number[]): Step[] {
       after: { ...createEmptyHighlights(), key: [0] },
     },
     pointers: { max: 0 },
+    variables: { heapSize: n },
     moveArrows: [],
     codeLine: 1,
     explanation: `Max heap built! Root element ${arr[0]} is the maximum. Now extract elements one by one.`,
@@ -130,6 +132,7 @@ export function generateHeapSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), sorted: [...sortedIndices, i] },
       },
       pointers: { max: 0, end: i },
+      variables: { heapSize: i },
       moveArrows: [{ fromIndex: 0, toIndex: i, type: 'swap' }],
       codeLine: 3,
       explanation: `Extract max ${beforeState[0]} to position ${i}. Element is now sorted!`,
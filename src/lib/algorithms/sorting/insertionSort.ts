@@ -0,0 +1,122 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateInsertionSortSteps } from '@/lib/algorithms/sorting/insertionSortSteps';
+
+export const insertionSort: AlgorithmDefinition = {
+  info: {
+    id: 'insertion-sort',
+    name: 'Insertion Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n)', average: 'O(n²)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Builds sorted array one element at a time by inserting each element into its correct position.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateInsertionSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'for i in range(1, n):', indent: 0 },
+    { line: 1, code: 'key = arr[i]', indent: 1 },
+    { line: 2, code: 'j = i - 1', indent: 1 },
+    { line: 3, code: 'while j >= 0 and arr[j] > key:', indent: 1 },
+    { line: 4, code: 'arr[j + 1] = arr[j]  # shift', indent: 2 },
+    { line: 5, code: 'j -= 1', indent: 2 },
+    { line: 6, code: 'arr[j + 1] = key', indent: 1 },
+    { line: 7, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 3, 3: 4, 4: 6, 5: 7,
+  },
+  code: `def insertion_sort(arr):
+    n = len(arr)
+    
+    for i in range(1, n):
+        # Store the current element as key
+        key = arr[i]
+        j = i - 1
+        
+        # Shift elements greater than key
+        while j >= 0 and arr[j] > key:
+            arr[j + 1] = arr[j]
+            j -= 1
+        
+        # Insert key at correct position
+        arr[j + 1] = key
+    
+    return arr`,
+  sourceLineMapping: {
+    0: 3, 1: 5, 2: 9, 3: 10, 4: 14, 5: 16,
+  },
+  translations: {
+    javascript: {
+      code: `function insertionSort(arr) {
+  const n = arr.length;
+
+  for (let i = 1; i < n; i++) {
+    // Store the current element as key
+    const key = arr[i];
+    let j = i - 1;
+
+    // Shift elements greater than key
+    while (j >= 0 && arr[j] > key) {
+      arr[j + 1] = arr[j];
+      j--;
+    }
+
+    // Insert key at correct position
+    arr[j + 1] = key;
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 9, 3: 10, 4: 15, 5: 18,
+      },
+    },
+    java: {
+      code: `static void insertionSort(int[] arr) {
+    int n = arr.length;
+
+    for (int i = 1; i < n; i++) {
+        // Store the current element as key
+        int key = arr[i];
+        int j = i - 1;
+
+        // Shift elements greater than key
+        while (j >= 0 && arr[j] > key) {
+            arr[j + 1] = arr[j];
+            j--;
+        }
+
+        // Insert key at correct position
+        arr[j + 1] = key;
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 9, 3: 10, 4: 15, 5: 17,
+      },
+    },
+    cpp: {
+      code: `void insertionSort(vector<int>& arr) {
+    int n = arr.size();
+
+    for (int i = 1; i < n; i++) {
+        // Store the current element as key
+        int key = arr[i];
+        int j = i - 1;
+
+        // Shift elements greater than key
+        while (j >= 0 && arr[j] > key) {
+            arr[j + 1] = arr[j];
+            j--;
+        }
+
+        // Insert key at correct position
+        arr[j + 1] = key;
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 9, 3: 10, 4: 15, 5: 17,
+      },
+    },
+  },
+};
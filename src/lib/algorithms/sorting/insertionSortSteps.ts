@@ -43,8 +43,10 @@ export function generateInsertionSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), key: [i], sorted: sortedIndices },
       },
       pointers: { i, j: null, key: i },
+      variables: { key },
       moveArrows: [],
       codeLine: 1,
+      loopDepth: 1,
       explanation: `Pick element at index ${i} (value: ${key}) as the key to insert.`,
       metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
     });
@@ -63,8 +65,10 @@ export function generateInsertionSortSteps(inputArray: number[]): Step[] {
           after: { ...createEmptyHighlights(), compare: [j], key: [i], sorted: sortedIndices.filter(x => x !== j) },
         },
         pointers: { i, j, key: i },
+        variables: { key },
         moveArrows: [{ fromIndex: j, toIndex: i, type: 'compare' }],
         codeLine: 2,
+        loopDepth: 2,
         explanation: `Compare arr[${j}]=${arr[j]} with key=${key}. Since ${arr[j]} > ${key}, we need to shift.`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -83,8 +87,10 @@ export function generateInsertionSortSteps(inputArray: number[]): Step[] {
           after: { ...createEmptyHighlights(), shift: [j + 1], key: [i], sorted: sortedIndices.filter(x => x !== j && x !== j + 1) },
         },
         pointers: { i, j, key: i },
+        variables: { key },
         moveArrows: [{ fromIndex: j, toIndex: j + 1, type: 'shift' }],
         codeLine: 3,
+        loopDepth: 2,
         explanation: `Shift arr[${j}]=${beforeShift[j]} to position ${j + 1}.`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -104,8 +110,10 @@ export function generateInsertionSortSteps(inputArray: number[]): Step[] {
           after: { ...createEmptyHighlights(), compare: [j], sorted: sortedIndices },
         },
         pointers: { i, j, key: i },
+        variables: { key },
         moveArrows: [],
         codeLine: 2,
+        loopDepth: 2,
         explanation: `Compare arr[${j}]=${arr[j]} with key=${key}. Since ${arr[j]} ≤ ${key}, stop shifting.`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -125,8 +133,10 @@ export function generateInsertionSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), key: [j + 1], sorted: newSortedIndices },
       },
       pointers: { i, j: j + 1, key: j + 1 },
+      variables: { key },
       moveArrows: [{ fromIndex: i, toIndex: j + 1, type: 'shift' }],
       codeLine: 4,
+      loopDepth: 1,
       explanation: `Insert key=${key} at position ${j + 1}.`,
       metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
     });
@@ -0,0 +1,155 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateMergeSortSteps } from '@/lib/algorithms/sorting/mergeSortSteps';
+
+export const mergeSort: AlgorithmDefinition = {
+  info: {
+    id: 'merge-sort',
+    name: 'Merge Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n log n)' },
+    spaceComplexity: 'O(n)',
+    description: 'Divides array into halves, sorts recursively, then merges. Consistent performance.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateMergeSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'def merge_sort(arr):', indent: 0 },
+    { line: 1, code: 'if len(arr) <= 1:', indent: 1 },
+    { line: 2, code: 'return arr', indent: 2 },
+    { line: 3, code: 'mid = len(arr) // 2', indent: 1 },
+    { line: 4, code: 'left = merge_sort(arr[:mid])', indent: 1 },
+    { line: 5, code: 'right = merge_sort(arr[mid:])', indent: 1 },
+    { line: 6, code: 'return merge(left, right)', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 2, 2: 5, 3: 5, 4: 6,
+  },
+  code: `def merge_sort(arr):
+    if len(arr) <= 1:
+        return arr
+    
+    mid = len(arr) // 2
+    left = merge_sort(arr[:mid])
+    right = merge_sort(arr[mid:])
+    
+    return merge(left, right)
+
+def merge(left, right):
+    result = []
+    i = j = 0
+    
+    while i < len(left) and j < len(right):
+        if left[i] <= right[j]:
+            result.append(left[i])
+            i += 1
+        else:
+            result.append(right[j])
+            j += 1
+    
+    result.extend(left[i:])
+    result.extend(right[j:])
+    return result`,
+  sourceLineMapping: {
+    0: 0, 1: 2, 2: 6, 3: 6, 4: 8,
+  },
+  translations: {
+    javascript: {
+      code: `function mergeSort(arr) {
+  if (arr.length <= 1) {
+    return arr;
+  }
+
+  const mid = Math.floor(arr.length / 2);
+  const left = mergeSort(arr.slice(0, mid));
+  const right = mergeSort(arr.slice(mid));
+
+  return merge(left, right);
+}
+
+function merge(left, right) {
+  const result = [];
+  let i = 0, j = 0;
+
+  while (i < left.length && j < right.length) {
+    if (left[i] <= right[j]) {
+      result.push(left[i++]);
+    } else {
+      result.push(right[j++]);
+    }
+  }
+
+  return result.concat(left.slice(i), right.slice(j));
+}`,
+      lineMapping: {
+        0: 0, 1: 2, 2: 7, 3: 7, 4: 9,
+      },
+    },
+    java: {
+      code: `static int[] mergeSort(int[] arr) {
+    if (arr.length <= 1) {
+        return arr;
+    }
+
+    int mid = arr.length / 2;
+    int[] left = mergeSort(Arrays.copyOfRange(arr, 0, mid));
+    int[] right = mergeSort(Arrays.copyOfRange(arr, mid, arr.length));
+
+    return merge(left, right);
+}
+
+static int[] merge(int[] left, int[] right) {
+    int[] result = new int[left.length + right.length];
+    int i = 0, j = 0, k = 0;
+
+    while (i < left.length && j < right.length) {
+        if (left[i] <= right[j]) {
+            result[k++] = left[i++];
+        } else {
+            result[k++] = right[j++];
+        }
+    }
+
+    while (i < left.length) result[k++] = left[i++];
+    while (j < right.length) result[k++] = right[j++];
+    return result;
+}`,
+      lineMapping: {
+        0: 0, 1: 2, 2: 7, 3: 7, 4: 9,
+      },
+    },
+    cpp: {
+      code: `vector<int> merge(const vector<int>& left, const vector<int>& right) {
+    vector<int> result;
+    size_t i = 0, j = 0;
+
+    while (i < left.size() && j < right.size()) {
+        if (left[i] <= right[j]) {
+            result.push_back(left[i++]);
+        } else {
+            result.push_back(right[j++]);
+        }
+    }
+
+    result.insert(result.end(), left.begin() + i, left.end());
+    result.insert(result.end(), right.begin() + j, right.end());
+    return result;
+}
+
+vector<int> mergeSort(const vector<int>& arr) {
+    if (arr.size() <= 1) {
+        return arr;
+    }
+
+    size_t mid = arr.size() / 2;
+    vector<int> left = mergeSort(vector<int>(arr.begin(), arr.begin() + mid));
+    vector<int> right = mergeSort(vector<int>(arr.begin() + mid, arr.end()));
+
+    return merge(left, right);
+}`,
+      lineMapping: {
+        0: 17, 1: 19, 2: 24, 3: 24, 4: 26,
+      },
+    },
+  },
+};
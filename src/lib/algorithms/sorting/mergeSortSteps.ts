@@ -1,4 +1,5 @@
 import { Step, createEmptyHighlights } from '@/lib/stepTypes';
+import { createCallStack } from '@/lib/algorithms/callStack';
 
 export function generateMergeSortSteps(inputArray: number[]): Step[] {
   const steps: Step[] = [];
@@ -8,6 +9,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
   let totalComparisons = 0;
   let totalMerges = 0;
   let passCount = 0;
+  const callStack = createCallStack();
 
   // Initial state
   steps.push({
@@ -19,6 +21,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
       after: createEmptyHighlights(),
     },
     pointers: {},
+    callStack: callStack.snapshot(),
     moveArrows: [],
     codeLine: 0,
     explanation: 'Starting Merge Sort. We will divide the array, sort each half, then merge them back together.',
@@ -27,6 +30,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
 
   function mergeSort(left: number, right: number): void {
     if (left >= right) return;
+    callStack.enter('merge_sort', { left, right }, steps.length);
 
     const mid = Math.floor((left + right) / 2);
     passCount++;
@@ -41,6 +45,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), key: Array.from({ length: mid - left + 1 }, (_, i) => left + i), shift: Array.from({ length: right - mid }, (_, i) => mid + 1 + i) },
       },
       pointers: { left, mid, right },
+      callStack: callStack.snapshot(),
       moveArrows: [],
       codeLine: 1,
       explanation: `Divide array[${left}...${right}] into two halves: [${left}...${mid}] and [${mid + 1}...${right}].`,
@@ -50,6 +55,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
     mergeSort(left, mid);
     mergeSort(mid + 1, right);
     merge(left, mid, right);
+    callStack.exit();
   }
 
   function merge(left: number, mid: number, right: number): void {
@@ -59,6 +65,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
     
     let i = 0, j = 0, k = left;
     totalMerges++;
+    callStack.enter('merge', { left, mid, right }, steps.length);
 
     steps.push({
       label: `Merge [${left}-${right}]`,
@@ -69,6 +76,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), key: Array.from({ length: mid - left + 1 }, (_, i) => left + i), shift: Array.from({ length: right - mid }, (_, i) => mid + 1 + i) },
       },
       pointers: { left, mid, right },
+      callStack: callStack.snapshot(),
       moveArrows: [],
       codeLine: 2,
       explanation: `Merging subarrays [${leftArr.join(',')}] and [${rightArr.join(',')}].`,
@@ -100,6 +108,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
       k++;
     }
 
+    callStack.returns(arr.slice(left, right + 1));
     steps.push({
       label: `Merged [${left}-${right}]`,
       before: beforeState,
@@ -109,11 +118,13 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
         after: { ...createEmptyHighlights(), sorted: Array.from({ length: right - left + 1 }, (_, i) => left + i) },
       },
       pointers: { left, right },
+      callStack: callStack.snapshot(),
       moveArrows: [],
       codeLine: 3,
       explanation: `Merged result: [${arr.slice(left, right + 1).join(',')}]. Elements are now sorted in this range.`,
       metrics: { comparisons: totalComparisons, swaps: totalMerges, passes: passCount },
     });
+    callStack.exit();
   }
 
   mergeSort(0, n - 1);
@@ -128,6 +139,7 @@ export function generateMergeSortSteps(inputArray: number[]): Step[] {
       after: { ...createEmptyHighlights(), sorted: Array.from({ length: n }, (_, i) => i) },
     },
     pointers: {},
+    callStack: callStack.snapshot(),
     moveArrows: [],
     codeLine: 4,
     explanation: `Array is now fully sorted! Total: ${totalComparisons} comparisons, ${totalMerges} merge operations.`,
@@ -0,0 +1,129 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateQuickSortSteps } from '@/lib/algorithms/sorting/quickSortSteps';
+
+export const quickSort: AlgorithmDefinition = {
+  info: {
+    id: 'quick-sort',
+    name: 'Quick Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n²)' },
+    spaceComplexity: 'O(log n)',
+    description: 'Picks a pivot, partitions around it, then recursively sorts sub-arrays. Very fast in practice.',
+    stable: false,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateQuickSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'def quick_sort(arr, low, high):', indent: 0 },
+    { line: 1, code: 'pivot = arr[high]', indent: 1 },
+    { line: 2, code: 'for j in range(low, high):', indent: 1 },
+    { line: 3, code: 'if arr[j] <= pivot:', indent: 2 },
+    { line: 4, code: 'arr[i], arr[j] = arr[j], arr[i]', indent: 3 },
+    { line: 5, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5,
+  },
+  code: `def partition(arr, low, high):
+    pivot = arr[high]
+    i = low - 1
+
+    for j in range(low, high):
+        if arr[j] <= pivot:
+            i += 1
+            arr[i], arr[j] = arr[j], arr[i]
+
+    arr[i + 1], arr[high] = arr[high], arr[i + 1]
+    return i + 1
+
+
+def quick_sort(arr, low, high):
+    if low < high:
+        pivot_index = partition(arr, low, high)
+        quick_sort(arr, low, pivot_index - 1)
+        quick_sort(arr, pivot_index + 1, high)`,
+  translations: {
+    javascript: {
+      code: `function partition(arr, low, high) {
+  const pivot = arr[high];
+  let i = low - 1;
+
+  for (let j = low; j < high; j++) {
+    if (arr[j] <= pivot) {
+      i++;
+      [arr[i], arr[j]] = [arr[j], arr[i]];
+    }
+  }
+
+  [arr[i + 1], arr[high]] = [arr[high], arr[i + 1]];
+  return i + 1;
+}
+
+function quickSort(arr, low, high) {
+  if (low < high) {
+    const pivotIndex = partition(arr, low, high);
+    quickSort(arr, low, pivotIndex - 1);
+    quickSort(arr, pivotIndex + 1, high);
+  }
+}`,
+      lineMapping: {
+        1: 1, 5: 5, 7: 7, 9: 11, 16: 18, 17: 19,
+      },
+    },
+    java: {
+      code: `static int partition(int[] arr, int low, int high) {
+    int pivot = arr[high];
+    int i = low - 1;
+
+    for (int j = low; j < high; j++) {
+        if (arr[j] <= pivot) {
+            i++;
+            int temp = arr[i]; arr[i] = arr[j]; arr[j] = temp;
+        }
+    }
+
+    int temp = arr[i + 1]; arr[i + 1] = arr[high]; arr[high] = temp;
+    return i + 1;
+}
+
+static void quickSort(int[] arr, int low, int high) {
+    if (low < high) {
+        int pivotIndex = partition(arr, low, high);
+        quickSort(arr, low, pivotIndex - 1);
+        quickSort(arr, pivotIndex + 1, high);
+    }
+}`,
+      lineMapping: {
+        1: 1, 5: 5, 7: 7, 9: 11, 16: 18, 17: 19,
+      },
+    },
+    cpp: {
+      code: `int partition(vector<int>& arr, int low, int high) {
+    int pivot = arr[high];
+    int i = low - 1;
+
+    for (int j = low; j < high; j++) {
+        if (arr[j] <= pivot) {
+            i++;
+            swap(arr[i], arr[j]);
+        }
+    }
+
+    swap(arr[i + 1], arr[high]);
+    return i + 1;
+}
+
+void quickSort(vector<int>& arr, int low, int high) {
+    if (low < high) {
+        int pivotIndex = partition(arr, low, high);
+        quickSort(arr, low, pivotIndex - 1);
+        quickSort(arr, pivotIndex + 1, high);
+    }
+}`,
+      lineMapping: {
+        1: 1, 5: 5, 7: 7, 9: 11, 16: 18, 17: 19,
+      },
+    },
+  },
+  highlightMode: 'source',
+};
@@ -1,4 +1,5 @@
 import { Step, createEmptyHighlights } from '@/lib/stepTypes';
+import { createCallStack } from '@/lib/algorithms/callStack';
 
 export function generateQuickSortSteps(inputArray: number[]): Step[] {
   const steps: Step[] = [];
@@ -8,6 +9,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
   let totalComparisons = 0;
   let totalSwaps = 0;
   const fixedPivots = new Set<number>();
+  const callStack = createCallStack();
 
   // 0-based line indices for the *exact* debugger Python code (see src/lib/algorithmCode.ts).
   const L = {
@@ -52,6 +54,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
       after: createEmptyHighlights(),
     },
     pointers: {},
+    callStack: callStack.snapshot(),
     moveArrows: [],
     codeLine: -1,
     explanation: 'Starting Quick Sort. We pick a pivot, partition array around it, then sort sub-arrays recursively.',
@@ -59,6 +62,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
   });
 
   function quickSort(low: number, high: number): void {
+    callStack.enter('quick_sort', { low, high }, steps.length);
     if (low < high) {
       const pivotIndex = partition(low, high);
 
@@ -81,6 +85,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
           },
         },
         pointers: { low, high: pivotIndex - 1, i: null, j: null, pivot: null },
+        callStack: callStack.snapshot(),
         moveArrows: [],
         codeLine: L.RECURSE_LEFT,
         explanation: `Executing quick_sort(arr, low, pivot_index - 1). Active subarray is [${low}..${pivotIndex - 1}] (others are frozen).`,
@@ -105,6 +110,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
           },
         },
         pointers: { low: pivotIndex + 1, high, i: null, j: null, pivot: null },
+        callStack: callStack.snapshot(),
         moveArrows: [],
         codeLine: L.RECURSE_RIGHT,
         explanation: `Executing quick_sort(arr, pivot_index + 1, high). Active subarray is [${pivotIndex + 1}..${high}] (others are frozen).`,
@@ -112,9 +118,11 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
       });
       quickSort(pivotIndex + 1, high);
     }
+    callStack.exit();
   }
 
   function partition(low: number, high: number): number {
+    callStack.enter('partition', { low, high }, steps.length);
     const pivot = arr[high];
     let i = low - 1;
 
@@ -140,6 +148,8 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
         },
       },
       pointers: { low, high, pivot: high, i },
+      callStack: callStack.snapshot(),
+      variables: { pivot },
       moveArrows: [],
       codeLine: L.PIVOT_ASSIGN,
       explanation: `Entering partition(arr, low=${low}, high=${high}). Set pivot = arr[high] = ${pivot} and i = low - 1 = ${i}. Only this subarray is active.`,
@@ -171,6 +181,8 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
           },
         },
         pointers: { low, high, pivot: high, i, j },
+        callStack: callStack.snapshot(),
+        variables: { pivot },
         moveArrows: [{ fromIndex: j, toIndex: high, type: 'compare' }],
         codeLine: L.IF_CMP,
         explanation: `Executing if arr[j] <= pivot. Compare arr[${j}] = ${arr[j]} with pivot (arr[${high}]) = ${pivot}. ${arr[j] <= pivot ? 'Condition is TRUE (<=), so we will increment i and swap.' : 'Condition is FALSE (>), so we will not swap; only j moves forward.'}`,
@@ -209,6 +221,8 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
             },
           },
           pointers: { low, high, pivot: high, i, j },
+          callStack: callStack.snapshot(),
+          variables: { pivot },
           moveArrows: i === j ? [] : [{ fromIndex: i, toIndex: j, type: 'swap' }],
           codeLine: L.SWAP_IJ,
           explanation: `Condition was TRUE (arr[${j}] <= pivot). i moved from ${prevI} to ${i} (executing i += 1), then we execute arr[i], arr[j] = arr[j], arr[i]. ${i === j ? `This swaps index ${i} with itself (no visible change), but the swap statement still executed.` : `Swapped indices ${i} and ${j} to move the <= pivot element into the left partition.`}`,
@@ -236,6 +250,8 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
             },
           },
           pointers: { low, high, pivot: high, i, j },
+          callStack: callStack.snapshot(),
+          variables: { pivot },
           moveArrows: [],
           codeLine: L.IF_CMP,
           explanation: `Condition was FALSE (arr[${j}] > pivot), so the code does NOT execute i += 1 and does NOT swap. i stays at ${i}. Next, j advances to the next index in the for-loop.`,
@@ -268,6 +284,8 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
         },
       },
       pointers: { low, high, pivot: high, i, j: null },
+      callStack: callStack.snapshot(),
+      variables: { pivot },
       moveArrows: pivotFinalIndex === high ? [] : [{ fromIndex: high, toIndex: pivotFinalIndex, type: 'swap' }],
       codeLine: L.PIVOT_SWAP,
       explanation: `The for-loop is finished. Now execute arr[i + 1], arr[high] = arr[high], arr[i + 1] to place the pivot. Pivot (${pivot}) moves from index ${high} to index ${pivotFinalIndex}.`,
@@ -280,6 +298,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
     arr[high] = tmp;
     totalSwaps++;
     fixedPivots.add(pivotFinalIndex);
+    callStack.returns(pivotFinalIndex);
 
     steps.push({
       label: `Pivot Placement`,
@@ -300,12 +319,15 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
         },
       },
       pointers: { low, high, pivot: pivotFinalIndex, i, j: null },
+      callStack: callStack.snapshot(),
+      variables: { pivot },
       moveArrows: pivotFinalIndex === high ? [] : [{ fromIndex: high, toIndex: pivotFinalIndex, type: 'swap' }],
       codeLine: L.PIVOT_SWAP,
       explanation: `Pivot placement swap executed. Index ${pivotFinalIndex} is now fixed (correct position for pivot ${pivot}). IMPORTANT: only this pivot is guaranteed correct; the left and right subarrays may still be unsorted until their recursive calls run.`,
       metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: 0 },
     });
 
+    callStack.exit();
     return pivotFinalIndex;
   }
 
@@ -321,6 +343,7 @@ export function generateQuickSortSteps(inputArray: number[]): Step[] {
       after: { ...createEmptyHighlights(), sorted: Array.from({ length: n }, (_, i) => i) },
     },
     pointers: {},
+    callStack: callStack.snapshot(),
     moveArrows: [],
     codeLine: -1,
     explanation: `Array is now fully sorted! Total: ${totalComparisons} comparisons, ${totalSwaps} swaps.`,
@@ -0,0 +1,106 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateRadixSortSteps } from '@/lib/algorithms/sorting/radixSortSteps';
+
+export const radixSort: AlgorithmDefinition = {
+  info: {
+    id: 'radix-sort',
+    name: 'Radix Sort (LSD)',
+    category: 'sorting',
+    timeComplexity: { best: 'O(d·(n + b))', average: 'O(d·(n + b))', worst: 'O(d·(n + b))' },
+    spaceComplexity: 'O(n + b)',
+    description: 'Sorts by one digit at a time, least significant first, using stable buckets 0-9. d is the number of digits and b the base.',
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false, integersOnly: true },
+  generateSteps: ({ array }) => generateRadixSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'exp = 1', indent: 0 },
+    { line: 1, code: 'while max(arr) // exp > 0:', indent: 0 },
+    { line: 2, code: 'buckets = [[] for _ in range(10)]', indent: 1 },
+    { line: 3, code: 'for x in arr: buckets[(x // exp) % 10].append(x)', indent: 1 },
+    { line: 4, code: 'arr = [x for b in buckets for x in b]', indent: 1 },
+    { line: 5, code: 'exp *= 10', indent: 1 },
+    { line: 6, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 2: 2, 3: 3, 4: 4, 6: 6,
+  },
+  code: `def radix_sort(arr):
+    # Assumes non-negative integers
+    exp = 1
+    while max(arr) // exp > 0:
+        buckets = [[] for _ in range(10)]
+        for x in arr:
+            digit = (x // exp) % 10
+            buckets[digit].append(x)  # Appending keeps it stable
+        arr = [x for bucket in buckets for x in bucket]
+        exp *= 10
+    return arr`,
+  sourceLineMapping: {
+    0: 2, 2: 4, 3: 7, 4: 8, 6: 10,
+  },
+  translations: {
+    javascript: {
+      code: `function radixSort(arr) {
+  // Assumes non-negative integers
+  const max = Math.max(...arr);
+  let exp = 1;
+  while (Math.floor(max / exp) > 0) {
+    const buckets = Array.from({ length: 10 }, () => []);
+    for (const x of arr) {
+      const digit = Math.floor(x / exp) % 10;
+      buckets[digit].push(x);  // Appending keeps it stable
+    }
+    arr = buckets.flat();
+    exp *= 10;
+  }
+  return arr;
+}`,
+      lineMapping: {
+        0: 3, 2: 5, 3: 8, 4: 10, 6: 13,
+      },
+    },
+    java: {
+      code: `static int[] radixSort(int[] arr) {
+    // Assumes non-negative integers
+    int max = Arrays.stream(arr).max().getAsInt();
+    int exp = 1;
+    while (max / exp > 0) {
+        List<List<Integer>> buckets = new ArrayList<>();
+        for (int d = 0; d < 10; d++) buckets.add(new ArrayList<>());
+        for (int x : arr) {
+            int digit = (x / exp) % 10;
+            buckets.get(digit).add(x);  // Appending keeps it stable
+        }
+        arr = buckets.stream().flatMap(List::stream).mapToInt(Integer::intValue).toArray();
+        exp *= 10;
+    }
+    return arr;
+}`,
+      lineMapping: {
+        0: 3, 2: 5, 3: 9, 4: 11, 6: 14,
+      },
+    },
+    cpp: {
+      code: `vector<int> radixSort(vector<int> arr) {
+    // Assumes non-negative integers
+    int maxValue = *max_element(arr.begin(), arr.end());
+    int exp = 1;
+    while (maxValue / exp > 0) {
+        vector<vector<int>> buckets(10);
+        for (int x : arr) {
+            int digit = (x / exp) % 10;
+            buckets[digit].push_back(x);  // Appending keeps it stable
+        }
+        arr.clear();
+        for (auto& bucket : buckets) arr.insert(arr.end(), bucket.begin(), bucket.end());
+        exp *= 10;
+    }
+    return arr;
+}`,
+      lineMapping: {
+        0: 3, 2: 5, 3: 8, 4: 10, 6: 14,
+      },
+    },
+  },
+};
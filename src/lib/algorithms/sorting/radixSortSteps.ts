@@ -0,0 +1,92 @@
+import { AuxiliaryArray, Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+const BASE = 10;
+
+export function generateRadixSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  let arr = [...inputArray];
+  const n = arr.length;
+  // Comparisons stay 0: elements are only ever bucketed by digit.
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  // Negative inputs are shifted up so every key is non-negative; the shift does not change the order.
+  const offset = Math.min(0, ...arr);
+  const maxKey = Math.max(...arr) - offset;
+  let buckets: number[][] = [];
+
+  const digitOf = (value: number, exp: number) => Math.floor((value - offset) / exp) % BASE;
+  const auxiliary = (highlightBucket: number | null = null): AuxiliaryArray[] =>
+    buckets.map((bucket, d) => ({
+      label: `digit ${d}`,
+      values: bucket,
+      highlight: d === highlightBucket ? [bucket.length - 1] : [],
+    }));
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: `LSD radix sort distributes the array into ${BASE} buckets by one digit at a time, starting with the ones digit.${offset < 0 ? ` Values are shifted by ${-offset} first so every key is non-negative.` : ''}`,
+    before: arr,
+    pointers: { i: null },
+    metrics,
+  }));
+
+  for (let exp = 1; exp === 1 || Math.floor(maxKey / exp) > 0; exp *= BASE) {
+    metrics.passes++;
+    buckets = Array.from({ length: BASE }, () => []);
+    steps.push(createArrayStep({
+      label: `Pass ${metrics.passes}: Digit ×${exp}`,
+      codeLine: 2,
+      explanation: `Empty the buckets. This pass looks at the ${exp === 1 ? 'ones' : exp === 10 ? 'tens' : exp === 100 ? 'hundreds' : `×${exp}`} digit.`,
+      before: arr,
+      pointers: { i: null },
+      variables: { exp },
+      metrics,
+      auxiliary: auxiliary(),
+    }));
+
+    for (let i = 0; i < n; i++) {
+      const d = digitOf(arr[i], exp);
+      buckets[d].push(arr[i]);
+      metrics.swaps++;
+      steps.push(createArrayStep({
+        label: `Bucket ${arr[i]} → ${d}`,
+        codeLine: 3,
+        explanation: `${arr[i]} has digit ${d} in the ×${exp} place, so append it to bucket ${d}.`,
+        before: arr,
+        highlights: { key: [i] },
+        pointers: { i },
+        variables: { exp, digit: d },
+        metrics,
+        auxiliary: auxiliary(d),
+      }));
+    }
+
+    const beforeGather = arr;
+    arr = buckets.flat();
+    steps.push(createArrayStep({
+      label: `Pass ${metrics.passes}: Gather`,
+      codeLine: 4,
+      explanation: `Read the buckets back in order 0-${BASE - 1}. Appending kept ties in their previous order, so the array is now sorted by its last ${metrics.passes} digit${metrics.passes === 1 ? '' : 's'}.`,
+      before: beforeGather,
+      after: arr,
+      highlights: {},
+      afterHighlights: { shift: allIndices(n) },
+      pointers: { i: null },
+      variables: { exp },
+      metrics,
+      auxiliary: auxiliary(),
+    }));
+  }
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 6,
+    explanation: `Every digit has been processed, so the array is sorted! ${metrics.passes} pass${metrics.passes === 1 ? '' : 'es'} × ${n} elements, no comparisons.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
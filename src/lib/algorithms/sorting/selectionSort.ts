@@ -0,0 +1,124 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateSelectionSortSteps } from '@/lib/algorithms/sorting/selectionSortSteps';
+
+export const selectionSort: AlgorithmDefinition = {
+  info: {
+    id: 'selection-sort',
+    name: 'Selection Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n²)', average: 'O(n²)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Finds minimum element in unsorted part and places it at beginning. Minimizes swaps.',
+    stable: false,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateSelectionSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'for i in range(n - 1):', indent: 0 },
+    { line: 1, code: 'min_idx = i', indent: 1 },
+    { line: 2, code: 'for j in range(i + 1, n):', indent: 1 },
+    { line: 3, code: 'if arr[j] < arr[min_idx]:', indent: 2 },
+    { line: 4, code: 'min_idx = j', indent: 3 },
+    { line: 5, code: 'arr[i], arr[min_idx] = arr[min_idx], arr[i]', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5,
+  },
+  code: `def selection_sort(arr):
+    n = len(arr)
+    
+    for i in range(n - 1):
+        # Find the minimum element
+        min_idx = i
+        
+        for j in range(i + 1, n):
+            if arr[j] < arr[min_idx]:
+                min_idx = j
+        
+        # Swap minimum with first unsorted
+        if min_idx != i:
+            arr[i], arr[min_idx] = arr[min_idx], arr[i]
+    
+    return arr`,
+  sourceLineMapping: {
+    0: 3, 1: 5, 2: 7, 3: 8, 4: 9, 5: 13,
+  },
+  translations: {
+    javascript: {
+      code: `function selectionSort(arr) {
+  const n = arr.length;
+
+  for (let i = 0; i < n - 1; i++) {
+    // Find the minimum element
+    let minIdx = i;
+
+    for (let j = i + 1; j < n; j++) {
+      if (arr[j] < arr[minIdx]) {
+        minIdx = j;
+      }
+    }
+
+    // Swap minimum with first unsorted
+    if (minIdx !== i) {
+      [arr[i], arr[minIdx]] = [arr[minIdx], arr[i]];
+    }
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 7, 3: 8, 4: 9, 5: 15,
+      },
+    },
+    java: {
+      code: `static void selectionSort(int[] arr) {
+    int n = arr.length;
+
+    for (int i = 0; i < n - 1; i++) {
+        // Find the minimum element
+        int minIdx = i;
+
+        for (int j = i + 1; j < n; j++) {
+            if (arr[j] < arr[minIdx]) {
+                minIdx = j;
+            }
+        }
+
+        // Swap minimum with first unsorted
+        if (minIdx != i) {
+            int temp = arr[i];
+            arr[i] = arr[minIdx];
+            arr[minIdx] = temp;
+        }
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 7, 3: 8, 4: 9, 5: 15,
+      },
+    },
+    cpp: {
+      code: `void selectionSort(vector<int>& arr) {
+    int n = arr.size();
+
+    for (int i = 0; i < n - 1; i++) {
+        // Find the minimum element
+        int minIdx = i;
+
+        for (int j = i + 1; j < n; j++) {
+            if (arr[j] < arr[minIdx]) {
+                minIdx = j;
+            }
+        }
+
+        // Swap minimum with first unsorted
+        if (minIdx != i) {
+            swap(arr[i], arr[minIdx]);
+        }
+    }
+}`,
+      lineMapping: {
+        0: 3, 1: 5, 2: 7, 3: 8, 4: 9, 5: 15,
+      },
+    },
+  },
+};
@@ -42,6 +42,7 @@ export function generateSelectionSortSteps(inputArray: number[]): Step[] {
       pointers: { i, minIdx: i },
       moveArrows: [],
       codeLine: 1,
+      loopDepth: 1,
       explanation: `Start pass ${passCount}. Looking for minimum in unsorted portion [${i}...${n - 1}].`,
       metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
     });
@@ -61,6 +62,7 @@ export function generateSelectionSortSteps(inputArray: number[]): Step[] {
         pointers: { i, j, minIdx },
         moveArrows: [{ fromIndex: minIdx, toIndex: j, type: 'compare' }],
         codeLine: 2,
+        loopDepth: 2,
         explanation: `Compare arr[${j}]=${arr[j]} with current minimum arr[${minIdx}]=${arr[minIdx]}. ${arr[j] < arr[minIdx] ? 'New minimum found!' : 'Not smaller.'}`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -78,6 +80,7 @@ export function generateSelectionSortSteps(inputArray: number[]): Step[] {
           pointers: { i, j, minIdx },
           moveArrows: [],
           codeLine: 3,
+          loopDepth: 2,
           explanation: `Updated minimum index to ${minIdx} (value: ${arr[minIdx]}).`,
           metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
         });
@@ -103,6 +106,7 @@ export function generateSelectionSortSteps(inputArray: number[]): Step[] {
         pointers: { i, minIdx },
         moveArrows: [{ fromIndex: minIdx, toIndex: i, type: 'swap' }],
         codeLine: 4,
+        loopDepth: 1,
         explanation: `Swap arr[${i}]=${beforeState[i]} with minimum arr[${minIdx}]=${beforeState[minIdx]}.`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -118,6 +122,7 @@ export function generateSelectionSortSteps(inputArray: number[]): Step[] {
         pointers: { i },
         moveArrows: [],
         codeLine: 4,
+        loopDepth: 1,
         explanation: `Element at position ${i} is already the minimum. No swap needed.`,
         metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: passCount },
       });
@@ -0,0 +1,122 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateShellSortSteps } from '@/lib/algorithms/sorting/shellSortSteps';
+
+export const shellSort: AlgorithmDefinition = {
+  info: {
+    id: 'shell-sort',
+    name: 'Shell Sort',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n log n)', average: 'O(n^1.5)', worst: 'O(n²)' },
+    spaceComplexity: 'O(1)',
+    description: 'Insertion sort over elements a gap apart, with the gap halving each round. Distant elements move early, so the final gap-1 pass has little left to do.',
+    stable: false,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateShellSortSteps(array),
+  pseudocode: [
+    { line: 0, code: 'gap = n // 2', indent: 0 },
+    { line: 1, code: 'while gap > 0:', indent: 0 },
+    { line: 2, code: 'for i in range(gap, n):', indent: 1 },
+    { line: 3, code: 'temp, j = arr[i], i', indent: 2 },
+    { line: 4, code: 'while j >= gap and arr[j - gap] > temp:', indent: 2 },
+    { line: 5, code: 'arr[j] = arr[j - gap]; j -= gap', indent: 3 },
+    { line: 6, code: 'arr[j] = temp', indent: 2 },
+    { line: 7, code: 'gap //= 2', indent: 1 },
+    { line: 8, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 3: 3, 4: 4, 5: 5, 6: 6, 8: 8,
+  },
+  code: `def shell_sort(arr):
+    n = len(arr)
+    gap = n // 2
+
+    while gap > 0:
+        # Gapped insertion sort
+        for i in range(gap, n):
+            temp = arr[i]
+            j = i
+            while j >= gap and arr[j - gap] > temp:
+                arr[j] = arr[j - gap]
+                j -= gap
+            arr[j] = temp
+        gap //= 2
+
+    return arr`,
+  sourceLineMapping: {
+    0: 2, 1: 4, 3: 7, 4: 9, 5: 10, 6: 12, 8: 15,
+  },
+  translations: {
+    javascript: {
+      code: `function shellSort(arr) {
+  const n = arr.length;
+  let gap = Math.floor(n / 2);
+
+  while (gap > 0) {
+    // Gapped insertion sort
+    for (let i = gap; i < n; i++) {
+      const temp = arr[i];
+      let j = i;
+      while (j >= gap && arr[j - gap] > temp) {
+        arr[j] = arr[j - gap];
+        j -= gap;
+      }
+      arr[j] = temp;
+    }
+    gap = Math.floor(gap / 2);
+  }
+
+  return arr;
+}`,
+      lineMapping: {
+        0: 2, 1: 4, 3: 7, 4: 9, 5: 10, 6: 13, 8: 18,
+      },
+    },
+    java: {
+      code: `static void shellSort(int[] arr) {
+    int n = arr.length;
+    int gap = n / 2;
+
+    while (gap > 0) {
+        // Gapped insertion sort
+        for (int i = gap; i < n; i++) {
+            int temp = arr[i];
+            int j = i;
+            while (j >= gap && arr[j - gap] > temp) {
+                arr[j] = arr[j - gap];
+                j -= gap;
+            }
+            arr[j] = temp;
+        }
+        gap /= 2;
+    }
+}`,
+      lineMapping: {
+        0: 2, 1: 4, 3: 7, 4: 9, 5: 10, 6: 13, 8: 17,
+      },
+    },
+    cpp: {
+      code: `void shellSort(vector<int>& arr) {
+    int n = arr.size();
+    int gap = n / 2;
+
+    while (gap > 0) {
+        // Gapped insertion sort
+        for (int i = gap; i < n; i++) {
+            int temp = arr[i];
+            int j = i;
+            while (j >= gap && arr[j - gap] > temp) {
+                arr[j] = arr[j - gap];
+                j -= gap;
+            }
+            arr[j] = temp;
+        }
+        gap /= 2;
+    }
+}`,
+      lineMapping: {
+        0: 2, 1: 4, 3: 7, 4: 9, 5: 10, 6: 13, 8: 17,
+      },
+    },
+  },
+};
@@ -0,0 +1,116 @@
+import { Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+export function generateShellSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray];
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: `Starting with the original array. Shell sort runs insertion sort on elements a gap apart, starting with gap ${Math.floor(n / 2)} and halving it each round.`,
+    before: arr,
+    pointers: { i: null, j: null },
+    metrics,
+  }));
+
+  for (let gap = Math.floor(n / 2); gap > 0; gap = Math.floor(gap / 2)) {
+    metrics.passes++;
+    steps.push(createArrayStep({
+      label: `Gap ${gap}`,
+      codeLine: 1,
+      loopDepth: 1,
+      explanation: gap === 1
+        ? 'Gap 1 is a plain insertion sort, but the earlier rounds left the array nearly sorted, so few shifts remain.'
+        : `Sort each of the ${gap} interleaved sub-lists of elements ${gap} apart.`,
+      before: arr,
+      pointers: { i: null, j: null },
+      variables: { gap },
+      metrics,
+    }));
+
+    for (let i = gap; i < n; i++) {
+      const temp = arr[i];
+      let j = i;
+      steps.push(createArrayStep({
+        label: `Gap ${gap}: Pick ${temp}`,
+        codeLine: 3,
+        loopDepth: 2,
+        explanation: `Take arr[${i}]=${temp} and insert it into its gap-${gap} sub-list.`,
+        before: arr,
+        highlights: { key: [i] },
+        pointers: { i, j },
+        variables: { gap, temp },
+        metrics,
+      }));
+
+      while (j >= gap) {
+        metrics.comparisons++;
+        const larger = arr[j - gap] > temp;
+        steps.push(createArrayStep({
+          label: `Gap ${gap}: Compare`,
+          codeLine: 4,
+          loopDepth: 3,
+          explanation: `Compare arr[${j - gap}]=${arr[j - gap]} with ${temp}. ${larger ? `${arr[j - gap]} > ${temp}, so shift it ${gap} places right.` : `${arr[j - gap]} ≤ ${temp}, so stop.`}`,
+          before: arr,
+          highlights: { compare: [j - gap], key: [j] },
+          pointers: { i, j },
+          variables: { gap, temp },
+          moveArrows: [{ fromIndex: j - gap, toIndex: j, type: 'compare' }],
+          metrics,
+        }));
+        if (!larger) break;
+
+        const beforeShift = [...arr];
+        arr[j] = arr[j - gap];
+        metrics.swaps++;
+        steps.push(createArrayStep({
+          label: `Gap ${gap}: Shift`,
+          codeLine: 5,
+          loopDepth: 3,
+          explanation: `Shift ${arr[j]} from index ${j - gap} to index ${j}.`,
+          before: beforeShift,
+          after: arr,
+          highlights: { shift: [j - gap] },
+          afterHighlights: { shift: [j] },
+          pointers: { i, j },
+          variables: { gap, temp },
+          moveArrows: [{ fromIndex: j - gap, toIndex: j, type: 'shift' }],
+          metrics,
+        }));
+        j -= gap;
+      }
+
+      if (j !== i) {
+        const beforeInsert = [...arr];
+        arr[j] = temp;
+        steps.push(createArrayStep({
+          label: `Gap ${gap}: Insert ${temp}`,
+          codeLine: 6,
+          loopDepth: 2,
+          explanation: `Place ${temp} at index ${j}.`,
+          before: beforeInsert,
+          after: arr,
+          highlights: { key: [j] },
+          pointers: { i, j },
+          variables: { gap, temp },
+          moveArrows: [{ fromIndex: i, toIndex: j, type: 'shift' }],
+          metrics,
+        }));
+      }
+    }
+  }
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 8,
+    explanation: `Array is now fully sorted! Total: ${metrics.comparisons} comparisons, ${metrics.swaps} shifts over ${metrics.passes} gap rounds.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
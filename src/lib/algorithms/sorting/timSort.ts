@@ -0,0 +1,200 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { TIM_SORT_RUN, generateTimSortSteps } from '@/lib/algorithms/sorting/timSortSteps';
+
+export const timSort: AlgorithmDefinition = {
+  info: {
+    id: 'tim-sort',
+    name: 'Tim Sort (simplified)',
+    category: 'sorting',
+    timeComplexity: { best: 'O(n)', average: 'O(n log n)', worst: 'O(n log n)' },
+    spaceComplexity: 'O(n)',
+    description: `Hybrid of insertion sort and merge sort used by Python and Java: insertion sort short runs, then merge them. Uses a fixed run of ${TIM_SORT_RUN} and no galloping.`,
+    stable: true,
+  },
+  requirements: { inputKind: 'array', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ array }) => generateTimSortSteps(array),
+  pseudocode: [
+    { line: 0, code: `RUN = ${TIM_SORT_RUN}`, indent: 0 },
+    { line: 1, code: 'for start in range(0, n, RUN):', indent: 0 },
+    { line: 2, code: 'insertion_sort(arr, start, min(start + RUN - 1, n - 1))', indent: 1 },
+    { line: 3, code: 'size = RUN', indent: 0 },
+    { line: 4, code: 'while size < n:', indent: 0 },
+    { line: 5, code: 'for left in range(0, n, 2 * size):', indent: 1 },
+    { line: 6, code: 'merge(arr, left, left + size - 1, min(left + 2*size - 1, n - 1))', indent: 2 },
+    { line: 7, code: 'size *= 2', indent: 1 },
+    { line: 8, code: 'return arr', indent: 0 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 4: 4, 6: 6, 8: 8,
+  },
+  code: `RUN = ${TIM_SORT_RUN}
+
+def insertion_sort(arr, left, right):
+    for i in range(left + 1, right + 1):
+        key, j = arr[i], i - 1
+        while j >= left and arr[j] > key:
+            arr[j + 1] = arr[j]
+            j -= 1
+        arr[j + 1] = key
+
+def merge(arr, left, mid, right):
+    a, b = arr[left:mid + 1], arr[mid + 1:right + 1]
+    i = j = 0
+    for k in range(left, right + 1):
+        if j >= len(b) or (i < len(a) and a[i] <= b[j]):
+            arr[k] = a[i]; i += 1  # Ties go left: stable
+        else:
+            arr[k] = b[j]; j += 1
+
+def tim_sort(arr):
+    n = len(arr)
+    for start in range(0, n, RUN):
+        insertion_sort(arr, start, min(start + RUN - 1, n - 1))
+    size = RUN
+    while size < n:
+        for left in range(0, n, 2 * size):
+            mid = left + size - 1
+            right = min(left + 2 * size - 1, n - 1)
+            if mid < right:
+                merge(arr, left, mid, right)
+        size *= 2
+    return arr`,
+  sourceLineMapping: {
+    0: 0, 1: 21, 2: 22, 4: 24, 6: 29, 8: 31,
+  },
+  translations: {
+    javascript: {
+      code: `const RUN = 4;
+
+function insertionSort(arr, left, right) {
+  for (let i = left + 1; i <= right; i++) {
+    const key = arr[i];
+    let j = i - 1;
+    while (j >= left && arr[j] > key) {
+      arr[j + 1] = arr[j];
+      j--;
+    }
+    arr[j + 1] = key;
+  }
+}
+
+function merge(arr, left, mid, right) {
+  const a = arr.slice(left, mid + 1), b = arr.slice(mid + 1, right + 1);
+  let i = 0, j = 0;
+  for (let k = left; k <= right; k++) {
+    if (j >= b.length || (i < a.length && a[i] <= b[j])) {
+      arr[k] = a[i++];  // Ties go left: stable
+    } else {
+      arr[k] = b[j++];
+    }
+  }
+}
+
+function timSort(arr) {
+  const n = arr.length;
+  for (let start = 0; start < n; start += RUN) {
+    insertionSort(arr, start, Math.min(start + RUN - 1, n - 1));
+  }
+  for (let size = RUN; size < n; size *= 2) {
+    for (let left = 0; left < n; left += 2 * size) {
+      const mid = left + size - 1;
+      const right = Math.min(left + 2 * size - 1, n - 1);
+      if (mid < right) merge(arr, left, mid, right);
+    }
+  }
+  return arr;
+}`,
+      lineMapping: {
+        0: 0, 1: 28, 2: 29, 4: 31, 6: 35, 8: 38,
+      },
+    },
+    java: {
+      code: `static final int RUN = 4;
+
+static void insertionSort(int[] arr, int left, int right) {
+    for (int i = left + 1; i <= right; i++) {
+        int key = arr[i], j = i - 1;
+        while (j >= left && arr[j] > key) {
+            arr[j + 1] = arr[j];
+            j--;
+        }
+        arr[j + 1] = key;
+    }
+}
+
+static void merge(int[] arr, int left, int mid, int right) {
+    int[] a = Arrays.copyOfRange(arr, left, mid + 1);
+    int[] b = Arrays.copyOfRange(arr, mid + 1, right + 1);
+    int i = 0, j = 0;
+    for (int k = left; k <= right; k++) {
+        if (j >= b.length || (i < a.length && a[i] <= b[j])) {
+            arr[k] = a[i++];  // Ties go left: stable
+        } else {
+            arr[k] = b[j++];
+        }
+    }
+}
+
+static void timSort(int[] arr) {
+    int n = arr.length;
+    for (int start = 0; start < n; start += RUN) {
+        insertionSort(arr, start, Math.min(start + RUN - 1, n - 1));
+    }
+    for (int size = RUN; size < n; size *= 2) {
+        for (int left = 0; left < n; left += 2 * size) {
+            int mid = left + size - 1;
+            int right = Math.min(left + 2 * size - 1, n - 1);
+            if (mid < right) merge(arr, left, mid, right);
+        }
+    }
+}`,
+      lineMapping: {
+        0: 0, 1: 28, 2: 29, 4: 31, 6: 35, 8: 38,
+      },
+    },
+    cpp: {
+      code: `const int RUN = 4;
+
+void insertionSort(vector<int>& arr, int left, int right) {
+    for (int i = left + 1; i <= right; i++) {
+        int key = arr[i], j = i - 1;
+        while (j >= left && arr[j] > key) {
+            arr[j + 1] = arr[j];
+            j--;
+        }
+        arr[j + 1] = key;
+    }
+}
+
+void merge(vector<int>& arr, int left, int mid, int right) {
+    vector<int> a(arr.begin() + left, arr.begin() + mid + 1);
+    vector<int> b(arr.begin() + mid + 1, arr.begin() + right + 1);
+    size_t i = 0, j = 0;
+    for (int k = left; k <= right; k++) {
+        if (j >= b.size() || (i < a.size() && a[i] <= b[j])) {
+            arr[k] = a[i++];  // Ties go left: stable
+        } else {
+            arr[k] = b[j++];
+        }
+    }
+}
+
+void timSort(vector<int>& arr) {
+    int n = arr.size();
+    for (int start = 0; start < n; start += RUN) {
+        insertionSort(arr, start, min(start + RUN - 1, n - 1));
+    }
+    for (int size = RUN; size < n; size *= 2) {
+        for (int left = 0; left < n; left += 2 * size) {
+            int mid = left + size - 1;
+            int right = min(left + 2 * size - 1, n - 1);
+            if (mid < right) merge(arr, left, mid, right);
+        }
+    }
+}`,
+      lineMapping: {
+        0: 0, 1: 28, 2: 29, 4: 31, 6: 35, 8: 38,
+      },
+    },
+  },
+};
@@ -0,0 +1,149 @@
+import { Metrics, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+// Real Timsort picks a run length of 32-64 and detects natural runs; a fixed small run keeps
+// the two phases visible on classroom-sized arrays.
+export const TIM_SORT_RUN = 4;
+
+const range = (from: number, to: number) => Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+
+export function generateTimSortSteps(inputArray: number[]): Step[] {
+  const steps: Step[] = [];
+  const arr = [...inputArray];
+  const n = arr.length;
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+
+  steps.push(createArrayStep({
+    label: 'Initial Array',
+    codeLine: 0,
+    explanation: `Simplified Timsort: insertion sort each run of ${TIM_SORT_RUN} elements, then merge neighbouring runs, doubling the run size each round.`,
+    before: arr,
+    pointers: { left: null, mid: null, right: null },
+    metrics,
+  }));
+
+  // Phase 1: insertion sort each fixed-size run.
+  metrics.passes++;
+  for (let start = 0; start < n; start += TIM_SORT_RUN) {
+    const end = Math.min(start + TIM_SORT_RUN - 1, n - 1);
+    const run = range(start, end);
+    steps.push(createArrayStep({
+      label: `Run ${start}–${end}`,
+      codeLine: 1,
+      explanation: `Insertion sort the run arr[${start}..${end}]. Insertion sort is fast on short, nearly sorted pieces.`,
+      before: arr,
+      highlights: { key: run },
+      pointers: { left: start, mid: null, right: end },
+      metrics,
+    }));
+
+    for (let i = start + 1; i <= end; i++) {
+      const key = arr[i];
+      let j = i - 1;
+      const beforeInsert = [...arr];
+      while (j >= start) {
+        metrics.comparisons++;
+        if (arr[j] <= key) break;
+        arr[j + 1] = arr[j];
+        metrics.swaps++;
+        j--;
+      }
+      arr[j + 1] = key;
+      steps.push(createArrayStep({
+        label: `Run ${start}–${end}: Insert ${key}`,
+        codeLine: 2,
+        explanation: j + 1 === i
+          ? `${key} is already ≥ everything before it in the run; it stays at index ${i}.`
+          : `Shift the larger elements right and insert ${key} at index ${j + 1}.`,
+        before: beforeInsert,
+        after: arr,
+        highlights: { key: [i], sorted: range(start, i - 1) },
+        afterHighlights: { key: [j + 1], sorted: range(start, i) },
+        pointers: { left: start, mid: null, right: end },
+        moveArrows: j + 1 === i ? [] : [{ fromIndex: i, toIndex: j + 1, type: 'shift' }],
+        metrics,
+      }));
+    }
+  }
+
+  // Phase 2: merge runs bottom-up.
+  for (let size = TIM_SORT_RUN; size < n; size *= 2) {
+    metrics.passes++;
+    steps.push(createArrayStep({
+      label: `Merge Size ${size}`,
+      codeLine: 4,
+      explanation: `Merge neighbouring sorted runs of length ${size} into runs of length ${size * 2}.`,
+      before: arr,
+      pointers: { left: null, mid: null, right: null },
+      metrics,
+    }));
+
+    for (let left = 0; left < n; left += 2 * size) {
+      const mid = left + size - 1;
+      const right = Math.min(left + 2 * size - 1, n - 1);
+      if (mid >= right) continue;
+
+      const leftRun = arr.slice(left, mid + 1);
+      const rightRun = arr.slice(mid + 1, right + 1);
+      let a = 0;
+      let b = 0;
+      const buffers = () => [
+        { label: 'left run', values: leftRun, highlight: a < leftRun.length ? [a] : [] },
+        { label: 'right run', values: rightRun, highlight: b < rightRun.length ? [b] : [] },
+      ];
+
+      steps.push(createArrayStep({
+        label: `Merge ${left}–${mid} + ${mid + 1}–${right}`,
+        codeLine: 6,
+        explanation: 'Copy both runs into buffers, then repeatedly take the smaller front element.',
+        before: arr,
+        highlights: { key: range(left, right) },
+        pointers: { left, mid, right },
+        metrics,
+        auxiliary: buffers(),
+      }));
+
+      for (let k = left; k <= right; k++) {
+        const beforeWrite = [...arr];
+        let explanation: string;
+        if (b >= rightRun.length || (a < leftRun.length && leftRun[a] <= rightRun[b])) {
+          if (b < rightRun.length) metrics.comparisons++;
+          explanation = b >= rightRun.length
+            ? `The right run is used up; copy ${leftRun[a]} from the left run.`
+            : `${leftRun[a]} ≤ ${rightRun[b]}: take ${leftRun[a]} from the left run (ties go left, keeping the sort stable).`;
+          arr[k] = leftRun[a++];
+        } else {
+          if (a < leftRun.length) metrics.comparisons++;
+          explanation = a >= leftRun.length
+            ? `The left run is used up; copy ${rightRun[b]} from the right run.`
+            : `${rightRun[b]} < ${leftRun[a]}: take ${rightRun[b]} from the right run.`;
+          arr[k] = rightRun[b++];
+        }
+        metrics.swaps++;
+        steps.push(createArrayStep({
+          label: `Merge: Write ${arr[k]}`,
+          codeLine: 6,
+          explanation: `${explanation} Write it to index ${k}.`,
+          before: beforeWrite,
+          after: arr,
+          highlights: { sorted: range(left, k - 1) },
+          afterHighlights: { sorted: range(left, k - 1), key: [k] },
+          pointers: { left, mid, right },
+          metrics,
+          auxiliary: buffers(),
+        }));
+      }
+    }
+  }
+
+  steps.push(createArrayStep({
+    label: 'Sorted!',
+    codeLine: 8,
+    explanation: `Array is now fully sorted! Total: ${metrics.comparisons} comparisons, ${metrics.swaps} writes.`,
+    before: arr,
+    highlights: { sorted: allIndices(n) },
+    metrics,
+  }));
+
+  return steps;
+}
@@ -0,0 +1,75 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateAvlSteps } from '@/lib/algorithms/tree/searchTreeSteps';
+
+export const avlTree: AlgorithmDefinition = {
+  info: {
+    id: 'avl-tree',
+    name: 'AVL Tree',
+    category: 'tree',
+    timeComplexity: { best: 'O(log n)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(n)',
+    description: 'A self-balancing BST. After every insert or delete, rotations keep the heights of sibling subtrees within one of each other.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateAvlSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def insert(root, key):', indent: 0 },
+    { line: 1, code: 'walk down: left if key < node.key else right', indent: 1 },
+    { line: 2, code: 'attach Node(key) at the empty child', indent: 1 },
+    { line: 3, code: 'def search(root, key):', indent: 0 },
+    { line: 4, code: 'while node and node.key != key:', indent: 1 },
+    { line: 5, code: 'node = node.left if key < node.key else node.right', indent: 2 },
+    { line: 6, code: 'return node  # None if missing', indent: 1 },
+    { line: 7, code: 'def delete(root, key):', indent: 0 },
+    { line: 8, code: 'node = search(root, key)', indent: 1 },
+    { line: 9, code: 'if node.left and node.right:', indent: 1 },
+    { line: 10, code: 'succ = min(node.right); node.key = succ.key; node = succ', indent: 2 },
+    { line: 11, code: 'replace node with its only child (or None)', indent: 1 },
+    { line: 12, code: 'for node in ancestors (bottom-up):  # after insert/delete', indent: 0 },
+    { line: 13, code: 'update height; bf = h(left) - h(right)', indent: 1 },
+    { line: 14, code: 'if bf > 1: rotate_right(node)  # LR: rotate_left(left) first', indent: 1 },
+    { line: 15, code: 'if bf < -1: rotate_left(node)  # RL: rotate_right(right) first', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 5: 5, 6: 6, 8: 8, 10: 10, 11: 11, 12: 12, 13: 13, 14: 14, 15: 15,
+  },
+  code: `def height(node):
+    return node.height if node else 0
+
+def rotate_right(y):
+    x = y.left
+    y.left, x.right = x.right, y
+    y.height = 1 + max(height(y.left), height(y.right))
+    x.height = 1 + max(height(x.left), height(x.right))
+    return x
+
+def rotate_left(x):
+    y = x.right
+    x.right, y.left = y.left, x
+    x.height = 1 + max(height(x.left), height(x.right))
+    y.height = 1 + max(height(y.left), height(y.right))
+    return y
+
+def rebalance(node):
+    node.height = 1 + max(height(node.left), height(node.right))
+    bf = height(node.left) - height(node.right)
+    if bf > 1:
+        if height(node.left.left) < height(node.left.right):
+            node.left = rotate_left(node.left)  # Left-Right case
+        return rotate_right(node)
+    if bf < -1:
+        if height(node.right.right) < height(node.right.left):
+            node.right = rotate_right(node.right)  # Right-Left case
+        return rotate_left(node)
+    return node
+
+def insert(root, key):
+    if root is None:
+        return Node(key)
+    if key < root.key:
+        root.left = insert(root.left, key)
+    elif key > root.key:
+        root.right = insert(root.right, key)
+    return rebalance(root)`,
+  sampleOperations: '30, 20, 10, 25, 28, 40, 50, search 25, delete 10',
+};
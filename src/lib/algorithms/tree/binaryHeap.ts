@@ -0,0 +1,56 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBinaryHeapSteps } from '@/lib/algorithms/tree/binaryHeapSteps';
+
+export const binaryHeap: AlgorithmDefinition = {
+  info: {
+    id: 'binary-heap',
+    name: 'Binary Heap (Max)',
+    category: 'tree',
+    timeComplexity: { best: 'O(1)', average: 'O(log n)', worst: 'O(log n)' },
+    spaceComplexity: 'O(n)',
+    description: 'A complete binary tree stored in an array where every parent is at least as large as its children. Push sifts up, pop sifts down.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateBinaryHeapSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def push(heap, key):', indent: 0 },
+    { line: 1, code: 'heap.append(key); i = len(heap) - 1', indent: 1 },
+    { line: 2, code: 'while i > 0 and heap[parent(i)] < heap[i]:', indent: 1 },
+    { line: 3, code: 'swap(heap, i, parent(i)); i = parent(i)', indent: 2 },
+    { line: 4, code: 'def pop(heap):', indent: 0 },
+    { line: 5, code: 'top = heap[0]; heap[0] = heap.pop()', indent: 1 },
+    { line: 6, code: 'while a child of i is larger than heap[i]:', indent: 1 },
+    { line: 7, code: 'swap with the larger child; i = child', indent: 2 },
+    { line: 8, code: 'return top', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 3: 3, 5: 5, 6: 6, 7: 7, 8: 8,
+  },
+  code: `def push(heap, key):
+    heap.append(key)
+    i = len(heap) - 1
+    # Sift up while the parent is smaller
+    while i > 0 and heap[(i - 1) // 2] < heap[i]:
+        parent = (i - 1) // 2
+        heap[i], heap[parent] = heap[parent], heap[i]
+        i = parent
+
+def pop(heap):
+    top = heap[0]
+    last = heap.pop()
+    if heap:
+        heap[0] = last
+        i = 0
+        # Sift down toward the larger child
+        while True:
+            largest = i
+            for child in (2 * i + 1, 2 * i + 2):
+                if child < len(heap) and heap[child] > heap[largest]:
+                    largest = child
+            if largest == i:
+                break
+            heap[i], heap[largest] = heap[largest], heap[i]
+            i = largest
+    return top`,
+  sampleOperations: 'push 40, push 25, push 60, push 10, push 35, push 80, pop, pop',
+};
@@ -0,0 +1,137 @@
+import { TreeNodeState, TreeSnapshot, TreeStep, createTreeStep } from '@/lib/treeTypes';
+import { Operation, formatOperation } from '@/lib/algorithms/operationsInput';
+import { LayoutNode, layoutTree } from './treeInput';
+
+interface HeapEntry {
+  id: string;
+  value: number;
+}
+
+/** Max-heap push/pop, matching the heap used by Heap Sort. */
+export function generateBinaryHeapSteps(operations: Operation[]): TreeStep[] {
+  const steps: TreeStep[] = [];
+  const heap: HeapEntry[] = [];
+  let nextId = 0;
+  let currentOp: string | null = null;
+
+  let totalComparisons = 0;
+  let totalSwaps = 0;
+  let opsDone = 0;
+
+  // Children of index i live at 2i + 1 and 2i + 2.
+  const toLayout = (i: number): LayoutNode | null =>
+    i < heap.length
+      ? { id: heap[i].id, value: heap[i].value, left: toLayout(2 * i + 1), right: toLayout(2 * i + 2) }
+      : null;
+
+  const snapshot = (nodeStates: Record<string, TreeNodeState>): TreeSnapshot => ({
+    ...layoutTree(toLayout(0)),
+    nodeStates,
+    badgeLabel: null,
+    array: heap.map((e) => e.value),
+    operation: currentOp,
+  });
+
+  const push = (label: string, codeLine: number, explanation: string, states: Record<number, TreeNodeState> = {}) => {
+    const nodeStates: Record<string, TreeNodeState> = {};
+    for (const [index, state] of Object.entries(states)) {
+      const entry = heap[Number(index)];
+      if (entry) nodeStates[entry.id] = state;
+    }
+    steps.push(createTreeStep(snapshot(nodeStates), {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: totalSwaps, passes: opsDone },
+    }));
+  };
+
+  const swap = (a: number, b: number) => {
+    [heap[a], heap[b]] = [heap[b], heap[a]];
+    totalSwaps++;
+  };
+
+  const pushValue = (value: number) => {
+    heap.push({ id: `h${nextId++}`, value });
+    let i = heap.length - 1;
+    push(`Append ${value}`, 1, `Append ${value} at index ${i}, the next free slot in the bottom level.`, { [i]: 'inserted' });
+
+    while (i > 0) {
+      const parent = Math.floor((i - 1) / 2);
+      totalComparisons++;
+      if (heap[parent].value >= heap[i].value) {
+        push(`Compare with ${heap[parent].value}`, 2, `Parent ${heap[parent].value} ≥ ${heap[i].value}. The heap property holds, so stop sifting up.`, { [i]: 'current', [parent]: 'found' });
+        return;
+      }
+      push(`Compare with ${heap[parent].value}`, 2, `Parent ${heap[parent].value} < ${heap[i].value}. The larger key must move up.`, { [i]: 'current', [parent]: 'path' });
+      swap(i, parent);
+      push(`Swap ${heap[parent].value} ↑`, 3, `Swap ${heap[parent].value} with its parent. It is now at index ${parent}.`, { [parent]: 'swap', [i]: 'swap' });
+      i = parent;
+    }
+    push(`${heap[0].value} at Root`, 2, `${heap[0].value} reached the root (index 0), so sifting up stops.`, { 0: 'found' });
+  };
+
+  const popValue = () => {
+    if (heap.length === 0) {
+      push('Heap Empty', 5, 'The heap is empty, so there is nothing to pop.');
+      return;
+    }
+
+    const top = heap[0].value;
+    push(`Pop ${top}`, 5, `The maximum ${top} is at the root. Remove it.`, { 0: 'removed' });
+    const last = heap.pop() as HeapEntry;
+    if (heap.length === 0) {
+      push(`Return ${top}`, 8, `${top} was the only key. The heap is now empty.`);
+      return;
+    }
+    heap[0] = last;
+    push(`Move ${last.value} to Root`, 5, `Move the last key ${last.value} into the root slot, then sift it down.`, { 0: 'current' });
+
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = 2 * i + 2;
+      let largest = i;
+      if (left < heap.length) {
+        totalComparisons++;
+        if (heap[left].value > heap[largest].value) largest = left;
+      }
+      if (right < heap.length) {
+        totalComparisons++;
+        if (heap[right].value > heap[largest].value) largest = right;
+      }
+      if (largest === i) {
+        push('Heap Restored', 6, left < heap.length
+          ? `${heap[i].value} is at least as large as its children. The heap property holds.`
+          : `${heap[i].value} is a leaf. The heap property holds.`, { [i]: 'found' });
+        break;
+      }
+
+      const childStates: Record<number, TreeNodeState> = { [i]: 'current' };
+      if (left < heap.length) childStates[left] = 'path';
+      if (right < heap.length) childStates[right] = 'path';
+      push('Compare Children', 6, `The larger child of ${heap[i].value} is ${heap[largest].value}, which is bigger. Swap them.`, childStates);
+      swap(i, largest);
+      push(`Swap ${heap[largest].value} ↓`, 7, `${heap[largest].value} moves down to index ${largest}; ${heap[i].value} moves up.`, { [i]: 'swap', [largest]: 'swap' });
+      i = largest;
+    }
+    push(`Return ${top}`, 8, `Pop returns ${top}. The new maximum is ${heap[0].value}.`, { 0: 'found' });
+  };
+
+  push('Initial Heap', 0, `Starting with an empty max-heap. ${operations.length} operation${operations.length === 1 ? '' : 's'} to apply.`);
+
+  for (const op of operations) {
+    // Heaps only support push and pop; other operations are skipped.
+    const isPush = (op.type === 'push' || op.type === 'insert') && op.value !== undefined;
+    if (op.type !== 'pop' && !isPush) continue;
+    currentOp = formatOperation(op);
+    if (op.type === 'pop') popValue();
+    else pushValue(op.value as number);
+    opsDone++;
+  }
+
+  currentOp = null;
+  push('All Operations Done!', 8, `Applied ${opsDone} operation${opsDone === 1 ? '' : 's'}. Heap array: [${heap.map((e) => e.value).join(', ')}].`);
+
+  return steps;
+}
@@ -0,0 +1,69 @@
+import type { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { generateBstSteps } from '@/lib/algorithms/tree/searchTreeSteps';
+
+export const bst: AlgorithmDefinition = {
+  info: {
+    id: 'bst',
+    name: 'Binary Search Tree',
+    category: 'tree',
+    timeComplexity: { best: 'O(log n)', average: 'O(log n)', worst: 'O(n)' },
+    spaceComplexity: 'O(n)',
+    description: 'Keeps smaller keys in the left subtree and larger keys in the right. Insert, search and delete walk one root-to-leaf path.',
+  },
+  requirements: { inputKind: 'operations', needsTarget: false, needsSortedInput: false, needsStartNode: false },
+  generateSteps: ({ operations }) => generateBstSteps(operations ?? []),
+  pseudocode: [
+    { line: 0, code: 'def insert(root, key):', indent: 0 },
+    { line: 1, code: 'walk down: left if key < node.key else right', indent: 1 },
+    { line: 2, code: 'attach Node(key) at the empty child', indent: 1 },
+    { line: 3, code: 'def search(root, key):', indent: 0 },
+    { line: 4, code: 'while node and node.key != key:', indent: 1 },
+    { line: 5, code: 'node = node.left if key < node.key else node.right', indent: 2 },
+    { line: 6, code: 'return node  # None if missing', indent: 1 },
+    { line: 7, code: 'def delete(root, key):', indent: 0 },
+    { line: 8, code: 'node = search(root, key)', indent: 1 },
+    { line: 9, code: 'if node.left and node.right:', indent: 1 },
+    { line: 10, code: 'succ = min(node.right); node.key = succ.key; node = succ', indent: 2 },
+    { line: 11, code: 'replace node with its only child (or None)', indent: 1 },
+  ],
+  codeLineMapping: {
+    0: 0, 1: 1, 2: 2, 5: 5, 6: 6, 8: 8, 10: 10, 11: 11,
+  },
+  code: `class Node:
+    def __init__(self, key):
+        self.key, self.left, self.right = key, None, None
+
+def insert(root, key):
+    if root is None:
+        return Node(key)
+    if key < root.key:
+        root.left = insert(root.left, key)
+    elif key > root.key:
+        root.right = insert(root.right, key)
+    return root  # Duplicates are ignored
+
+def search(root, key):
+    node = root
+    while node and node.key != key:
+        node = node.left if key < node.key else node.right
+    return node
+
+def delete(root, key):
+    if root is None:
+        return None
+    if key < root.key:
+        root.left = delete(root.left, key)
+    elif key > root.key:
+        root.right = delete(root.right, key)
+    elif root.left and root.right:
+        # Two children: copy the in-order successor, then delete it
+        succ = root.right
+        while succ.left:
+            succ = succ.left
+        root.key = succ.key
+        root.right = delete(root.right, succ.key)
+    else:
+        return root.left or root.right
+    return root`,
+  sampleOperations: '50, 30, 70, 20, 40, 60, 80, search 60, delete 30, delete 50',
+};
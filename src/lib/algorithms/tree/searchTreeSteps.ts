@@ -0,0 +1,246 @@
+import { TreeNodeState, TreeSnapshot, TreeStep, createTreeStep } from '@/lib/treeTypes';
+import { Operation, formatOperation } from '@/lib/algorithms/operationsInput';
+import { LayoutNode, layoutTree } from './treeInput';
+
+interface SearchTreeNode {
+  id: string;
+  value: number;
+  left: SearchTreeNode | null;
+  right: SearchTreeNode | null;
+  height: number;
+}
+
+const height = (node: SearchTreeNode | null) => node?.height ?? 0;
+const balanceOf = (node: SearchTreeNode) => height(node.left) - height(node.right);
+const updateHeight = (node: SearchTreeNode) => {
+  node.height = 1 + Math.max(height(node.left), height(node.right));
+};
+
+function rotateRight(y: SearchTreeNode): SearchTreeNode {
+  const x = y.left as SearchTreeNode;
+  y.left = x.right;
+  x.right = y;
+  updateHeight(y);
+  updateHeight(x);
+  return x;
+}
+
+function rotateLeft(x: SearchTreeNode): SearchTreeNode {
+  const y = x.right as SearchTreeNode;
+  x.right = y.left;
+  y.left = x;
+  updateHeight(x);
+  updateHeight(y);
+  return y;
+}
+
+export function generateBstSteps(operations: Operation[]): TreeStep[] {
+  return generateSearchTreeSteps(operations, false);
+}
+
+export function generateAvlSteps(operations: Operation[]): TreeStep[] {
+  return generateSearchTreeSteps(operations, true);
+}
+
+/**
+ * Shared BST/AVL generator. With `balanced` set, every insert and delete is followed by
+ * a bottom-up height update that rotates any node whose balance factor leaves [-1, 1].
+ */
+function generateSearchTreeSteps(operations: Operation[], balanced: boolean): TreeStep[] {
+  const steps: TreeStep[] = [];
+  let root: SearchTreeNode | null = null;
+  let nextId = 0;
+  let currentOp: string | null = null;
+
+  let totalComparisons = 0;
+  let totalRotations = 0;
+  let opsDone = 0;
+
+  const toLayout = (node: SearchTreeNode | null): LayoutNode | null =>
+    node && {
+      id: node.id,
+      value: node.value,
+      badge: balanced ? balanceOf(node) : null,
+      left: toLayout(node.left),
+      right: toLayout(node.right),
+    };
+
+  const snapshot = (nodeStates: Record<string, TreeNodeState>): TreeSnapshot => ({
+    ...layoutTree(toLayout(root)),
+    nodeStates,
+    badgeLabel: balanced ? 'balance' : null,
+    array: null,
+    operation: currentOp,
+  });
+
+  const push = (label: string, codeLine: number, explanation: string, nodeStates: Record<string, TreeNodeState> = {}) => {
+    steps.push(createTreeStep(snapshot(nodeStates), {
+      label,
+      codeLine,
+      explanation,
+      metrics: { comparisons: totalComparisons, swaps: totalRotations, passes: opsDone },
+    }));
+  };
+
+  const pathStates = (path: SearchTreeNode[], current?: SearchTreeNode, currentState: TreeNodeState = 'current') => {
+    const states: Record<string, TreeNodeState> = {};
+    path.forEach((n) => { states[n.id] = 'path'; });
+    if (current) states[current.id] = currentState;
+    return states;
+  };
+
+  const replaceChild = (parent: SearchTreeNode | undefined, oldChild: SearchTreeNode, newChild: SearchTreeNode | null) => {
+    if (!parent) root = newChild;
+    else if (parent.left === oldChild) parent.left = newChild;
+    else parent.right = newChild;
+  };
+
+  // Walks `path` (root first) bottom-up, fixing heights and, for AVL, rotating where needed.
+  const retrace = (path: SearchTreeNode[]) => {
+    for (let i = path.length - 1; i >= 0; i--) {
+      const node = path[i];
+      updateHeight(node);
+      const bf = balanceOf(node);
+      if (!balanced || (bf >= -1 && bf <= 1)) continue;
+
+      push(`Unbalanced at ${node.value}`, 13, `Balance factor of ${node.value} is ${bf} (left height − right height). It must be between −1 and 1, so rotate.`, { [node.id]: 'unbalanced' });
+
+      const parent = path[i - 1];
+      let newRoot: SearchTreeNode;
+      if (bf > 1) {
+        const left = node.left as SearchTreeNode;
+        if (balanceOf(left) < 0) {
+          node.left = rotateLeft(left);
+          totalRotations++;
+          push(`Rotate Left at ${left.value}`, 14, `Left-Right case: first rotate ${left.value}'s subtree left so the imbalance becomes Left-Left.`, { [node.id]: 'unbalanced', [node.left.id]: 'swap', [left.id]: 'swap' });
+        }
+        newRoot = rotateRight(node);
+        totalRotations++;
+        replaceChild(parent, node, newRoot);
+        push(`Rotate Right at ${node.value}`, 14, `Rotate right around ${node.value}: ${newRoot.value} moves up and ${node.value} becomes its right child.`, { [newRoot.id]: 'swap', [node.id]: 'swap' });
+      } else {
+        const right = node.right as SearchTreeNode;
+        if (balanceOf(right) > 0) {
+          node.right = rotateRight(right);
+          totalRotations++;
+          push(`Rotate Right at ${right.value}`, 15, `Right-Left case: first rotate ${right.value}'s subtree right so the imbalance becomes Right-Right.`, { [node.id]: 'unbalanced', [node.right.id]: 'swap', [right.id]: 'swap' });
+        }
+        newRoot = rotateLeft(node);
+        totalRotations++;
+        replaceChild(parent, node, newRoot);
+        push(`Rotate Left at ${node.value}`, 15, `Rotate left around ${node.value}: ${newRoot.value} moves up and ${node.value} becomes its left child.`, { [newRoot.id]: 'swap', [node.id]: 'swap' });
+      }
+    }
+  };
+
+  const insert = (value: number) => {
+    const created: SearchTreeNode = { id: `n${nextId++}`, value, left: null, right: null, height: 1 };
+    if (!root) {
+      root = created;
+      push(`Insert ${value}`, 2, `The tree is empty, so ${value} becomes the root.`, { [created.id]: 'inserted' });
+      return;
+    }
+
+    const path: SearchTreeNode[] = [];
+    let node: SearchTreeNode = root;
+    for (;;) {
+      totalComparisons++;
+      if (value === node.value) {
+        push(`Duplicate ${value}`, 1, `${value} is already in the tree. Search trees here keep unique keys, so nothing is inserted.`, pathStates(path, node, 'found'));
+        return;
+      }
+      const goLeft = value < node.value;
+      push(`Compare ${value} with ${node.value}`, 1, `${value} ${goLeft ? '<' : '>'} ${node.value}, so go ${goLeft ? 'left' : 'right'}.`, pathStates(path, node));
+      path.push(node);
+      const child = goLeft ? node.left : node.right;
+      if (!child) {
+        if (goLeft) node.left = created;
+        else node.right = created;
+        push(`Insert ${value}`, 2, `The ${goLeft ? 'left' : 'right'} child of ${node.value} is empty. Attach ${value} there.`, { ...pathStates(path), [created.id]: 'inserted' });
+        break;
+      }
+      node = child;
+    }
+
+    retrace(path);
+  };
+
+  const search = (value: number) => {
+    const path: SearchTreeNode[] = [];
+    let node = root;
+    while (node) {
+      totalComparisons++;
+      if (value === node.value) {
+        push(`Found ${value}`, 6, `${node.value} equals the key. Found after ${path.length + 1} comparison${path.length === 0 ? '' : 's'}.`, pathStates(path, node, 'found'));
+        return;
+      }
+      const goLeft = value < node.value;
+      push(`Compare ${value} with ${node.value}`, 5, `${value} ${goLeft ? '<' : '>'} ${node.value}, so continue in the ${goLeft ? 'left' : 'right'} subtree.`, pathStates(path, node));
+      path.push(node);
+      node = goLeft ? node.left : node.right;
+    }
+    push(`${value} Not Found`, 6, `Reached an empty child. ${value} is not in the tree.`, pathStates(path));
+  };
+
+  const remove = (value: number) => {
+    const path: SearchTreeNode[] = [];
+    let node = root;
+    while (node && node.value !== value) {
+      totalComparisons++;
+      const goLeft = value < node.value;
+      push(`Compare ${value} with ${node.value}`, 8, `Searching for ${value}: ${value} ${goLeft ? '<' : '>'} ${node.value}, go ${goLeft ? 'left' : 'right'}.`, pathStates(path, node));
+      path.push(node);
+      node = goLeft ? node.left : node.right;
+    }
+    if (!node) {
+      push(`${value} Not Found`, 8, `${value} is not in the tree, so there is nothing to delete.`, pathStates(path));
+      return;
+    }
+    totalComparisons++;
+    push(`Found ${value}`, 8, `Found ${value}, the node to delete.`, pathStates(path, node, 'found'));
+
+    let target = node;
+    if (node.left && node.right) {
+      path.push(node);
+      let successor = node.right;
+      while (successor.left) {
+        path.push(successor);
+        successor = successor.left;
+      }
+      push(`Successor ${successor.value}`, 10, `${value} has two children. Its in-order successor is the smallest key in the right subtree: ${successor.value}.`, { ...pathStates(path, successor), [node.id]: 'found' });
+      node.value = successor.value;
+      push(`Copy ${successor.value}`, 10, `Copy ${successor.value} into the node being deleted. Now remove the successor node instead.`, { [node.id]: 'inserted', [successor.id]: 'removed' });
+      target = successor;
+    }
+
+    const child = target.left ?? target.right;
+    push(`Remove ${target.value}`, 11, child
+      ? `The node has one child (${child.value}). Replace the node with that child.`
+      : 'The node is a leaf. Simply remove it.', { [target.id]: 'removed' });
+    replaceChild(path[path.length - 1], target, child);
+    push(`Deleted ${value}`, 11, `${value} has been removed from the tree.`, child ? { [child.id]: 'current' } : {});
+
+    retrace(path);
+  };
+
+  push('Initial Tree', 0, `Starting with an empty ${balanced ? 'AVL tree' : 'binary search tree'}. ${operations.length} operation${operations.length === 1 ? '' : 's'} to apply.`);
+
+  for (const op of operations) {
+    // Search trees support insert (or push), delete and search; other operations are skipped.
+    if (op.value === undefined || !['insert', 'push', 'delete', 'search'].includes(op.type)) continue;
+    currentOp = formatOperation(op);
+    if (op.type === 'delete') remove(op.value);
+    else if (op.type === 'search') search(op.value);
+    else insert(op.value);
+    opsDone++;
+  }
+
+  currentOp = null;
+  push('All Operations Done!', balanced ? 12 : 0, `Applied ${opsDone} operation${opsDone === 1 ? '' : 's'}. The tree has ${countNodes(root)} node${countNodes(root) === 1 ? '' : 's'} and height ${height(root)}${balanced ? `, using ${totalRotations} rotation${totalRotations === 1 ? '' : 's'}` : ''}.`);
+
+  return steps;
+}
+
+function countNodes(node: SearchTreeNode | null): number {
+  return node ? 1 + countNodes(node.left) + countNodes(node.right) : 0;
+}
@@ -0,0 +1,53 @@
+import { TreeBounds, TreeEdge, TreeNodeLayout } from '@/lib/treeTypes';
+
+export interface LayoutNode {
+  id: string;
+  value: number;
+  badge?: number | null;
+  left: LayoutNode | null;
+  right: LayoutNode | null;
+}
+
+const NODE_SPACING = 48;
+const LEVEL_GAP = 64;
+const MARGIN = 28;
+
+/**
+ * Lays a binary tree out with x = in-order rank and y = depth, so keys read left to right
+ * in sorted order and no two nodes overlap.
+ */
+export function layoutTree(root: LayoutNode | null): { nodes: TreeNodeLayout[]; edges: TreeEdge[]; bounds: TreeBounds } {
+  const nodes: TreeNodeLayout[] = [];
+  const edges: TreeEdge[] = [];
+  let rank = 0;
+  let maxDepth = 0;
+
+  const visit = (node: LayoutNode | null, depth: number) => {
+    if (!node) return;
+    visit(node.left, depth + 1);
+    nodes.push({
+      id: node.id,
+      value: node.value,
+      x: MARGIN + rank * NODE_SPACING,
+      y: MARGIN + depth * LEVEL_GAP,
+      badge: node.badge ?? null,
+    });
+    rank++;
+    maxDepth = Math.max(maxDepth, depth);
+    if (node.left) edges.push({ from: node.id, to: node.left.id });
+    if (node.right) edges.push({ from: node.id, to: node.right.id });
+    visit(node.right, depth + 1);
+  };
+  visit(root, 0);
+
+  return {
+    nodes,
+    edges,
+    bounds: {
+      minX: 0,
+      minY: 0,
+      maxX: MARGIN * 2 + Math.max(0, rank - 1) * NODE_SPACING,
+      maxY: MARGIN * 2 + maxDepth * LEVEL_GAP,
+    },
+  };
+}
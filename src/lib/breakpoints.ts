@@ -0,0 +1,50 @@
+import { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { CODE_LANGUAGES, CodeLanguage, getSourceListing } from '@/lib/algorithms/codeLanguages';
+import { compileExpression, createStepScope } from '@/lib/stepExpression';
+import { AlgorithmType, Step } from '@/lib/stepTypes';
+
+export interface Breakpoint {
+  id: string;
+  algorithm: AlgorithmType;
+  // The listing the line was set in; the sandbox uses 'javascript' for the user's own code.
+  language: CodeLanguage;
+  // PseudocodeLine.line for pseudocode, otherwise the 0-based line of the listing.
+  line: number;
+  // Blank means "always"; otherwise an expression over the step (see createStepScope).
+  condition: string;
+  enabled: boolean;
+}
+
+export function createBreakpointId(): string {
+  return `bp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// The line a step highlights in `language`, or null when the listing has no line for it.
+export function stepLine(definition: AlgorithmDefinition, language: CodeLanguage, step: Step): number | null {
+  if (definition.requirements.inputKind === 'code') return step.codeLine;
+  if (language === 'pseudocode') return definition.codeLineMapping[step.codeLine] ?? null;
+  return getSourceListing(definition, language)?.lineMapping[step.codeLine] ?? null;
+}
+
+export function breakpointLabel(breakpoint: Breakpoint): string {
+  const language = CODE_LANGUAGES.find((l) => l.id === breakpoint.language)?.label ?? breakpoint.language;
+  return `${language} line ${breakpoint.line}`;
+}
+
+// A condition that fails to parse never pauses; the panel shows why.
+function conditionHolds(condition: string, step: Step): boolean {
+  if (condition.trim() === '') return true;
+  const { evaluate } = compileExpression(condition);
+  return evaluate !== null && Boolean(evaluate(createStepScope(step)));
+}
+
+// The first enabled breakpoint of this algorithm that `step` hits.
+export function findHitBreakpoint(breakpoints: Breakpoint[], definition: AlgorithmDefinition, step: Step): Breakpoint | undefined {
+  return breakpoints.find(
+    (bp) =>
+      bp.enabled &&
+      bp.algorithm === definition.info.id &&
+      stepLine(definition, bp.language, step) === bp.line &&
+      conditionHolds(bp.condition, step),
+  );
+}
@@ -0,0 +1,56 @@
+import { Step, createEmptyHighlights } from './stepTypes';
+
+export type DpCellState = 'default' | 'current' | 'dependency' | 'traceback' | 'chosen';
+
+export interface DpSnapshot {
+  // What rows and columns index, e.g. "a" / "b" for LCS or "item" / "capacity" for knapsack.
+  rowTitle: string;
+  colTitle: string;
+  rowLabels: string[];
+  colLabels: string[];
+  // Formatted cell values; '' for cells not filled in yet.
+  cells: string[][];
+  // Keyed by dpCellKey(row, col).
+  cellStates: Record<string, DpCellState>;
+  // Answer reconstructed by the traceback so far, e.g. the LCS string or the chosen items.
+  resultLabel: string;
+  result: string | null;
+}
+
+export interface DpStep extends Step {
+  dp: DpSnapshot;
+}
+
+export function dpCellKey(row: number, col: number): string {
+  return `${row},${col}`;
+}
+
+export function isDpStep(step: Step | undefined): step is DpStep {
+  return !!step && 'dp' in step;
+}
+
+/** Step.pointers holds the loop indices (i, j or w) of the cell being computed or traced. */
+export function createDpStep(
+  dp: DpSnapshot,
+  pointers: Record<string, number | null>,
+  fields: Pick<Step, 'label' | 'codeLine' | 'explanation' | 'metrics'>,
+): DpStep {
+  return {
+    ...fields,
+    before: [],
+    after: [],
+    highlights: {
+      before: createEmptyHighlights(),
+      after: createEmptyHighlights(),
+    },
+    pointers: { ...pointers },
+    moveArrows: [],
+    dp: {
+      ...dp,
+      rowLabels: [...dp.rowLabels],
+      colLabels: [...dp.colLabels],
+      cells: dp.cells.map((row) => [...row]),
+      cellStates: { ...dp.cellStates },
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { Step } from '@/lib/stepTypes';
+import { createGifEncoder } from './gifEncoder';
+import { createZip } from './zipArchive';
+import { ArrayFrameStyle, FRAME_HEIGHT, FRAME_WIDTH, drawStepFrame } from './renderStepFrame';
+
+export type FrameFormat = 'gif' | 'png';
+
+// Each frame is encoded on the main thread, so very long ranges are refused rather than freezing the tab.
+export const MAX_EXPORT_FRAMES = 300;
+
+export interface FrameExportOptions {
+  // 0-based, inclusive.
+  from: number;
+  to: number;
+  format: FrameFormat;
+  arrayStyle: ArrayFrameStyle;
+  captions: boolean;
+  // GIF only: how long each step stays on screen.
+  delayMs: number;
+  title: string;
+  // File names start with this, e.g. 'bubble-sort'.
+  fileStem: string;
+}
+
+export interface FrameExport {
+  blob: Blob;
+  fileName: string;
+}
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+// Lets the dialog repaint its progress between frames.
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The browser could not encode a PNG frame.'))), 'image/png'),
+  );
+}
+
+/**
+ * Renders steps `from`..`to` and packs them as one looping GIF, a single PNG, or a zip of
+ * numbered PNGs. Resolves to null when `signal` aborts part way.
+ */
+export async function exportStepFrames(
+  steps: Step[],
+  options: FrameExportOptions,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<FrameExport | null> {
+  const total = options.to - options.from + 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('This browser cannot draw to a canvas.');
+
+  const range = options.from === options.to ? `step-${options.from + 1}` : `steps-${options.from + 1}-${options.to + 1}`;
+  const gif = options.format === 'gif' ? createGifEncoder(FRAME_WIDTH, FRAME_HEIGHT) : null;
+  const pngs: { name: string; data: Uint8Array }[] = [];
+  let lastPng: Blob | null = null;
+
+  for (let i = options.from; i <= options.to; i++) {
+    if (signal?.aborted) return null;
+    drawStepFrame(ctx, steps[i], i, steps.length, options);
+    if (gif) {
+      gif.addFrame({ data: ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT).data, delayMs: options.delayMs });
+    } else {
+      lastPng = await canvasToPng(canvas);
+      pngs.push({ name: `${options.fileStem}-frame-${pad(i + 1, String(steps.length).length)}.png`, data: new Uint8Array(await lastPng.arrayBuffer()) });
+    }
+    onProgress(i - options.from + 1, total);
+    await nextTask();
+  }
+
+  if (gif) return { blob: gif.finish(), fileName: `${options.fileStem}-${range}.gif` };
+  if (total === 1) return { blob: lastPng!, fileName: `${options.fileStem}-${range}.png` };
+  return { blob: createZip(pngs), fileName: `${options.fileStem}-${range}-frames.zip` };
+}
@@ -0,0 +1,209 @@
+/**
+ * A small GIF89a encoder for exported step frames: each frame gets its own 256-colour palette
+ * (the frames are flat UI drawings, so a frequency-picked palette is enough) and is LZW-compressed.
+ * The animation loops forever.
+ */
+
+export interface GifFrame {
+  // RGBA pixels, as from CanvasRenderingContext2D.getImageData.
+  data: Uint8ClampedArray;
+  // How long the frame stays up, in milliseconds (GIF stores hundredths of a second).
+  delayMs: number;
+}
+
+// Colours are bucketed at 5 bits per channel; the 256 most used buckets become the palette.
+function quantize(data: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+  const pixelCount = data.length / 4;
+  const bucketOf = new Uint16Array(pixelCount);
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (let p = 0; p < pixelCount; p++) {
+    const r = data[p * 4];
+    const g = data[p * 4 + 1];
+    const b = data[p * 4 + 2];
+    const bucket = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    bucketOf[p] = bucket;
+    counts[bucket]++;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < counts.length; bucket++) if (counts[bucket] > 0) used.push(bucket);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Int16Array(1 << 15).fill(-1);
+  chosen.forEach((bucket, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[bucket * 3 + c] / counts[bucket]);
+    lookup[bucket] = i;
+  });
+
+  // Rare colours (mostly anti-aliasing) map to the nearest palette entry.
+  const nearest = (bucket: number) => {
+    const r = ((bucket >> 10) & 31) * 8 + 4;
+    const g = ((bucket >> 5) & 31) * 8 + 4;
+    const b = (bucket & 31) * 8 + 4;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const distance = (palette[i * 3] - r) ** 2 + (palette[i * 3 + 1] - g) ** 2 + (palette[i * 3 + 2] - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    const bucket = bucketOf[p];
+    if (lookup[bucket] < 0) lookup[bucket] = nearest(bucket);
+    indices[p] = lookup[bucket];
+  }
+  return { palette, indices };
+}
+
+// Variable-length LZW as GIF wants it: codes packed LSB first, a clear code whenever the table fills.
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  emit(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (nextCode === 4096) {
+      emit(clearCode, codeSize);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      // The decoder widens its codes one entry later than it adds them, so widen before adding.
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+  return bytes;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current: number[] = [];
+
+  byte(value: number) {
+    this.current.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.flush();
+    this.chunks.push(Uint8Array.from(values));
+  }
+
+  // Image data goes out in sub-blocks of at most 255 bytes, ended by an empty one.
+  subBlocks(values: number[]) {
+    for (let i = 0; i < values.length; i += 255) {
+      const block = values.slice(i, i + 255);
+      this.byte(block.length);
+      this.bytes(block);
+    }
+    this.byte(0);
+  }
+
+  toBlob(type: string): Blob {
+    this.flush();
+    return new Blob(this.chunks, { type });
+  }
+
+  private flush() {
+    if (this.current.length === 0) return;
+    this.chunks.push(Uint8Array.from(this.current));
+    this.current = [];
+  }
+}
+
+export function createGifEncoder(width: number, height: number) {
+  const out = new ByteWriter();
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0); // no global colour table: every frame brings its own
+  out.byte(0);
+  out.byte(0);
+  // NETSCAPE2.0 application extension: loop forever.
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.text('NETSCAPE2.0');
+  out.byte(3);
+  out.byte(1);
+  out.word(0);
+  out.byte(0);
+
+  return {
+    addFrame(frame: GifFrame) {
+      const { palette, indices } = quantize(frame.data);
+      // Graphic control extension: delay only, no transparency.
+      out.byte(0x21);
+      out.byte(0xf9);
+      out.byte(4);
+      out.byte(0);
+      out.word(Math.max(2, Math.round(frame.delayMs / 10)));
+      out.byte(0);
+      out.byte(0);
+      // Image descriptor with a 256-entry local colour table.
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0x87);
+      out.bytes(palette);
+      out.byte(8);
+      out.subBlocks(lzwEncode(indices, 8));
+    },
+    finish(): Blob {
+      out.byte(0x3b);
+      return out.toBlob('image/gif');
+    },
+  };
+}
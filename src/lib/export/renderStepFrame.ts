@@ -0,0 +1,528 @@
+import { AuxiliaryArray, Step, primaryHighlight } from '@/lib/stepTypes';
+import { GraphEdgeState, GraphNodeState, GraphStep, isGraphStep } from '@/lib/graphTypes';
+import { TreeNodeState, TreeStep, isTreeStep } from '@/lib/treeTypes';
+import { LinearNodeState, LinearStep, isLinearStep } from '@/lib/linearTypes';
+import { DpCellState, DpStep, dpCellKey, isDpStep } from '@/lib/dpTypes';
+
+/**
+ * Draws one step of the main view onto a canvas, for frame export. The on-screen visualizers are
+ * DOM and SVG with animation, so this is a flat redraw from the step data in the same colours:
+ * a title bar, the step's picture and, optionally, its explanation as a caption.
+ */
+
+export const FRAME_WIDTH = 960;
+export const FRAME_HEIGHT = 540;
+
+export type ArrayFrameStyle = 'cells' | 'bars';
+
+export interface FrameOptions {
+  title: string;
+  arrayStyle: ArrayFrameStyle;
+  captions: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type Ctx = CanvasRenderingContext2D;
+
+const PADDING = 24;
+const HEADER_HEIGHT = 56;
+const CAPTION_LINE = 20;
+const CAPTION_LINES = 3;
+const SANS = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+// Canvas cannot read CSS variables, so 'hsl(var(--compare) / 0.3)' is resolved against the page theme.
+// Resolved colours are cached per frame; the theme may change between exports.
+const resolvedColors = new Map<string, string>();
+
+function themeColor(color: string): string {
+  let resolved = resolvedColors.get(color);
+  if (resolved === undefined) {
+    const style = getComputedStyle(document.documentElement);
+    resolved = color.replace(/var\((--[\w-]+)\)/g, (_, name: string) => style.getPropertyValue(name).trim());
+    resolvedColors.set(color, resolved);
+  }
+  return resolved;
+}
+
+// Same colours as the on-screen visualizers.
+const TREE_COLORS: Record<TreeNodeState, { fill: string; stroke: string }> = {
+  default: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  path: { fill: 'hsl(var(--compare) / 0.15)', stroke: 'hsl(var(--compare) / 0.7)' },
+  current: { fill: 'hsl(var(--compare) / 0.3)', stroke: 'hsl(var(--compare))' },
+  found: { fill: 'hsl(var(--found) / 0.3)', stroke: 'hsl(var(--found))' },
+  inserted: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  removed: { fill: 'hsl(var(--swap) / 0.25)', stroke: 'hsl(var(--swap))' },
+  swap: { fill: 'hsl(var(--shift) / 0.3)', stroke: 'hsl(var(--shift))' },
+  unbalanced: { fill: 'hsl(var(--pivot) / 0.3)', stroke: 'hsl(var(--pivot))' },
+};
+
+const LINEAR_COLORS: Record<LinearNodeState, { fill: string; stroke: string }> = {
+  default: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  current: { fill: 'hsl(var(--compare) / 0.3)', stroke: 'hsl(var(--compare))' },
+  visited: { fill: 'hsl(var(--compare) / 0.1)', stroke: 'hsl(var(--compare) / 0.5)' },
+  found: { fill: 'hsl(var(--found) / 0.3)', stroke: 'hsl(var(--found))' },
+  inserted: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  removed: { fill: 'hsl(var(--swap) / 0.25)', stroke: 'hsl(var(--swap))' },
+};
+
+const GRAPH_NODE_COLORS: Record<GraphNodeState, { fill: string; stroke: string }> = {
+  unvisited: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  frontier: { fill: 'hsl(var(--compare) / 0.25)', stroke: 'hsl(var(--compare))' },
+  current: { fill: 'hsl(var(--key) / 0.3)', stroke: 'hsl(var(--key))' },
+  visited: { fill: 'hsl(var(--sorted) / 0.25)', stroke: 'hsl(var(--sorted))' },
+};
+
+const GRAPH_EDGE_COLORS: Record<GraphEdgeState, string> = {
+  default: 'hsl(var(--muted-foreground) / 0.45)',
+  considered: 'hsl(var(--compare))',
+  tree: 'hsl(var(--sorted))',
+  rejected: 'hsl(var(--swap) / 0.6)',
+};
+
+const DP_COLORS: Record<DpCellState, { fill: string; stroke: string }> = {
+  default: { fill: 'hsl(var(--secondary))', stroke: 'hsl(var(--border))' },
+  current: { fill: 'hsl(var(--compare) / 0.3)', stroke: 'hsl(var(--compare))' },
+  dependency: { fill: 'hsl(var(--key) / 0.2)', stroke: 'hsl(var(--key))' },
+  traceback: { fill: 'hsl(var(--shift) / 0.25)', stroke: 'hsl(var(--shift))' },
+  chosen: { fill: 'hsl(var(--found) / 0.3)', stroke: 'hsl(var(--found))' },
+};
+
+function setFont(ctx: Ctx, size: number, family: string, weight = 'normal') {
+  ctx.font = `${weight} ${size}px ${family}`;
+}
+
+function text(ctx: Ctx, value: string, x: number, y: number, color: string, align: CanvasTextAlign = 'center') {
+  ctx.fillStyle = themeColor(color);
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(value, x, y);
+}
+
+function box(ctx: Ctx, r: Rect, fill: string, stroke: string, radius = 6, lineWidth = 2) {
+  ctx.beginPath();
+  ctx.roundRect(r.x, r.y, r.w, r.h, radius);
+  ctx.fillStyle = themeColor(fill);
+  ctx.fill();
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = themeColor(stroke);
+  ctx.stroke();
+}
+
+function arrowHead(ctx: Ctx, x: number, y: number, angle: number, color: string, size = 8) {
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x - size * Math.cos(angle - 0.4), y - size * Math.sin(angle - 0.4));
+  ctx.lineTo(x - size * Math.cos(angle + 0.4), y - size * Math.sin(angle + 0.4));
+  ctx.closePath();
+  ctx.fillStyle = themeColor(color);
+  ctx.fill();
+}
+
+// Word-wraps to `maxLines`, ending with an ellipsis when the text runs over.
+function wrapText(ctx: Ctx, value: string, width: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= width || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  else if (line) {
+    let last = lines[maxLines - 1];
+    while (last && ctx.measureText(`${last}…`).width > width) last = last.slice(0, -1);
+    lines[maxLines - 1] = `${last}…`;
+  }
+  return lines;
+}
+
+function groupPointers(pointers: Record<string, number | null>): Map<number, string[]> {
+  const bySlot = new Map<number, string[]>();
+  for (const [name, slot] of Object.entries(pointers)) {
+    if (slot === null) continue;
+    bySlot.set(slot, [...(bySlot.get(slot) ?? []), name]);
+  }
+  return bySlot;
+}
+
+function drawArrayCells(ctx: Ctx, step: Step, area: Rect) {
+  const values = step.after;
+  const auxiliary = step.auxiliary ?? [];
+  const gap = 6;
+  const cell = Math.max(18, Math.min(56, (area.w - gap * (values.length - 1)) / Math.max(1, values.length)));
+  const rowWidth = values.length * cell + (values.length - 1) * gap;
+  const left = area.x + (area.w - rowWidth) / 2;
+  const auxHeight = auxiliary.length * 58;
+  const top = area.y + Math.max(36, (area.h - cell - 40 - auxHeight) / 2);
+  const centerX = (i: number) => left + i * (cell + gap) + cell / 2;
+
+  for (const arrow of step.moveArrows) {
+    const color = `hsl(var(--${arrow.type}))`;
+    const from = centerX(arrow.fromIndex);
+    const to = centerX(arrow.toIndex);
+    const lift = Math.min(30, 12 + 4 * Math.abs(arrow.toIndex - arrow.fromIndex));
+    ctx.beginPath();
+    ctx.moveTo(from, top - 4);
+    ctx.bezierCurveTo(from, top - 4 - lift, to, top - 4 - lift, to, top - 4);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = themeColor(color);
+    ctx.stroke();
+    arrowHead(ctx, to, top - 3, Math.PI / 2, color);
+  }
+
+  const pointers = groupPointers(step.pointers);
+  values.forEach((value, i) => {
+    const highlight = primaryHighlight(step.highlights.after, i);
+    const dim = highlight === 'eliminated';
+    ctx.globalAlpha = dim ? 0.4 : 1;
+    box(
+      ctx,
+      { x: centerX(i) - cell / 2, y: top, w: cell, h: cell },
+      highlight && !dim ? `hsl(var(--${highlight}) / 0.25)` : 'hsl(var(--secondary))',
+      highlight && !dim ? `hsl(var(--${highlight}))` : 'hsl(var(--border))',
+    );
+    setFont(ctx, Math.min(18, cell * 0.4), MONO, 'bold');
+    text(ctx, String(value), centerX(i), top + cell / 2, 'hsl(var(--foreground))');
+    ctx.globalAlpha = 1;
+    setFont(ctx, 11, MONO);
+    text(ctx, String(i), centerX(i), top + cell + 10, 'hsl(var(--muted-foreground))');
+    const names = pointers.get(i);
+    if (names) {
+      setFont(ctx, 12, MONO, 'bold');
+      text(ctx, names.join(' / '), centerX(i), top + cell + 26, 'hsl(var(--pointer))');
+    }
+  });
+
+  auxiliary.forEach((aux, row) => drawAuxiliary(ctx, aux, { x: area.x, y: top + cell + 44 + row * 58, w: area.w, h: 58 }));
+}
+
+function drawAuxiliary(ctx: Ctx, aux: AuxiliaryArray, area: Rect) {
+  const gap = 4;
+  const cell = Math.max(16, Math.min(36, (area.w - 120 - gap * (aux.values.length - 1)) / Math.max(1, aux.values.length)));
+  const rowWidth = aux.values.length * cell + (aux.values.length - 1) * gap;
+  const left = area.x + (area.w - rowWidth) / 2;
+  setFont(ctx, 11, SANS, 'bold');
+  text(ctx, aux.label, left - 10, area.y + cell / 2, 'hsl(var(--muted-foreground))', 'right');
+  aux.values.forEach((value, i) => {
+    const x = left + i * (cell + gap);
+    const highlighted = aux.highlight.includes(i);
+    box(
+      ctx,
+      { x, y: area.y, w: cell, h: cell },
+      highlighted ? 'hsl(var(--key) / 0.25)' : value === null ? 'transparent' : 'hsl(var(--secondary))',
+      highlighted ? 'hsl(var(--key))' : 'hsl(var(--border))',
+      4,
+      1.5,
+    );
+    setFont(ctx, Math.min(13, cell * 0.4), MONO, 'bold');
+    if (value !== null) text(ctx, String(value), x + cell / 2, area.y + cell / 2, 'hsl(var(--foreground))');
+    setFont(ctx, 10, MONO);
+    text(ctx, aux.indexLabels?.[i] ?? String(i), x + cell / 2, area.y + cell + 9, 'hsl(var(--muted-foreground))');
+  });
+}
+
+function drawArrayBars(ctx: Ctx, step: Step, area: Rect) {
+  const values = step.after;
+  const gap = 6;
+  const bar = Math.max(6, Math.min(48, (area.w - gap * (values.length - 1)) / Math.max(1, values.length)));
+  const rowWidth = values.length * bar + (values.length - 1) * gap;
+  const left = area.x + (area.w - rowWidth) / 2;
+  const base = area.y + area.h - 40;
+  const low = Math.min(0, ...values);
+  const high = Math.max(1, ...values);
+  const pointers = groupPointers(step.pointers);
+
+  values.forEach((value, i) => {
+    const highlight = primaryHighlight(step.highlights.after, i);
+    const dim = highlight === 'eliminated';
+    const height = Math.max(4, ((value - low) / (high - low)) * (area.h - 70));
+    const x = left + i * (bar + gap);
+    ctx.globalAlpha = dim ? 0.35 : 1;
+    box(
+      ctx,
+      { x, y: base - height, w: bar, h: height },
+      highlight && !dim ? `hsl(var(--${highlight}) / 0.65)` : 'hsl(var(--primary) / 0.3)',
+      highlight && !dim ? `hsl(var(--${highlight}))` : 'hsl(var(--primary) / 0.5)',
+      3,
+      1.5,
+    );
+    ctx.globalAlpha = 1;
+    setFont(ctx, Math.min(13, bar * 0.45), MONO, 'bold');
+    text(ctx, String(value), x + bar / 2, base + 10, 'hsl(var(--foreground))');
+    const names = pointers.get(i);
+    if (names) {
+      setFont(ctx, 11, MONO, 'bold');
+      text(ctx, names.join(' / '), x + bar / 2, base + 26, 'hsl(var(--pointer))');
+    }
+  });
+}
+
+// Scales a drawing's own coordinate box into `area`, centred, keeping its aspect ratio.
+function fitInto(area: Rect, minX: number, minY: number, width: number, height: number) {
+  const scale = Math.min(area.w / Math.max(1, width), area.h / Math.max(1, height), 2);
+  const offsetX = area.x + (area.w - width * scale) / 2;
+  const offsetY = area.y + (area.h - height * scale) / 2;
+  return { scale, x: (x: number) => offsetX + (x - minX) * scale, y: (y: number) => offsetY + (y - minY) * scale };
+}
+
+function drawGraph(ctx: Ctx, step: GraphStep, area: Rect) {
+  const { graph, graphState } = step;
+  const listHeight = 44;
+  const view = fitInto({ ...area, h: area.h - listHeight }, 0, 0, 400, 300);
+  const radius = 18 * view.scale;
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  for (const edge of graph.edges) {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to) continue;
+    const state = graphState.edgeStates[edge.id] ?? 'default';
+    const color = GRAPH_EDGE_COLORS[state];
+    const x1 = view.x(from.x);
+    const y1 = view.y(from.y);
+    const x2 = view.x(to.x);
+    const y2 = view.y(to.y);
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2 - Math.cos(angle) * radius, y2 - Math.sin(angle) * radius);
+    ctx.setLineDash(state === 'rejected' ? [6, 4] : []);
+    ctx.lineWidth = state === 'default' ? 2 : 3;
+    ctx.strokeStyle = themeColor(color);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    if (edge.directed) arrowHead(ctx, x2 - Math.cos(angle) * radius, y2 - Math.sin(angle) * radius, angle, color, 10);
+    if (graph.weighted) {
+      setFont(ctx, 12, MONO, 'bold');
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = themeColor('hsl(var(--background))');
+      ctx.textAlign = 'center';
+      ctx.strokeText(String(edge.weight), (x1 + x2) / 2, (y1 + y2) / 2);
+      text(ctx, String(edge.weight), (x1 + x2) / 2, (y1 + y2) / 2, state === 'default' ? 'hsl(var(--muted-foreground))' : color);
+    }
+  }
+
+  for (const node of graph.nodes) {
+    const colors = GRAPH_NODE_COLORS[graphState.nodeStates[node.id] ?? 'unvisited'];
+    ctx.beginPath();
+    ctx.arc(view.x(node.x), view.y(node.y), radius, 0, Math.PI * 2);
+    ctx.fillStyle = themeColor(colors.fill);
+    ctx.fill();
+    ctx.lineWidth = 2.5;
+    ctx.strokeStyle = themeColor(colors.stroke);
+    ctx.stroke();
+    setFont(ctx, 14, MONO, 'bold');
+    text(ctx, node.id, view.x(node.x), view.y(node.y), 'hsl(var(--foreground))');
+    const distance = graphState.distances[node.id];
+    if (distance !== undefined) {
+      setFont(ctx, 11, MONO, 'bold');
+      text(ctx, distance === null ? '∞' : String(distance), view.x(node.x), view.y(node.y) + radius + 10, distance === null ? 'hsl(var(--muted-foreground))' : 'hsl(var(--primary))');
+    }
+  }
+
+  const frontier = graphState.frontier.map((item) => (item.priority !== undefined ? `${item.node} (${item.priority})` : item.node));
+  setFont(ctx, 12, MONO);
+  text(ctx, `${graphState.frontierLabel}: ${frontier.join(', ') || '—'}`, area.x, area.y + area.h - 32, 'hsl(var(--muted-foreground))', 'left');
+  text(ctx, `${graphState.orderLabel}: ${graphState.order.join(' → ') || '—'}`, area.x, area.y + area.h - 12, 'hsl(var(--muted-foreground))', 'left');
+}
+
+function drawTree(ctx: Ctx, step: TreeStep, area: Rect) {
+  const { tree } = step;
+  const pad = 26;
+  const { minX, minY, maxX, maxY } = tree.bounds;
+  const arrayHeight = tree.array ? 40 : 0;
+  const view = fitInto({ ...area, h: area.h - arrayHeight }, minX - pad, minY - pad, maxX - minX + pad * 2, maxY - minY + pad * 2);
+  const radius = Math.max(10, Math.min(22, 18 * view.scale));
+  const byId = new Map(tree.nodes.map((node) => [node.id, node]));
+
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = themeColor('hsl(var(--muted-foreground) / 0.5)');
+  for (const edge of tree.edges) {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to) continue;
+    ctx.beginPath();
+    ctx.moveTo(view.x(from.x), view.y(from.y));
+    ctx.lineTo(view.x(to.x), view.y(to.y));
+    ctx.stroke();
+  }
+
+  for (const node of tree.nodes) {
+    const colors = TREE_COLORS[tree.nodeStates[node.id] ?? 'default'];
+    const x = view.x(node.x);
+    const y = view.y(node.y);
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = themeColor(colors.fill);
+    ctx.fill();
+    ctx.lineWidth = 2.5;
+    ctx.strokeStyle = themeColor(colors.stroke);
+    ctx.stroke();
+    setFont(ctx, Math.min(14, radius * 0.75), MONO, 'bold');
+    text(ctx, String(node.value), x, y, 'hsl(var(--foreground))');
+    if (node.badge !== null) {
+      setFont(ctx, 10, MONO, 'bold');
+      text(ctx, String(node.badge), x + radius + 4, y - radius + 2, Math.abs(node.badge) > 1 ? 'hsl(var(--pivot))' : 'hsl(var(--muted-foreground))', 'left');
+    }
+  }
+
+  if (tree.array) {
+    setFont(ctx, 13, MONO);
+    text(ctx, `array: [${tree.array.join(', ')}]`, area.x + area.w / 2, area.y + area.h - 14, 'hsl(var(--muted-foreground))');
+  }
+}
+
+function drawLinear(ctx: Ctx, step: LinearStep, area: Rect) {
+  const { linear } = step;
+  const pointers = groupPointers(step.pointers);
+  const isStack = linear.kind === 'stack';
+  const count = linear.nodes.length;
+
+  if (count === 0) {
+    setFont(ctx, 15, SANS, 'italic');
+    text(ctx, `empty ${linear.kind === 'singly' || linear.kind === 'doubly' ? 'list' : linear.kind}`, area.x + area.w / 2, area.y + area.h / 2, 'hsl(var(--muted-foreground))');
+    return;
+  }
+
+  const slotRect = (slot: number): Rect => {
+    if (isStack) {
+      const h = Math.min(36, (area.h - 40) / count - 6);
+      return { x: area.x + area.w / 2 - 70, y: area.y + area.h - 40 - (slot + 1) * (h + 6), w: 140, h };
+    }
+    const w = Math.min(64, (area.w - 24 * (count - 1)) / count);
+    const left = area.x + (area.w - (count * w + (count - 1) * 24)) / 2;
+    return { x: left + slot * (w + 24), y: area.y + area.h / 2 - 22, w, h: 44 };
+  };
+
+  // Lists draw their next (above) and prev (below) links; straight when they point at a neighbour.
+  const links = (targets: (number | null)[], above: boolean, color: string) => {
+    targets.forEach((to, from) => {
+      if (to === null || !linear.nodes[to]) return;
+      const a = slotRect(from);
+      const b = slotRect(to);
+      const changed = linear.changedLinks.includes(from);
+      const stroke = changed ? 'hsl(var(--shift))' : color;
+      ctx.beginPath();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = themeColor(stroke);
+      if (Math.abs(to - from) === 1) {
+        const y = a.y + a.h / 2 + (above ? -8 : 8);
+        const [sx, tx] = to > from ? [a.x + a.w, b.x] : [a.x, b.x + b.w];
+        ctx.moveTo(sx, y);
+        ctx.lineTo(tx, y);
+        ctx.stroke();
+        arrowHead(ctx, tx, y, to > from ? 0 : Math.PI, stroke);
+      } else {
+        const edge = above ? a.y : a.y + a.h;
+        const lift = Math.min(40, 16 + 6 * Math.abs(to - from)) * (above ? -1 : 1);
+        const sx = a.x + a.w / 2;
+        const tx = b.x + b.w / 2;
+        ctx.moveTo(sx, edge);
+        ctx.bezierCurveTo(sx, edge + lift, tx, edge + lift, tx, edge);
+        ctx.stroke();
+        arrowHead(ctx, tx, edge, above ? Math.PI / 2 : -Math.PI / 2, stroke);
+      }
+    });
+  };
+
+  if (linear.kind === 'singly' || linear.kind === 'doubly') {
+    links(linear.next, true, 'hsl(var(--muted-foreground) / 0.7)');
+    if (linear.kind === 'doubly') links(linear.prev, false, 'hsl(var(--muted-foreground) / 0.7)');
+  }
+
+  linear.nodes.forEach((node, slot) => {
+    const r = slotRect(slot);
+    const colors = LINEAR_COLORS[linear.nodeStates[node.id] ?? 'default'];
+    box(ctx, r, colors.fill, colors.stroke);
+    setFont(ctx, 16, MONO, 'bold');
+    text(ctx, String(node.value), r.x + r.w / 2, r.y + r.h / 2, 'hsl(var(--foreground))');
+    const names = pointers.get(slot);
+    if (names) {
+      setFont(ctx, 12, MONO, 'bold');
+      if (isStack) text(ctx, names.join(' / '), r.x + r.w + 10, r.y + r.h / 2, 'hsl(var(--primary))', 'left');
+      else text(ctx, names.join(' / '), r.x + r.w / 2, r.y + r.h + 34, 'hsl(var(--primary))');
+    }
+  });
+
+  if (linear.operation) {
+    setFont(ctx, 13, MONO);
+    text(ctx, `Operation: ${linear.operation}`, area.x, area.y + 10, 'hsl(var(--muted-foreground))', 'left');
+  }
+  if (!(linear.kind === 'singly' || linear.kind === 'doubly')) {
+    setFont(ctx, 13, MONO);
+    text(ctx, `Returned values: ${linear.output.join(', ') || 'none yet'}`, area.x, area.y + area.h - 10, 'hsl(var(--muted-foreground))', 'left');
+  }
+}
+
+function drawDpTable(ctx: Ctx, step: DpStep, area: Rect) {
+  const { dp } = step;
+  const rows = dp.rowLabels.length;
+  const cols = dp.colLabels.length;
+  const resultHeight = 28;
+  const cell = Math.max(14, Math.min(44, (area.w - 60) / (cols + 1), (area.h - resultHeight) / (rows + 1)));
+  const tableWidth = (cols + 1) * cell;
+  const left = area.x + (area.w - tableWidth) / 2;
+  const top = area.y + (area.h - resultHeight - (rows + 1) * cell) / 2;
+  const fontSize = Math.min(14, cell * 0.42);
+
+  setFont(ctx, fontSize, MONO, 'bold');
+  dp.colLabels.forEach((label, c) => text(ctx, label, left + (c + 1.5) * cell, top + cell / 2, 'hsl(var(--muted-foreground))'));
+  dp.rowLabels.forEach((label, r) => text(ctx, label, left + cell / 2, top + (r + 1.5) * cell, 'hsl(var(--muted-foreground))'));
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const colors = DP_COLORS[dp.cellStates[dpCellKey(r, c)] ?? 'default'];
+      const x = left + (c + 1) * cell;
+      const y = top + (r + 1) * cell;
+      box(ctx, { x: x + 1, y: y + 1, w: cell - 2, h: cell - 2 }, colors.fill, colors.stroke, 3, 1.5);
+      setFont(ctx, fontSize, MONO, 'bold');
+      text(ctx, dp.cells[r]?.[c] ?? '', x + cell / 2, y + cell / 2, 'hsl(var(--foreground))');
+    }
+  }
+
+  setFont(ctx, 14, MONO, 'bold');
+  text(ctx, `${dp.resultLabel}: ${dp.result ?? '…'}`, area.x + area.w / 2, area.y + area.h - resultHeight / 2, 'hsl(var(--primary))');
+}
+
+export function drawStepFrame(ctx: Ctx, step: Step, index: number, total: number, options: FrameOptions) {
+  resolvedColors.clear();
+  ctx.fillStyle = themeColor('hsl(var(--background))');
+  ctx.fillRect(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+
+  setFont(ctx, 13, SANS);
+  text(ctx, options.title, PADDING, PADDING + 6, 'hsl(var(--muted-foreground))', 'left');
+  text(ctx, `Step ${index + 1} / ${total}`, FRAME_WIDTH - PADDING, PADDING + 6, 'hsl(var(--muted-foreground))', 'right');
+  setFont(ctx, 20, SANS, 'bold');
+  text(ctx, step.label, PADDING, PADDING + 30, 'hsl(var(--foreground))', 'left');
+
+  let bottom = FRAME_HEIGHT - PADDING;
+  if (options.captions && step.explanation) {
+    setFont(ctx, 15, SANS);
+    const lines = wrapText(ctx, step.explanation, FRAME_WIDTH - PADDING * 2, CAPTION_LINES);
+    const captionTop = FRAME_HEIGHT - PADDING - lines.length * CAPTION_LINE;
+    ctx.fillStyle = themeColor('hsl(var(--border))');
+    ctx.fillRect(PADDING, captionTop - 12, FRAME_WIDTH - PADDING * 2, 1);
+    lines.forEach((line, i) => text(ctx, line, PADDING, captionTop + (i + 0.5) * CAPTION_LINE, 'hsl(var(--foreground))', 'left'));
+    bottom = captionTop - 20;
+  }
+
+  const area: Rect = { x: PADDING, y: PADDING + HEADER_HEIGHT, w: FRAME_WIDTH - PADDING * 2, h: bottom - PADDING - HEADER_HEIGHT };
+  if (isGraphStep(step)) drawGraph(ctx, step, area);
+  else if (isTreeStep(step)) drawTree(ctx, step, area);
+  else if (isLinearStep(step)) drawLinear(ctx, step, area);
+  else if (isDpStep(step)) drawDpTable(ctx, step, area);
+  else if (options.arrayStyle === 'bars') drawArrayBars(ctx, step, area);
+  else drawArrayCells(ctx, step, area);
+}
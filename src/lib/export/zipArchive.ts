@@ -0,0 +1,88 @@
+/**
+ * Bundles already-compressed files (PNG frames) into one .zip without recompressing them:
+ * every entry is "stored", so all this needs is the headers and a CRC-32.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, which is all a zip header can hold.
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function header(size: number, fill: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size);
+  fill(new DataView(bytes.buffer));
+  return bytes;
+}
+
+export function createZip(entries: ZipEntry[], date = new Date()): Blob {
+  const { time, day } = dosDateTime(date);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const crc = crc32(entry.data);
+    const local = header(30, (v) => {
+      v.setUint32(0, 0x04034b50, true);
+      v.setUint16(4, 20, true);
+      v.setUint16(10, time, true);
+      v.setUint16(12, day, true);
+      v.setUint32(14, crc, true);
+      v.setUint32(18, entry.data.length, true);
+      v.setUint32(22, entry.data.length, true);
+      v.setUint16(26, name.length, true);
+    });
+    directory.push(
+      header(46, (v) => {
+        v.setUint32(0, 0x02014b50, true);
+        v.setUint16(4, 20, true);
+        v.setUint16(6, 20, true);
+        v.setUint16(12, time, true);
+        v.setUint16(14, day, true);
+        v.setUint32(16, crc, true);
+        v.setUint32(20, entry.data.length, true);
+        v.setUint32(24, entry.data.length, true);
+        v.setUint16(28, name.length, true);
+        v.setUint32(42, offset, true);
+      }),
+      name,
+    );
+    parts.push(local, name, entry.data);
+    offset += local.length + name.length + entry.data.length;
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = header(22, (v) => {
+    v.setUint32(0, 0x06054b50, true);
+    v.setUint16(8, entries.length, true);
+    v.setUint16(10, entries.length, true);
+    v.setUint32(12, directorySize, true);
+    v.setUint32(16, offset, true);
+  });
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,80 @@
+import { Step, createEmptyHighlights } from './stepTypes';
+
+export type GraphNodeState = 'unvisited' | 'frontier' | 'current' | 'visited';
+export type GraphEdgeState = 'default' | 'considered' | 'tree' | 'rejected';
+
+export interface GraphNode {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  weight: number;
+  directed: boolean;
+}
+
+export interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  directed: boolean;
+  weighted: boolean;
+}
+
+export interface FrontierItem {
+  node: string;
+  priority?: number;
+}
+
+export interface GraphState {
+  nodeStates: Record<string, GraphNodeState>;
+  edgeStates: Record<string, GraphEdgeState>;
+  // Per-node number shown under each node (distance, depth, in-degree...). null renders as ∞.
+  distances: Record<string, number | null>;
+  distanceLabel: string;
+  frontier: FrontierItem[];
+  frontierLabel: string;
+  // Visit order, topological order, or accepted MST edges ("A–B").
+  order: string[];
+  orderLabel: string;
+  current: string | null;
+}
+
+export interface GraphStep extends Step {
+  graph: Graph;
+  graphState: GraphState;
+}
+
+export function isGraphStep(step: Step | undefined): step is GraphStep {
+  return !!step && 'graph' in step && 'graphState' in step;
+}
+
+export function createGraphStep(
+  graph: Graph,
+  graphState: GraphState,
+  fields: Pick<Step, 'label' | 'codeLine' | 'explanation' | 'metrics'>,
+): GraphStep {
+  return {
+    ...fields,
+    before: [],
+    after: [],
+    highlights: {
+      before: createEmptyHighlights(),
+      after: createEmptyHighlights(),
+    },
+    pointers: {},
+    moveArrows: [],
+    graph,
+    graphState: {
+      ...graphState,
+      nodeStates: { ...graphState.nodeStates },
+      edgeStates: { ...graphState.edgeStates },
+      distances: { ...graphState.distances },
+      frontier: graphState.frontier.map((f) => ({ ...f })),
+      order: [...graphState.order],
+    },
+  };
+}
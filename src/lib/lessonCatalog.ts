@@ -0,0 +1,271 @@
+import { Lesson } from '@/lib/lessons';
+
+// Card steps are 0-based indices into the run each lesson's input produces; the step counter on screen is one higher.
+// Changing an input (or an algorithm's step generator) moves the steps, so recheck the cards when either changes.
+export const LESSONS: Lesson[] = [
+  {
+    id: 'bubble-sort-basics',
+    title: 'Bubble Sort: neighbours trade places',
+    summary: 'Compare neighbours, swap when they are out of order, and watch the largest value sink to the end of each pass.',
+    algorithm: 'bubble-sort',
+    inputs: { arrayInput: '5,1,4,2,8' },
+    viewMode: 'bars',
+    cards: [
+      {
+        step: 0,
+        title: 'Five unsorted values',
+        body: 'Bubble sort only ever looks at two neighbours at a time. It walks left to right, and whenever the left one is bigger, the two trade places.',
+      },
+      {
+        step: 1,
+        title: 'The first comparison',
+        body: 'j marks the left value of the pair. 5 is bigger than 1, so they are in the wrong order.',
+      },
+      {
+        step: 2,
+        title: 'A swap',
+        body: 'The bigger value moved one place right. It will keep moving right for as long as it is bigger than its next neighbour.',
+      },
+      {
+        step: 6,
+        title: 'Still carrying 5',
+        body: '5 has been swapped three times in a row and is now next to 8.',
+        checkpoint: {
+          question: 'Next, 5 is compared with 8. Will they swap?',
+          choices: ['Yes', 'No'],
+          answer: 1,
+          explanation: '5 < 8, so they are already in order. Only a bigger left value causes a swap.',
+        },
+      },
+      {
+        step: 8,
+        title: 'End of pass 1',
+        body: 'The largest value, 8, has reached the end and will never move again. Each later pass can stop one place earlier.',
+        checkpoint: {
+          question: 'How many comparisons will pass 2 make?',
+          choices: ['2', '3', '4'],
+          answer: 1,
+          explanation: 'Pass 1 compared 4 pairs; with 8 fixed, pass 2 compares one pair fewer.',
+        },
+      },
+      {
+        step: 16,
+        title: 'A pass with no swaps',
+        body: 'Pass 3 compared two pairs and swapped neither. If a whole pass makes no swaps, the array is sorted, so the algorithm stops early instead of running pass 4.',
+      },
+      {
+        step: 17,
+        title: 'Sorted',
+        body: '9 comparisons and 4 swaps. Every swap fixed exactly one out-of-order pair, so the swap count tells you how unsorted the input was.',
+      },
+    ],
+  },
+  {
+    id: 'insertion-sort-basics',
+    title: 'Insertion Sort: growing a sorted prefix',
+    summary: 'Take the next value as the key, shift bigger values right, and drop the key into the gap.',
+    algorithm: 'insertion-sort',
+    inputs: { arrayInput: '7,3,5,1' },
+    viewMode: 'pictorial',
+    cards: [
+      {
+        step: 0,
+        title: 'A sorted prefix of one',
+        body: 'A single value is always sorted, so the left part starts as just [7]. Each pass grows that sorted part by one value.',
+      },
+      {
+        step: 1,
+        title: 'Picking a key',
+        body: 'The key is the first value outside the sorted part. It is held aside while the sorted part makes room for it.',
+      },
+      {
+        step: 3,
+        title: 'Why is 7 there twice?',
+        body: '7 was copied one place right. The old copy will be overwritten when the key is inserted; the key itself is safe in a separate variable.',
+      },
+      {
+        step: 5,
+        title: 'Pass 2',
+        body: 'The sorted part is now [3, 7] and the key is 5.',
+        checkpoint: {
+          question: 'How many values shift right to make room for 5?',
+          choices: ['0', '1', '2'],
+          answer: 1,
+          explanation: 'Only 7 is bigger than 5. Shifting stops at 3, because 3 ≤ 5.',
+        },
+      },
+      {
+        step: 10,
+        title: 'The smallest value comes last',
+        body: 'The key is 1, smaller than everything in the sorted part [3, 5, 7].',
+        checkpoint: {
+          question: 'At which index will 1 be inserted?',
+          choices: ['index 0', 'index 1', 'index 2', 'index 3'],
+          answer: 0,
+          explanation: 'Every sorted value shifts right, so 1 goes all the way to the front.',
+        },
+      },
+      {
+        step: 18,
+        title: 'Sorted',
+        body: '6 comparisons and 5 shifts. Input in reverse order is the worst case: every key shifts past the whole sorted part.',
+      },
+    ],
+  },
+  {
+    id: 'binary-search-basics',
+    title: 'Binary Search: halving the search space',
+    summary: 'Check the middle of a sorted array and throw away the half that cannot hold the target.',
+    algorithm: 'binary-search',
+    inputs: { arrayInput: '2,5,8,12,16,23,38,56,72,91', targetInput: '23' },
+    viewMode: 'focus',
+    cards: [
+      {
+        step: 0,
+        title: 'Sorted input only',
+        body: 'We are looking for 23. low and high mark the part of the array that could still hold it; right now that is all 10 values.',
+        checkpoint: {
+          question: 'mid is floor((low + high) / 2). What is it first?',
+          choices: ['4', '5', '9'],
+          answer: 0,
+          explanation: 'floor((0 + 9) / 2) = floor(4.5) = 4.',
+        },
+      },
+      {
+        step: 2,
+        title: 'Half the array is gone',
+        body: 'arr[4] = 16 is smaller than 23. The array is sorted, so everything left of index 4 is smaller too and can be skipped.',
+      },
+      {
+        step: 3,
+        title: 'A smaller range',
+        body: 'low moved past mid, to 5.',
+        checkpoint: {
+          question: 'With low = 5 and high = 9, what is mid?',
+          choices: ['6', '7', '8'],
+          answer: 1,
+          explanation: 'floor((5 + 9) / 2) = 7.',
+        },
+      },
+      {
+        step: 6,
+        title: 'Closing in',
+        body: 'arr[7] = 56 was too big, so high moved below mid, to 6.',
+        checkpoint: {
+          question: 'How many values are still in the search space?',
+          choices: ['1', '2', '3', '4'],
+          answer: 1,
+          explanation: 'Indices 5 and 6: high - low + 1 = 2.',
+        },
+      },
+      {
+        step: 9,
+        title: 'Found in 3 comparisons',
+        body: 'A linear search would have checked 6 values to reach index 5. Each binary search comparison halves the range, so 1,000 values take at most 10.',
+      },
+    ],
+  },
+  {
+    id: 'quick-sort-partition',
+    title: 'Quick Sort: one partition at a time',
+    summary: 'Follow the Lomuto partition: i grows a region of values ≤ the pivot, then the pivot drops in right after it.',
+    algorithm: 'quick-sort',
+    inputs: { arrayInput: '6,3,8,1,5' },
+    viewMode: 'pictorial',
+    cards: [
+      {
+        step: 0,
+        title: 'Divide around a pivot',
+        body: 'Quick sort picks a pivot, moves smaller values to its left and bigger ones to its right, then sorts each side the same way.',
+      },
+      {
+        step: 1,
+        title: 'Setting up the partition',
+        body: 'The pivot is the last value, 5. Everything up to i will be ≤ 5; i starts at -1 because that region is empty.',
+      },
+      {
+        step: 3,
+        title: 'Skipping a big value',
+        body: '6 > 5, so it stays where it is and only j moves on.',
+        checkpoint: {
+          question: 'j reaches 3, which is ≤ 5. What happens?',
+          choices: ['i moves up and 3 is swapped into the left region', 'j moves on and nothing swaps', 'The pivot moves'],
+          answer: 0,
+          explanation: 'A value ≤ the pivot grows the left region: i += 1, then arr[i] and arr[j] swap.',
+        },
+      },
+      {
+        step: 9,
+        title: 'The loop is over',
+        body: 'The left region holds 3 and 1, both ≤ 5, and ends at i = 1.',
+        checkpoint: {
+          question: 'At which index will the pivot 5 land?',
+          choices: ['1', '2', '3', '4'],
+          answer: 1,
+          explanation: 'The pivot goes right after the left region, at i + 1 = 2.',
+        },
+      },
+      {
+        step: 11,
+        title: 'One value is final',
+        body: 'Only the pivot is guaranteed to be in place. [3, 1] and [6, 8] are partitioned next, each with its own pivot.',
+      },
+      {
+        step: 28,
+        title: 'Sorted',
+        body: 'Every value was a pivot at some point or sat in a range of one. A pivot that splits the range evenly is what makes quick sort fast.',
+      },
+    ],
+  },
+  {
+    id: 'bfs-basics',
+    title: 'Breadth-First Search: level by level',
+    summary: 'Use a queue to visit every node at distance 1 before any node at distance 2.',
+    algorithm: 'bfs',
+    inputs: { graphInput: 'A-B, A-C, B-D, C-D, C-E, D-F, E-F', startNodeInput: 'A' },
+    viewMode: 'pictorial',
+    cards: [
+      {
+        step: 0,
+        title: 'A queue of nodes to visit',
+        body: 'BFS starts from A. Nodes are marked visited when they are discovered, so none enters the queue twice.',
+      },
+      {
+        step: 2,
+        title: 'Visiting A',
+        body: 'Dequeuing A means looking at each of its neighbours and enqueuing the ones not seen yet.',
+      },
+      {
+        step: 4,
+        title: 'Both neighbours queued',
+        body: 'B and C are at depth 1, and the queue is now [B, C].',
+        checkpoint: {
+          question: 'Which node is dequeued next?',
+          choices: ['B', 'C', 'D'],
+          answer: 0,
+          explanation: 'A queue is first in, first out, and B was enqueued first.',
+        },
+      },
+      {
+        step: 10,
+        title: 'Skipping a known node',
+        body: 'D was already discovered through B, so C does not enqueue it again.',
+        checkpoint: {
+          question: "C's last neighbour is E, not seen yet. What depth does E get?",
+          choices: ['1', '2', '3'],
+          answer: 1,
+          explanation: "A neighbour's depth is one more than the node it was found from: C is at depth 1, so E is at 2.",
+        },
+      },
+      {
+        step: 22,
+        title: 'Every node visited',
+        body: 'The visit order A → B → C → D → E → F is sorted by depth. That is why BFS finds shortest paths in unweighted graphs.',
+      },
+    ],
+  },
+];
+
+export function getLesson(id: string): Lesson | undefined {
+  return LESSONS.find((lesson) => lesson.id === id);
+}
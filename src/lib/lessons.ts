@@ -0,0 +1,68 @@
+import { AlgorithmType } from '@/lib/stepTypes';
+import { LinkInput, ViewMode } from '@/lib/permalink';
+
+/**
+ * Guided lessons: one algorithm on a fixed input, with narration cards pinned to step indices.
+ * A card holds the learner on its step until they press next, or answer its checkpoint correctly.
+ * Lessons are plain data (see lessonCatalog.ts); nothing here knows about a particular algorithm.
+ */
+
+export interface LessonCheckpoint {
+  question: string;
+  choices: string[];
+  // Index into choices.
+  answer: number;
+  // Shown once the right choice is picked.
+  explanation: string;
+}
+
+export interface LessonCard {
+  // 0-based step the card is shown on.
+  step: number;
+  title: string;
+  body: string;
+  checkpoint?: LessonCheckpoint;
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  summary: string;
+  algorithm: AlgorithmType;
+  // Only the inputs the algorithm reads, as in a visualizer link; the rest keep their current values.
+  inputs: Partial<Record<LinkInput, string>>;
+  viewMode: ViewMode;
+  cards: LessonCard[];
+}
+
+export function lessonCardAt(lesson: Lesson, step: number): LessonCard | undefined {
+  return lesson.cards.find((card) => card.step === step);
+}
+
+// The step the learner is held on: the first card not yet cleared, or null once every card has been.
+export function lessonStop(lesson: Lesson, cleared: number[]): number | null {
+  const pending = lesson.cards.filter((card) => !cleared.includes(card.step)).map((card) => card.step);
+  return pending.length > 0 ? Math.min(...pending) : null;
+}
+
+const COMPLETED_STORAGE_KEY = 'dsa-debugger-completed-lessons';
+
+// Ids of finished lessons; anything unreadable counts as none finished.
+export function loadCompletedLessons(): string[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(COMPLETED_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function markLessonCompleted(id: string): void {
+  const completed = loadCompletedLessons();
+  if (completed.includes(id)) return;
+  try {
+    localStorage.setItem(COMPLETED_STORAGE_KEY, JSON.stringify([...completed, id]));
+  } catch {
+    // Storage full or blocked: the lesson still finishes, it just is not remembered.
+  }
+}
@@ -0,0 +1,65 @@
+import { Step, createEmptyHighlights } from './stepTypes';
+
+export type LinearStructureKind = 'singly' | 'doubly' | 'stack' | 'queue' | 'deque';
+export type LinearNodeState = 'default' | 'current' | 'visited' | 'found' | 'inserted' | 'removed';
+
+export interface LinearNode {
+  // Stable across steps so inserts and removals animate as movement.
+  id: string;
+  value: number;
+}
+
+export interface LinearSnapshot {
+  kind: LinearStructureKind;
+  // Display order: list order when the step was taken, stack bottom→top, queue front→rear.
+  nodes: LinearNode[];
+  // Per display slot, the slot its next/prev link points at (null = None).
+  // Empty for array-backed stacks and queues. Links may point backwards mid-reverse.
+  next: (number | null)[];
+  prev: (number | null)[];
+  // Slots whose outgoing links were rewired in this step.
+  changedLinks: number[];
+  nodeStates: Record<string, LinearNodeState>;
+  operation: string | null;
+  // Values returned by pop/dequeue/peek so far.
+  output: number[];
+}
+
+/**
+ * Step.pointers holds display-slot indices for named references
+ * (head, tail, prev, curr, top, front, rear), so the debugger panel lists them as variables.
+ */
+export interface LinearStep extends Step {
+  linear: LinearSnapshot;
+}
+
+export function isLinearStep(step: Step | undefined): step is LinearStep {
+  return !!step && 'linear' in step;
+}
+
+export function createLinearStep(
+  linear: LinearSnapshot,
+  pointers: Record<string, number | null>,
+  fields: Pick<Step, 'label' | 'codeLine' | 'explanation' | 'metrics'>,
+): LinearStep {
+  return {
+    ...fields,
+    before: [],
+    after: [],
+    highlights: {
+      before: createEmptyHighlights(),
+      after: createEmptyHighlights(),
+    },
+    pointers: { ...pointers },
+    moveArrows: [],
+    linear: {
+      ...linear,
+      nodes: linear.nodes.map((n) => ({ ...n })),
+      next: [...linear.next],
+      prev: [...linear.prev],
+      changedLinks: [...linear.changedLinks],
+      nodeStates: { ...linear.nodeStates },
+      output: [...linear.output],
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { Step } from '@/lib/stepTypes';
+import { isWorksheetTrace } from '@/lib/worksheet';
+
+/**
+ * Manual mode: the learner performs the algorithm by comparing and swapping cells themselves.
+ * Each step of the reference trace either expects one such action (a compare arrow, or a swap of two
+ * cells) or plays by itself (setup, pass markers, self-swaps), and every action is checked against
+ * the next step that expects one.
+ */
+
+export type ManualActionKind = 'compare' | 'swap';
+
+export interface ManualAction {
+  kind: ManualActionKind;
+  // Indices with first < second, so clicking order does not matter.
+  first: number;
+  second: number;
+}
+
+export interface ManualCheck {
+  // The step the expected action reaches.
+  stepIndex: number;
+  expected: ManualAction;
+  // Where the learner's action went off track; null when it matched.
+  mistake: string | null;
+}
+
+export function manualAction(kind: ManualActionKind, a: number, b: number): ManualAction {
+  return { kind, first: Math.min(a, b), second: Math.max(a, b) };
+}
+
+// Positions where a step changed the array.
+function changedIndices(step: Step): number[] {
+  return step.after.map((value, i) => (value !== step.before[i] ? i : -1)).filter((i) => i >= 0);
+}
+
+// The action a step expects, or null when it plays by itself; undefined when it changes the array in a way no swap can.
+function stepAction(step: Step): ManualAction | null | undefined {
+  const changed = changedIndices(step);
+  if (changed.length === 2) {
+    const [a, b] = changed;
+    return step.before[a] === step.after[b] && step.before[b] === step.after[a] ? manualAction('swap', a, b) : undefined;
+  }
+  if (changed.length > 0 || step.before.length !== step.after.length) return undefined;
+  const compare = step.moveArrows.find((arrow) => arrow.type === 'compare' && arrow.fromIndex !== arrow.toIndex);
+  return compare ? manualAction('compare', compare.fromIndex, compare.toIndex) : null;
+}
+
+// Algorithms that sort by swapping pairs (bubble, selection, quick, heap...); shifts and merges cannot be done by hand here.
+export function isManualTrace(steps: Step[]): boolean {
+  if (!isWorksheetTrace(steps)) return false;
+  const actions = steps.map(stepAction);
+  return !actions.includes(undefined) && actions.some((action) => action?.kind === 'swap');
+}
+
+// The first step after `from` that expects an action.
+export function nextManualAction(steps: Step[], from: number): { stepIndex: number; action: ManualAction } | null {
+  for (let k = from + 1; k < steps.length; k++) {
+    const action = stepAction(steps[k]);
+    if (action) return { stepIndex: k, action };
+  }
+  return null;
+}
+
+export function describeAction(action: ManualAction, array: number[]): string {
+  const cell = (i: number) => `arr[${i}] = ${array[i]}`;
+  return action.kind === 'compare'
+    ? `compare ${cell(action.first)} with ${cell(action.second)}`
+    : `swap ${cell(action.first)} and ${cell(action.second)}`;
+}
+
+// Checks the learner's action from step `from`; `array` is what they see, for describing their move.
+export function checkManualAction(steps: Step[], from: number, action: ManualAction, array: number[]): ManualCheck | null {
+  const next = nextManualAction(steps, from);
+  if (!next) return null;
+  const { stepIndex, action: expected } = next;
+  if (expected.kind === action.kind && expected.first === action.first && expected.second === action.second) return { stepIndex, expected, mistake: null };
+
+  const samePair = expected.first === action.first && expected.second === action.second;
+  const reference = steps[from].after;
+  const mistake = samePair
+    ? `Right cells, but the algorithm would ${expected.kind} them rather than ${action.kind} them here. ${steps[stepIndex].explanation}`
+    : `You chose to ${describeAction(action, array)}, but the algorithm would ${describeAction(expected, reference)} next. ${steps[stepIndex].explanation}`;
+  return { stepIndex, expected, mistake };
+}
@@ -0,0 +1,161 @@
+import { AlgorithmType } from '@/lib/stepTypes';
+import { getAlgorithm, getAlgorithmsByCategory } from '@/lib/algorithms';
+
+export type ViewMode = 'pictorial' | 'focus' | 'bars';
+
+export const VIEW_MODES: ViewMode[] = ['pictorial', 'focus', 'bars'];
+
+// Store input fields and the query keys that carry them.
+const INPUT_PARAMS = {
+  arrayInput: 'arr',
+  targetInput: 'target',
+  graphInput: 'graph',
+  startNodeInput: 'start',
+  operationsInput: 'ops',
+  paramsInput: 'params',
+  sandboxCode: 'code',
+} as const;
+
+export type LinkInput = keyof typeof INPUT_PARAMS;
+
+export interface VisualizerLink {
+  algorithm: AlgorithmType;
+  // Only the inputs the algorithm reads; the rest keep their current values.
+  inputs: Partial<Record<LinkInput, string>>;
+  // 0-based step index; null when the link was made before steps were generated.
+  step: number | null;
+  viewMode: ViewMode | null;
+}
+
+// Categories the comparison page can race; both runners always come from the same one.
+export type CompareCategory = 'sorting' | 'searching';
+
+export const COMPARE_CATEGORIES: CompareCategory[] = ['sorting', 'searching'];
+
+// Searches race on one shared sorted array; rotated search rotates its input first, so it would search other data.
+const NOT_COMPARABLE: AlgorithmType[] = ['rotated-search'];
+
+function isComparable(algorithm: AlgorithmType, category: CompareCategory): boolean {
+  return getAlgorithm(algorithm)?.info.category === category && !NOT_COMPARABLE.includes(algorithm);
+}
+
+export function getComparableAlgorithms(category: CompareCategory) {
+  return getAlgorithmsByCategory(category).filter((d) => !NOT_COMPARABLE.includes(d.info.id));
+}
+
+export interface ComparisonLink {
+  category: CompareCategory;
+  left: AlgorithmType;
+  right: AlgorithmType;
+  arrayInput: string | null;
+  // Only carried for searching.
+  targetInput: string | null;
+  // 0-based cursors into each runner's timeline.
+  leftStep: number | null;
+  rightStep: number | null;
+}
+
+export type VisualizerLinkState = Record<LinkInput, string> & {
+  algorithm: AlgorithmType;
+  currentStepIndex: number;
+  steps: unknown[];
+  viewMode: ViewMode;
+};
+
+// The inputs an algorithm reads, so links stay short and never carry stale fields.
+export function linkInputsFor(algorithm: AlgorithmType): LinkInput[] {
+  const requirements = getAlgorithm(algorithm)?.requirements;
+  if (!requirements) return [];
+  switch (requirements.inputKind) {
+    case 'graph':
+      return requirements.needsStartNode ? ['graphInput', 'startNodeInput'] : ['graphInput'];
+    case 'operations':
+      return ['operationsInput'];
+    case 'params':
+      return ['paramsInput'];
+    case 'code':
+      return ['sandboxCode', 'arrayInput', 'targetInput'];
+    default:
+      return requirements.needsTarget ? ['arrayInput', 'targetInput'] : ['arrayInput'];
+  }
+}
+
+// Commas stay readable (arr=5,3,1); everything else is percent-encoded.
+function toQuery(entries: [string, string][]): string {
+  return entries.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ',')}`).join('&');
+}
+
+// Steps are 1-based in the URL, matching the step counter on screen.
+function parseStep(raw: string | null): number | null {
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  const step = parseInt(raw, 10);
+  return step >= 1 ? step - 1 : null;
+}
+
+function parseAlgorithm(raw: string | null): AlgorithmType | null {
+  return raw !== null && getAlgorithm(raw as AlgorithmType) ? (raw as AlgorithmType) : null;
+}
+
+export function encodeVisualizerLink(state: VisualizerLinkState): string {
+  const entries: [string, string][] = [['algo', state.algorithm]];
+  for (const input of linkInputsFor(state.algorithm)) {
+    entries.push([INPUT_PARAMS[input], state[input]]);
+  }
+  if (state.steps.length > 0) entries.push(['step', String(state.currentStepIndex + 1)]);
+  entries.push(['view', state.viewMode]);
+  return toQuery(entries);
+}
+
+export function decodeVisualizerLink(params: URLSearchParams): VisualizerLink | null {
+  const algorithm = parseAlgorithm(params.get('algo'));
+  if (!algorithm) return null;
+
+  const inputs: Partial<Record<LinkInput, string>> = {};
+  for (const input of linkInputsFor(algorithm)) {
+    const value = params.get(INPUT_PARAMS[input]);
+    if (value !== null) inputs[input] = value;
+  }
+  const view = params.get('view') as ViewMode | null;
+
+  return {
+    algorithm,
+    inputs,
+    step: parseStep(params.get('step')),
+    viewMode: view !== null && VIEW_MODES.includes(view) ? view : null,
+  };
+}
+
+export function encodeComparisonLink(link: ComparisonLink): string {
+  // Sorting is the default, so older links without `cat` keep working.
+  const entries: [string, string][] = link.category === 'sorting' ? [] : [['cat', link.category]];
+  entries.push(['a', link.left], ['b', link.right]);
+  if (link.arrayInput !== null) entries.push(['arr', link.arrayInput]);
+  if (link.category === 'searching' && link.targetInput !== null) entries.push(['target', link.targetInput]);
+  if (link.leftStep !== null) entries.push(['stepA', String(link.leftStep + 1)]);
+  if (link.rightStep !== null) entries.push(['stepB', String(link.rightStep + 1)]);
+  return toQuery(entries);
+}
+
+// Runners only accept algorithms from the compared category.
+export function decodeComparisonLink(params: URLSearchParams): ComparisonLink | null {
+  const rawCategory = params.get('cat') ?? 'sorting';
+  if (!COMPARE_CATEGORIES.includes(rawCategory as CompareCategory)) return null;
+  const category = rawCategory as CompareCategory;
+  const pick = (raw: string | null) => {
+    const algorithm = parseAlgorithm(raw);
+    return algorithm && isComparable(algorithm, category) ? algorithm : null;
+  };
+  const left = pick(params.get('a'));
+  const right = pick(params.get('b'));
+  if (!left || !right) return null;
+
+  return {
+    category,
+    left,
+    right,
+    arrayInput: params.get('arr'),
+    targetInput: category === 'searching' ? params.get('target') : null,
+    leftStep: parseStep(params.get('stepA')),
+    rightStep: parseStep(params.get('stepB')),
+  };
+}
@@ -0,0 +1,232 @@
+import { AlgorithmInfo, AlgorithmType } from '@/lib/stepTypes';
+import { listAlgorithms } from '@/lib/algorithms';
+import { AlgorithmDefinition } from '@/lib/algorithms/registry';
+import { encodeVisualizerLink } from '@/lib/permalink';
+
+/**
+ * Practice deck: multiple-choice cards built from algorithm metadata (complexity, stability) and from
+ * short generated traces, scheduled with Leitner boxes. A right answer moves a card up a box and further
+ * out; a wrong one sends it back to box 0, due again straight away.
+ */
+
+export interface PracticeCard {
+  // Stable across builds, so saved progress keeps matching: `${algorithm}:${kind}` plus the input for traces.
+  id: string;
+  algorithm: AlgorithmType;
+  prompt: string;
+  choices: string[];
+  // Index into choices.
+  answer: number;
+  explanation: string;
+  // Visualizer query that replays the trace a card was built from.
+  link?: string;
+}
+
+export interface CardReview {
+  box: number;
+  // Epoch milliseconds.
+  due: number;
+  history: { at: number; correct: boolean }[];
+}
+
+export type PracticeProgress = Record<string, CardReview>;
+
+// Days until a card in each box is due again; the last box keeps its interval.
+export const BOX_INTERVAL_DAYS = [0, 1, 3, 7, 16, 35];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Cards in this box or higher count as mastered.
+export const MASTERED_BOX = 4;
+export const NEW_CARDS_PER_SESSION = 10;
+
+const MAX_CHOICES = 4;
+const SORTING_TRACE_INPUTS = [[5, 1, 4], [4, 2, 3, 1]];
+const SEARCHING_TRACE_INPUT = { array: [1, 3, 5, 7, 9, 11, 13], target: 9 };
+
+// A small string hash, used to mix distractors and new cards in the same order on every build.
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (Math.imul(h, 31) + text.charCodeAt(i)) | 0;
+  return h >>> 0;
+}
+
+// Complexities that differ only in a log base or in the name of a variable other than n say the same thing:
+// O(log₃ n) is O(log n) and O(n + b) is O(n + k). An extra term added to n is dropped too, since a card cannot
+// say how large it is next to n: O(n + k) is offered as O(n). Choices are compared in this form, so no
+// distractor is also right.
+function complexityKey(choice: string): string {
+  const names = new Map<string, string>();
+  return choice
+    .replace(/\s+/g, '')
+    .replace(/log(?:_?\d+|[₀-₉]+)/g, 'log')
+    .replace(/log|[A-Za-z]/g, (token) => {
+      if (token === 'log' || token === 'O' || token === 'n') return token;
+      if (!names.has(token)) names.set(token, `#${names.size}`);
+      return names.get(token);
+    })
+    .replace(/n\+#\d+/g, 'n');
+}
+
+function card(
+  id: string,
+  algorithm: AlgorithmType,
+  prompt: string,
+  correct: string,
+  pool: string[],
+  explanation: string,
+  order: (a: string, b: string) => number = (a, b) => a.localeCompare(b),
+): PracticeCard | null {
+  const taken = new Set([complexityKey(correct)]);
+  const distinct = pool.filter((choice) => {
+    const key = complexityKey(choice);
+    if (taken.has(key)) return false;
+    taken.add(key);
+    return true;
+  });
+  const others = distinct
+    .sort((a, b) => hash(id + a) - hash(id + b))
+    .slice(0, MAX_CHOICES - 1);
+  if (others.length === 0) return null;
+  const choices = [correct, ...others].sort(order);
+  return { id, algorithm, prompt, choices, answer: choices.indexOf(correct), explanation };
+}
+
+const summary = (info: AlgorithmInfo) =>
+  `${info.name}: best ${info.timeComplexity.best}, average ${info.timeComplexity.average}, worst ${info.timeComplexity.worst}, space ${info.spaceComplexity}.`;
+
+function metadataCards(info: AlgorithmInfo, related: AlgorithmInfo[]): PracticeCard[] {
+  const times = related.flatMap((other) => [other.timeComplexity.best, other.timeComplexity.average, other.timeComplexity.worst]);
+  const spaces = related.map((other) => other.spaceComplexity);
+  const cards = [
+    card(`${info.id}:worst`, info.id, `Worst-case time of ${info.name}?`, info.timeComplexity.worst, times, summary(info)),
+    card(`${info.id}:average`, info.id, `Average time of ${info.name}?`, info.timeComplexity.average, times, summary(info)),
+    card(`${info.id}:best`, info.id, `Best-case time of ${info.name}?`, info.timeComplexity.best, times, summary(info)),
+    card(`${info.id}:space`, info.id, `Extra space used by ${info.name}?`, info.spaceComplexity, spaces, summary(info)),
+  ];
+  if (info.stable !== undefined) {
+    const explanation = info.stable
+      ? `${info.name} is stable: equal values keep the order they had in the input.`
+      : `${info.name} is not stable: equal values can end up in a different order.`;
+    cards.push(card(`${info.id}:stable`, info.id, `Is ${info.name} stable?`, info.stable ? 'Yes' : 'No', ['Yes', 'No'], explanation));
+  }
+  return cards.filter((c): c is PracticeCard => c !== null);
+}
+
+function comparisonCard(id: string, info: AlgorithmInfo, prompt: string, comparisons: number, stepCount: number, link: string): PracticeCard | null {
+  const nearby = [comparisons - 1, comparisons + 1, comparisons + 2, comparisons - 2].filter((n) => n >= 0).map(String);
+  const explanation = `The trace takes ${stepCount} steps and makes ${comparisons} comparison${comparisons === 1 ? '' : 's'}.`;
+  const built = card(id, info.id, prompt, String(comparisons), nearby, explanation, (a, b) => Number(a) - Number(b));
+  return built && { ...built, link };
+}
+
+// Counting questions read off the last step of a short run, so they always match what the visualizer shows.
+function traceCards(definition: AlgorithmDefinition): PracticeCard[] {
+  const { info } = definition;
+  const runs =
+    info.category === 'sorting'
+      ? SORTING_TRACE_INPUTS.map((array) => ({ array, target: array[0], needsTarget: false }))
+      : info.category === 'searching'
+        ? [{ ...SEARCHING_TRACE_INPUT, needsTarget: true }]
+        : [];
+
+  return runs
+    .map(({ array, target, needsTarget }) => {
+      const steps = definition.generateSteps({ array, target });
+      const comparisons = steps[steps.length - 1]?.metrics.comparisons ?? 0;
+      // Non-comparison sorts (counting, radix) have nothing to count.
+      if (comparisons === 0) return null;
+      const shown = `[${array.join(', ')}]`;
+      const prompt = needsTarget
+        ? `How many comparisons does ${info.name} make to find ${target} in ${shown}?`
+        : `How many comparisons does ${info.name} make on ${shown}?`;
+      const link = encodeVisualizerLink({
+        algorithm: info.id,
+        arrayInput: array.join(','),
+        targetInput: String(target),
+        graphInput: '',
+        startNodeInput: '',
+        operationsInput: '',
+        paramsInput: '',
+        sandboxCode: '',
+        steps,
+        currentStepIndex: steps.length - 1,
+        viewMode: 'pictorial',
+      });
+      return comparisonCard(`${info.id}:comparisons:${array.join(',')}`, info, prompt, comparisons, steps.length, link);
+    })
+    .filter((c): c is PracticeCard => c !== null);
+}
+
+// The whole deck; the sandbox has no fixed complexity, so it has no cards.
+export function buildPracticeCards(): PracticeCard[] {
+  const definitions = listAlgorithms().filter(({ info }) => info.category !== 'sandbox');
+  return definitions.flatMap((definition) => {
+    const related = definitions.map((d) => d.info).filter((other) => other.category === definition.info.category);
+    return [...metadataCards(definition.info, related), ...traceCards(definition)];
+  });
+}
+
+export function reviewCard(progress: PracticeProgress, cardId: string, correct: boolean, now: number): PracticeProgress {
+  const previous = progress[cardId];
+  const box = correct ? Math.min((previous?.box ?? 0) + 1, BOX_INTERVAL_DAYS.length - 1) : 0;
+  return {
+    ...progress,
+    [cardId]: {
+      box,
+      due: now + BOX_INTERVAL_DAYS[box] * DAY_MS,
+      history: [...(previous?.history ?? []), { at: now, correct }],
+    },
+  };
+}
+
+// Due cards first, oldest due date first, then up to `newLimit` cards never seen before.
+export function practiceQueue(cards: PracticeCard[], progress: PracticeProgress, now: number, newLimit: number): PracticeCard[] {
+  const due = cards.filter((c) => progress[c.id] && progress[c.id].due <= now).sort((a, b) => progress[a.id].due - progress[b.id].due);
+  const fresh = cards
+    .filter((c) => !progress[c.id])
+    .sort((a, b) => hash(a.id) - hash(b.id))
+    .slice(0, Math.max(0, newLimit));
+  return [...due, ...fresh];
+}
+
+export function practiceStats(cards: PracticeCard[], progress: PracticeProgress, now: number) {
+  const reviewed = cards.filter((c) => progress[c.id]).map((c) => progress[c.id]);
+  const upcoming = reviewed.filter((r) => r.due > now).map((r) => r.due);
+  return {
+    total: cards.length,
+    fresh: cards.length - reviewed.length,
+    due: reviewed.filter((r) => r.due <= now).length,
+    mastered: reviewed.filter((r) => r.box >= MASTERED_BOX).length,
+    nextDue: upcoming.length > 0 ? Math.min(...upcoming) : null,
+  };
+}
+
+const PROGRESS_STORAGE_KEY = 'dsa-debugger-practice';
+
+function isCardReview(value: unknown): value is CardReview {
+  const review = value as Partial<CardReview> | null;
+  return (
+    typeof review === 'object' && review !== null &&
+    Number.isInteger(review.box) && review.box >= 0 && review.box < BOX_INTERVAL_DAYS.length &&
+    typeof review.due === 'number' &&
+    Array.isArray(review.history)
+  );
+}
+
+// Saved reviews that no longer parse are dropped; those cards simply come back as new.
+export function loadPracticeProgress(): PracticeProgress {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(PROGRESS_STORAGE_KEY) ?? '{}');
+    if (typeof saved !== 'object' || saved === null) return {};
+    return Object.fromEntries(Object.entries(saved).filter(([, review]) => isCardReview(review)));
+  } catch {
+    return {};
+  }
+}
+
+export function savePracticeProgress(progress: PracticeProgress): void {
+  try {
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or blocked: the session still works, it just is not remembered.
+  }
+}
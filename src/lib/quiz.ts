@@ -0,0 +1,173 @@
+import { Step } from '@/lib/stepTypes';
+
+/**
+ * Quiz mode: at key steps the student predicts what the next step does before it is shown.
+ * Questions are read off the step pair itself (pointers, arrows, labels), so any array algorithm
+ * gets them without per-algorithm code, and the answer is always what the next step recorded.
+ */
+
+export type QuizKind = 'pivot' | 'mid' | 'swap' | 'outcome';
+
+export interface QuizQuestion {
+  kind: QuizKind;
+  // The step on screen when the question is asked; its answer is step stepIndex + 1.
+  stepIndex: number;
+  prompt: string;
+  choices: string[];
+  // Index into choices.
+  answer: number;
+}
+
+export interface QuizAnswer {
+  // The run of steps the answer was given in; regenerating starts a new run, even for the same prompt.
+  run: number;
+  stepIndex: number;
+  // Label of the step the question was about, for the review.
+  label: string;
+  prompt: string;
+  choices: string[];
+  answer: number;
+  chosen: number;
+}
+
+const MAX_CHOICES = 4;
+// Pointers that hold a computed probe position rather than a loop counter.
+const PROBE_POINTERS = ['mid', 'pos'];
+
+// Values a step holds outside the array while it makes room (insertion sort's key, shell sort's temp).
+const HELD_VARIABLES = ['key', 'temp'];
+
+const at = (step: Step, index: number) => `arr[${index}] = ${step.after[index]}`;
+
+// The compare arrow points at the held value's slot, which holds a shifted copy once shifting starts,
+// so that operand is named by the variable instead of read from the cell.
+function comparedWith(step: Step, index: number): string {
+  const held = HELD_VARIABLES.find((name) => typeof step.variables?.[name] === 'number');
+  return held ? `${held} = ${step.variables![held]}` : at(step, index);
+}
+
+// Whether the explanation names every number in the prompt, so the question never disagrees with the step.
+function matchesExplanation(step: Step, prompt: string): boolean {
+  const mentioned: string[] = step.explanation.match(/-?\d+(\.\d+)?/g) ?? [];
+  return [...prompt.matchAll(/= (-?\d+(?:\.\d+)?)/g)].every(([, value]) => mentioned.includes(value));
+}
+
+// Choices are sorted rather than shuffled, so the answer's position gives nothing away; one choice is no question.
+function question(
+  kind: QuizKind,
+  stepIndex: number,
+  prompt: string,
+  correct: string,
+  others: string[],
+  order: (a: string, b: string) => number,
+): QuizQuestion | null {
+  const choices = [correct, ...others.filter((c, i) => c !== correct && others.indexOf(c) === i).slice(0, MAX_CHOICES - 1)].sort(order);
+  if (choices.length < 2) return null;
+  return { kind, stepIndex, prompt, choices, answer: choices.indexOf(correct) };
+}
+
+const byNumber = (a: string, b: string) => Number(a) - Number(b);
+
+// Nearby positions as distractors, kept inside the array (and inside [lo, hi] when known).
+function nearbyIndices(correct: number, lo: number, hi: number): string[] {
+  return [correct - 1, correct + 1, correct - 2, correct + 2, lo, hi].filter((i) => i >= lo && i <= hi).map(String);
+}
+
+function pivotQuestion(steps: Step[], index: number): QuizQuestion | null {
+  const [current, next] = [steps[index], steps[index + 1]];
+  const from = current.pointers.pivot;
+  const to = next.pointers.pivot;
+  if (typeof from !== 'number' || typeof to !== 'number' || from === to) return null;
+  const lo = current.pointers.low ?? 0;
+  const hi = current.pointers.high ?? current.after.length - 1;
+  return question('pivot', index, `The pivot ${current.after[from]} is about to be placed. At which index does it land?`, String(to), nearbyIndices(to, lo, hi), byNumber);
+}
+
+function probeQuestion(steps: Step[], index: number): QuizQuestion | null {
+  const [current, next] = [steps[index], steps[index + 1]];
+  const name = PROBE_POINTERS.find((p) => typeof next.pointers[p] === 'number' && next.pointers[p] !== current.pointers[p]);
+  if (!name) return null;
+  const value = next.pointers[name]!;
+  const [loName, hiName] = 'low' in next.pointers ? ['low', 'high'] : 'left' in next.pointers ? ['left', 'right'] : [null, null];
+  const lo = (loName && next.pointers[loName]) ?? 0;
+  const hi = (hiName && next.pointers[hiName]) ?? next.after.length - 1;
+  const range = loName ? `${loName} = ${lo}, ${hiName} = ${hi}. ` : '';
+  return question('mid', index, `${range}What will ${name} be?`, String(value), nearbyIndices(value, lo, hi), byNumber);
+}
+
+// The pair of positions a step swaps, smaller first, if it swaps anything.
+function swappedPair(step: Step): [number, number] | null {
+  const arrow = step.moveArrows.find((a) => a.type === 'swap' && a.fromIndex !== a.toIndex);
+  if (arrow) return [Math.min(arrow.fromIndex, arrow.toIndex), Math.max(arrow.fromIndex, arrow.toIndex)];
+  return null;
+}
+
+function swapQuestion(steps: Step[], index: number): QuizQuestion | null {
+  const [current, next] = [steps[index], steps[index + 1]];
+  const pair = swappedPair(next);
+  if (!pair) return null;
+  // Right after comparing the same two cells the answer is on screen; the outcome question covers that.
+  const compare = current.moveArrows.find((a) => a.type === 'compare');
+  if (compare && Math.min(compare.fromIndex, compare.toIndex) === pair[0] && Math.max(compare.fromIndex, compare.toIndex) === pair[1]) return null;
+
+  const [a, b] = pair;
+  const n = next.after.length;
+  const format = ([x, y]: number[]) => `${x} and ${y}`;
+  const others = [
+    [a, a + 1],
+    [b - 1, b],
+    [a - 1, b],
+    [a, b + 1],
+    [a + 1, b],
+    [0, b],
+  ]
+    .filter(([x, y]) => x >= 0 && y < n && x < y)
+    .map(format);
+  const byPair = (p: string, q: string) => {
+    const [p1, p2] = p.split(' and ').map(Number);
+    const [q1, q2] = q.split(' and ').map(Number);
+    return p1 - q1 || p2 - q2;
+  };
+  return question('swap', index, 'Which two indices are swapped next?', format(pair), others, byPair);
+}
+
+// What kind of step it is: "Pass 2 →: Compare" is a Compare, "Gap 3: Insert 5" an Insert, "Merged [0-3]" a Merged.
+const stepKind = (step: Step) =>
+  step.label
+    .slice(step.label.lastIndexOf(': ') + 1)
+    .replace(/(\s+at)?[\s\d[\]\-–,.]+$/, '')
+    .trim();
+
+function outcomeQuestion(steps: Step[], index: number): QuizQuestion | null {
+  const [current, next] = [steps[index], steps[index + 1]];
+  const compare = current.moveArrows.find((a) => a.type === 'compare');
+  if (!compare || compare.fromIndex === compare.toIndex) return null;
+
+  // Every kind of step that follows this kind of step somewhere in the run is a plausible answer.
+  const kind = stepKind(current);
+  const outcomes: string[] = [];
+  for (let k = 0; k < steps.length - 1; k++) {
+    if (stepKind(steps[k]) !== kind) continue;
+    const outcome = stepKind(steps[k + 1]);
+    if (!outcomes.includes(outcome)) outcomes.push(outcome);
+  }
+
+  const prompt = `${at(current, compare.fromIndex)} is compared with ${comparedWith(current, compare.toIndex)}. What happens next?`;
+  if (!matchesExplanation(current, prompt)) return null;
+  return question('outcome', index, prompt, stepKind(next), outcomes, (a, b) => a.localeCompare(b));
+}
+
+/** The question asked while step `index` is on screen, or null when the next step is not a key step. */
+export function quizQuestionAt(steps: Step[], index: number): QuizQuestion | null {
+  if (index < 0 || index >= steps.length - 1 || steps[index].after.length === 0) return null;
+  return pivotQuestion(steps, index) ?? probeQuestion(steps, index) ?? swapQuestion(steps, index) ?? outcomeQuestion(steps, index);
+}
+
+// A run regenerated from the same input asks the same questions, so an earlier answer still counts.
+export function findQuizAnswer(answers: QuizAnswer[], run: number, question: QuizQuestion): QuizAnswer | undefined {
+  return answers.find((a) => a.run === run && a.stepIndex === question.stepIndex && a.prompt === question.prompt);
+}
+
+export function quizScore(answers: QuizAnswer[]): { correct: number; total: number } {
+  return { correct: answers.filter((a) => a.chosen === a.answer).length, total: answers.length };
+}
@@ -0,0 +1,37 @@
+import { SANDBOX_MAX_STEPS, SANDBOX_TIMEOUT_MS, SandboxRequest, SandboxResponse } from '@/lib/sandbox/sandboxTypes';
+
+/**
+ * Runs user code in a fresh Web Worker and resolves with its trace. The worker is terminated
+ * after each run, and after SANDBOX_TIMEOUT_MS if the code never returns (an infinite loop that
+ * doesn't touch the array never reaches the worker's own step limit).
+ */
+export function runSandbox(code: string, array: number[], target: number): Promise<SandboxResponse> {
+  return new Promise((resolve) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./sandbox.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      // A content security policy or an insecure context can refuse to create the worker at all.
+      resolve({ steps: [], error: `The sandbox could not start: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      worker.terminate();
+      resolve({ steps: [], error: `Timed out after ${SANDBOX_TIMEOUT_MS / 1000} s. Check for a loop that never ends.` });
+    }, SANDBOX_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve({ steps: [], error: event.message || 'The sandbox failed to start.' });
+    };
+
+    const request: SandboxRequest = { code, array, target, maxSteps: SANDBOX_MAX_STEPS };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,43 @@
+import { SourcePosition, createTraceRecorder } from '@/lib/sandbox/traceRecorder';
+import { SANDBOX_ENTRY, SandboxRequest, SandboxResponse } from '@/lib/sandbox/sandboxTypes';
+
+// Frames of code compiled with `new Function`: "<anonymous>:L:C" in Chromium, "> Function:L:C" in Firefox.
+const DYNAMIC_FRAME = /(?:<anonymous>|> Function):(\d+):(\d+)/;
+
+const compile = (body: string) => new Function('arr', 'target', body) as (arr: number[], target: number) => unknown;
+
+// Line number the engine reports for the first line of a compiled body; engines add a
+// different number of header lines around it.
+const bodyStart = (() => {
+  const match = DYNAMIC_FRAME.exec(String(compile('return new Error().stack;')([], 0)));
+  return match ? Number(match[1]) : null;
+})();
+
+/** 0-based line (and column) of the user's code in the innermost compiled frame of `stack`. */
+function positionIn(stack: string | undefined): SourcePosition {
+  const match = bodyStart === null ? null : DYNAMIC_FRAME.exec(stack ?? '');
+  return match ? { line: Number(match[1]) - bodyStart, column: Number(match[2]) } : { line: -1, column: -1 };
+}
+
+self.onmessage = (event: MessageEvent<SandboxRequest>) => {
+  const { code, array, target, maxSteps } = event.data;
+  const recorder = createTraceRecorder(array, target, () => positionIn(new Error().stack), maxSteps);
+  const codeLines = code.split('\n').length;
+  let response: SandboxResponse;
+
+  try {
+    const run = compile(`${code}
+if (typeof ${SANDBOX_ENTRY} !== 'function') throw new Error('Define a function named ${SANDBOX_ENTRY}(arr, target).');
+return ${SANDBOX_ENTRY}(arr, target);`);
+    const result = run(recorder.array, target);
+    response = { steps: recorder.finish(result), error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Errors raised by the wrapper lines after the user's code get no line number.
+    const { line } = positionIn(error instanceof Error ? error.stack : undefined);
+    response = { steps: recorder.steps, error: line >= 0 && line < codeLines ? `Line ${line}: ${message}` : message };
+  }
+
+  // Steps are plain data, so they survive structured cloning unchanged.
+  self.postMessage(response);
+};
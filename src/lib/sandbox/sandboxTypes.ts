@@ -0,0 +1,35 @@
+import { Step } from '@/lib/stepTypes';
+
+// Message sent to the sandbox worker.
+export interface SandboxRequest {
+  code: string;
+  array: number[];
+  target: number;
+  maxSteps: number;
+}
+
+// Reply from the worker. A run that fails part-way still returns the steps recorded so far.
+export interface SandboxResponse {
+  steps: Step[];
+  error: string | null;
+}
+
+export const SANDBOX_MAX_STEPS = 1500;
+export const SANDBOX_TIMEOUT_MS = 3000;
+
+// The function the worker calls; the user's code must declare it.
+export const SANDBOX_ENTRY = 'solve';
+
+export const SANDBOX_TEMPLATE = `// Every read and write on arr becomes a step.
+// Two reads on one line count as a comparison,
+// two writes that exchange values as a swap.
+// Return an index to mark it as the search result.
+function solve(arr, target) {
+  for (let i = 0; i < arr.length - 1; i++) {
+    for (let j = 0; j < arr.length - i - 1; j++) {
+      if (arr[j] > arr[j + 1]) {
+        [arr[j], arr[j + 1]] = [arr[j + 1], arr[j]];
+      }
+    }
+  }
+}`;
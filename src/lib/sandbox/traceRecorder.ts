@@ -0,0 +1,127 @@
+import { Highlights, Metrics, MoveArrow, Step } from '@/lib/stepTypes';
+import { allIndices, createArrayStep } from '@/lib/algorithms/arrayStep';
+
+// Where in the user's code an access happened; -1 where the engine's stack traces can't tell.
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+interface PendingGroup {
+  line: number;
+  columns: number[];
+  before: number[];
+  reads: number[];
+  writes: number[];
+}
+
+export interface TraceRecorder {
+  // Instrumented stand-in for the input array; hand this to the user's code.
+  array: number[];
+  steps: Step[];
+  // Flushes the last group and appends the final step describing the return value.
+  finish: (result: unknown) => Step[];
+}
+
+const isIndex = (prop: string | symbol): prop is string => typeof prop === 'string' && /^\d+$/.test(prop);
+
+// Numbered from 0, like the source view in DebuggerPanel.
+const lineLabel = (line: number) => (line >= 0 ? `Line ${line}` : 'Array access');
+
+/**
+ * Records array accesses made through a Proxy as Steps. Accesses from one execution of a source
+ * line are grouped (`positionOf` reports where in the user's code the access is; a column seen
+ * again means the line is running again): up to two reads become a read or comparison step, and
+ * writes, together with the reads that fed them, become a write or swap step. `swaps` counts
+ * element moves, as in the insertion sort generator.
+ */
+export function createTraceRecorder(input: number[], target: number, positionOf: () => SourcePosition, maxSteps: number): TraceRecorder {
+  const data = [...input];
+  const steps: Step[] = [];
+  const metrics: Metrics = { comparisons: 0, swaps: 0, passes: 0 };
+  let pending: PendingGroup | null = null;
+
+  const push = (label: string, codeLine: number, explanation: string, before: number[], highlights: Partial<Highlights>, moveArrows: MoveArrow[] = [], pointers: Record<string, number | null> = {}) => {
+    if (steps.length >= maxSteps) {
+      throw new Error(`Stopped after ${maxSteps} steps. Try a smaller array, or check for a loop that never ends.`);
+    }
+    steps.push(createArrayStep({ label, codeLine, explanation, before, after: data, highlights, moveArrows, pointers, metrics }));
+  };
+
+  const flush = () => {
+    if (!pending) return;
+    const { line, before, reads, writes } = pending;
+    pending = null;
+
+    if (writes.length === 2 && before[writes[0]] === data[writes[1]] && before[writes[1]] === data[writes[0]] && before[writes[0]] !== before[writes[1]]) {
+      const [i, j] = writes;
+      metrics.swaps++;
+      push(`${lineLabel(line)}: Swap`, line, `Swap arr[${i}] and arr[${j}]: ${before[i]} ↔ ${before[j]}.`, before, { swap: [i, j] }, [{ fromIndex: i, toIndex: j, type: 'swap' }]);
+    } else if (writes.length > 0) {
+      metrics.swaps += writes.length;
+      const described = writes.map((i) => `arr[${i}] = ${data[i]}${before[i] === undefined ? '' : ` (was ${before[i]})`}`).join(', ');
+      const sources = reads.filter((i) => !writes.includes(i));
+      push(`${lineLabel(line)}: Write`, line, `${described}.`, before, { shift: writes, key: sources }, sources.map((from) => ({ fromIndex: from, toIndex: writes[0], type: 'shift' })));
+    } else if (reads.length === 2) {
+      const [i, j] = reads;
+      metrics.comparisons++;
+      push(`${lineLabel(line)}: Compare`, line, `Compare arr[${i}] = ${data[i]} with arr[${j}] = ${data[j]}.`, before, { compare: [i, j] }, [{ fromIndex: i, toIndex: j, type: 'compare' }]);
+    } else {
+      const [i] = reads;
+      const note = data[i] === target ? ` That is the target ${target}.` : '';
+      push(`${lineLabel(line)}: Read`, line, `Read arr[${i}] = ${data[i]}.${note}`, before, { compare: [i] });
+    }
+  };
+
+  // Starts a new group unless this access continues the current execution of the same line.
+  const groupFor = (obj: number[], { line, column }: SourcePosition, full: boolean) => {
+    const repeated = column >= 0 && pending?.columns.includes(column);
+    if (!pending || pending.line !== line || repeated || full) {
+      flush();
+      pending = { line, columns: [], before: [...obj], reads: [], writes: [] };
+    }
+    pending.columns.push(column);
+    return pending;
+  };
+
+  const array = new Proxy(data, {
+    get(obj, prop, receiver) {
+      if (isIndex(prop) && Number(prop) < obj.length) {
+        const index = Number(prop);
+        const full = !!pending && (pending.writes.length > 0 || pending.reads.length === 2 || pending.reads.includes(index));
+        groupFor(obj, positionOf(), full).reads.push(index);
+      }
+      return Reflect.get(obj, prop, receiver);
+    },
+    set(obj, prop, value, receiver) {
+      if (!isIndex(prop)) return Reflect.set(obj, prop, value, receiver);
+      const index = Number(prop);
+      const full = !!pending && (pending.writes.length === 2 || pending.writes.includes(index));
+      const group = groupFor(obj, positionOf(), full);
+      const ok = Reflect.set(obj, prop, Number(value), receiver);
+      group.writes.push(index);
+      return ok;
+    },
+  });
+
+  push('Initial', -1, `Running solve(arr, ${target}) on [${data.join(', ')}]. Each array access is recorded as it happens.`, data, {});
+
+  const finish = (result: unknown) => {
+    flush();
+    const n = data.length;
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    const summary = `${plural(metrics.comparisons, 'comparison')} and ${plural(metrics.swaps, 'move')}.`;
+    if (typeof result === 'number' && Number.isInteger(result) && result >= 0 && result < n) {
+      push('Complete!', -1, `solve returned index ${result} (arr[${result}] = ${data[result]}). ${summary}`, data, { found: [result] }, [], { result });
+    } else if (result === -1) {
+      push('Not Found', -1, `solve returned -1. ${summary}`, data, { eliminated: allIndices(n) }, [], { result: null });
+    } else {
+      const sorted = data.every((value, i) => i === 0 || data[i - 1] <= value);
+      const returned = result === undefined || result === array ? '' : ` solve returned ${String(result)}.`;
+      push('Complete!', -1, `Finished${sorted ? ' with the array in sorted order' : ''}: [${data.join(', ')}].${returned} ${summary}`, data, sorted ? { sorted: allIndices(n) } : {});
+    }
+    return steps;
+  };
+
+  return { array, steps, finish };
+}
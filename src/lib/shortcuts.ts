@@ -0,0 +1,92 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'nextStep'
+  | 'prevStep'
+  | 'firstStep'
+  | 'lastStep'
+  | 'stepOver'
+  | 'stepBackOver'
+  | 'stepOut'
+  | 'stepBackOut'
+  | 'runToCursor'
+  | 'runBackToCursor'
+  | 'viewPictorial'
+  | 'viewFocus'
+  | 'viewBars'
+  | 'randomArray'
+  | 'showShortcuts';
+
+// Bindings are KeyboardEvent.key values; letters are stored lower-case.
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUTS: { action: ShortcutAction; label: string }[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'nextStep', label: 'Next step' },
+  { action: 'prevStep', label: 'Previous step' },
+  { action: 'firstStep', label: 'First step' },
+  { action: 'lastStep', label: 'Last step' },
+  { action: 'stepOver', label: 'Step over' },
+  { action: 'stepBackOver', label: 'Step back over' },
+  { action: 'stepOut', label: 'Step out' },
+  { action: 'stepBackOut', label: 'Step back out' },
+  { action: 'runToCursor', label: 'Run to cursor' },
+  { action: 'runBackToCursor', label: 'Run back to cursor' },
+  { action: 'viewPictorial', label: 'Pictorial view' },
+  { action: 'viewFocus', label: 'Focus view' },
+  { action: 'viewBars', label: 'Bar chart view' },
+  { action: 'randomArray', label: 'Random array' },
+  { action: 'showShortcuts', label: 'Show shortcuts' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  playPause: ' ',
+  nextStep: 'ArrowRight',
+  prevStep: 'ArrowLeft',
+  firstStep: 'Home',
+  lastStep: 'End',
+  stepOver: '.',
+  stepBackOver: ',',
+  stepOut: ']',
+  stepBackOut: '[',
+  runToCursor: 'c',
+  runBackToCursor: 'x',
+  viewPictorial: '1',
+  viewFocus: '2',
+  viewBars: '3',
+  randomArray: 'r',
+  showShortcuts: '?',
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+// Keys that keep their browser meaning or would leave the user unable to type: never bindable.
+export function isBindableKey(key: string): boolean {
+  return !['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(key);
+}
+
+// Shortcuts stay out of the way while the user types or a field owns the keyboard.
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element?.tagName) return false;
+  const tag = element.tagName.toLowerCase();
+  return tag === 'input' || tag === 'textarea' || tag === 'select' || element.isContentEditable;
+}
+
+export function findShortcut(bindings: ShortcutBindings, key: string): ShortcutAction | undefined {
+  const normalized = normalizeKey(key);
+  return SHORTCUTS.find(({ action }) => bindings[action] === normalized)?.action;
+}
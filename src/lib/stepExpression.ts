@@ -0,0 +1,212 @@
+import { Step } from '@/lib/stepTypes';
+
+/**
+ * A small, side-effect-free expression language over step data, used by conditional breakpoints and watches.
+ * Supports numbers, true/false/null, names, `a.b`, `a[i]`, arithmetic (+ - * / %),
+ * comparisons (== != < <= > >=) and logic (&& || ! or and/or/not). Nothing is ever executed as JavaScript.
+ */
+
+export type ExpressionValue = number | string | boolean | null | undefined | ExpressionValue[] | { [key: string]: ExpressionValue };
+export type ExpressionScope = Record<string, ExpressionValue>;
+
+type Node =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'name'; name: string }
+  | { kind: 'member'; object: Node; property: Node }
+  | { kind: 'unary'; op: '-' | '!'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node };
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?|\.\d+|[A-Za-z_$][\w$]*|===|!==|==|!=|<=|>=|&&|\|\||[-+*/%<>!().[\]])/y;
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      if (source.slice(start).trim() === '') break;
+      throw new Error(`Unexpected "${source.slice(start).trim()[0]}"`);
+    }
+    tokens.push(WORD_OPERATORS[match[1]] ?? match[1]);
+  }
+  return tokens;
+}
+
+// Recursive descent, lowest precedence first.
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const accept = (...ops: string[]) => (ops.includes(tokens[pos]) ? tokens[pos++] : null);
+  const expect = (op: string) => {
+    if (tokens[pos] !== op) throw new Error(tokens[pos] === undefined ? `Missing "${op}"` : `Expected "${op}" but found "${tokens[pos]}"`);
+    pos++;
+  };
+
+  const binary = (next: () => Node, ops: string[]) => (): Node => {
+    let left = next();
+    for (let op = accept(...ops); op; op = accept(...ops)) {
+      left = { kind: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Expression ends too early');
+    if (token === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (/^(\d|\.\d)/.test(token)) return { kind: 'literal', value: Number(token) };
+    if (token === 'true' || token === 'false') return { kind: 'literal', value: token === 'true' };
+    if (token === 'null') return { kind: 'literal', value: null };
+    if (/^[A-Za-z_$]/.test(token)) return { kind: 'name', name: token };
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const postfix = (): Node => {
+    let node = primary();
+    for (;;) {
+      if (accept('.')) {
+        const name = tokens[pos++];
+        if (!name || !/^[A-Za-z_$]/.test(name)) throw new Error('Expected a property name after "."');
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: name } };
+      } else if (accept('[')) {
+        const property = expression();
+        expect(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const unary = (): Node => {
+    const op = accept('-', '!');
+    return op ? { kind: 'unary', op: op as '-' | '!', operand: unary() } : postfix();
+  };
+
+  const multiplicative = binary(unary, ['*', '/', '%']);
+  const additive = binary(multiplicative, ['+', '-']);
+  const comparison = binary(additive, ['==', '!=', '===', '!==', '<', '<=', '>', '>=']);
+  const and = binary(comparison, ['&&']);
+  const expression = binary(and, ['||']);
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const root = expression();
+  if (peek() !== undefined) throw new Error(`Unexpected "${peek()}"`);
+  return root;
+}
+
+// Only own data is readable (plus array length), so "constructor" and friends stay out of reach.
+function readMember(object: ExpressionValue, key: ExpressionValue): ExpressionValue {
+  if (object === null || typeof object !== 'object') return undefined;
+  if (Array.isArray(object)) {
+    if (key === 'length') return object.length;
+    return typeof key === 'number' && Number.isInteger(key) ? object[key] : undefined;
+  }
+  const name = String(key);
+  return Object.prototype.hasOwnProperty.call(object, name) ? object[name] : undefined;
+}
+
+const asNumber = (value: ExpressionValue) => (typeof value === 'number' ? value : NaN);
+const normalize = (value: ExpressionValue) => (value === undefined ? null : value);
+
+function evaluateNode(node: Node, scope: ExpressionScope): ExpressionValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'name':
+      return Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined;
+    case 'member':
+      return readMember(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '!' ? !operand : -asNumber(operand);
+    }
+    case 'binary': {
+      if (node.op === '&&') return Boolean(evaluateNode(node.left, scope)) && Boolean(evaluateNode(node.right, scope));
+      if (node.op === '||') return Boolean(evaluateNode(node.left, scope)) || Boolean(evaluateNode(node.right, scope));
+      const left = normalize(evaluateNode(node.left, scope));
+      const right = normalize(evaluateNode(node.right, scope));
+      switch (node.op) {
+        case '==':
+        case '===':
+          return left === right;
+        case '!=':
+        case '!==':
+          return left !== right;
+        // Ordering only means something for numbers; a missing pointer never satisfies it.
+        case '<':
+          return typeof left === 'number' && typeof right === 'number' && left < right;
+        case '<=':
+          return typeof left === 'number' && typeof right === 'number' && left <= right;
+        case '>':
+          return typeof left === 'number' && typeof right === 'number' && left > right;
+        case '>=':
+          return typeof left === 'number' && typeof right === 'number' && left >= right;
+        case '+':
+          return asNumber(left) + asNumber(right);
+        case '-':
+          return asNumber(left) - asNumber(right);
+        case '*':
+          return asNumber(left) * asNumber(right);
+        case '/':
+          return asNumber(left) / asNumber(right);
+        default:
+          return asNumber(left) % asNumber(right);
+      }
+    }
+  }
+}
+
+export type CompiledExpression =
+  | { evaluate: (scope: ExpressionScope) => ExpressionValue; error: null }
+  | { evaluate: null; error: string };
+
+// Parsing is the only thing that can fail; `error` is a short message meant for the user.
+export function compileExpression(source: string): CompiledExpression {
+  try {
+    const root = parse(source);
+    return { evaluate: (scope) => evaluateNode(root, scope), error: null };
+  } catch (error) {
+    return { evaluate: null, error: (error as Error).message };
+  }
+}
+
+/**
+ * Names an expression can read at a step: `arr` (values before the step), `after`, `n`,
+ * the metrics (`comparisons`, `swaps`, `passes`), `pointers`, `variables`, then every local and
+ * every pointer by its own name unless an earlier name has it. Locals win over pointers, matching
+ * the code (quick sort's `pivot` is the value; `pointers.pivot` is its index).
+ */
+export function createStepScope(step: Step): ExpressionScope {
+  const scope: ExpressionScope = {
+    arr: step.before,
+    after: step.after,
+    n: step.before.length,
+    comparisons: step.metrics.comparisons,
+    swaps: step.metrics.swaps,
+    passes: step.metrics.passes,
+    pointers: { ...step.pointers },
+    variables: { ...step.variables },
+  };
+  for (const [name, value] of [...Object.entries(step.variables ?? {}), ...Object.entries(step.pointers)]) {
+    if (!Object.prototype.hasOwnProperty.call(scope, name)) scope[name] = value;
+  }
+  return scope;
+}
+
+export function formatExpressionValue(value: ExpressionValue): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+  if (Array.isArray(value)) return `[${value.map(formatExpressionValue).join(', ')}]`;
+  if (typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([key, item]) => `${key}: ${formatExpressionValue(item)}`).join(', ')} }`;
+  }
+  return String(value);
+}
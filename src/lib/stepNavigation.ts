@@ -0,0 +1,70 @@
+import { Step } from '@/lib/stepTypes';
+
+/**
+ * Debugger-style jumps through a recorded trace. Every target is found from the steps' own metadata
+ * (call stack, loop depth, highlighted line), so they work the same going forward or backward.
+ */
+
+export type StepDirection = 'forward' | 'backward';
+
+const callDepth = (step: Step) => step.callStack?.length ?? 0;
+const loopDepth = (step: Step) => step.loopDepth ?? 0;
+
+// Whether `step` still runs inside the call that was innermost at `origin` (always true outside any call).
+function insideFrame(step: Step, origin: Step): boolean {
+  const depth = callDepth(origin);
+  if (depth === 0) return true;
+  return step.callStack?.[depth - 1]?.enteredAt === origin.callStack?.[depth - 1]?.enteredAt;
+}
+
+// The nearest step past `index` in `direction` that satisfies `matches`, or null.
+function scan(steps: Step[], index: number, direction: StepDirection, matches: (step: Step) => boolean): number | null {
+  const delta = direction === 'forward' ? 1 : -1;
+  for (let k = index + delta; k >= 0 && k < steps.length; k += delta) {
+    if (matches(steps[k])) return k;
+  }
+  return null;
+}
+
+/**
+ * Step over: a call or a deeper loop that starts next runs as one unit; inside an inner loop
+ * (depth 2+), the rest of it is skipped up to the enclosing iteration. Leaving the current call
+ * always stops.
+ */
+export function stepOverTarget(steps: Step[], index: number, direction: StepDirection): number | null {
+  const current = steps[index];
+  const neighbour = steps[index + (direction === 'forward' ? 1 : -1)];
+  if (!current || !neighbour) return null;
+
+  const entersDeeper =
+    callDepth(neighbour) > callDepth(current) ||
+    (insideFrame(neighbour, current) && callDepth(neighbour) === callDepth(current) && loopDepth(neighbour) > loopDepth(current));
+  const maxLoopDepth = entersDeeper || loopDepth(current) < 2 ? loopDepth(current) : loopDepth(current) - 1;
+
+  return scan(
+    steps,
+    index,
+    direction,
+    (step) => !insideFrame(step, current) || (callDepth(step) === callDepth(current) && loopDepth(step) <= maxLoopDepth),
+  );
+}
+
+// Step out: finish the current call; outside any call, finish the innermost loop instead.
+export function stepOutTarget(steps: Step[], index: number, direction: StepDirection): number | null {
+  const current = steps[index];
+  if (!current) return null;
+  if (callDepth(current) > 0) return scan(steps, index, direction, (step) => !insideFrame(step, current));
+  if (loopDepth(current) > 0) return scan(steps, index, direction, (step) => loopDepth(step) < loopDepth(current));
+  return null;
+}
+
+// Run to cursor: the nearest step that highlights `line`, as `lineOf` maps steps to lines.
+export function lineTarget(
+  steps: Step[],
+  index: number,
+  direction: StepDirection,
+  line: number,
+  lineOf: (step: Step) => number | null,
+): number | null {
+  return scan(steps, index, direction, (step) => lineOf(step) === line);
+}
@@ -23,6 +23,30 @@ export interface Metrics {
   passes: number;
 }
 
+// Extra array drawn under the main row: count arrays, buckets, merge buffers.
+export interface AuxiliaryArray {
+  label: string;
+  // null marks an empty slot (e.g. an output position not written yet).
+  values: (number | null)[];
+  // Shown under each cell instead of its index, e.g. the value a count slot stands for.
+  indexLabels?: string[];
+  highlight: number[];
+}
+
+// A local's value at a step, as shown in the Watch panel.
+export type StepVariableValue = number | string | boolean | null;
+
+// One pending call in a recursive algorithm, innermost last in Step.callStack.
+export interface StackFrame {
+  // Function name as written in the code listing, e.g. 'quick_sort'.
+  name: string;
+  args: Record<string, number>;
+  // Set on the call's last step, once it has produced its result.
+  returnValue?: number | number[];
+  // Index of the first step recorded inside this call.
+  enteredAt: number;
+}
+
 export interface Step {
   label: string;
   before: number[];
@@ -36,16 +60,54 @@ export interface Step {
   codeLine: number;
   explanation: string;
   metrics: Metrics;
+  auxiliary?: AuxiliaryArray[];
+  // Locals that are neither index pointers nor metrics (insertion sort's key, heap sort's largest).
+  variables?: Record<string, StepVariableValue>;
+  // Pending calls at this step, outermost first; only recursive algorithms record it.
+  callStack?: StackFrame[];
+  // Loops enclosing the step's line within its function (1 = outer loop); nested-loop algorithms record it.
+  loopDepth?: number;
 }
 
-export type SortingAlgorithm = 'bubble-sort' | 'selection-sort' | 'insertion-sort' | 'merge-sort' | 'quick-sort' | 'heap-sort';
-export type SearchingAlgorithm = 'linear-search' | 'binary-search' | 'jump-search' | 'interpolation-search';
-export type AlgorithmType = SortingAlgorithm | SearchingAlgorithm;
+export type SortingAlgorithm =
+  | 'bubble-sort'
+  | 'selection-sort'
+  | 'insertion-sort'
+  | 'merge-sort'
+  | 'quick-sort'
+  | 'heap-sort'
+  | 'shell-sort'
+  | 'counting-sort'
+  | 'radix-sort'
+  | 'bucket-sort'
+  | 'cocktail-sort'
+  | 'comb-sort'
+  | 'tim-sort';
+export type SearchingAlgorithm =
+  | 'linear-search'
+  | 'binary-search'
+  | 'jump-search'
+  | 'interpolation-search'
+  | 'exponential-search'
+  | 'ternary-search'
+  | 'fibonacci-search'
+  | 'first-occurrence'
+  | 'last-occurrence'
+  | 'lower-bound'
+  | 'upper-bound'
+  | 'rotated-search';
+export type GraphAlgorithm = 'bfs' | 'dfs' | 'dijkstra' | 'prim' | 'kruskal' | 'topological-sort';
+export type TreeAlgorithm = 'bst' | 'avl-tree' | 'binary-heap';
+export type LinearStructure = 'singly-linked-list' | 'doubly-linked-list' | 'stack' | 'queue' | 'deque';
+export type DpAlgorithm = 'lcs' | 'knapsack' | 'edit-distance' | 'coin-change';
+export type SandboxAlgorithm = 'custom-code';
+export type AlgorithmType = SortingAlgorithm | SearchingAlgorithm | GraphAlgorithm | TreeAlgorithm | LinearStructure | DpAlgorithm | SandboxAlgorithm;
+export type AlgorithmCategory = 'sorting' | 'searching' | 'graph' | 'tree' | 'linear-structures' | 'dynamic-programming' | 'sandbox';
 
 export interface AlgorithmInfo {
   id: AlgorithmType;
   name: string;
-  category: 'sorting' | 'searching';
+  category: AlgorithmCategory;
   timeComplexity: {
     best: string;
     average: string;
@@ -56,99 +118,11 @@ export interface AlgorithmInfo {
   stable?: boolean;
 }
 
-export const SORTING_ALGORITHMS: AlgorithmInfo[] = [
-  {
-    id: 'bubble-sort',
-    name: 'Bubble Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n)', average: 'O(n²)', worst: 'O(n²)' },
-    spaceComplexity: 'O(1)',
-    description: 'Repeatedly swaps adjacent elements if they are in wrong order. Simple but inefficient for large datasets.',
-    stable: true,
-  },
-  {
-    id: 'selection-sort',
-    name: 'Selection Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n²)', average: 'O(n²)', worst: 'O(n²)' },
-    spaceComplexity: 'O(1)',
-    description: 'Finds minimum element in unsorted part and places it at beginning. Minimizes swaps.',
-    stable: false,
-  },
-  {
-    id: 'insertion-sort',
-    name: 'Insertion Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n)', average: 'O(n²)', worst: 'O(n²)' },
-    spaceComplexity: 'O(1)',
-    description: 'Builds sorted array one element at a time by inserting each element into its correct position.',
-    stable: true,
-  },
-  {
-    id: 'merge-sort',
-    name: 'Merge Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n log n)' },
-    spaceComplexity: 'O(n)',
-    description: 'Divides array into halves, sorts recursively, then merges. Consistent performance.',
-    stable: true,
-  },
-  {
-    id: 'quick-sort',
-    name: 'Quick Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n²)' },
-    spaceComplexity: 'O(log n)',
-    description: 'Picks a pivot, partitions around it, then recursively sorts sub-arrays. Very fast in practice.',
-    stable: false,
-  },
-  {
-    id: 'heap-sort',
-    name: 'Heap Sort',
-    category: 'sorting',
-    timeComplexity: { best: 'O(n log n)', average: 'O(n log n)', worst: 'O(n log n)' },
-    spaceComplexity: 'O(1)',
-    description: 'Uses binary heap data structure to sort. In-place with guaranteed O(n log n).',
-    stable: false,
-  },
-];
-
-export const SEARCHING_ALGORITHMS: AlgorithmInfo[] = [
-  {
-    id: 'linear-search',
-    name: 'Linear Search',
-    category: 'searching',
-    timeComplexity: { best: 'O(1)', average: 'O(n)', worst: 'O(n)' },
-    spaceComplexity: 'O(1)',
-    description: 'Checks each element sequentially. Works on unsorted arrays.',
-  },
-  {
-    id: 'binary-search',
-    name: 'Binary Search',
-    category: 'searching',
-    timeComplexity: { best: 'O(1)', average: 'O(log n)', worst: 'O(log n)' },
-    spaceComplexity: 'O(1)',
-    description: 'Efficiently finds target in sorted array by repeatedly dividing search space in half.',
-  },
-  {
-    id: 'jump-search',
-    name: 'Jump Search',
-    category: 'searching',
-    timeComplexity: { best: 'O(1)', average: 'O(√n)', worst: 'O(√n)' },
-    spaceComplexity: 'O(1)',
-    description: 'Jumps ahead by √n steps, then linear search backwards. Good for sorted arrays.',
-  },
-  {
-    id: 'interpolation-search',
-    name: 'Interpolation Search',
-    category: 'searching',
-    timeComplexity: { best: 'O(1)', average: 'O(log log n)', worst: 'O(n)' },
-    spaceComplexity: 'O(1)',
-    description: 'Uses value-based position estimation. Best for uniformly distributed sorted data.',
-  },
-];
-
-export const ALGORITHMS: AlgorithmInfo[] = [...SORTING_ALGORITHMS, ...SEARCHING_ALGORITHMS];
+export interface PseudocodeLine {
+  line: number;
+  code: string;
+  indent: number;
+}
 
 export function createEmptyHighlights(): Highlights {
   return {
@@ -162,3 +136,10 @@ export function createEmptyHighlights(): Highlights {
     eliminated: [],
   };
 }
+
+// When an index carries several highlights, the one a single-colour drawing (frame export, worksheet) shows.
+const HIGHLIGHT_PRIORITY: HighlightType[] = ['found', 'swap', 'pivot', 'key', 'compare', 'shift', 'eliminated', 'sorted'];
+
+export function primaryHighlight(highlights: Highlights, index: number): HighlightType | null {
+  return HIGHLIGHT_PRIORITY.find((type) => highlights[type].includes(index)) ?? null;
+}
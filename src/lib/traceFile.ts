@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { getAlgorithm } from '@/lib/algorithms';
+import { LinkInput, linkInputsFor } from '@/lib/permalink';
+import { AlgorithmCategory, AlgorithmType, Step } from '@/lib/stepTypes';
+import { isTreeStep } from '@/lib/treeTypes';
+import { isLinearStep } from '@/lib/linearTypes';
+import { isGraphStep } from '@/lib/graphTypes';
+import { isDpStep } from '@/lib/dpTypes';
+
+/**
+ * A recorded run saved to disk: the algorithm, the inputs that produced it and every step,
+ * so it can be replayed later without regenerating (or re-running sandbox code).
+ */
+
+export const TRACE_FORMAT = 'dsa-visualizer-trace';
+export const TRACE_VERSION = 1;
+// Larger files are refused before reading; real traces stay well under a megabyte.
+export const MAX_TRACE_BYTES = 20 * 1024 * 1024;
+
+export interface TraceFile {
+  format: typeof TRACE_FORMAT;
+  version: typeof TRACE_VERSION;
+  exportedAt: string;
+  algorithm: AlgorithmType;
+  // Only the inputs the algorithm reads, as in a shareable link.
+  inputs: Partial<Record<LinkInput, string>>;
+  // 0-based step the trace was exported at.
+  currentStep: number;
+  steps: Step[];
+}
+
+const numberArray = z.array(z.number());
+const nullableNumberArray = z.array(z.number().nullable());
+const index = z.number().int().nonnegative();
+
+const highlightsSchema = z.object({
+  compare: numberArray,
+  swap: numberArray,
+  key: numberArray,
+  sorted: numberArray,
+  found: numberArray,
+  shift: numberArray,
+  pivot: numberArray,
+  eliminated: numberArray,
+});
+
+const moveArrowSchema = z.object({
+  fromIndex: z.number(),
+  toIndex: z.number(),
+  type: z.enum(['swap', 'shift', 'compare']),
+});
+
+const metricsSchema = z.object({
+  comparisons: z.number(),
+  swaps: z.number(),
+  passes: z.number(),
+});
+
+const auxiliarySchema = z.object({
+  label: z.string(),
+  values: nullableNumberArray,
+  indexLabels: z.array(z.string()).optional(),
+  highlight: numberArray,
+});
+
+const stackFrameSchema = z.object({
+  name: z.string(),
+  args: z.record(z.number()),
+  returnValue: z.union([z.number(), numberArray]).optional(),
+  enteredAt: index,
+});
+
+const treeSchema = z.object({
+  nodes: z.array(z.object({ id: z.string(), value: z.number(), x: z.number(), y: z.number(), badge: z.number().nullable() })),
+  edges: z.array(z.object({ from: z.string(), to: z.string() })),
+  bounds: z.object({ minX: z.number(), minY: z.number(), maxX: z.number(), maxY: z.number() }),
+  nodeStates: z.record(z.enum(['default', 'path', 'current', 'found', 'inserted', 'removed', 'swap', 'unbalanced'])),
+  badgeLabel: z.string().nullable(),
+  array: numberArray.nullable(),
+  operation: z.string().nullable(),
+});
+
+const linearSchema = z.object({
+  kind: z.enum(['singly', 'doubly', 'stack', 'queue', 'deque']),
+  nodes: z.array(z.object({ id: z.string(), value: z.number() })),
+  next: nullableNumberArray,
+  prev: nullableNumberArray,
+  changedLinks: numberArray,
+  nodeStates: z.record(z.enum(['default', 'current', 'visited', 'found', 'inserted', 'removed'])),
+  operation: z.string().nullable(),
+  output: numberArray,
+});
+
+const graphSchema = z.object({
+  nodes: z.array(z.object({ id: z.string(), x: z.number(), y: z.number() })),
+  edges: z.array(z.object({ id: z.string(), from: z.string(), to: z.string(), weight: z.number(), directed: z.boolean() })),
+  directed: z.boolean(),
+  weighted: z.boolean(),
+});
+
+const graphStateSchema = z.object({
+  nodeStates: z.record(z.enum(['unvisited', 'frontier', 'current', 'visited'])),
+  edgeStates: z.record(z.enum(['default', 'considered', 'tree', 'rejected'])),
+  distances: z.record(z.number().nullable()),
+  distanceLabel: z.string(),
+  frontier: z.array(z.object({ node: z.string(), priority: z.number().optional() })),
+  frontierLabel: z.string(),
+  order: z.array(z.string()),
+  orderLabel: z.string(),
+  current: z.string().nullable(),
+});
+
+const dpSchema = z.object({
+  rowTitle: z.string(),
+  colTitle: z.string(),
+  rowLabels: z.array(z.string()),
+  colLabels: z.array(z.string()),
+  cells: z.array(z.array(z.string())),
+  cellStates: z.record(z.enum(['default', 'current', 'dependency', 'traceback', 'chosen'])),
+  resultLabel: z.string(),
+  result: z.string().nullable(),
+});
+
+// Every Step field, plus the snapshot each visualizer family adds on top.
+const stepSchema = z.object({
+  label: z.string(),
+  before: numberArray,
+  after: numberArray,
+  highlights: z.object({ before: highlightsSchema, after: highlightsSchema }),
+  pointers: z.record(z.number().nullable()),
+  moveArrows: z.array(moveArrowSchema),
+  codeLine: z.number().int(),
+  explanation: z.string(),
+  metrics: metricsSchema,
+  auxiliary: z.array(auxiliarySchema).optional(),
+  variables: z.record(z.union([z.number(), z.string(), z.boolean(), z.null()])).optional(),
+  callStack: z.array(stackFrameSchema).optional(),
+  loopDepth: index.optional(),
+  tree: treeSchema.optional(),
+  linear: linearSchema.optional(),
+  graph: graphSchema.optional(),
+  graphState: graphStateSchema.optional(),
+  dp: dpSchema.optional(),
+});
+
+const traceSchema = z.object({
+  format: z.literal(TRACE_FORMAT),
+  version: z.literal(TRACE_VERSION),
+  exportedAt: z.string(),
+  algorithm: z.string().refine((id) => getAlgorithm(id as AlgorithmType) !== undefined, { message: 'Unknown algorithm' }),
+  inputs: z.record(z.string()),
+  currentStep: index,
+  steps: z.array(stepSchema).min(1, 'A trace needs at least one step'),
+});
+
+// Which visualizer a category's steps are drawn by, so a trace cannot hand graph steps to the tree view.
+const STEP_KIND_CHECKS: Partial<Record<AlgorithmCategory, [string, (step: Step) => boolean]>> = {
+  graph: ['graph', isGraphStep],
+  tree: ['tree', isTreeStep],
+  'linear-structures': ['linear structure', isLinearStep],
+  'dynamic-programming': ['DP table', isDpStep],
+};
+
+export function createTraceFile(state: {
+  algorithm: AlgorithmType;
+  inputs: Record<LinkInput, string>;
+  steps: Step[];
+  currentStepIndex: number;
+}): TraceFile {
+  const inputs: TraceFile['inputs'] = {};
+  for (const input of linkInputsFor(state.algorithm)) inputs[input] = state.inputs[input];
+  return {
+    format: TRACE_FORMAT,
+    version: TRACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    algorithm: state.algorithm,
+    inputs,
+    currentStep: state.currentStepIndex,
+    steps: state.steps,
+  };
+}
+
+export function traceFileName(trace: TraceFile): string {
+  return `${trace.algorithm}-trace.json`;
+}
+
+// "steps[3].metrics.swaps" rather than zod's raw path array.
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((out, key) => (typeof key === 'number' ? `${out}[${key}]` : out ? `${out}.${key}` : key), '');
+}
+
+export type ParsedTrace = { trace: TraceFile; error: null } | { trace: null; error: string };
+
+// Every failure comes back as one sentence for the user; the first problem found is named.
+export function parseTraceFile(text: string): ParsedTrace {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { trace: null, error: 'The file is not valid JSON.' };
+  }
+
+  const header = data as { format?: unknown; version?: unknown } | null;
+  if (typeof header !== 'object' || header === null || header.format !== TRACE_FORMAT) {
+    return { trace: null, error: 'This JSON file is not an exported trace.' };
+  }
+  if (typeof header.version === 'number' && header.version > TRACE_VERSION) {
+    return { trace: null, error: `This trace uses format version ${header.version}; this app reads up to version ${TRACE_VERSION}.` };
+  }
+
+  const result = traceSchema.safeParse(data);
+  if (!result.success) {
+    const [first, ...rest] = result.error.issues;
+    const where = first.path.length > 0 ? `${formatPath(first.path)}: ` : '';
+    const more = rest.length > 0 ? ` (and ${rest.length} more problem${rest.length === 1 ? '' : 's'})` : '';
+    return { trace: null, error: `Invalid trace: ${where}${first.message}${more}.` };
+  }
+
+  const trace = result.data as TraceFile;
+  const definition = getAlgorithm(trace.algorithm)!;
+  const allowed = new Set(linkInputsFor(trace.algorithm));
+  const stray = Object.keys(trace.inputs).find((input) => !allowed.has(input as LinkInput));
+  if (stray) return { trace: null, error: `Invalid trace: inputs.${stray} is not an input of ${definition.info.name}.` };
+
+  const kindCheck = STEP_KIND_CHECKS[definition.info.category];
+  if (kindCheck) {
+    const [kind, isKind] = kindCheck;
+    const wrong = trace.steps.findIndex((step) => !isKind(step));
+    if (wrong >= 0) return { trace: null, error: `Invalid trace: steps[${wrong}] is not a ${kind} step, which ${definition.info.name} needs.` };
+  }
+  if (trace.currentStep >= trace.steps.length) {
+    return { trace: null, error: `Invalid trace: currentStep ${trace.currentStep} is past the last step.` };
+  }
+
+  return { trace, error: null };
+}
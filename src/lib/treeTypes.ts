@@ -0,0 +1,70 @@
+import { Step, createEmptyHighlights } from './stepTypes';
+
+export type TreeNodeState = 'default' | 'path' | 'current' | 'found' | 'inserted' | 'removed' | 'swap' | 'unbalanced';
+
+export interface TreeNodeLayout {
+  // Stable across steps so rotations and heap swaps animate as movement.
+  id: string;
+  value: number;
+  x: number;
+  y: number;
+  // Extra number shown beside the node (AVL balance factor), null when unused.
+  badge: number | null;
+}
+
+export interface TreeEdge {
+  from: string;
+  to: string;
+}
+
+export interface TreeBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface TreeSnapshot {
+  nodes: TreeNodeLayout[];
+  edges: TreeEdge[];
+  bounds: TreeBounds;
+  nodeStates: Record<string, TreeNodeState>;
+  badgeLabel: string | null;
+  // Backing array for heaps, in index order. null for pointer-based trees.
+  array: number[] | null;
+  // Operation currently being applied, e.g. "insert 40".
+  operation: string | null;
+}
+
+export interface TreeStep extends Step {
+  tree: TreeSnapshot;
+}
+
+export function isTreeStep(step: Step | undefined): step is TreeStep {
+  return !!step && 'tree' in step;
+}
+
+export function createTreeStep(
+  tree: TreeSnapshot,
+  fields: Pick<Step, 'label' | 'codeLine' | 'explanation' | 'metrics'>,
+): TreeStep {
+  return {
+    ...fields,
+    before: [],
+    after: [],
+    highlights: {
+      before: createEmptyHighlights(),
+      after: createEmptyHighlights(),
+    },
+    pointers: {},
+    moveArrows: [],
+    tree: {
+      ...tree,
+      nodes: tree.nodes.map((n) => ({ ...n })),
+      edges: tree.edges.map((e) => ({ ...e })),
+      bounds: { ...tree.bounds },
+      nodeStates: { ...tree.nodeStates },
+      array: tree.array ? [...tree.array] : null,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { Highlights, Metrics, Step } from '@/lib/stepTypes';
+import { isTreeStep } from '@/lib/treeTypes';
+import { isLinearStep } from '@/lib/linearTypes';
+import { isGraphStep } from '@/lib/graphTypes';
+import { isDpStep } from '@/lib/dpTypes';
+
+/**
+ * Rows of the printable worksheet. Each row is a before → after pair: one step, or one whole pass
+ * (consecutive steps sharing a pass count) from the first step's before to the last step's after.
+ */
+
+export type WorksheetGrouping = 'step' | 'pass';
+
+export interface WorksheetRow {
+  title: string;
+  // 0-based, inclusive; equal for a single step.
+  firstStep: number;
+  lastStep: number;
+  before: number[];
+  after: number[];
+  beforeHighlights: Highlights;
+  afterHighlights: Highlights;
+  pointers: Record<string, number | null>;
+  explanation: string;
+  metrics: Metrics;
+}
+
+// Worksheets draw before/after arrays, so only array algorithms (sorting, searching, sandbox) have them.
+export function isWorksheetTrace(steps: Step[]): boolean {
+  return steps.length > 0 && !steps.some((step) => isTreeStep(step) || isLinearStep(step) || isGraphStep(step) || isDpStep(step));
+}
+
+function rowFor(steps: Step[], firstStep: number, lastStep: number, title: string): WorksheetRow {
+  const first = steps[firstStep];
+  const last = steps[lastStep];
+  return {
+    title,
+    firstStep,
+    lastStep,
+    before: first.before,
+    after: last.after,
+    beforeHighlights: first.highlights.before,
+    afterHighlights: last.highlights.after,
+    pointers: last.pointers,
+    explanation: last.explanation,
+    metrics: last.metrics,
+  };
+}
+
+export function buildWorksheetRows(steps: Step[], grouping: WorksheetGrouping): WorksheetRow[] {
+  if (grouping === 'step') return steps.map((step, i) => rowFor(steps, i, i, step.label));
+
+  const rows: WorksheetRow[] = [];
+  let start = 0;
+  for (let i = 1; i <= steps.length; i++) {
+    if (i < steps.length && steps[i].metrics.passes === steps[start].metrics.passes) continue;
+    const passes = steps[start].metrics.passes;
+    // Pass 0 is the setup before the first pass (the initial array, a heap build, a count array);
+    // algorithms that never count passes (quick sort) come out as one row.
+    const title = passes > 0 ? `Pass ${passes}` : start === 0 && i === steps.length ? 'All steps' : 'Setup';
+    rows.push(rowFor(steps, start, i - 1, title));
+    start = i;
+  }
+  return rows;
+}
@@ -1,12 +1,13 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Bug, Columns2, Play, Pause, SkipBack, SkipForward, Trophy } from 'lucide-react';
+import { ArrowUpDown, Bug, Columns2, Play, Pause, Search, SkipBack, SkipForward, Trophy } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import {
   AlgorithmType,
-  SORTING_ALGORITHMS,
   Step,
 } from '@/lib/stepTypes';
+import { getAlgorithm } from '@/lib/algorithms';
+import { parseArrayInput, parseNumberToken } from '@/lib/algorithms/arrayInput';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { StepRow } from '@/components/StepRow';
 import { Button } from '@/components/ui/button';
@@ -15,15 +16,8 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-
-import { generateBubbleSortSteps } from '@/lib/algorithms/sorting/bubbleSortSteps';
-import { generateSelectionSortSteps } from '@/lib/algorithms/sorting/selectionSortSteps';
-import { generateInsertionSortSteps } from '@/lib/algorithms/sorting/insertionSortSteps';
-import { generateMergeSortSteps } from '@/lib/algorithms/sorting/mergeSortSteps';
-import { generateQuickSortSteps } from '@/lib/algorithms/sorting/quickSortSteps';
-import { generateHeapSortSteps } from '@/lib/algorithms/sorting/heapSortSteps';
-
-type CompareCategory = 'sorting';
+import { COMPARE_CATEGORIES, CompareCategory, decodeComparisonLink, encodeComparisonLink, getComparableAlgorithms } from '@/lib/permalink';
+import { usePermalink } from '@/hooks/usePermalink';
 
 type StepEventType = 'compare' | 'swap' | 'other';
 
@@ -49,10 +43,47 @@ type RunnerState = {
     estimated: number;
     pointerMoves: number;
     foundIndex: number | null;
+    // Array elements the search looked at, counted from the steps' compare highlights.
+    probes: number;
   };
 };
 
+const EMPTY_WORK: RunnerState['work'] = {
+  comparisons: 0,
+  swaps: 0,
+  passes: 0,
+  totalSteps: 0,
+  estimated: 0,
+  pointerMoves: 0,
+  foundIndex: null,
+  probes: 0,
+};
+
+const emptyRunner = (algorithm: AlgorithmType): RunnerState => ({
+  algorithm,
+  steps: [],
+  timeline: [],
+  cursor: 0,
+  isPlaying: false,
+  generationMs: 0,
+  playbackStartMs: null,
+  playbackEndMs: null,
+  work: EMPTY_WORK,
+});
+
 const DEFAULT_ARRAY = '23,1,10,5,2,7,15';
+const DEFAULT_TARGET = '15';
+
+// Interpolation vs binary search is the classic searching race: on evenly spread values it needs far fewer probes.
+const DEFAULT_PAIRS: Record<CompareCategory, [AlgorithmType, AlgorithmType]> = {
+  sorting: ['bubble-sort', 'selection-sort'],
+  searching: ['binary-search', 'interpolation-search'],
+};
+
+const CATEGORY_TABS = {
+  sorting: { label: 'Sorting', icon: ArrowUpDown },
+  searching: { label: 'Searching', icon: Search },
+};
 
 const LEGEND_SORTING = [
   { label: 'Compare', dotClass: 'bg-compare' },
@@ -62,13 +93,12 @@ const LEGEND_SORTING = [
   { label: 'Sorted', dotClass: 'bg-sorted' },
 ];
 
+const LEGEND_SEARCHING = [
+  { label: 'Probe', dotClass: 'bg-compare' },
+  { label: 'Found', dotClass: 'bg-found' },
+  { label: 'Eliminated', dotClass: 'bg-eliminated' },
+];
 
-const parseArrayInput = (input: string): number[] => {
-  return input
-    .split(',')
-    .map((s) => parseInt(s.trim(), 10))
-    .filter((n) => Number.isFinite(n));
-};
 
 const hasAnyHighlight = (step: Step, key: keyof Step['highlights']['before']) => {
   return (step.highlights.before[key]?.length ?? 0) > 0 || (step.highlights.after[key]?.length ?? 0) > 0;
@@ -141,6 +171,21 @@ const buildComparisonTimeline = (steps: Step[]): number[] => {
   return indices.filter((x) => (seen.has(x) ? false : (seen.add(x), true)));
 };
 
+// A probe is one array element read. Generators count `metrics.comparisons` in their own way, so probes
+// are counted from what each step highlights instead: an index compared in a step is a read unless the
+// step before already had it highlighted (a Calculate Mid step followed by its comparison is one read).
+const countProbes = (steps: Step[], lastIndex: number) => {
+  let probes = 0;
+  let previous = new Set<number>();
+  for (let i = 0; i <= lastIndex && i < steps.length; i++) {
+    const { before, after } = steps[i].highlights;
+    const compared = new Set([...(before?.compare ?? []), ...(after?.compare ?? [])]);
+    for (const index of compared) if (!previous.has(index)) probes++;
+    previous = compared;
+  }
+  return probes;
+};
+
 const computeWork = (steps: Step[], timeline: number[]) => {
   let comparisons = 0;
   let swaps = 0;
@@ -178,7 +223,8 @@ const computeWork = (steps: Step[], timeline: number[]) => {
 
   const totalSteps = timeline.length;
   const estimated = comparisons * COMPARE_COST + swaps * SWAP_COST;
-  return { comparisons, swaps, passes, totalSteps, estimated, pointerMoves, foundIndex };
+  const probes = countProbes(steps, timeline[timeline.length - 1] ?? -1);
+  return { comparisons, swaps, passes, totalSteps, estimated, pointerMoves, foundIndex, probes };
 };
 
 const durationSeconds = (state: RunnerState): number | null => {
@@ -205,23 +251,12 @@ const formatSlowerRelativeSpeed = (speed: number) => {
 
 const isOneX = (label: string) => label.trim().startsWith('1x');
 
-const generateStepsForAlgorithm = (algorithm: AlgorithmType, arr: number[], targetRaw: string): Step[] => {
-  switch (algorithm) {
-    case 'bubble-sort':
-      return generateBubbleSortSteps(arr);
-    case 'selection-sort':
-      return generateSelectionSortSteps(arr);
-    case 'insertion-sort':
-      return generateInsertionSortSteps(arr);
-    case 'merge-sort':
-      return generateMergeSortSteps(arr);
-    case 'quick-sort':
-      return generateQuickSortSteps(arr);
-    case 'heap-sort':
-      return generateHeapSortSteps(arr);
-    default:
-      return generateBubbleSortSteps(arr);
-  }
+// Like the visualizer, a missing target searches for the first element.
+const generateStepsForAlgorithm = (algorithm: AlgorithmType, arr: number[], parsedTarget: number | null): Step[] => {
+  const definition = getAlgorithm(algorithm);
+  if (!definition) return [];
+  const target = definition.requirements.needsTarget ? (parsedTarget ?? arr[0]) : arr[0];
+  return definition.generateSteps({ array: arr, target });
 };
 
 const RunnerPanel: React.FC<{
@@ -260,7 +295,7 @@ const RunnerPanel: React.FC<{
   const speedLabel = sharedSpeedMs < 500 ? 'Fast' : sharedSpeedMs < 1000 ? 'Normal' : 'Slow';
 
   const stepNumber = state.steps.length > 0 ? state.cursor + 1 : 0;
-  const legendItems = LEGEND_SORTING;
+  const legendItems = category === 'searching' ? LEGEND_SEARCHING : LEGEND_SORTING;
 
   const progressWork = useMemo(() => {
     let comparisons = 0;
@@ -287,15 +322,20 @@ const RunnerPanel: React.FC<{
       prevPointers = step.pointers ?? null;
     }
 
-    return { comparisons, swaps, pointerMoves };
+    return { comparisons, swaps, pointerMoves, probes: countProbes(state.steps, state.timeline[state.cursor] ?? -1) };
   }, [state.cursor, state.steps, state.timeline]);
 
   const action = useMemo(() => {
     if (!currentStep) return null;
 
+    if (category === 'searching' && hasAnyHighlight(currentStep, 'found')) {
+      const index = currentStep.highlights.after.found[0] ?? currentStep.highlights.before.found[0];
+      return { kind: 'found' as const, label: 'Found', detail: `Found at index ${index}` };
+    }
+
     const isSorted =
-      hasAnyHighlight(currentStep, 'sorted') ||
-      currentStep.label.toLowerCase().includes('sorted');
+      category === 'sorting' &&
+      (hasAnyHighlight(currentStep, 'sorted') || currentStep.label.toLowerCase().includes('sorted'));
 
     if (isSorted) {
       return { kind: 'sorted' as const, label: 'Sorted', detail: 'Array is sorted' };
@@ -315,7 +355,7 @@ const RunnerPanel: React.FC<{
     }
 
     return { kind: 'other' as const, label: 'Step', detail: 'Progress' };
-  }, [currentStep]);
+  }, [category, currentStep]);
 
   return (
     <Card className="h-full flex flex-col overflow-hidden">
@@ -343,7 +383,9 @@ const RunnerPanel: React.FC<{
                             ? 'bg-compare/10 text-compare border-compare/25'
                             : action.kind === 'sorted'
                               ? 'bg-sorted/10 text-sorted border-sorted/25'
-                              : 'bg-muted/30 text-muted-foreground border-border'
+                              : action.kind === 'found'
+                                ? 'bg-found/10 text-found border-found/25'
+                                : 'bg-muted/30 text-muted-foreground border-border'
                       }`}
                       title={action.detail}
                     >
@@ -355,7 +397,9 @@ const RunnerPanel: React.FC<{
                               ? 'bg-compare'
                               : action.kind === 'sorted'
                                 ? 'bg-sorted'
-                                : 'bg-muted-foreground'
+                                : action.kind === 'found'
+                                  ? 'bg-found'
+                                  : 'bg-muted-foreground'
                         }`}
                       />
                       {action.label}
@@ -372,7 +416,7 @@ const RunnerPanel: React.FC<{
           <div className="shrink-0 flex flex-col items-end gap-1">
             <div className="flex items-center gap-2">
               <CardTitle className="text-sm md:text-base">{title}</CardTitle>
-              <span className="text-xs font-normal text-muted-foreground">(sorting)</span>
+              <span className="text-xs font-normal text-muted-foreground">({category})</span>
             </div>
             <select
               value={state.algorithm}
@@ -403,7 +447,23 @@ const RunnerPanel: React.FC<{
           </Button>
 
           <div className="ml-auto flex items-center gap-2 text-[11px] text-muted-foreground">
-            {state.steps.length > 0 ? (
+            {state.steps.length > 0 && category === 'searching' ? (
+              <>
+                <span className="font-medium">{state.cursor + 1}/{state.timeline.length}</span>
+                <span>•</span>
+                <span>P {progressWork.probes}/{state.work.probes}</span>
+                <span className="hidden sm:inline">•</span>
+                <span className="hidden sm:inline">Ptr {progressWork.pointerMoves}/{state.work.pointerMoves}</span>
+                {isAtEnd && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    <span className="hidden sm:inline font-medium">
+                      {state.work.foundIndex !== null ? `Found at ${state.work.foundIndex}` : 'Not found'}
+                    </span>
+                  </>
+                )}
+              </>
+            ) : state.steps.length > 0 ? (
               <>
                 <span className="font-medium">{state.cursor + 1}/{state.timeline.length}</span>
                 <span>•</span>
@@ -456,7 +516,9 @@ const RunnerPanel: React.FC<{
                       ? 'ring-1 ring-compare/25'
                       : action?.kind === 'sorted'
                         ? 'ring-1 ring-sorted/25'
-                        : 'ring-1 ring-border/30'
+                        : action?.kind === 'found'
+                          ? 'ring-1 ring-found/25'
+                          : 'ring-1 ring-border/30'
                 }`}
               >
                 <StepRow
@@ -492,61 +554,69 @@ const RunnerPanel: React.FC<{
 const Comparison: React.FC = () => {
   const navigate = useNavigate();
 
-  const category: CompareCategory = 'sorting';
-  const algorithms = useMemo(() => SORTING_ALGORITHMS, []);
+  const [category, setCategory] = useState<CompareCategory>('sorting');
+  const algorithms = useMemo(() => getComparableAlgorithms(category).map((d) => d.info), [category]);
 
   const [arrayInput, setArrayInput] = useState(DEFAULT_ARRAY);
+  const [targetInput, setTargetInput] = useState(DEFAULT_TARGET);
+  const [inputError, setInputError] = useState<string | null>(null);
 
   const [sharedSpeedMs, setSharedSpeedMs] = useState(1200);
 
-  const [left, setLeft] = useState<RunnerState>(() => ({
-    algorithm: 'bubble-sort',
-    steps: [],
-    timeline: [],
-    cursor: 0,
-    isPlaying: false,
-    generationMs: 0,
-    playbackStartMs: null,
-    playbackEndMs: null,
-    work: { comparisons: 0, swaps: 0, passes: 0, totalSteps: 0, estimated: 0, pointerMoves: 0, foundIndex: null },
-  }));
-
-  const [right, setRight] = useState<RunnerState>(() => ({
-    algorithm: 'selection-sort',
-    steps: [],
-    timeline: [],
-    cursor: 0,
-    isPlaying: false,
-    generationMs: 0,
-    playbackStartMs: null,
-    playbackEndMs: null,
-    work: { comparisons: 0, swaps: 0, passes: 0, totalSteps: 0, estimated: 0, pointerMoves: 0, foundIndex: null },
-  }));
-
-
-
-  const generateBoth = () => {
-    const arr = parseArrayInput(arrayInput);
-    if (arr.length === 0) return;
+  const [left, setLeft] = useState<RunnerState>(() => emptyRunner(DEFAULT_PAIRS.sorting[0]));
+  const [right, setRight] = useState<RunnerState>(() => emptyRunner(DEFAULT_PAIRS.sorting[1]));
+
+  // Runners only hold algorithms of one category, so switching starts both over on that category's default pair.
+  const switchCategory = (next: CompareCategory) => {
+    if (next === category) return;
+    setCategory(next);
+    setInputError(null);
+    setLeft(emptyRunner(DEFAULT_PAIRS[next][0]));
+    setRight(emptyRunner(DEFAULT_PAIRS[next][1]));
+  };
+
+  // Cursors start at 0 unless a permalink asks for a specific moment (clamped to each timeline).
+  // Searches race on one shared copy of the array, sorted up front, so both see exactly the same data.
+  const generateBoth = (
+    leftAlgorithm = left.algorithm,
+    rightAlgorithm = right.algorithm,
+    input = arrayInput,
+    target = targetInput,
+    cursors: { left: number; right: number } = { left: 0, right: 0 },
+  ) => {
+    const integersOnly = [leftAlgorithm, rightAlgorithm].some((id) => getAlgorithm(id)?.requirements.integersOnly);
+    const { values: parsed, error } = parseArrayInput(input, { integersOnly });
+    setInputError(error);
+    if (error) return;
+
+    const searching = getAlgorithm(leftAlgorithm)?.info.category === 'searching';
+    const parsedTarget = parseNumberToken(target.trim());
+    if (searching && target.trim() !== '' && parsedTarget === null) {
+      setInputError(`Target must be a number, got "${target.trim()}"`);
+      return;
+    }
+    const arr = searching ? [...parsed].sort((a, b) => a - b) : parsed;
 
     const now = performance.now.bind(performance);
 
     const t1 = now();
-    const leftSteps = generateStepsForAlgorithm(left.algorithm, arr, '');
+    const leftSteps = generateStepsForAlgorithm(leftAlgorithm, arr, parsedTarget);
     const t2 = now();
 
     const t3 = now();
-    const rightSteps = generateStepsForAlgorithm(right.algorithm, arr, '');
+    const rightSteps = generateStepsForAlgorithm(rightAlgorithm, arr, parsedTarget);
     const t4 = now();
 
     const leftTimeline = buildComparisonTimeline(leftSteps);
     const rightTimeline = buildComparisonTimeline(rightSteps);
+    const clampCursor = (timeline: number[], cursor: number) => Math.max(0, Math.min(cursor, timeline.length - 1));
 
     setLeft((s) => ({
       ...s,
+      algorithm: leftAlgorithm,
       steps: leftSteps,
       timeline: leftTimeline,
-      cursor: 0,
+      cursor: clampCursor(leftTimeline, cursors.left),
       isPlaying: false,
       generationMs: t2 - t1,
       playbackStartMs: null,
@@ -555,9 +625,10 @@ const Comparison: React.FC = () => {
     }));
     setRight((s) => ({
       ...s,
+      algorithm: rightAlgorithm,
       steps: rightSteps,
       timeline: rightTimeline,
-      cursor: 0,
+      cursor: clampCursor(rightTimeline, cursors.right),
       isPlaying: false,
       generationMs: t4 - t3,
       playbackStartMs: null,
@@ -566,6 +637,31 @@ const Comparison: React.FC = () => {
     }));
   };
 
+  const permalinkQuery = encodeComparisonLink({
+    category,
+    left: left.algorithm,
+    right: right.algorithm,
+    arrayInput,
+    targetInput,
+    leftStep: left.steps.length > 0 ? left.cursor : null,
+    rightStep: right.steps.length > 0 ? right.cursor : null,
+  });
+  usePermalink(permalinkQuery, (params) => {
+    const link = decodeComparisonLink(params);
+    if (!link) return;
+    const input = link.arrayInput ?? arrayInput;
+    const target = link.targetInput ?? targetInput;
+    setCategory(link.category);
+    setArrayInput(input);
+    setTargetInput(target);
+    setLeft((s) => ({ ...s, algorithm: link.left }));
+    setRight((s) => ({ ...s, algorithm: link.right }));
+    // Like the visualizer, a link made before generating only fills in the setup.
+    if (link.leftStep !== null || link.rightStep !== null) {
+      generateBoth(link.left, link.right, input, target, { left: link.leftStep ?? 0, right: link.rightStep ?? 0 });
+    }
+  });
+
   const playBoth = () => {
     const start = left.playbackStartMs ?? right.playbackStartMs ?? performance.now();
     setLeft((s) => ({ ...s, isPlaying: s.steps.length > 0, playbackStartMs: start }));
@@ -642,10 +738,12 @@ const Comparison: React.FC = () => {
 
   const workWinner = useMemo(() => {
     if (left.steps.length === 0 || right.steps.length === 0) return '—' as const;
-    if (left.work.estimated < right.work.estimated) return 'A' as const;
-    if (right.work.estimated < left.work.estimated) return 'B' as const;
+    // Searches are judged on probes: each one is a look at an array element, the cost that differs between them.
+    const score = (work: RunnerState['work']) => (category === 'searching' ? work.probes : work.estimated);
+    if (score(left.work) < score(right.work)) return 'A' as const;
+    if (score(right.work) < score(left.work)) return 'B' as const;
     return 'Tie' as const;
-  }, [left.steps.length, left.work.estimated, right.steps.length, right.work.estimated]);
+  }, [category, left.steps.length, left.work, right.steps.length, right.work]);
 
   const playbackSummary = useMemo(() => {
     const tA = durationSeconds(left);
@@ -728,9 +826,20 @@ const Comparison: React.FC = () => {
               <Bug className="w-3.5 h-3.5 md:w-4 md:h-4" />
               <span className="hidden sm:inline">Visualizer</span>
             </button>
-            <div className="nav-tab nav-tab-active">
-              <span className="hidden sm:inline">Sorting Only</span>
-            </div>
+            {COMPARE_CATEGORIES.map((c) => {
+              const { label, icon: Icon } = CATEGORY_TABS[c];
+              return (
+                <button
+                  key={c}
+                  onClick={() => switchCategory(c)}
+                  className={`nav-tab ${c === category ? 'nav-tab-active' : 'nav-tab-inactive'}`}
+                  title={`Compare ${label.toLowerCase()} algorithms`}
+                >
+                  <Icon className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                  <span className="hidden sm:inline">{label}</span>
+                </button>
+              );
+            })}
             <div className="nav-tab nav-tab-active">
               <Columns2 className="w-3.5 h-3.5 md:w-4 md:h-4" />
               <span className="hidden sm:inline">Comparison</span>
@@ -753,10 +862,11 @@ const Comparison: React.FC = () => {
             </span>
           </span>
           <span className="rounded-full border border-border bg-card/60 px-3 py-1 text-xs text-muted-foreground">
-            Sorted first: <span className="font-semibold text-foreground">{sortedFirstLabel}</span>
+            {category === 'searching' ? 'Finished first' : 'Sorted first'}:{' '}
+            <span className="font-semibold text-foreground">{sortedFirstLabel}</span>
           </span>
           <span className="rounded-full border border-border bg-card/60 px-3 py-1 text-xs text-muted-foreground">
-            Work Winner: <span className="font-semibold text-foreground">{workWinnerLabel}</span>
+            {category === 'searching' ? 'Fewest probes' : 'Work Winner'}: <span className="font-semibold text-foreground">{workWinnerLabel}</span>
           </span>
         </div>
 
@@ -768,16 +878,41 @@ const Comparison: React.FC = () => {
                 <Label className="text-[10px] text-muted-foreground uppercase tracking-wider">Array</Label>
                 <Input
                   value={arrayInput}
-                  onChange={(e) => setArrayInput(e.target.value)}
+                  onChange={(e) => {
+                    setArrayInput(e.target.value);
+                    setInputError(null);
+                  }}
                   placeholder="e.g., 23,1,10,5,2"
-                  className="mt-1 h-9"
+                  aria-invalid={inputError !== null}
+                  className={`mt-1 h-9 ${inputError ? 'border-swap' : ''}`}
                 />
+                {inputError ? (
+                  <p className="mt-1 text-[11px] text-swap">{inputError}</p>
+                ) : (
+                  category === 'searching' && (
+                    <p className="mt-1 text-[11px] text-muted-foreground">Both searches run on the same copy, sorted ascending.</p>
+                  )
+                )}
               </div>
+              {category === 'searching' && (
+                <div className="sm:w-28">
+                  <Label className="text-[10px] text-muted-foreground uppercase tracking-wider">Target</Label>
+                  <Input
+                    value={targetInput}
+                    onChange={(e) => {
+                      setTargetInput(e.target.value);
+                      setInputError(null);
+                    }}
+                    placeholder="e.g., 15"
+                    className="mt-1 h-9"
+                  />
+                </div>
+              )}
             </div>
 
             <div className="flex flex-wrap items-center gap-2 justify-between lg:justify-end">
               <div className="flex flex-wrap items-center gap-2">
-                <Button size="sm" onClick={generateBoth}>Generate</Button>
+                <Button size="sm" onClick={() => generateBoth()}>Generate</Button>
                 <Button size="sm" variant="secondary" onClick={playBoth} disabled={left.steps.length === 0 || right.steps.length === 0}>
                   Play both
                 </Button>
@@ -813,20 +948,7 @@ const Comparison: React.FC = () => {
             category={category}
             state={left}
             algorithms={algorithms}
-            onAlgorithmChange={(next) =>
-              setLeft((s) => ({
-                ...s,
-                algorithm: next,
-                steps: [],
-                timeline: [],
-                cursor: 0,
-                isPlaying: false,
-                generationMs: 0,
-                playbackStartMs: null,
-                playbackEndMs: null,
-                work: { comparisons: 0, swaps: 0, passes: 0, totalSteps: 0, estimated: 0, pointerMoves: 0, foundIndex: null },
-              }))
-            }
+            onAlgorithmChange={(next) => setLeft(emptyRunner(next))}
             onPlayPause={() => ((left.isPlaying || right.isPlaying) ? pauseBoth() : playBoth())}
             onPrev={() => setLeft((s) => ({ ...s, cursor: Math.max(0, s.cursor - 1) }))}
             onNext={() =>
@@ -846,20 +968,7 @@ const Comparison: React.FC = () => {
             category={category}
             state={right}
             algorithms={algorithms}
-            onAlgorithmChange={(next) =>
-              setRight((s) => ({
-                ...s,
-                algorithm: next,
-                steps: [],
-                timeline: [],
-                cursor: 0,
-                isPlaying: false,
-                generationMs: 0,
-                playbackStartMs: null,
-                playbackEndMs: null,
-                work: { comparisons: 0, swaps: 0, passes: 0, totalSteps: 0, estimated: 0, pointerMoves: 0, foundIndex: null },
-              }))
-            }
+            onAlgorithmChange={(next) => setRight(emptyRunner(next))}
             onPlayPause={() => ((left.isPlaying || right.isPlaying) ? pauseBoth() : playBoth())}
             onPrev={() => setRight((s) => ({ ...s, cursor: Math.max(0, s.cursor - 1) }))}
             onNext={() =>
@@ -1,19 +1,42 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { ArrowRightLeft, Search, Info, Bug, Menu, Columns2 } from 'lucide-react';
+import { ArrowRightLeft, Search, Share2, Network, Link2, Grid3x3, FileCode2, Info, Bug, Menu, Columns2, Keyboard, BookOpen, Repeat } from 'lucide-react';
 import { Controls } from '@/components/Controls';
 import { PictorialVisualizer } from '@/components/PictorialVisualizer';
 import { DebuggerPanel } from '@/components/DebuggerPanel';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { ShortcutsDialog } from '@/components/ShortcutsDialog';
 import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { getAlgorithmsByCategory } from '@/lib/algorithms';
+import { decodeVisualizerLink, encodeVisualizerLink } from '@/lib/permalink';
+import { usePermalink } from '@/hooks/usePermalink';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { NavLink } from '@/components/NavLink';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 
+const categoryLabels = {
+  sorting: 'Sorting',
+  searching: 'Searching',
+  graph: 'Graph',
+  tree: 'Tree',
+  'linear-structures': 'Linear',
+  'dynamic-programming': 'DP',
+  sandbox: 'Sandbox',
+};
+
 const Index: React.FC = () => {
-  const { category, setCategory } = useDebuggerStore();
+  const { category, setCategory, openPermalink } = useDebuggerStore();
+  const permalinkQuery = useDebuggerStore(encodeVisualizerLink);
+  usePermalink(permalinkQuery, (params) => {
+    const link = decodeVisualizerLink(params);
+    if (link) openPermalink(link);
+  });
   const [mobileControlsOpen, setMobileControlsOpen] = React.useState(false);
   const [mobileDebuggerOpen, setMobileDebuggerOpen] = React.useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = React.useState(false);
+  const showShortcuts = React.useCallback(() => setShortcutsOpen(true), []);
+  useKeyboardShortcuts(showShortcuts);
 
   return (
     <div className="h-screen bg-background flex flex-col overflow-hidden">
@@ -55,6 +78,26 @@ const Index: React.FC = () => {
                 <Search className="w-3.5 h-3.5 md:w-4 md:h-4" />
                 <span className="hidden sm:inline">Searching</span>
               </button>
+              <button onClick={() => setCategory('graph')} className={`nav-tab ${category === 'graph' ? 'nav-tab-active' : 'nav-tab-inactive'}`}>
+                <Share2 className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Graphs</span>
+              </button>
+              <button onClick={() => setCategory('tree')} className={`nav-tab ${category === 'tree' ? 'nav-tab-active' : 'nav-tab-inactive'}`}>
+                <Network className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Trees</span>
+              </button>
+              <button onClick={() => setCategory('linear-structures')} className={`nav-tab ${category === 'linear-structures' ? 'nav-tab-active' : 'nav-tab-inactive'}`}>
+                <Link2 className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Linear</span>
+              </button>
+              <button onClick={() => setCategory('dynamic-programming')} className={`nav-tab ${category === 'dynamic-programming' ? 'nav-tab-active' : 'nav-tab-inactive'}`}>
+                <Grid3x3 className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">DP</span>
+              </button>
+              <button onClick={() => setCategory('sandbox')} className={`nav-tab ${category === 'sandbox' ? 'nav-tab-active' : 'nav-tab-inactive'}`}>
+                <FileCode2 className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Sandbox</span>
+              </button>
               <NavLink
                 to="/comparison"
                 className="nav-tab nav-tab-inactive"
@@ -63,6 +106,22 @@ const Index: React.FC = () => {
                 <Columns2 className="w-3.5 h-3.5 md:w-4 md:h-4" />
                 <span className="hidden sm:inline">Comparison</span>
               </NavLink>
+              <NavLink
+                to="/lessons"
+                className="nav-tab nav-tab-inactive"
+                activeClassName="nav-tab-active"
+              >
+                <BookOpen className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Lessons</span>
+              </NavLink>
+              <NavLink
+                to="/practice"
+                className="nav-tab nav-tab-inactive"
+                activeClassName="nav-tab-active"
+              >
+                <Repeat className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                <span className="hidden sm:inline">Practice</span>
+              </NavLink>
               <Dialog>
                 <DialogTrigger asChild>
                   <button className="nav-tab nav-tab-inactive hidden md:flex">
@@ -81,14 +140,14 @@ const Index: React.FC = () => {
                   </DialogHeader>
                   <div className="space-y-4 text-sm text-muted-foreground">
                     <p>
-                      <span className="font-semibold text-foreground">DSA Pictorial Debugger</span> is an interactive learning tool designed to help students and developers understand sorting and searching algorithms through step-by-step visual animations.
+                      <span className="font-semibold text-foreground">DSA Pictorial Debugger</span> is an interactive learning tool designed to help students and developers understand sorting, searching, graph, tree and dynamic programming algorithms and linear data structures through step-by-step visual animations.
                     </p>
                     <p>
                       Each algorithm is broken down into clear, digestible steps showing "Before → After" states, pointer movements, and highlighted comparisons—just like textbook diagrams, but animated and interactive.
                     </p>
                     <div className="pt-2 border-t border-border">
                       <p className="text-xs">
-                        <span className="font-medium text-foreground">Features:</span> 6 Sorting algorithms • 4 Searching algorithms • Real-time code highlighting • Pictorial step visualization
+                        <span className="font-medium text-foreground">Features:</span> 13 Sorting algorithms • 12 Searching algorithms • 6 Graph algorithms • 3 Tree structures • 5 Linear structures • 4 DP problems • JavaScript sandbox for your own code • Real-time code highlighting • Pictorial step visualization
                       </p>
                     </div>
                     <p className="text-xs text-center pt-2">
@@ -99,8 +158,16 @@ const Index: React.FC = () => {
               </Dialog>
             </motion.nav>
 
-            {/* Right side: Theme Toggle + Mobile Debugger */}
+            {/* Right side: Shortcuts + Theme Toggle + Mobile Debugger */}
             <div className="flex items-center gap-2">
+              <button
+                onClick={showShortcuts}
+                className="hidden lg:flex p-2.5 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                aria-label="Keyboard shortcuts"
+              >
+                <Keyboard className="w-5 h-5 text-primary" />
+              </button>
+              <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
               <ThemeToggle />
               
               {/* Mobile Debugger Toggle */}
@@ -171,6 +238,26 @@ const Index: React.FC = () => {
               <Search className="w-5 h-5" />
               <span>Searching</span>
             </div>
+            <div className={`flex flex-col items-center gap-1 p-2 ${category === 'graph' ? 'text-key' : ''}`}>
+              <Share2 className="w-5 h-5" />
+              <span>Graphs</span>
+            </div>
+            <div className={`flex flex-col items-center gap-1 p-2 ${category === 'tree' ? 'text-shift' : ''}`}>
+              <Network className="w-5 h-5" />
+              <span>Trees</span>
+            </div>
+            <div className={`flex flex-col items-center gap-1 p-2 ${category === 'linear-structures' ? 'text-pivot' : ''}`}>
+              <Link2 className="w-5 h-5" />
+              <span>Linear</span>
+            </div>
+            <div className={`flex flex-col items-center gap-1 p-2 ${category === 'dynamic-programming' ? 'text-compare' : ''}`}>
+              <Grid3x3 className="w-5 h-5" />
+              <span>DP</span>
+            </div>
+            <div className={`flex flex-col items-center gap-1 p-2 ${category === 'sandbox' ? 'text-swap' : ''}`}>
+              <FileCode2 className="w-5 h-5" />
+              <span>Sandbox</span>
+            </div>
             <button 
               onClick={() => setMobileDebuggerOpen(true)}
               className="flex flex-col items-center gap-1 p-2 hover:text-foreground transition-colors"
@@ -191,8 +278,8 @@ const Index: React.FC = () => {
             <span>•</span>
             <span>© 2026 All Rights Reserved</span>
             <span>•</span>
-            <span className={category === 'sorting' ? 'text-primary' : 'text-sorted'}>
-              {category === 'sorting' ? '6 Sorting' : '4 Searching'} Algorithms
+            <span className={category === 'sorting' ? 'text-primary' : category === 'graph' ? 'text-key' : category === 'tree' ? 'text-shift' : category === 'linear-structures' ? 'text-pivot' : category === 'dynamic-programming' ? 'text-compare' : category === 'sandbox' ? 'text-swap' : 'text-sorted'}>
+              {getAlgorithmsByCategory(category).length} {categoryLabels[category]} Algorithms
             </span>
           </div>
         </footer>
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, BookOpen, CheckCircle2, Play } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { getAlgorithm } from '@/lib/algorithms';
+import { loadCompletedLessons } from '@/lib/lessons';
+import { LESSONS } from '@/lib/lessonCatalog';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Index of guided lessons; starting one loads it into the visualizer.
+const Lessons: React.FC = () => {
+  const navigate = useNavigate();
+  const startLesson = useDebuggerStore((state) => state.startLesson);
+  const [completed] = useState(loadCompletedLessons);
+
+  const start = (id: string) => {
+    startLesson(id);
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/80 backdrop-blur-md">
+        <div className="container mx-auto px-3 md:px-4 py-3 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/')} className="gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Visualizer
+            </Button>
+            <div>
+              <h1 className="font-bold text-base md:text-lg text-foreground">Lessons</h1>
+              <p className="text-[10px] md:text-xs text-muted-foreground">
+                {completed.filter((id) => LESSONS.some((lesson) => lesson.id === id)).length} of {LESSONS.length} completed
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="container mx-auto p-3 md:p-6 grid gap-3 md:gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {LESSONS.map((lesson) => {
+          const done = completed.includes(lesson.id);
+          const checkpoints = lesson.cards.filter((card) => card.checkpoint).length;
+          return (
+            <Card key={lesson.id} className="flex flex-col">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between gap-2 text-[10px] md:text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1.5">
+                    <BookOpen className="w-3.5 h-3.5 text-primary" />
+                    {getAlgorithm(lesson.algorithm)?.info.name ?? lesson.algorithm}
+                  </span>
+                  {done && (
+                    <span className="flex items-center gap-1 text-found font-medium">
+                      <CheckCircle2 className="w-3.5 h-3.5" />
+                      Completed
+                    </span>
+                  )}
+                </div>
+                <CardTitle className="text-base">{lesson.title}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 flex flex-col gap-3">
+                <p className="text-xs md:text-sm text-muted-foreground flex-1">{lesson.summary}</p>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] md:text-xs text-muted-foreground font-mono">
+                    {lesson.cards.length} cards · {checkpoints} checkpoints
+                  </span>
+                  <Button size="sm" variant={done ? 'outline' : 'default'} onClick={() => start(lesson.id)} className="gap-1.5">
+                    <Play className="w-3.5 h-3.5" />
+                    {done ? 'Review' : 'Start'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default Lessons;
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2, ChevronRight, ExternalLink, Repeat, XCircle } from 'lucide-react';
+import { getAlgorithm } from '@/lib/algorithms';
+import {
+  BOX_INTERVAL_DAYS,
+  NEW_CARDS_PER_SESSION,
+  PracticeCard,
+  buildPracticeCards,
+  loadPracticeProgress,
+  practiceQueue,
+  practiceStats,
+  reviewCard,
+  savePracticeProgress,
+} from '@/lib/practice';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+function formatWait(ms: number): string {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours < 1) return 'in under an hour';
+  if (hours < 24) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+// Flashcard practice on complexity, stability and short traces, scheduled by spaced repetition.
+const Practice: React.FC = () => {
+  const navigate = useNavigate();
+  const cards = useMemo(buildPracticeCards, []);
+  const [progress, setProgress] = useState(loadPracticeProgress);
+  // New cards allowed this visit, and how many of them have been answered.
+  const [newLimit, setNewLimit] = useState(NEW_CARDS_PER_SESSION);
+  const [newSeen, setNewSeen] = useState(0);
+  const [current, setCurrent] = useState<PracticeCard | null>(() => practiceQueue(cards, progress, Date.now(), newLimit)[0] ?? null);
+  const [chosen, setChosen] = useState<number | null>(null);
+
+  const now = Date.now();
+  const stats = practiceStats(cards, progress, now);
+  const remaining = practiceQueue(cards, progress, now, newLimit - newSeen);
+
+  const answer = (choice: number) => {
+    if (!current || chosen !== null) return;
+    if (!progress[current.id]) setNewSeen((n) => n + 1);
+    const next = reviewCard(progress, current.id, choice === current.answer, Date.now());
+    setProgress(next);
+    savePracticeProgress(next);
+    setChosen(choice);
+  };
+
+  // A missed card is due again at once; show something else first when there is anything else.
+  const showNext = (limit = newLimit) => {
+    const queue = practiceQueue(cards, progress, Date.now(), limit - newSeen);
+    setCurrent(queue.find((c) => c.id !== current?.id) ?? queue[0] ?? null);
+    setChosen(null);
+  };
+
+  const learnMore = () => {
+    const limit = newLimit + NEW_CARDS_PER_SESSION;
+    setNewLimit(limit);
+    showNext(limit);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/80 backdrop-blur-md">
+        <div className="container mx-auto px-3 md:px-4 py-3 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/')} className="gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Visualizer
+            </Button>
+            <div>
+              <h1 className="font-bold text-base md:text-lg text-foreground">Practice</h1>
+              <p className="text-[10px] md:text-xs text-muted-foreground">Complexity, stability and trace questions, spaced out as you learn them</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-2xl p-3 md:p-6 space-y-4">
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {[
+            ['Due', stats.due],
+            ['New', stats.fresh],
+            ['Mastered', stats.mastered],
+            ['Cards', stats.total],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-lg border border-border bg-card p-2">
+              <div className="text-base md:text-lg font-bold font-mono text-foreground">{value}</div>
+              <div className="text-[10px] md:text-xs text-muted-foreground uppercase tracking-wider">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        {current ? (
+          <Card>
+            <CardHeader className="pb-2">
+              <p className="flex items-center gap-1.5 text-[10px] md:text-xs text-muted-foreground">
+                <Repeat className="w-3.5 h-3.5 text-primary" />
+                {getAlgorithm(current.algorithm)?.info.name ?? current.algorithm}
+                {progress[current.id] && chosen === null ? ' · review' : chosen === null ? ' · new' : ''}
+              </p>
+              <CardTitle className="text-base md:text-lg">{current.prompt}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {current.choices.map((choice, i) => (
+                  <button
+                    key={choice}
+                    onClick={() => answer(i)}
+                    disabled={chosen !== null}
+                    className={`px-3 py-2 rounded-md border font-mono text-sm transition-colors ${
+                      chosen !== null && i === current.answer
+                        ? 'border-found bg-found/15 text-foreground'
+                        : i === chosen
+                          ? 'border-swap bg-swap/15 text-foreground'
+                          : chosen !== null
+                            ? 'border-border bg-secondary/50 text-muted-foreground'
+                            : 'border-border bg-secondary hover:bg-secondary/70 hover:border-primary text-foreground'
+                    }`}
+                  >
+                    {choice}
+                  </button>
+                ))}
+              </div>
+
+              {chosen !== null && (
+                <>
+                  <p className="flex items-start gap-1.5 text-xs md:text-sm text-muted-foreground">
+                    {chosen === current.answer ? (
+                      <CheckCircle2 className="w-4 h-4 shrink-0 mt-px text-found" />
+                    ) : (
+                      <XCircle className="w-4 h-4 shrink-0 mt-px text-swap" />
+                    )}
+                    <span>
+                      {chosen === current.answer ? 'Correct. ' : 'Not this time; it comes back shortly. '}
+                      {current.explanation}
+                    </span>
+                  </p>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    {current.link ? (
+                      <Button variant="outline" size="sm" onClick={() => navigate(`/?${current.link}`)} className="gap-1.5">
+                        <ExternalLink className="w-3.5 h-3.5" />
+                        Open the trace
+                      </Button>
+                    ) : (
+                      <span />
+                    )}
+                    <Button size="sm" onClick={() => showNext()} className="gap-1">
+                      Next card
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-center space-y-3">
+              <p className="text-sm text-foreground font-medium">All caught up.</p>
+              <p className="text-xs text-muted-foreground">
+                {stats.nextDue !== null ? `The next review is due ${formatWait(stats.nextDue - now)}.` : 'Nothing is scheduled yet.'}
+              </p>
+              {stats.fresh > 0 && (
+                <Button size="sm" onClick={learnMore}>
+                  Learn {Math.min(NEW_CARDS_PER_SESSION, stats.fresh)} new cards
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {current && (
+          <p className="text-[10px] md:text-xs text-muted-foreground text-center">
+            {remaining.filter((c) => c.id !== current.id).length} more in this session. Right answers come back after{' '}
+            {BOX_INTERVAL_DAYS.slice(1).join(', ')} days in turn; a miss starts the card over.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Practice;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { useDebuggerStore } from '@/store/useDebuggerStore';
+import { getAlgorithm } from '@/lib/algorithms';
+import { Highlights, primaryHighlight } from '@/lib/stepTypes';
+import { WorksheetGrouping, WorksheetRow, buildWorksheetRows, isWorksheetTrace } from '@/lib/worksheet';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+const tabClass = 'h-7 rounded-md text-xs data-[state=active]:bg-background/70 data-[state=active]:shadow';
+
+// One array as a row of boxes; `blank` keeps the boxes and indices but leaves them empty to fill in.
+const PrintArray: React.FC<{ values: number[]; highlights?: Highlights; pointers?: Record<string, number | null>; blank?: boolean }> = ({
+  values,
+  highlights,
+  pointers = {},
+  blank = false,
+}) => {
+  const names = (i: number) => Object.keys(pointers).filter((name) => pointers[name] === i);
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value, i) => {
+        const highlight = highlights ? primaryHighlight(highlights, i) : null;
+        return (
+          <div key={i} className="flex flex-col items-center">
+            <div
+              className={`w-9 h-9 rounded border-2 flex items-center justify-center font-mono text-sm font-bold ${highlight === 'eliminated' ? 'opacity-40' : ''}`}
+              style={
+                highlight && highlight !== 'eliminated'
+                  ? { borderColor: `hsl(var(--${highlight}))`, background: `hsl(var(--${highlight}) / 0.18)` }
+                  : { borderColor: '#a3a3a3' }
+              }
+            >
+              {blank ? '' : value}
+            </div>
+            <span className="text-[9px] font-mono text-neutral-500">{i}</span>
+            <span className="h-3 text-[9px] font-mono font-semibold text-orange-600">{names(i).join('/')}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const WorksheetRowView: React.FC<{ row: WorksheetRow; number: number; blank: boolean; explanations: boolean; metrics: boolean }> = ({
+  row,
+  number,
+  blank,
+  explanations,
+  metrics,
+}) => (
+  <section className="worksheet-row border border-neutral-300 rounded-lg p-3 space-y-2">
+    <div className="flex items-baseline justify-between gap-2">
+      <h2 className="font-semibold text-sm">
+        {number}. {row.title}
+      </h2>
+      <span className="text-[10px] text-neutral-500 font-mono">
+        {row.firstStep === row.lastStep ? `step ${row.firstStep + 1}` : `steps ${row.firstStep + 1}–${row.lastStep + 1}`}
+      </span>
+    </div>
+    <div className="grid grid-cols-[3.5rem_1fr] items-start gap-x-2 gap-y-1">
+      <span className="text-[10px] uppercase tracking-wider text-neutral-500 pt-2.5">Before</span>
+      <PrintArray values={row.before} highlights={row.beforeHighlights} pointers={blank ? row.pointers : {}} />
+      <span className="text-[10px] uppercase tracking-wider text-neutral-500 pt-2.5">After</span>
+      {/* A blank sheet still shows how many boxes to fill, but none of the answer. */}
+      <PrintArray values={row.after} highlights={blank ? undefined : row.afterHighlights} pointers={blank ? {} : row.pointers} blank={blank} />
+    </div>
+    {explanations && !blank && <p className="text-xs leading-relaxed">{row.explanation}</p>}
+    {blank && (
+      <div className="space-y-3 pt-1">
+        <div className="border-b border-dashed border-neutral-400 h-4" />
+        <div className="border-b border-dashed border-neutral-400 h-4" />
+      </div>
+    )}
+    {metrics && !blank && (
+      <p className="text-[10px] font-mono text-neutral-500">
+        comparisons {row.metrics.comparisons} · swaps {row.metrics.swaps} · passes {row.metrics.passes}
+      </p>
+    )}
+  </section>
+);
+
+// Print layout of the current trace: every step (or pass) as a before → after row, or a blank sheet to fill in.
+const Worksheet: React.FC = () => {
+  const navigate = useNavigate();
+  const { steps, algorithm, targetInput } = useDebuggerStore();
+  const [grouping, setGrouping] = useState<WorksheetGrouping>('step');
+  const [blank, setBlank] = useState(false);
+  const [explanations, setExplanations] = useState(true);
+  const [metrics, setMetrics] = useState(true);
+
+  const definition = getAlgorithm(algorithm);
+  const printable = isWorksheetTrace(steps);
+  const rows = useMemo(() => (printable ? buildWorksheetRows(steps, grouping) : []), [printable, steps, grouping]);
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      <header className="border-b border-border bg-card/80 backdrop-blur-md print:hidden">
+        <div className="container mx-auto px-3 md:px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/')} className="gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Visualizer
+            </Button>
+            <div>
+              <h1 className="font-bold text-base md:text-lg text-foreground">Worksheet</h1>
+              <p className="text-[10px] md:text-xs text-muted-foreground">Print the current trace, or a blank copy to fill in by hand</p>
+            </div>
+          </div>
+
+          {printable && (
+            <div className="flex flex-wrap items-center gap-3">
+              <Tabs value={grouping} onValueChange={(v) => setGrouping(v as WorksheetGrouping)}>
+                <TabsList className="grid grid-cols-2 h-9 rounded-lg bg-secondary/50 p-1">
+                  <TabsTrigger value="step" className={tabClass}>Every step</TabsTrigger>
+                  <TabsTrigger value="pass" className={tabClass}>Every pass</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Tabs value={blank ? 'blank' : 'answers'} onValueChange={(v) => setBlank(v === 'blank')}>
+                <TabsList className="grid grid-cols-2 h-9 rounded-lg bg-secondary/50 p-1">
+                  <TabsTrigger value="answers" className={tabClass}>With answers</TabsTrigger>
+                  <TabsTrigger value="blank" className={tabClass}>Blank</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                <Checkbox checked={explanations} onCheckedChange={(c) => setExplanations(c === true)} disabled={blank} />
+                Explanations
+              </label>
+              <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                <Checkbox checked={metrics} onCheckedChange={(c) => setMetrics(c === true)} disabled={blank} />
+                Metrics
+              </label>
+              <Button size="sm" onClick={() => window.print()} className="gap-2">
+                <Printer className="w-4 h-4" />
+                Print / Save PDF
+              </Button>
+            </div>
+          )}
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {!printable ? (
+        <main className="container mx-auto p-6 text-center text-sm text-muted-foreground">
+          {steps.length === 0
+            ? 'Generate steps in the visualizer first; the worksheet prints the current trace.'
+            : 'Worksheets lay out before → after arrays, so they cover sorting, searching and sandbox traces.'}
+        </main>
+      ) : (
+        // The sheet is always black on white, so it previews the way it prints in either theme.
+        <main className="worksheet mx-auto my-4 print:my-0 max-w-[210mm] bg-white text-neutral-900 rounded-lg shadow-lg print:shadow-none p-6 print:p-0 space-y-3">
+          <div className="flex items-start justify-between gap-4 border-b border-neutral-300 pb-3">
+            <div>
+              <h1 className="text-xl font-bold">{definition?.info.name ?? algorithm}</h1>
+              <p className="text-xs text-neutral-600 font-mono">
+                input [{steps[0].before.join(', ')}]{definition?.requirements.needsTarget && targetInput.trim() ? `, target ${targetInput.trim()}` : ''}
+              </p>
+            </div>
+            {blank ? (
+              <div className="text-xs text-neutral-600 space-y-2 min-w-[40%]">
+                <div className="border-b border-neutral-400 pb-0.5">Name</div>
+                <div className="border-b border-neutral-400 pb-0.5">Date</div>
+              </div>
+            ) : (
+              <p className="text-xs text-neutral-500">
+                {rows.length} {grouping === 'step' ? 'steps' : 'passes'}
+              </p>
+            )}
+          </div>
+          {blank && <p className="text-xs text-neutral-600">Fill in each After row, then describe what happened on the lines below it.</p>}
+          {rows.map((row, i) => (
+            <WorksheetRowView key={row.firstStep} row={row} number={i + 1} blank={blank} explanations={explanations} metrics={metrics} />
+          ))}
+        </main>
+      )}
+    </div>
+  );
+};
+
+export default Worksheet;
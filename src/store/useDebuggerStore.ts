@@ -1,34 +1,84 @@
 import { create } from 'zustand';
-import { Step, AlgorithmType, SORTING_ALGORITHMS, SEARCHING_ALGORITHMS, ALGORITHMS } from '@/lib/stepTypes';
-import { generateBubbleSortSteps } from '@/lib/algorithms/sorting/bubbleSortSteps';
-import { generateSelectionSortSteps } from '@/lib/algorithms/sorting/selectionSortSteps';
-import { generateInsertionSortSteps } from '@/lib/algorithms/sorting/insertionSortSteps';
-import { generateMergeSortSteps } from '@/lib/algorithms/sorting/mergeSortSteps';
-import { generateQuickSortSteps } from '@/lib/algorithms/sorting/quickSortSteps';
-import { generateHeapSortSteps } from '@/lib/algorithms/sorting/heapSortSteps';
-import { generateLinearSearchSteps } from '@/lib/algorithms/searching/linearSearchSteps';
-import { generateBinarySearchSteps } from '@/lib/algorithms/searching/binarySearchSteps';
-import { generateJumpSearchSteps } from '@/lib/algorithms/searching/jumpSearchSteps';
-import { generateInterpolationSearchSteps } from '@/lib/algorithms/searching/interpolationSearchSteps';
-
-export type CategoryTab = 'sorting' | 'searching';
+import { persist } from 'zustand/middleware';
+import { Step, AlgorithmType, AlgorithmCategory } from '@/lib/stepTypes';
+import { getAlgorithm, getAlgorithmsByCategory, listAlgorithms } from '@/lib/algorithms';
+import { formatEdge, parseGraphInput } from '@/lib/algorithms/graph/graphInput';
+import { parseOperations } from '@/lib/algorithms/operationsInput';
+import { ArrayPreset, generatePresetArray, parseArrayInput, parseNumberToken } from '@/lib/algorithms/arrayInput';
+import { parseParams } from '@/lib/algorithms/dp/dpInput';
+import { runSandbox } from '@/lib/sandbox/runSandbox';
+import { SANDBOX_TEMPLATE } from '@/lib/sandbox/sandboxTypes';
+import { CODE_LANGUAGES, CodeLanguage } from '@/lib/algorithms/codeLanguages';
+import { VIEW_MODES, ViewMode, VisualizerLink } from '@/lib/permalink';
+import { DEFAULT_SHORTCUTS, ShortcutAction, ShortcutBindings } from '@/lib/shortcuts';
+import { Breakpoint, createBreakpointId, findHitBreakpoint, stepLine } from '@/lib/breakpoints';
+import { StepDirection, lineTarget, stepOutTarget, stepOverTarget } from '@/lib/stepNavigation';
+import { TraceFile } from '@/lib/traceFile';
+import { QuizAnswer, findQuizAnswer, quizQuestionAt } from '@/lib/quiz';
+import { lessonStop } from '@/lib/lessons';
+import { getLesson } from '@/lib/lessonCatalog';
+
+export type CategoryTab = AlgorithmCategory;
 
 interface DebuggerState {
   // Category and algorithm settings
   category: CategoryTab;
   algorithm: AlgorithmType;
+  // Returning to a category reopens the algorithm last used there.
+  lastAlgorithmByCategory: Partial<Record<CategoryTab, AlgorithmType>>;
   arrayInput: string;
   targetInput: string;
   arraySize: number;
+  graphInput: string;
+  startNodeInput: string;
+  operationsInput: string;
+  paramsInput: string;
+  sandboxCode: string;
+  // The code behind the current sandbox trace, so later edits don't shift its line highlights.
+  sandboxRunCode: string | null;
+  sandboxRunning: boolean;
+  sandboxError: string | null;
+  // Step a shared sandbox link asked for. Link code never runs by itself: it waits in the editor for Run Code,
+  // which then jumps here. Editing the code drops it.
+  pendingSandboxStep: number | null;
+  // Why the array or target input was refused; cleared as soon as either is edited.
+  inputError: string | null;
   
   // Steps and playback
   steps: Step[];
   currentStepIndex: number;
   isPlaying: boolean;
   playbackSpeed: number;
+  // File name of the trace being replayed, until steps are generated again.
+  importedTrace: string | null;
+  // Autoplay pauses on arriving at a step that hits one of these (manual stepping never stops).
+  breakpoints: Breakpoint[];
+  // The breakpoint autoplay last paused on, until the user moves again.
+  breakpointHitId: string | null;
+  // Expressions pinned to the Watch panel, evaluated at every step of any algorithm.
+  watchExpressions: string[];
+  // The code line picked for run-to-cursor, in the listing it was picked from.
+  cursorLine: { language: CodeLanguage; line: number } | null;
+  // Quiz mode: stepping forward stops at key steps until the next one has been predicted.
+  quizMode: boolean;
+  // Predictions made since quiz mode was turned on, oldest first.
+  quizAnswers: QuizAnswer[];
+  // Furthest step of this run seen with quiz mode on. A question behind it has had its answer shown already,
+  // so it is no longer asked or scored.
+  quizFrontier: number;
+  // Which run of steps is on screen, bumped whenever steps land; answers only count for the run they were given in.
+  quizRun: number;
+  // The running lesson and the steps whose cards have been cleared; ends when the steps are replaced.
+  activeLesson: { id: string; cleared: number[] } | null;
+  // Manual mode: the learner compares and swaps cells themselves, checked against the steps.
+  manualMode: boolean;
   
   // View mode
-  viewMode: 'pictorial' | 'focus' | 'bars';
+  viewMode: ViewMode;
+  // Preferred code panel language; kept across algorithms and skipped where a listing is missing.
+  codeLanguage: CodeLanguage;
+  isCodeVisible: boolean;
+  shortcutBindings: ShortcutBindings;
   
   // Actions
   setCategory: (category: CategoryTab) => void;
@@ -36,8 +86,21 @@ interface DebuggerState {
   setArrayInput: (input: string) => void;
   setTargetInput: (input: string) => void;
   setArraySize: (size: number) => void;
-  generateRandomArray: () => void;
-  generateSteps: () => void;
+  setGraphInput: (input: string) => void;
+  setStartNodeInput: (input: string) => void;
+  loadSampleGraph: () => void;
+  setOperationsInput: (input: string) => void;
+  loadSampleOperations: () => void;
+  setParamsInput: (input: string) => void;
+  loadSampleParams: () => void;
+  setSandboxCode: (code: string) => void;
+  resetSandboxCode: () => void;
+  generateRandomArray: (preset?: ArrayPreset) => void;
+  // startIndex jumps to that step once the steps exist (clamped to the last one).
+  generateSteps: (startIndex?: number) => void;
+  openPermalink: (link: VisualizerLink) => void;
+  // Replays an exported trace (already validated by parseTraceFile) as if it had just been generated.
+  loadTrace: (trace: TraceFile, fileName: string) => void;
   
   // Playback controls
   play: () => void;
@@ -45,107 +108,492 @@ interface DebuggerState {
   nextStep: () => void;
   prevStep: () => void;
   goToStep: (index: number) => void;
+  // Debugger jumps (see stepNavigation); each stays put when there is nothing to reach.
+  stepOver: (direction: StepDirection) => void;
+  stepOut: (direction: StepDirection) => void;
+  runToCursor: (direction: StepDirection) => void;
   reset: () => void;
   setPlaybackSpeed: (speed: number) => void;
+  // Adds a breakpoint on that line of the current algorithm's listing, or removes the one already there.
+  toggleBreakpoint: (language: CodeLanguage, line: number) => void;
+  updateBreakpoint: (id: string, changes: Partial<Pick<Breakpoint, 'condition' | 'enabled'>>) => void;
+  removeBreakpoint: (id: string) => void;
+  clearBreakpoints: () => void;
+  addWatchExpression: (expression: string) => void;
+  removeWatchExpression: (index: number) => void;
+  // Picking the selected line again clears it.
+  setCursorLine: (language: CodeLanguage, line: number) => void;
+  // Turning quiz mode on or off starts a fresh score.
+  setQuizMode: (on: boolean) => void;
+  // Records the student's choice for the question on the current step.
+  answerQuiz: (choice: number) => void;
+  resetQuiz: () => void;
+  // Loads the lesson's algorithm, input and view, and holds stepping at each card.
+  startLesson: (id: string) => void;
+  // Lets stepping move past the card on the current step.
+  clearLessonCard: () => void;
+  exitLesson: () => void;
+  setManualMode: (on: boolean) => void;
   
   // View
-  setViewMode: (mode: 'pictorial' | 'focus' | 'bars') => void;
+  setViewMode: (mode: ViewMode) => void;
+  setCodeLanguage: (language: CodeLanguage) => void;
+  setCodeVisible: (visible: boolean) => void;
+  // Rebinding a key already in use swaps it with the action that had it.
+  setShortcutBinding: (action: ShortcutAction, key: string) => void;
+  resetShortcutBindings: () => void;
+
+  // Session
+  resetToDefaults: () => void;
 }
 
 const DEFAULT_ARRAY = '23,1,10,5,2,7,15';
 const DEFAULT_TARGET = '10';
+const DEFAULT_START_NODE = 'A';
+
+type SampleField = 'sampleGraph' | 'sampleOperations' | 'sampleParams';
+
+function getSample(algorithm: AlgorithmType, field: SampleField): string {
+  return getAlgorithm(algorithm)?.[field] ?? '';
+}
+
+function isSample(input: string, field: SampleField): boolean {
+  return input.trim() === '' || listAlgorithms().some((def) => def[field] === input);
+}
+
+// Everything saved across reloads. Steps are not: they are cheap to regenerate and may be large.
+type SessionField =
+  | 'category'
+  | 'algorithm'
+  | 'lastAlgorithmByCategory'
+  | 'arrayInput'
+  | 'targetInput'
+  | 'arraySize'
+  | 'graphInput'
+  | 'startNodeInput'
+  | 'operationsInput'
+  | 'paramsInput'
+  | 'sandboxCode'
+  | 'playbackSpeed'
+  | 'viewMode'
+  | 'codeLanguage'
+  | 'isCodeVisible'
+  | 'shortcutBindings'
+  | 'breakpoints'
+  | 'watchExpressions';
+
+type Session = Pick<DebuggerState, SessionField>;
 
-export const useDebuggerStore = create<DebuggerState>((set, get) => ({
+const DEFAULT_SESSION: Session = {
   category: 'sorting',
   algorithm: 'bubble-sort',
+  lastAlgorithmByCategory: {},
   arrayInput: DEFAULT_ARRAY,
   targetInput: DEFAULT_TARGET,
   arraySize: 7,
+  graphInput: '',
+  startNodeInput: DEFAULT_START_NODE,
+  operationsInput: '',
+  paramsInput: '',
+  sandboxCode: SANDBOX_TEMPLATE,
+  playbackSpeed: 1000,
+  viewMode: 'pictorial',
+  codeLanguage: 'pseudocode',
+  isCodeVisible: true,
+  shortcutBindings: DEFAULT_SHORTCUTS,
+  breakpoints: [],
+  watchExpressions: [],
+};
+
+const SESSION_STORAGE_KEY = 'dsa-debugger-session';
+// Bump when the saved shape changes, and add a migration from the previous version.
+const SESSION_VERSION = 1;
+
+type SavedSession = Record<string, unknown>;
+
+// MIGRATIONS[v] upgrades a session saved at version v to v + 1.
+const MIGRATIONS: Record<number, (session: SavedSession) => SavedSession> = {};
+
+function migrateSession(saved: unknown, version: number): SavedSession {
+  // A newer build's session, or one with no migration path, is dropped rather than misread.
+  if (version > SESSION_VERSION) return {};
+  let session = (saved ?? {}) as SavedSession;
+  for (let v = version; v < SESSION_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) return {};
+    session = migrate(session);
+  }
+  return session;
+}
+
+function isAlgorithmIn(id: unknown, category?: CategoryTab): id is AlgorithmType {
+  const definition = getAlgorithm(id as AlgorithmType);
+  return definition !== undefined && (category === undefined || definition.info.category === category);
+}
+
+function isSavedBreakpoint(value: unknown): value is Breakpoint {
+  const bp = value as Partial<Breakpoint> | null;
+  return (
+    typeof bp === 'object' && bp !== null &&
+    typeof bp.id === 'string' &&
+    isAlgorithmIn(bp.algorithm) &&
+    CODE_LANGUAGES.some((l) => l.id === bp.language) &&
+    Number.isInteger(bp.line) &&
+    typeof bp.condition === 'string' &&
+    typeof bp.enabled === 'boolean'
+  );
+}
+
+// Keeps only saved fields that still make sense: right type, registered algorithms, known modes.
+function sanitizeSession(saved: SavedSession): Partial<Session> {
+  const session: Partial<Session> = {};
+  for (const key of Object.keys(DEFAULT_SESSION) as SessionField[]) {
+    if (saved[key] !== null && typeof saved[key] === typeof DEFAULT_SESSION[key]) Object.assign(session, { [key]: saved[key] });
+  }
+
+  if (isAlgorithmIn(session.algorithm)) {
+    session.category = getAlgorithm(session.algorithm)!.info.category;
+  } else {
+    delete session.algorithm;
+    delete session.category;
+  }
+  if (session.lastAlgorithmByCategory) {
+    session.lastAlgorithmByCategory = Object.fromEntries(
+      Object.entries(session.lastAlgorithmByCategory).filter(([category, id]) => isAlgorithmIn(id, category as CategoryTab)),
+    );
+  }
+  if (session.viewMode && !VIEW_MODES.includes(session.viewMode)) delete session.viewMode;
+  if (session.codeLanguage && !CODE_LANGUAGES.some((l) => l.id === session.codeLanguage)) delete session.codeLanguage;
+  if (session.shortcutBindings) {
+    const saved = session.shortcutBindings;
+    session.shortcutBindings = { ...DEFAULT_SHORTCUTS };
+    for (const action of Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]) {
+      if (typeof saved[action] === 'string') session.shortcutBindings[action] = saved[action];
+    }
+  }
+  if (session.breakpoints) {
+    session.breakpoints = Array.isArray(session.breakpoints) ? session.breakpoints.filter(isSavedBreakpoint) : [];
+  }
+  if (session.watchExpressions) {
+    session.watchExpressions = Array.isArray(session.watchExpressions)
+      ? session.watchExpressions.filter((expression): expression is string => typeof expression === 'string')
+      : [];
+  }
+  return session;
+}
+
+// Bumped by every sandbox run and by anything that abandons one, so only the latest run's result lands.
+let sandboxRunId = 0;
+
+function abandonSandboxRun(): void {
+  sandboxRunId++;
+}
+
+function clampStep(steps: Step[], index: number): number {
+  return Math.max(0, Math.min(index, steps.length - 1));
+}
+
+// Bumped whenever fresh steps land, so quiz answers from an earlier run never match the new one.
+let quizRunId = 0;
+
+// Fresh steps: the quiz only asks about what lies beyond the step they open on.
+function landOn(steps: Step[], index: number): Pick<DebuggerState, 'currentStepIndex' | 'quizFrontier' | 'quizRun'> {
+  const currentStepIndex = clampStep(steps, index);
+  return { currentStepIndex, quizFrontier: currentStepIndex, quizRun: ++quizRunId };
+}
+
+// The furthest step a running lesson lets the learner reach: its first card not yet cleared.
+function lessonLimit({ activeLesson }: Pick<DebuggerState, 'activeLesson'>): number {
+  const lesson = activeLesson && getLesson(activeLesson.id);
+  return (lesson && lessonStop(lesson, activeLesson.cleared)) ?? Infinity;
+}
+
+// The furthest step quiz mode lets the learner reach: the first unanswered question from the frontier on.
+function quizLimit({ quizMode, quizAnswers, quizFrontier, quizRun, steps }: DebuggerState): number {
+  if (!quizMode) return Infinity;
+  for (let k = quizFrontier; k < steps.length - 1; k++) {
+    const question = quizQuestionAt(steps, k);
+    if (question && !findQuizAnswer(quizAnswers, quizRun, question)) return k;
+  }
+  return Infinity;
+}
+
+// Where a move toward `target` lands: every way of stepping stops at a locked lesson card or an unanswered question.
+function moveTo(state: DebuggerState, target: number): Pick<DebuggerState, 'currentStepIndex' | 'quizFrontier'> {
+  const currentStepIndex = Math.min(target, lessonLimit(state), quizLimit(state));
+  return { currentStepIndex, quizFrontier: state.quizMode ? Math.max(state.quizFrontier, currentStepIndex) : state.quizFrontier };
+}
+
+// Sample inputs follow the selected algorithm unless the user has edited them.
+function sampleInputsFor(algorithm: AlgorithmType, state: Pick<DebuggerState, 'graphInput' | 'operationsInput' | 'paramsInput'>) {
+  return {
+    graphInput: isSample(state.graphInput, 'sampleGraph') ? getSample(algorithm, 'sampleGraph') : state.graphInput,
+    operationsInput: isSample(state.operationsInput, 'sampleOperations') ? getSample(algorithm, 'sampleOperations') : state.operationsInput,
+    paramsInput: isSample(state.paramsInput, 'sampleParams') ? getSample(algorithm, 'sampleParams') : state.paramsInput,
+  };
+}
+
+export const useDebuggerStore = create<DebuggerState>()(persist((set, get) => ({
+  ...DEFAULT_SESSION,
+  sandboxRunCode: null,
+  sandboxRunning: false,
+  sandboxError: null,
+  pendingSandboxStep: null,
+  inputError: null,
   steps: [],
   currentStepIndex: 0,
   isPlaying: false,
-  playbackSpeed: 1000,
-  viewMode: 'pictorial',
+  breakpointHitId: null,
+  cursorLine: null,
+  importedTrace: null,
+  quizMode: false,
+  quizAnswers: [],
+  quizFrontier: 0,
+  quizRun: 0,
+  activeLesson: null,
+  manualMode: false,
 
   setCategory: (category) => {
-    const defaultAlgo = category === 'sorting' 
-      ? SORTING_ALGORITHMS[0].id 
-      : SEARCHING_ALGORITHMS[0].id;
-    set({ category, algorithm: defaultAlgo, steps: [], currentStepIndex: 0, isPlaying: false });
+    const defaultAlgo = get().lastAlgorithmByCategory[category] ?? getAlgorithmsByCategory(category)[0].info.id;
+    abandonSandboxRun();
+    set({ category, algorithm: defaultAlgo, sandboxRunning: false, pendingSandboxStep: null, inputError: null, cursorLine: null, steps: [], currentStepIndex: 0, isPlaying: false, activeLesson: null, ...sampleInputsFor(defaultAlgo, get()) });
   },
 
   setAlgorithm: (algorithm) => {
-    set({ algorithm, steps: [], currentStepIndex: 0, isPlaying: false });
+    const { category, lastAlgorithmByCategory } = get();
+    abandonSandboxRun();
+    set({
+      algorithm,
+      lastAlgorithmByCategory: { ...lastAlgorithmByCategory, [category]: algorithm },
+      sandboxRunning: false,
+      pendingSandboxStep: null,
+      inputError: null,
+      cursorLine: null,
+      steps: [],
+      currentStepIndex: 0,
+      isPlaying: false,
+      activeLesson: null,
+      ...sampleInputsFor(algorithm, get()),
+    });
   },
 
   setArrayInput: (input) => {
-    set({ arrayInput: input });
+    set({ arrayInput: input, inputError: null });
   },
 
   setTargetInput: (input) => {
-    set({ targetInput: input });
+    set({ targetInput: input, inputError: null });
   },
 
   setArraySize: (size) => {
     set({ arraySize: size });
   },
 
-  generateRandomArray: () => {
-    const size = get().arraySize;
-    const arr = Array.from({ length: size }, () => Math.floor(Math.random() * 99) + 1);
-    set({ arrayInput: arr.join(','), steps: [], currentStepIndex: 0, isPlaying: false });
-  },
-
-  generateSteps: () => {
-    const { algorithm, arrayInput, targetInput } = get();
-    const arr = arrayInput.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n));
-    
-    if (arr.length === 0) return;
-
-    let steps: Step[] = [];
-    
-    switch (algorithm) {
-      case 'bubble-sort':
-        steps = generateBubbleSortSteps(arr);
-        break;
-      case 'selection-sort':
-        steps = generateSelectionSortSteps(arr);
-        break;
-      case 'insertion-sort':
-        steps = generateInsertionSortSteps(arr);
-        break;
-      case 'merge-sort':
-        steps = generateMergeSortSteps(arr);
-        break;
-      case 'quick-sort':
-        steps = generateQuickSortSteps(arr);
-        break;
-      case 'heap-sort':
-        steps = generateHeapSortSteps(arr);
-        break;
-      case 'linear-search':
-        const linearTarget = parseInt(targetInput, 10) || arr[0];
-        steps = generateLinearSearchSteps(arr, linearTarget);
-        break;
-      case 'binary-search':
-        const binaryTarget = parseInt(targetInput, 10) || arr[0];
-        steps = generateBinarySearchSteps(arr, binaryTarget);
-        break;
-      case 'jump-search':
-        const jumpTarget = parseInt(targetInput, 10) || arr[0];
-        steps = generateJumpSearchSteps(arr, jumpTarget);
-        break;
-      case 'interpolation-search':
-        const interpTarget = parseInt(targetInput, 10) || arr[0];
-        steps = generateInterpolationSearchSteps(arr, interpTarget);
-        break;
+  setGraphInput: (input) => {
+    set({ graphInput: input, inputError: null });
+  },
+
+  setStartNodeInput: (input) => {
+    set({ startNodeInput: input });
+  },
+
+  loadSampleGraph: () => {
+    set({
+      graphInput: getSample(get().algorithm, 'sampleGraph'),
+      startNodeInput: DEFAULT_START_NODE,
+      inputError: null,
+      steps: [],
+      currentStepIndex: 0,
+      isPlaying: false,
+    });
+  },
+
+  setOperationsInput: (input) => {
+    set({ operationsInput: input });
+  },
+
+  loadSampleOperations: () => {
+    set({
+      operationsInput: getSample(get().algorithm, 'sampleOperations'),
+      steps: [],
+      currentStepIndex: 0,
+      isPlaying: false,
+    });
+  },
+
+  setParamsInput: (input) => {
+    set({ paramsInput: input, inputError: null });
+  },
+
+  loadSampleParams: () => {
+    set({
+      paramsInput: getSample(get().algorithm, 'sampleParams'),
+      inputError: null,
+      steps: [],
+      currentStepIndex: 0,
+      isPlaying: false,
+    });
+  },
+
+  setSandboxCode: (code) => {
+    set({ sandboxCode: code, pendingSandboxStep: null });
+  },
+
+  resetSandboxCode: () => {
+    set({ sandboxCode: SANDBOX_TEMPLATE, sandboxError: null, pendingSandboxStep: null });
+  },
+
+  generateRandomArray: (preset = 'random') => {
+    const arr = generatePresetArray(preset, get().arraySize);
+    set({ arrayInput: arr.join(','), inputError: null, steps: [], currentStepIndex: 0, isPlaying: false, activeLesson: null });
+  },
+
+  generateSteps: (startIndex = 0) => {
+    const { algorithm, arrayInput, targetInput, graphInput, startNodeInput, operationsInput, paramsInput, sandboxRunning } = get();
+    const definition = getAlgorithm(algorithm);
+    if (!definition || sandboxRunning) return;
+    set({ breakpointHitId: null, activeLesson: null });
+
+    if (definition.requirements.inputKind === 'graph') {
+      const graph = parseGraphInput(graphInput);
+      if (graph.nodes.length === 0) return;
+
+      const negative = definition.requirements.nonNegativeWeights ? graph.edges.find((edge) => edge.weight < 0) : undefined;
+      if (negative) {
+        set({
+          inputError: `${definition.info.name} needs non-negative weights, but ${formatEdge(graph, negative.id)} has weight ${negative.weight}`,
+          steps: [],
+          currentStepIndex: 0,
+          isPlaying: false,
+        });
+        return;
+      }
+
+      const undirected = definition.requirements.directedEdges ? graph.edges.find((edge) => !edge.directed) : undefined;
+      if (undirected) {
+        set({
+          inputError: `${definition.info.name} needs directed edges (A>B), but ${formatEdge(graph, undirected.id)} has no direction`,
+          steps: [],
+          currentStepIndex: 0,
+          isPlaying: false,
+        });
+        return;
+      }
+
+      const steps: Step[] = definition.generateSteps({ array: [], target: 0, graph, startNode: startNodeInput });
+      set({ steps, ...landOn(steps, startIndex), isPlaying: false, importedTrace: null, inputError: null });
+      return;
     }
 
-    set({ steps, currentStepIndex: 0, isPlaying: false });
+    if (definition.requirements.inputKind === 'operations') {
+      const operations = parseOperations(operationsInput);
+      if (operations.length === 0) return;
+
+      const steps: Step[] = definition.generateSteps({ array: [], target: 0, operations });
+      set({ steps, ...landOn(steps, startIndex), isPlaying: false, importedTrace: null });
+      return;
+    }
+
+    if (definition.requirements.inputKind === 'params') {
+      const params = parseParams(paramsInput);
+      if (Object.keys(params).length === 0) return;
+
+      const paramsError = definition.validateParams?.(params) ?? null;
+      if (paramsError) {
+        set({ inputError: paramsError, steps: [], currentStepIndex: 0, isPlaying: false });
+        return;
+      }
+
+      const steps: Step[] = definition.generateSteps({ array: [], target: 0, params });
+      set({ steps, ...landOn(steps, startIndex), isPlaying: false, importedTrace: null, inputError: null });
+      return;
+    }
+
+    const { values: arr, error } = parseArrayInput(arrayInput, { integersOnly: definition.requirements.integersOnly });
+    if (error) {
+      set({ inputError: error, steps: [], currentStepIndex: 0, isPlaying: false });
+      return;
+    }
+
+    // An empty target searches for the first element.
+    const parsedTarget = parseNumberToken(targetInput.trim());
+    if (definition.requirements.needsTarget && targetInput.trim() !== '' && parsedTarget === null) {
+      set({ inputError: `Target must be a number, got "${targetInput.trim()}"`, steps: [], currentStepIndex: 0, isPlaying: false });
+      return;
+    }
+    const target = definition.requirements.needsTarget ? (parsedTarget ?? arr[0]) : arr[0];
+
+    if (definition.requirements.inputKind === 'code') {
+      const { sandboxCode, pendingSandboxStep } = get();
+      const stepIndex = pendingSandboxStep ?? startIndex;
+      const runId = ++sandboxRunId;
+      set({ sandboxRunning: true, sandboxError: null, pendingSandboxStep: null, isPlaying: false });
+      runSandbox(sandboxCode, arr, target).then(({ steps, error }) => {
+        // Drop the result if a newer run started, or the user moved on, while the worker ran.
+        if (runId !== sandboxRunId) return;
+        set({ steps, ...landOn(steps, stepIndex), sandboxRunning: false, sandboxError: error, sandboxRunCode: sandboxCode, importedTrace: null });
+      });
+      return;
+    }
+
+    const steps: Step[] = definition.generateSteps({ array: arr, target });
+
+    set({ steps, ...landOn(steps, startIndex), isPlaying: false, importedTrace: null });
+  },
+
+  openPermalink: (link) => {
+    const definition = getAlgorithm(link.algorithm);
+    if (!definition) return;
+    const isSandbox = definition.requirements.inputKind === 'code';
+    abandonSandboxRun();
+    set({
+      category: definition.info.category,
+      algorithm: link.algorithm,
+      lastAlgorithmByCategory: { ...get().lastAlgorithmByCategory, [definition.info.category]: link.algorithm },
+      sandboxRunning: false,
+      pendingSandboxStep: isSandbox ? link.step : null,
+      inputError: null,
+      steps: [],
+      currentStepIndex: 0,
+      isPlaying: false,
+      activeLesson: null,
+      ...sampleInputsFor(link.algorithm, get()),
+      ...link.inputs,
+      ...(link.viewMode ? { viewMode: link.viewMode } : {}),
+    });
+    // A link made before generating only fills in the inputs; code from a link waits for the user to run it.
+    if (link.step !== null && !isSandbox) get().generateSteps(link.step);
+  },
+
+  loadTrace: (trace, fileName) => {
+    const definition = getAlgorithm(trace.algorithm);
+    if (!definition) return;
+    const isSandbox = definition.requirements.inputKind === 'code';
+    abandonSandboxRun();
+    set({
+      category: definition.info.category,
+      algorithm: trace.algorithm,
+      lastAlgorithmByCategory: { ...get().lastAlgorithmByCategory, [definition.info.category]: trace.algorithm },
+      sandboxRunning: false,
+      sandboxError: null,
+      pendingSandboxStep: null,
+      inputError: null,
+      ...sampleInputsFor(trace.algorithm, get()),
+      ...trace.inputs,
+      // The sandbox highlights lines of the code that produced the trace.
+      sandboxRunCode: isSandbox ? trace.inputs.sandboxCode ?? null : null,
+      steps: trace.steps,
+      ...landOn(trace.steps, trace.currentStep),
+      isPlaying: false,
+      breakpointHitId: null,
+      cursorLine: null,
+      importedTrace: fileName,
+      activeLesson: null,
+    });
   },
 
   play: () => {
-    set({ isPlaying: true });
+    set({ isPlaying: true, breakpointHitId: null });
   },
 
   pause: () => {
@@ -153,9 +601,16 @@ export const useDebuggerStore = create<DebuggerState>((set, get) => ({
   },
 
   nextStep: () => {
-    const { currentStepIndex, steps } = get();
+    const { currentStepIndex, steps, isPlaying, breakpoints, algorithm } = get();
+    const next = moveTo(get(), currentStepIndex + 1);
+    if (next.currentStepIndex <= currentStepIndex) {
+      set({ isPlaying: false });
+      return;
+    }
     if (currentStepIndex < steps.length - 1) {
-      set({ currentStepIndex: currentStepIndex + 1 });
+      const definition = getAlgorithm(algorithm);
+      const hit = isPlaying && definition ? findHitBreakpoint(breakpoints, definition, steps[currentStepIndex + 1]) : undefined;
+      set({ ...next, breakpointHitId: hit?.id ?? null, ...(hit ? { isPlaying: false } : {}) });
     } else {
       set({ isPlaying: false });
     }
@@ -164,26 +619,159 @@ export const useDebuggerStore = create<DebuggerState>((set, get) => ({
   prevStep: () => {
     const { currentStepIndex } = get();
     if (currentStepIndex > 0) {
-      set({ currentStepIndex: currentStepIndex - 1 });
+      set({ currentStepIndex: currentStepIndex - 1, breakpointHitId: null });
     }
   },
 
   goToStep: (index) => {
     const { steps } = get();
     if (index >= 0 && index < steps.length) {
-      set({ currentStepIndex: index });
+      set({ ...moveTo(get(), index), breakpointHitId: null });
     }
   },
 
+  stepOver: (direction) => {
+    const { steps, currentStepIndex } = get();
+    const target = stepOverTarget(steps, currentStepIndex, direction);
+    if (target !== null) set({ ...moveTo(get(), target), isPlaying: false, breakpointHitId: null });
+  },
+
+  stepOut: (direction) => {
+    const { steps, currentStepIndex } = get();
+    const target = stepOutTarget(steps, currentStepIndex, direction);
+    if (target !== null) set({ ...moveTo(get(), target), isPlaying: false, breakpointHitId: null });
+  },
+
+  runToCursor: (direction) => {
+    const { steps, currentStepIndex, cursorLine, algorithm } = get();
+    const definition = getAlgorithm(algorithm);
+    if (!cursorLine || !definition) return;
+    const target = lineTarget(steps, currentStepIndex, direction, cursorLine.line, (step) => stepLine(definition, cursorLine.language, step));
+    if (target !== null) set({ ...moveTo(get(), target), isPlaying: false, breakpointHitId: null });
+  },
+
   reset: () => {
-    set({ currentStepIndex: 0, isPlaying: false });
+    set({ currentStepIndex: 0, isPlaying: false, breakpointHitId: null });
   },
 
   setPlaybackSpeed: (speed) => {
     set({ playbackSpeed: speed });
   },
 
+  toggleBreakpoint: (language, line) => {
+    const { algorithm, breakpoints } = get();
+    const existing = breakpoints.find((bp) => bp.algorithm === algorithm && bp.language === language && bp.line === line);
+    set({
+      breakpoints: existing
+        ? breakpoints.filter((bp) => bp !== existing)
+        : [...breakpoints, { id: createBreakpointId(), algorithm, language, line, condition: '', enabled: true }],
+    });
+  },
+
+  updateBreakpoint: (id, changes) => {
+    set({ breakpoints: get().breakpoints.map((bp) => (bp.id === id ? { ...bp, ...changes } : bp)) });
+  },
+
+  removeBreakpoint: (id) => {
+    set({ breakpoints: get().breakpoints.filter((bp) => bp.id !== id) });
+  },
+
+  clearBreakpoints: () => {
+    const { algorithm, breakpoints } = get();
+    set({ breakpoints: breakpoints.filter((bp) => bp.algorithm !== algorithm), breakpointHitId: null });
+  },
+
+  addWatchExpression: (expression) => {
+    const trimmed = expression.trim();
+    const { watchExpressions } = get();
+    if (trimmed === '' || watchExpressions.includes(trimmed)) return;
+    set({ watchExpressions: [...watchExpressions, trimmed] });
+  },
+
+  removeWatchExpression: (index) => {
+    set({ watchExpressions: get().watchExpressions.filter((_, i) => i !== index) });
+  },
+
+  setCursorLine: (language, line) => {
+    const { cursorLine } = get();
+    set({ cursorLine: cursorLine?.language === language && cursorLine.line === line ? null : { language, line } });
+  },
+
+  setQuizMode: (on) => {
+    set({ quizMode: on, quizAnswers: [], quizFrontier: get().currentStepIndex, isPlaying: false });
+  },
+
+  answerQuiz: (choice) => {
+    const { steps, currentStepIndex, quizAnswers, quizFrontier, quizRun } = get();
+    const question = quizQuestionAt(steps, currentStepIndex);
+    if (!question || question.stepIndex < quizFrontier || findQuizAnswer(quizAnswers, quizRun, question)) return;
+    const { stepIndex, prompt, choices, answer } = question;
+    set({ quizAnswers: [...quizAnswers, { run: quizRun, stepIndex, label: steps[stepIndex + 1].label, prompt, choices, answer, chosen: choice }] });
+  },
+
+  resetQuiz: () => {
+    set({ quizAnswers: [] });
+  },
+
+  startLesson: (id) => {
+    const lesson = getLesson(id);
+    if (!lesson) return;
+    get().openPermalink({ algorithm: lesson.algorithm, inputs: lesson.inputs, step: 0, viewMode: lesson.viewMode });
+    if (get().steps.length === 0) return;
+    set({ activeLesson: { id, cleared: [] }, quizMode: false, quizAnswers: [], cursorLine: null });
+  },
+
+  clearLessonCard: () => {
+    const { activeLesson, currentStepIndex } = get();
+    if (!activeLesson || activeLesson.cleared.includes(currentStepIndex)) return;
+    set({ activeLesson: { ...activeLesson, cleared: [...activeLesson.cleared, currentStepIndex] } });
+  },
+
+  exitLesson: () => {
+    set({ activeLesson: null });
+  },
+
+  setManualMode: (on) => {
+    set({ manualMode: on, isPlaying: false });
+  },
+
   setViewMode: (mode) => {
     set({ viewMode: mode });
   },
+
+  setCodeLanguage: (language) => {
+    set({ codeLanguage: language });
+  },
+
+  setCodeVisible: (visible) => {
+    set({ isCodeVisible: visible });
+  },
+
+  setShortcutBinding: (action, key) => {
+    const { shortcutBindings } = get();
+    const holder = (Object.keys(shortcutBindings) as ShortcutAction[]).find((a) => a !== action && shortcutBindings[a] === key);
+    set({
+      shortcutBindings: {
+        ...shortcutBindings,
+        ...(holder ? { [holder]: shortcutBindings[action] } : {}),
+        [action]: key,
+      },
+    });
+  },
+
+  resetShortcutBindings: () => {
+    set({ shortcutBindings: DEFAULT_SHORTCUTS });
+  },
+
+  resetToDefaults: () => {
+    abandonSandboxRun();
+    set({ ...DEFAULT_SESSION, sandboxRunCode: null, sandboxRunning: false, sandboxError: null, pendingSandboxStep: null, inputError: null, steps: [], currentStepIndex: 0, isPlaying: false, breakpointHitId: null, cursorLine: null, importedTrace: null, quizMode: false, quizAnswers: [], quizFrontier: 0, activeLesson: null, manualMode: false });
+  },
+}), {
+  name: SESSION_STORAGE_KEY,
+  version: SESSION_VERSION,
+  partialize: (state): Session =>
+    Object.fromEntries((Object.keys(DEFAULT_SESSION) as SessionField[]).map((key) => [key, state[key]])) as Session,
+  migrate: (saved, version) => migrateSession(saved, version) as unknown as DebuggerState,
+  merge: (saved, current) => ({ ...current, ...sanitizeSession((saved ?? {}) as SavedSession) }),
 }));